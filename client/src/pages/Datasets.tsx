@@ -2,21 +2,32 @@ import { trpc } from "@/lib/trpc";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
 import {
-  Database, RefreshCw, Cog, Loader2, ChevronDown, ChevronUp,
+  Database, RefreshCw, Cog, Loader2, ChevronDown, ChevronUp, Zap, Search, History, AlertTriangle,
 } from "lucide-react";
 import { useState } from "react";
 
 export default function Datasets() {
   const { data: datasets, isLoading, refetch } = trpc.datasets.list.useQuery();
   const syncMutation = trpc.datasets.sync.useMutation({
-    onSuccess: () => {
-      toast.success("Datasets sincronizados com sucesso!");
+    onSuccess: (data) => {
+      toast.success(
+        `Datasets sincronizados: ${data.changed.length} recursos alterados` +
+        (data.enqueued > 0 ? `, ${data.enqueued} enfileirados` : "")
+      );
       refetch();
     },
     onError: (e) => toast.error(`Erro ao sincronizar: ${e.message}`),
   });
+  const discoverMutation = trpc.datasets.discover.useMutation({
+    onSuccess: (data) => {
+      toast.success(`${data.discovered} datasets encontrados, ${data.added.length} novos`);
+      refetch();
+    },
+    onError: (e) => toast.error(`Erro na descoberta: ${e.message}`),
+  });
 
   return (
     <div className="space-y-6">
@@ -26,21 +37,43 @@ export default function Datasets() {
             <span className="text-gradient-orange">Datasets STJ</span>
           </h1>
           <p className="text-sm text-muted-foreground mt-1">
-            Datasets do portal de dados abertos do STJ com recursos JSON
+            Datasets do portal de dados abertos do STJ com recursos JSON, CSV, XML e ZIP
           </p>
         </div>
-        <Button
-          onClick={() => syncMutation.mutate()}
-          disabled={syncMutation.isPending}
-          className="gradient-orange text-white"
-        >
-          {syncMutation.isPending ? (
-            <Loader2 className="h-4 w-4 animate-spin mr-2" />
-          ) : (
-            <RefreshCw className="h-4 w-4 mr-2" />
-          )}
-          Sincronizar
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => discoverMutation.mutate()}
+            disabled={discoverMutation.isPending}
+          >
+            {discoverMutation.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <Search className="h-4 w-4 mr-2" />
+            )}
+            Descobrir
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => syncMutation.mutate({ processChanged: true })}
+            disabled={syncMutation.isPending}
+          >
+            <Zap className="h-4 w-4 mr-2" />
+            Sincronizar e Processar Alterados
+          </Button>
+          <Button
+            onClick={() => syncMutation.mutate()}
+            disabled={syncMutation.isPending}
+            className="gradient-orange text-white"
+          >
+            {syncMutation.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-2" />
+            )}
+            Sincronizar
+          </Button>
+        </div>
       </div>
 
       {isLoading ? (
@@ -59,7 +92,7 @@ export default function Datasets() {
       ) : (
         <div className="grid gap-4">
           {datasets.map((ds: any) => (
-            <DatasetCard key={ds.slug || ds.id} dataset={ds} />
+            <DatasetCard key={ds.slug || ds.id} dataset={ds} onRefresh={refetch} />
           ))}
         </div>
       )}
@@ -67,12 +100,19 @@ export default function Datasets() {
   );
 }
 
-function DatasetCard({ dataset }: { dataset: any }) {
+function DatasetCard({ dataset, onRefresh }: { dataset: any; onRefresh: () => void }) {
   const [expanded, setExpanded] = useState(false);
   const { data: details } = trpc.datasets.getBySlug.useQuery(
     { slug: dataset.slug },
     { enabled: expanded }
   );
+  const enableMutation = trpc.datasets.setEnabled.useMutation({
+    onSuccess: (data) => {
+      toast.success(data.enabled ? "Dataset ativado" : "Dataset desativado");
+      onRefresh();
+    },
+    onError: (e) => toast.error(`Erro: ${e.message}`),
+  });
 
   return (
     <Card className="glass-card border-border/50">
@@ -88,6 +128,16 @@ function DatasetCard({ dataset }: { dataset: any }) {
                 {dataset.description}
               </p>
             )}
+            {dataset.lastError && (
+              <p className="text-xs text-destructive flex items-center gap-1">
+                <AlertTriangle className="h-3 w-3 shrink-0" />
+                <span className="truncate" title={dataset.lastError}>
+                  Falha na última sincronização
+                  {dataset.lastErrorAt && ` (${new Date(dataset.lastErrorAt).toLocaleString("pt-BR")})`}
+                  : {dataset.lastError}
+                </span>
+              </p>
+            )}
           </div>
           <div className="flex items-center gap-2 shrink-0 ml-4">
             {dataset.category && (
@@ -95,6 +145,12 @@ function DatasetCard({ dataset }: { dataset: any }) {
                 {dataset.category}
               </Badge>
             )}
+            <Switch
+              checked={dataset.enabled ?? true}
+              disabled={dataset.id == null || enableMutation.isPending}
+              onCheckedChange={(enabled) => enableMutation.mutate({ slug: dataset.slug, enabled })}
+              title={dataset.enabled === false ? "Desativado na sincronização" : "Incluído na sincronização"}
+            />
             <Button
               variant="ghost"
               size="sm"
@@ -140,6 +196,12 @@ function ResourceRow({ resource }: { resource: any }) {
     },
     onError: (e) => toast.error(`Erro: ${e.message}`),
   });
+  const reprocessMutation = trpc.resources.reprocessFromSnapshot.useMutation({
+    onSuccess: (data) => {
+      toast.success(`Reprocessamento do snapshot enfileirado (job ${data.jobId})`);
+    },
+    onError: (e) => toast.error(`Erro: ${e.message}`),
+  });
 
   const statusColor: Record<string, string> = {
     pending: "bg-muted text-muted-foreground",
@@ -178,6 +240,23 @@ function ResourceRow({ resource }: { resource: any }) {
         )}
         <span className="ml-1 text-xs">Processar</span>
       </Button>
+      {resource.snapshotKey && (
+        <Button
+          size="sm"
+          variant="ghost"
+          disabled={reprocessMutation.isPending}
+          onClick={() => reprocessMutation.mutate({ resourceId: resource.resourceId })}
+          className="shrink-0"
+          title={`Snapshot: ${resource.snapshotKey}`}
+        >
+          {reprocessMutation.isPending ? (
+            <Loader2 className="h-3 w-3 animate-spin" />
+          ) : (
+            <History className="h-3 w-3" />
+          )}
+          <span className="ml-1 text-xs">Reprocessar Snapshot</span>
+        </Button>
+      )}
     </div>
   );
 }
@@ -2,49 +2,112 @@ import { trpc } from "@/lib/trpc";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
 import { toast } from "sonner";
-import { Upload, FileText, Cog, Loader2 } from "lucide-react";
+import { Upload, FileText, Cog, Loader2, Trash2, RefreshCw } from "lucide-react";
 import { useRef, useState } from "react";
 
-export default function Documents() {
-  const { data: docs, isLoading, refetch } = trpc.documents.list.useQuery();
-  const uploadMutation = trpc.documents.upload.useMutation({
-    onSuccess: () => {
-      toast.success("Documento carregado com sucesso!");
-      refetch();
-    },
-    onError: (e) => toast.error(`Erro: ${e.message}`),
+const ACCEPTED_FILES = ".pdf,.docx,.doc,.txt,.json,.rtf,.odt,.html,.htm,.eml,.zip";
+
+/** Attempts per part before the upload is reported as failed */
+const UPLOAD_ATTEMPTS = 3;
+
+/** Parts planned by documents.createUpload */
+interface UploadPlan {
+  uploadId: string;
+  partSize: number;
+  partCount: number;
+}
+
+/** documents.createUploadPart: a fresh single-use URL, or null when the part is already stored */
+type SignPart = (input: { uploadId: string; part: number }) => Promise<{ uploaded: boolean; signedUrl: string | null }>;
+
+/** PUT a blob to a pre-signed storage URL, reporting the bytes sent */
+function putBlob(url: string, blob: Blob, onProgress: (loaded: number) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", url);
+    xhr.setRequestHeader("Content-Type", blob.type || "application/octet-stream");
+    xhr.upload.onprogress = (e) => onProgress(e.loaded);
+    xhr.onload = () => (xhr.status < 300 ? resolve() : reject(new Error(`HTTP ${xhr.status}`)));
+    xhr.onerror = () => reject(new Error("Falha de rede"));
+    xhr.send(blob);
   });
+}
+
+/**
+ * Upload a file part by part, reporting progress (0–100). Signed URLs are single-use,
+ * so every attempt signs the part again; parts already stored are skipped, so a
+ * retry resumes from the last confirmed part instead of the first byte.
+ */
+async function transferFile(
+  plan: UploadPlan,
+  file: File,
+  signPart: SignPart,
+  onProgress: (percent: number) => void
+): Promise<void> {
+  const report = (sent: number) => onProgress(Math.round((sent / file.size) * 100));
+  for (let part = 0; part < plan.partCount; part++) {
+    const start = part * plan.partSize;
+    const blob = file.slice(start, start + plan.partSize, file.type || "application/octet-stream");
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const { uploaded, signedUrl } = await signPart({ uploadId: plan.uploadId, part });
+        if (!uploaded && signedUrl) await putBlob(signedUrl, blob, loaded => report(start + loaded));
+        report(start + blob.size);
+        break;
+      } catch (err) {
+        if (attempt >= UPLOAD_ATTEMPTS) throw err;
+        await new Promise(r => setTimeout(r, 1000 * 2 ** attempt));
+      }
+    }
+  }
+}
+
+export default function Documents() {
+  const [processoFilter, setProcessoFilter] = useState("");
+  const { data: docs, isLoading, refetch } = trpc.documents.list.useQuery(
+    processoFilter.trim() ? { processo: processoFilter.trim() } : undefined
+  );
+  const createUpload = trpc.documents.createUpload.useMutation();
+  const createUploadPart = trpc.documents.createUploadPart.useMutation();
+  const completeUpload = trpc.documents.completeUpload.useMutation();
   const fileRef = useRef<HTMLInputElement>(null);
   const [uploading, setUploading] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [extractEntities, setExtractEntities] = useState(true);
 
   const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    const maxSize = 15 * 1024 * 1024; // 15MB
-    if (file.size > maxSize) {
-      toast.error("Ficheiro demasiado grande. Máximo: 15MB");
-      return;
-    }
-
     setUploading(true);
+    setProgress(0);
     try {
-      const reader = new FileReader();
-      reader.onload = async () => {
-        const base64 = (reader.result as string).split(",")[1];
-        await uploadMutation.mutateAsync({
-          filename: file.name,
-          mimeType: file.type || "application/octet-stream",
-          base64Data: base64,
-        });
-        setUploading(false);
-      };
-      reader.readAsDataURL(file);
-    } catch {
+      const mimeType = file.type || "application/octet-stream";
+      const plan = await createUpload.mutateAsync({
+        filename: file.name,
+        mimeType,
+        fileSize: file.size,
+      });
+      await transferFile(plan, file, createUploadPart.mutateAsync, setProgress);
+      const { jobId } = await completeUpload.mutateAsync({
+        uploadId: plan.uploadId,
+        partCount: plan.partCount,
+        filename: file.name,
+        mimeType,
+        extractEntities,
+      });
+      toast.success(jobId ? "Documento carregado e enfileirado para processamento!" : "Documento carregado com sucesso!");
+      refetch();
+    } catch (err: any) {
+      toast.error(`Erro: ${err.message}`);
+    } finally {
       setUploading(false);
+      if (fileRef.current) fileRef.current.value = "";
     }
-    if (fileRef.current) fileRef.current.value = "";
   };
 
   return (
@@ -55,14 +118,18 @@ export default function Documents() {
             <span className="text-gradient-orange">Documentos</span>
           </h1>
           <p className="text-sm text-muted-foreground mt-1">
-            Carregue documentos PDF, DOCX ou TXT para gerar embeddings e integrar ao GraphRAG
+            Carregue documentos (PDF, DOCX, ODT, RTF, HTML, EML) ou arquivos ZIP para gerar embeddings e integrar ao GraphRAG
           </p>
         </div>
-        <div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Switch checked={extractEntities} onCheckedChange={setExtractEntities} disabled={uploading} />
+            Extrair entidades (grafo)
+          </label>
           <input
             ref={fileRef}
             type="file"
-            accept=".pdf,.docx,.doc,.txt,.json"
+            accept={ACCEPTED_FILES}
             className="hidden"
             onChange={handleUpload}
           />
@@ -76,11 +143,18 @@ export default function Documents() {
             ) : (
               <Upload className="h-4 w-4 mr-2" />
             )}
-            Carregar Documento
+            {uploading && progress > 0 ? `A carregar… ${progress}%` : "Carregar Documento"}
           </Button>
         </div>
       </div>
 
+      <Input
+        placeholder="Filtrar por processo (ex.: REsp 1.234.567, 0001234-13.2020.8.26.0100)"
+        value={processoFilter}
+        onChange={(e) => setProcessoFilter(e.target.value)}
+        className="bg-accent/30 border-border/50 max-w-md"
+      />
+
       {isLoading ? (
         <div className="flex items-center justify-center h-64">
           <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -105,7 +179,45 @@ export default function Documents() {
   );
 }
 
+const CHUNKING_LABELS = {
+  default: "Chunking padrão",
+  sentence: "Por sentenças",
+  legal: "Estrutura jurídica",
+} as const;
+
+/** Quality gate checks (server/text-quality.ts) */
+const QUALITY_REASON_LABELS: Record<string, string> = {
+  encoding: "codificação",
+  language: "idioma",
+  alphabetic_ratio: "poucas letras",
+  boilerplate: "carimbos/texto padrão",
+  too_short: "curto demais",
+};
+
+function reasonLabels(reasons: string[]): string {
+  return reasons.map(r => QUALITY_REASON_LABELS[r] || r).join(", ");
+}
+
+function QuarantineList({ documentId }: { documentId: number }) {
+  const { data: chunks, isLoading } = trpc.documents.quarantine.useQuery({ documentId });
+  if (isLoading) return <Loader2 className="h-3 w-3 animate-spin mt-1" />;
+  return (
+    <div className="mt-2 space-y-1">
+      {chunks?.map((chunk) => (
+        <div key={chunk.id} className="rounded bg-accent/20 p-2 text-[10px]">
+          <p className="text-orange-400">
+            #{chunk.chunkIndex} · {reasonLabels(chunk.reasons as string[])} · score {chunk.score.toFixed(2)}
+          </p>
+          <p className="text-muted-foreground line-clamp-2">{chunk.text}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function DocumentRow({ doc, onRefresh }: { doc: any; onRefresh: () => void }) {
+  const [chunking, setChunking] = useState<keyof typeof CHUNKING_LABELS>("default");
+  const [extractEntities, setExtractEntities] = useState<boolean>(doc.extractEntities ?? true);
   const processMutation = trpc.documents.process.useMutation({
     onSuccess: (data) => {
       toast.success(`Job ${data.jobId} enfileirado (${data.status})`);
@@ -113,6 +225,45 @@ function DocumentRow({ doc, onRefresh }: { doc: any; onRefresh: () => void }) {
     },
     onError: (e) => toast.error(`Erro: ${e.message}`),
   });
+  const deleteMutation = trpc.documents.delete.useMutation({
+    onSuccess: (data) => {
+      toast.success(`Documento eliminado (${data.documents} documentos, ${data.graphNodes} entidades removidas)`);
+      onRefresh();
+    },
+    onError: (e) => toast.error(`Erro: ${e.message}`),
+  });
+  const createUpload = trpc.documents.createUpload.useMutation();
+  const createUploadPart = trpc.documents.createUploadPart.useMutation();
+  const replaceMutation = trpc.documents.replace.useMutation();
+  const replaceRef = useRef<HTMLInputElement>(null);
+  const [replacing, setReplacing] = useState(false);
+  const [showQuarantine, setShowQuarantine] = useState(false);
+
+  const handleReplace = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setReplacing(true);
+    try {
+      const mimeType = file.type || "application/octet-stream";
+      const plan = await createUpload.mutateAsync({ filename: file.name, mimeType, fileSize: file.size });
+      await transferFile(plan, file, createUploadPart.mutateAsync, () => {});
+      const { version } = await replaceMutation.mutateAsync({
+        documentId: doc.id,
+        uploadId: plan.uploadId,
+        partCount: plan.partCount,
+        filename: file.name,
+        mimeType,
+        chunking: chunking === "default" ? undefined : chunking,
+      });
+      toast.success(`Versão ${version} carregada e enfileirada para processamento`);
+      onRefresh();
+    } catch (err: any) {
+      toast.error(`Erro: ${err.message}`);
+    } finally {
+      setReplacing(false);
+      if (replaceRef.current) replaceRef.current.value = "";
+    }
+  };
 
   const statusColor: Record<string, string> = {
     uploaded: "bg-blue-500/20 text-blue-400",
@@ -141,21 +292,65 @@ function DocumentRow({ doc, onRefresh }: { doc: any; onRefresh: () => void }) {
             <FileText className="h-5 w-5 text-primary" />
           </div>
           <div className="min-w-0 flex-1">
-            <p className="text-sm font-medium truncate">{doc.filename}</p>
+            <p className="text-sm font-medium truncate">
+              {doc.filename}
+              {doc.version > 1 && <span className="ml-2 text-[10px] text-muted-foreground">v{doc.version}</span>}
+            </p>
+            {doc.processo && (
+              <p className="text-[11px] text-muted-foreground truncate">
+                {[doc.processo, doc.tribunal, doc.orgaoJulgador, doc.relator].filter(Boolean).join(" · ")}
+                {doc.dataJulgamento && ` · julgado em ${doc.dataJulgamento}`}
+              </p>
+            )}
             <p className="text-[10px] text-muted-foreground">
               {doc.mimeType} | {doc.fileSize ? formatSize(doc.fileSize) : "-"}
               {doc.chunkCount != null && ` | ${doc.chunkCount} chunks`}
+              {doc.parentDocumentId != null && ` | anexo de #${doc.parentDocumentId}`}
+              {doc.metadata?.archive && ` | ZIP: ${doc.metadata.archive.documentIds.length} documentos`}
+              {doc.metadata?.ocr && ` | OCR ${doc.metadata.ocr.pages.length} pág. (${doc.metadata.ocr.meanConfidence}%)`}
               {doc.entityCount != null && ` | ${doc.entityCount} entidades`}
+              {doc.metadata?.pii && ` | LGPD: ${Object.values(doc.metadata.pii as Record<string, number>).reduce((a, b) => a + b, 0)} dados pessoais pseudonimizados`}
             </p>
+            {doc.metadata?.quality && (
+              <button
+                type="button"
+                onClick={() => setShowQuarantine(!showQuarantine)}
+                className="text-[10px] text-orange-400 hover:underline"
+              >
+                {doc.metadata.quality.quarantinedChunks} chunks em quarentena
+                ({reasonLabels(Object.keys(doc.metadata.quality.reasons))})
+              </button>
+            )}
+            {showQuarantine && <QuarantineList documentId={doc.id} />}
           </div>
           <Badge className={`text-[10px] ${statusColor[doc.status] || ""}`}>
             {doc.status}
           </Badge>
+          <Switch
+            checked={extractEntities}
+            onCheckedChange={setExtractEntities}
+            title={extractEntities ? "Entidades extraídas para o grafo" : "Sem extração de entidades"}
+            className="shrink-0"
+          />
+          <Select value={chunking} onValueChange={(v) => setChunking(v as keyof typeof CHUNKING_LABELS)}>
+            <SelectTrigger size="sm" className="w-40 text-xs shrink-0">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(CHUNKING_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value} className="text-xs">{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <Button
             size="sm"
             variant="outline"
             disabled={processMutation.isPending || doc.status === "embedded"}
-            onClick={() => processMutation.mutate({ documentId: doc.id })}
+            onClick={() => processMutation.mutate({
+              documentId: doc.id,
+              chunking: chunking === "default" ? undefined : chunking,
+              extractEntities,
+            })}
             className="shrink-0"
           >
             {processMutation.isPending ? (
@@ -165,6 +360,31 @@ function DocumentRow({ doc, onRefresh }: { doc: any; onRefresh: () => void }) {
             )}
             <span className="ml-1 text-xs">Processar</span>
           </Button>
+          <input ref={replaceRef} type="file" accept={ACCEPTED_FILES} className="hidden" onChange={handleReplace} />
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={replacing}
+            onClick={() => replaceRef.current?.click()}
+            title="Substituir por nova versão"
+            className="shrink-0"
+          >
+            {replacing ? <Loader2 className="h-3 w-3 animate-spin" /> : <RefreshCw className="h-3 w-3" />}
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={deleteMutation.isPending}
+            onClick={() => {
+              if (window.confirm(`Eliminar "${doc.filename}" com anexos, embeddings e entidades do grafo?`)) {
+                deleteMutation.mutate({ documentId: doc.id });
+              }
+            }}
+            title="Eliminar"
+            className="shrink-0"
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
         </div>
       </CardContent>
     </Card>
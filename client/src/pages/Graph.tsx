@@ -3,13 +3,98 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { useAuth } from "@/_core/hooks/useAuth";
 import { toast } from "sonner";
 import {
-  Network, GitBranch, Users, Loader2, Search, RefreshCw,
+  Network, GitBranch, Users, Loader2, Search, RefreshCw, GitMerge, Check, X,
 } from "lucide-react";
 import { useState, useEffect, useRef } from "react";
 
+/** Pending merges of similar entities (admins only) */
+function MergeReview() {
+  const utils = trpc.useUtils();
+  const { data: candidates } = trpc.graph.mergeCandidates.useQuery();
+  const refresh = () => {
+    utils.graph.mergeCandidates.invalidate();
+    utils.graph.nodeStats.invalidate();
+  };
+  const review = trpc.graph.reviewMerge.useMutation({
+    onSuccess: (result) => {
+      toast.success(result.merged ? "Entidades fundidas" : "Sugestão rejeitada");
+      refresh();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+  const resolve = trpc.graph.resolveEntities.useMutation({
+    onSuccess: (result) => {
+      toast.success(`${result.merged} de ${result.checked} entidades unificadas`);
+      refresh();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  return (
+    <Card className="glass-card border-border/50">
+      <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-base font-semibold flex items-center gap-2">
+          <GitMerge className="h-4 w-4 text-primary" />
+          Entidades Semelhantes ({candidates?.length || 0})
+        </CardTitle>
+        <Button size="sm" variant="outline" disabled={resolve.isPending} onClick={() => resolve.mutate()}>
+          {resolve.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <span className="text-xs">Reaplicar regras</span>}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {!candidates || candidates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhuma fusão aguardando revisão.</p>
+        ) : (
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {candidates.map(candidate => (
+              <div key={candidate.id} className="flex items-center gap-3 p-2.5 rounded-lg bg-accent/20">
+                <Badge variant="secondary" className="text-[10px] shrink-0">
+                  {candidate.entityType}
+                </Badge>
+                <div className="min-w-0 flex-1 text-sm">
+                  <p className="truncate">
+                    {candidate.source?.name ?? candidate.sourceEntityId}
+                    <span className="text-muted-foreground">{" → "}</span>
+                    {candidate.target?.name ?? candidate.targetEntityId}
+                  </p>
+                  <p className="text-[10px] text-muted-foreground">
+                    Similaridade {(candidate.similarity * 100).toFixed(1)}%
+                  </p>
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  title="Fundir"
+                  disabled={review.isPending}
+                  onClick={() => review.mutate({ id: candidate.id, approve: true })}
+                >
+                  <Check className="h-3.5 w-3.5 text-green-500" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  title="Manter separadas"
+                  disabled={review.isPending}
+                  onClick={() => review.mutate({ id: candidate.id, approve: false })}
+                >
+                  <X className="h-3.5 w-3.5 text-red-500" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function Graph() {
+  const { user } = useAuth();
   const { data: nodeStats, isLoading: loadingNodes } = trpc.graph.nodeStats.useQuery();
   const { data: edgeStats, isLoading: loadingEdges } = trpc.graph.edgeStats.useQuery();
   const { data: communities } = trpc.graph.communities.useQuery();
@@ -160,6 +245,8 @@ export default function Graph() {
         </CardContent>
       </Card>
 
+      {user?.role === "admin" && <MergeReview />}
+
       {/* Graph Visualization */}
       <Card className="glass-card border-border/50">
         <CardHeader className="pb-3">
@@ -1,9 +1,15 @@
 import { trpc } from "@/lib/trpc";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { toast } from "sonner";
+import { useState } from "react";
 import {
   Database, FileText, Network, GitBranch, MessageSquare,
-  Activity, Loader2, TrendingUp,
+  Activity, Loader2, TrendingUp, CalendarClock, Play, Plus, Trash2, AlertTriangle, Check,
 } from "lucide-react";
 
 function StatCard({
@@ -62,6 +68,8 @@ export default function Home() {
         </p>
       </div>
 
+      <SchemaAlerts />
+
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
         <StatCard
           title="Datasets STJ"
@@ -192,10 +200,178 @@ export default function Home() {
           </CardContent>
         </Card>
       </div>
+
+      <SchedulesCard />
+    </div>
+  );
+}
+
+function SchemaAlerts() {
+  const utils = trpc.useUtils();
+  const { data: alerts } = trpc.dashboard.schemaAlerts.useQuery();
+  const acknowledgeMutation = trpc.dashboard.acknowledgeSchemaAlert.useMutation({
+    onSuccess: () => utils.dashboard.schemaAlerts.invalidate(),
+    onError: (e) => toast.error(`Erro: ${e.message}`),
+  });
+
+  if (!alerts || alerts.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {alerts.map((alert) => (
+        <Alert key={alert.id} className="border-orange-500/40">
+          <AlertTriangle className="text-orange-400" />
+          <AlertTitle className="flex items-center gap-2">
+            Alteração de esquema em <code className="text-primary">{alert.datasetSlug}</code>
+            <span className="text-[10px] text-muted-foreground font-normal">
+              {new Date(alert.createdAt).toLocaleString("pt-BR")}
+            </span>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="ml-auto h-6"
+              disabled={acknowledgeMutation.isPending}
+              onClick={() => acknowledgeMutation.mutate({ id: alert.id })}
+            >
+              <Check className="h-3 w-3" />
+              <span className="ml-1 text-xs">Reconhecer</span>
+            </Button>
+          </AlertTitle>
+          <AlertDescription className="text-xs">
+            Recurso {alert.resourceId} ({alert.recordCount} registos): {alert.summary}
+          </AlertDescription>
+        </Alert>
+      ))}
     </div>
   );
 }
 
+function formatRun(value: Date | string | null | undefined) {
+  return value ? new Date(value).toLocaleString("pt-BR") : "-";
+}
+
+function SchedulesCard() {
+  const utils = trpc.useUtils();
+  const { data: schedules } = trpc.schedules.list.useQuery();
+  const [name, setName] = useState("");
+  const [cron, setCron] = useState("0 3 * * *");
+
+  const onError = (e: { message: string }) => toast.error(`Erro: ${e.message}`);
+  const refresh = () => utils.schedules.list.invalidate();
+  const createMutation = trpc.schedules.create.useMutation({
+    onSuccess: () => {
+      toast.success("Agendamento criado");
+      setName("");
+      refresh();
+    },
+    onError,
+  });
+  const updateMutation = trpc.schedules.update.useMutation({ onSuccess: refresh, onError });
+  const deleteMutation = trpc.schedules.delete.useMutation({ onSuccess: refresh, onError });
+  const runMutation = trpc.schedules.runNow.useMutation({
+    onSuccess: (data) => toast.success(`Sincronização enfileirada (job ${data.jobId})`),
+    onError,
+  });
+
+  return (
+    <Card className="glass-card border-border/50">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base font-semibold flex items-center gap-2">
+          <CalendarClock className="h-4 w-4 text-primary" />
+          Sincronização Agendada
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!schedules || schedules.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">
+            Nenhum agendamento. Crie um para sincronizar e processar os datasets automaticamente.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {schedules.map((schedule) => (
+              <div
+                key={schedule.id}
+                className="flex items-center gap-3 p-2.5 rounded-lg bg-accent/20 hover:bg-accent/30 transition-colors"
+              >
+                <Switch
+                  checked={schedule.enabled}
+                  disabled={updateMutation.isPending}
+                  onCheckedChange={(enabled) => updateMutation.mutate({ id: schedule.id, enabled })}
+                />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium truncate">
+                    {schedule.name} <code className="text-xs text-primary ml-1">{schedule.cron}</code>
+                  </p>
+                  <p className="text-[10px] text-muted-foreground truncate">
+                    Última: {formatRun(schedule.lastRunAt)}
+                    {schedule.lastRunDetails && ` (${schedule.lastRunDetails})`}
+                    {" | "}Próxima: {schedule.enabled ? formatRun(schedule.nextRunAt) : "desativado"}
+                  </p>
+                </div>
+                {schedule.lastRunStatus && (
+                  <Badge
+                    variant={schedule.lastRunStatus === "completed" ? "default" : "destructive"}
+                    className="text-[10px] shrink-0"
+                  >
+                    {schedule.lastRunStatus}
+                  </Badge>
+                )}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={runMutation.isPending}
+                  onClick={() => runMutation.mutate({ id: schedule.id })}
+                  className="shrink-0"
+                >
+                  <Play className="h-3 w-3" />
+                  <span className="ml-1 text-xs">Executar</span>
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={deleteMutation.isPending}
+                  onClick={() => deleteMutation.mutate({ id: schedule.id })}
+                  className="shrink-0"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="Nome (ex.: Sincronização diária)"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="h-8 text-xs"
+          />
+          <Input
+            placeholder="Cron (ex.: 0 3 * * *)"
+            value={cron}
+            onChange={(e) => setCron(e.target.value)}
+            className="h-8 text-xs w-40 font-mono"
+          />
+          <Button
+            size="sm"
+            disabled={createMutation.isPending || !name.trim() || !cron.trim()}
+            onClick={() => createMutation.mutate({ name: name.trim(), cron: cron.trim() })}
+            className="shrink-0"
+          >
+            {createMutation.isPending ? (
+              <Loader2 className="h-3 w-3 animate-spin" />
+            ) : (
+              <Plus className="h-3 w-3" />
+            )}
+            <span className="ml-1 text-xs">Agendar</span>
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 function PipelineStep({
   step, label, description, status,
 }: {
@@ -1,10 +1,76 @@
 import { trpc } from "@/lib/trpc";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { ScrollText, Loader2, Clock, AlertCircle, CheckCircle2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { ScrollText, Loader2, Clock, AlertCircle, CheckCircle2, AlertTriangle, ShieldCheck } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+const PII_TYPE_LABELS: Record<string, string> = {
+  cpf: "CPF",
+  cnpj: "CNPJ",
+  rg: "RG",
+  phone: "Telefone",
+  email: "E-mail",
+  cep: "CEP",
+  address: "Endereço",
+  minor: "Menor",
+};
+
+/** Admins only: original values of the pseudonyms in a pasted text (each reveal is logged) */
+function PseudonymReveal() {
+  const [text, setText] = useState("");
+  const { data: stats } = trpc.privacy.stats.useQuery();
+  const reveal = trpc.privacy.reveal.useMutation({
+    onError: (err) => toast.error(err.message),
+  });
+
+  return (
+    <Card className="glass-card border-border/50">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base font-semibold flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4 text-primary" />
+          Pseudónimos LGPD
+        </CardTitle>
+        {stats && stats.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {stats.map(s => `${PII_TYPE_LABELS[s.piiType] || s.piiType}: ${s.count}`).join(" · ")}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Cole um texto com pseudónimos, ex.: [CPF_3F9A1C2B7D4E]"
+          className="text-xs min-h-20"
+        />
+        <Button size="sm" disabled={!text.trim() || reveal.isPending} onClick={() => reveal.mutate({ text })}>
+          {reveal.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <span className="text-xs">Revelar</span>}
+        </Button>
+        {reveal.data && (
+          <div className="space-y-1 text-xs">
+            {reveal.data.length === 0 && <p className="text-muted-foreground">Nenhum pseudónimo conhecido.</p>}
+            {reveal.data.map(entry => (
+              <p key={entry.pseudonym}>
+                <span className="font-mono text-muted-foreground">{entry.pseudonym}</span>
+                {" → "}
+                {entry.value}
+                <span className="ml-2 text-[10px] text-muted-foreground">{PII_TYPE_LABELS[entry.type] || entry.type}</span>
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
 
 export default function Logs() {
   const { data: logs, isLoading } = trpc.dashboard.recentLogs.useQuery();
+  const { user } = useAuth();
 
   return (
     <div className="space-y-6">
@@ -47,6 +113,8 @@ export default function Logs() {
           </CardContent>
         </Card>
       )}
+
+      {user?.role === "admin" && <PseudonymReveal />}
     </div>
   );
 }
@@ -57,20 +125,25 @@ function LogEntry({ log }: { log: any }) {
       <CheckCircle2 className="h-4 w-4 text-emerald-400" />
     ) : log.status === "failed" ? (
       <AlertCircle className="h-4 w-4 text-destructive" />
+    ) : log.status === "warning" ? (
+      <AlertTriangle className="h-4 w-4 text-orange-400" />
     ) : (
       <Clock className="h-4 w-4 text-yellow-400" />
     );
 
   const actionLabels: Record<string, string> = {
     sync_datasets: "Sincronizar Datasets",
+    discover_datasets: "Descobrir Datasets",
     download_resource: "Download Recurso",
-    process_json: "Processar JSON",
+    process_json: "Processar Recurso",
+    schema_drift: "Alteração de Esquema",
     extract_entities: "Extrair Entidades",
     build_communities: "Construir Comunidades",
     generate_embeddings: "Gerar Embeddings",
     upload_document: "Upload Documento",
     process_document: "Processar Documento",
     rag_query: "Consulta RAG",
+    reveal_pii: "Revelar Dados Pessoais",
   };
 
   return (
@@ -87,6 +160,8 @@ function LogEntry({ log }: { log: any }) {
                 ? "default"
                 : log.status === "failed"
                 ? "destructive"
+                : log.status === "warning"
+                ? "outline"
                 : "secondary"
             }
             className="text-[10px]"
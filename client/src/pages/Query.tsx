@@ -16,7 +16,7 @@ interface QueryResult {
   queryType: "local" | "global" | "hybrid";
   entities: { name: string; type: string; description: string }[];
   communityReports: { title: string; summary: string }[];
-  vectorResults: { text: string; score: number; source: string }[];
+  vectorResults: { text: string; score: number; source: string; matchedText?: string; sectionPath?: string; citation?: string }[];
   reasoningChain: string;
   queryId: number;
 }
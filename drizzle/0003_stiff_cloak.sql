@@ -0,0 +1,11 @@
+ALTER TABLE `resources` ADD `remoteRevision` varchar(255);--> statement-breakpoint
+ALTER TABLE `resources` ADD `ingestedRevision` varchar(255);--> statement-breakpoint
+ALTER TABLE `resources` ADD `contentHash` varchar(64);--> statement-breakpoint
+CREATE INDEX `idx_documents_userId` ON `documents` (`userId`);--> statement-breakpoint
+CREATE INDEX `idx_graphEdges_sourceEntityId` ON `graphEdges` (`sourceEntityId`);--> statement-breakpoint
+CREATE INDEX `idx_graphEdges_targetEntityId` ON `graphEdges` (`targetEntityId`);--> statement-breakpoint
+CREATE INDEX `idx_graphEdges_relationshipType` ON `graphEdges` (`relationshipType`);--> statement-breakpoint
+CREATE INDEX `idx_graphNodes_entityType` ON `graphNodes` (`entityType`);--> statement-breakpoint
+CREATE INDEX `idx_graphNodes_communityId` ON `graphNodes` (`communityId`);--> statement-breakpoint
+CREATE INDEX `idx_resources_status` ON `resources` (`status`);--> statement-breakpoint
+CREATE INDEX `idx_resources_datasetId` ON `resources` (`datasetId`);
\ No newline at end of file
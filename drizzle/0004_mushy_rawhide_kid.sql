@@ -0,0 +1,3 @@
+ALTER TABLE `extractionLogs` MODIFY COLUMN `action` enum('sync_datasets','discover_datasets','download_resource','process_json','extract_entities','build_communities','generate_embeddings','upload_document','process_document','rag_query') NOT NULL;--> statement-breakpoint
+ALTER TABLE `datasets` ADD `enabled` boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE `datasets` ADD `discoveredAt` timestamp;
\ No newline at end of file
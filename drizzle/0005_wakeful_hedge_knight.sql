@@ -0,0 +1,2 @@
+ALTER TABLE `resources` ADD `snapshotKey` varchar(512);--> statement-breakpoint
+ALTER TABLE `resources` ADD `snapshotAt` timestamp;
\ No newline at end of file
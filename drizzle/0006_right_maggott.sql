@@ -0,0 +1,15 @@
+CREATE TABLE `syncSchedules` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`cron` varchar(100) NOT NULL,
+	`timezone` varchar(64) NOT NULL DEFAULT 'America/Sao_Paulo',
+	`enabled` boolean NOT NULL DEFAULT true,
+	`processChanged` boolean NOT NULL DEFAULT true,
+	`lastRunAt` timestamp,
+	`lastRunStatus` enum('completed','failed'),
+	`lastRunDetails` text,
+	`nextRunAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `syncSchedules_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1,14 @@
+CREATE TABLE `schemaProfiles` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`datasetId` int NOT NULL,
+	`resourceId` varchar(255) NOT NULL,
+	`recordCount` int NOT NULL,
+	`fields` json NOT NULL,
+	`drift` json,
+	`acknowledgedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `schemaProfiles_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `extractionLogs` MODIFY COLUMN `action` enum('sync_datasets','discover_datasets','download_resource','process_json','schema_drift','extract_entities','build_communities','generate_embeddings','upload_document','process_document','rag_query') NOT NULL;--> statement-breakpoint
+ALTER TABLE `extractionLogs` MODIFY COLUMN `status` enum('started','completed','failed','warning') NOT NULL DEFAULT 'started';
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `datasets` ADD `lastError` text;--> statement-breakpoint
+ALTER TABLE `datasets` ADD `lastErrorAt` timestamp;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `records` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`recordKey` varchar(64) NOT NULL,
+	`canonicalId` varchar(255) NOT NULL,
+	`processo` varchar(255),
+	`classe` varchar(255),
+	`dataJulgamento` varchar(10),
+	`primaryResourceId` varchar(255) NOT NULL,
+	`resourceIds` json NOT NULL,
+	`datasetSlugs` json NOT NULL,
+	`metadata` json,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `records_id` PRIMARY KEY(`id`),
+	CONSTRAINT `records_recordKey_unique` UNIQUE(`recordKey`)
+);
+--> statement-breakpoint
+CREATE INDEX `idx_records_processo` ON `records` (`processo`);
\ No newline at end of file
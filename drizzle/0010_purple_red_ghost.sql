@@ -0,0 +1,12 @@
+CREATE TABLE `chunkParents` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`parentId` varchar(64) NOT NULL,
+	`collectionName` varchar(255) NOT NULL,
+	`text` text NOT NULL,
+	`metadata` json,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `chunkParents_id` PRIMARY KEY(`id`),
+	CONSTRAINT `chunkParents_parentId_unique` UNIQUE(`parentId`)
+);
+--> statement-breakpoint
+CREATE INDEX `idx_chunkParents_collectionName` ON `chunkParents` (`collectionName`);
\ No newline at end of file
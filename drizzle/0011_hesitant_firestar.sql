@@ -0,0 +1 @@
+ALTER TABLE `documents` ADD `metadata` json;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `documents` ADD `parentDocumentId` int;--> statement-breakpoint
+CREATE INDEX `idx_documents_parentDocumentId` ON `documents` (`parentDocumentId`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `documents` ADD `fileKey` varchar(1024);
\ No newline at end of file
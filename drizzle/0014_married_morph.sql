@@ -0,0 +1 @@
+ALTER TABLE `documents` ADD `extractEntities` boolean DEFAULT true NOT NULL;
\ No newline at end of file
@@ -0,0 +1,10 @@
+ALTER TABLE `documents` ADD `processo` varchar(255);--> statement-breakpoint
+ALTER TABLE `documents` ADD `numeroCnj` varchar(25);--> statement-breakpoint
+ALTER TABLE `documents` ADD `classe` varchar(255);--> statement-breakpoint
+ALTER TABLE `documents` ADD `tribunal` varchar(20);--> statement-breakpoint
+ALTER TABLE `documents` ADD `relator` varchar(255);--> statement-breakpoint
+ALTER TABLE `documents` ADD `orgaoJulgador` varchar(255);--> statement-breakpoint
+ALTER TABLE `documents` ADD `dataJulgamento` varchar(10);--> statement-breakpoint
+ALTER TABLE `documents` ADD `dataPublicacao` varchar(10);--> statement-breakpoint
+CREATE INDEX `idx_documents_processo` ON `documents` (`processo`);--> statement-breakpoint
+CREATE INDEX `idx_documents_tribunal` ON `documents` (`tribunal`);
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `documentVersions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`documentId` int NOT NULL,
+	`version` int NOT NULL,
+	`filename` varchar(500) NOT NULL,
+	`mimeType` varchar(100) NOT NULL,
+	`fileSize` bigint,
+	`chunkCount` int,
+	`entityCount` int,
+	`processo` varchar(255),
+	`uploadedAt` timestamp NOT NULL,
+	`replacedAt` timestamp NOT NULL DEFAULT (now()),
+	`replacedBy` int,
+	CONSTRAINT `documentVersions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `documents` ADD `version` int DEFAULT 1 NOT NULL;--> statement-breakpoint
+CREATE INDEX `idx_documentVersions_documentId` ON `documentVersions` (`documentId`);
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `quarantinedChunks` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`sourceId` varchar(128) NOT NULL,
+	`documentId` int,
+	`resourceId` varchar(255),
+	`collectionName` varchar(255) NOT NULL,
+	`chunkIndex` int NOT NULL,
+	`text` text NOT NULL,
+	`reasons` json NOT NULL,
+	`score` float NOT NULL,
+	`metadata` json,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `quarantinedChunks_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `idx_quarantinedChunks_sourceId` ON `quarantinedChunks` (`sourceId`);--> statement-breakpoint
+CREATE INDEX `idx_quarantinedChunks_documentId` ON `quarantinedChunks` (`documentId`);
\ No newline at end of file
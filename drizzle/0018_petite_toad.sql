@@ -0,0 +1,12 @@
+CREATE TABLE `piiMappings` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`pseudonym` varchar(64) NOT NULL,
+	`piiType` varchar(20) NOT NULL,
+	`encryptedValue` text NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `piiMappings_id` PRIMARY KEY(`id`),
+	CONSTRAINT `piiMappings_pseudonym_unique` UNIQUE(`pseudonym`)
+);
+--> statement-breakpoint
+ALTER TABLE `extractionLogs` MODIFY COLUMN `action` enum('sync_datasets','discover_datasets','download_resource','process_json','schema_drift','extract_entities','build_communities','generate_embeddings','upload_document','process_document','rag_query','reveal_pii') NOT NULL;--> statement-breakpoint
+CREATE INDEX `idx_piiMappings_piiType` ON `piiMappings` (`piiType`);
\ No newline at end of file
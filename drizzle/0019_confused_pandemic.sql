@@ -0,0 +1,29 @@
+CREATE TABLE `entityAliases` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`alias` varchar(500) NOT NULL,
+	`name` varchar(500) NOT NULL,
+	`entityId` varchar(500) NOT NULL,
+	`entityType` varchar(100) NOT NULL,
+	`method` enum('rule','embedding','review') NOT NULL,
+	`confidence` float DEFAULT 1,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `entityAliases_id` PRIMARY KEY(`id`),
+	CONSTRAINT `entityAliases_alias_unique` UNIQUE(`alias`)
+);
+--> statement-breakpoint
+CREATE TABLE `entityMergeCandidates` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`sourceEntityId` varchar(500) NOT NULL,
+	`targetEntityId` varchar(500) NOT NULL,
+	`entityType` varchar(100) NOT NULL,
+	`similarity` float NOT NULL,
+	`status` enum('pending','approved','rejected') NOT NULL DEFAULT 'pending',
+	`reviewedBy` int,
+	`reviewedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `entityMergeCandidates_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `idx_entityAliases_entityId` ON `entityAliases` (`entityId`);--> statement-breakpoint
+CREATE INDEX `idx_entityMergeCandidates_sourceEntityId` ON `entityMergeCandidates` (`sourceEntityId`);--> statement-breakpoint
+CREATE INDEX `idx_entityMergeCandidates_status` ON `entityMergeCandidates` (`status`);
\ No newline at end of file
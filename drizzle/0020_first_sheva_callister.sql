@@ -0,0 +1 @@
+ALTER TABLE `documentVersions` ADD `fileKey` varchar(1024);
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE `chunkParents` DROP INDEX `chunkParents_parentId_unique`;--> statement-breakpoint
+ALTER TABLE `chunkParents` ADD `sourceId` varchar(128) NOT NULL;--> statement-breakpoint
+ALTER TABLE `chunkParents` ADD `runId` varchar(64);--> statement-breakpoint
+ALTER TABLE `chunkParents` ADD CONSTRAINT `uq_chunkParents_parentId_sourceId` UNIQUE(`parentId`,`sourceId`);--> statement-breakpoint
+CREATE INDEX `idx_chunkParents_sourceId` ON `chunkParents` (`sourceId`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `records` ADD `textLength` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `records` ADD `contentHash` varchar(64);
\ No newline at end of file
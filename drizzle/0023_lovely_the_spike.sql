@@ -0,0 +1,14 @@
+CREATE TABLE `uploads` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`uploadId` varchar(32) NOT NULL,
+	`userId` int NOT NULL,
+	`fileKey` varchar(1024) NOT NULL,
+	`fileSize` bigint NOT NULL,
+	`partCount` int NOT NULL,
+	`status` enum('pending','completing','completed') NOT NULL DEFAULT 'pending',
+	`documentId` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `uploads_id` PRIMARY KEY(`id`),
+	CONSTRAINT `uploads_uploadId_unique` UNIQUE(`uploadId`)
+);
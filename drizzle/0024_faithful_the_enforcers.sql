@@ -0,0 +1,10 @@
+CREATE TABLE `documentGraphMentions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`documentId` int NOT NULL,
+	`entityId` varchar(500) NOT NULL,
+	`mentionCount` int NOT NULL DEFAULT 1,
+	CONSTRAINT `documentGraphMentions_id` PRIMARY KEY(`id`),
+	CONSTRAINT `uq_documentGraphMentions_documentId_entityId` UNIQUE(`documentId`,`entityId`)
+);
+--> statement-breakpoint
+CREATE INDEX `idx_documentGraphMentions_entityId` ON `documentGraphMentions` (`entityId`);
\ No newline at end of file
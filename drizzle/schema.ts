@@ -1,4 +1,4 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, json, bigint, float, uniqueIndex, index } from "drizzle-orm/mysql-core";
+import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, json, bigint, float, boolean, uniqueIndex, index } from "drizzle-orm/mysql-core";
 
 // ─── Users ───────────────────────────────────────────────────────────────────
 
@@ -28,7 +28,14 @@ export const datasets = mysqlTable("datasets", {
   category: varchar("category", { length: 100 }),
   totalResources: int("totalResources").default(0),
   jsonResources: int("jsonResources").default(0),
+  /** Whether sync includes this dataset (admin-controlled) */
+  enabled: boolean("enabled").default(true).notNull(),
+  /** When the dataset was first found via CKAN discovery */
+  discoveredAt: timestamp("discoveredAt"),
   lastSyncedAt: timestamp("lastSyncedAt"),
+  /** Why the last sync of this dataset failed ("<reason>: <message>"), cleared on success */
+  lastError: text("lastError"),
+  lastErrorAt: timestamp("lastErrorAt"),
   metadata: json("metadata"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
@@ -54,6 +61,15 @@ export const resources = mysqlTable("resources", {
   chunkCount: int("chunkCount"),
   entityCount: int("entityCount"),
   relationshipCount: int("relationshipCount"),
+  /** Latest CKAN revision seen by sync (last_modified + hash) */
+  remoteRevision: varchar("remoteRevision", { length: 255 }),
+  /** CKAN revision that was last ingested successfully */
+  ingestedRevision: varchar("ingestedRevision", { length: 255 }),
+  /** SHA-256 of the last ingested payload */
+  contentHash: varchar("contentHash", { length: 64 }),
+  /** Storage key of the immutable raw snapshot of the last download */
+  snapshotKey: varchar("snapshotKey", { length: 512 }),
+  snapshotAt: timestamp("snapshotAt"),
   status: mysqlEnum("status", [
     "pending", "downloading", "downloaded",
     "processing", "processed",
@@ -76,14 +92,22 @@ export type InsertResource = typeof resources.$inferInsert;
 export const documents = mysqlTable("documents", {
   id: int("id").autoincrement().primaryKey(),
   userId: int("userId").notNull(),
+  /** Document this one was extracted from (attachment of an uploaded e-mail) */
+  parentDocumentId: int("parentDocumentId"),
   filename: varchar("filename", { length: 500 }).notNull(),
   originalName: varchar("originalName", { length: 500 }).notNull(),
   mimeType: varchar("mimeType", { length: 100 }).notNull(),
   fileSize: bigint("fileSize", { mode: "number" }),
   fileUrl: text("fileUrl"),
+  /** Storage key of the upload; fileUrl is a signed URL that expires */
+  fileKey: varchar("fileKey", { length: 1024 }),
+  /** Current version; earlier versions are listed in documentVersions */
+  version: int("version").default(1).notNull(),
   textContent: text("textContent"),
   chunkCount: int("chunkCount"),
   entityCount: int("entityCount"),
+  /** Run LLM entity/relationship extraction into the knowledge graph (chosen per upload) */
+  extractEntities: boolean("extractEntities").default(true).notNull(),
   status: mysqlEnum("status", [
     "uploaded", "extracting", "extracted",
     "chunking", "chunked",
@@ -92,15 +116,79 @@ export const documents = mysqlTable("documents", {
   ]).default("uploaded").notNull(),
   errorMessage: text("errorMessage"),
   collectionName: varchar("collectionName", { length: 255 }),
+  /** Extraction metadata (`ocr`: per-page confidence, `attachmentDocumentIds`: child documents) */
+  metadata: json("metadata").$type<Record<string, any>>(),
+  /** Decision fields detected in the text (same names as STJ record metadata) */
+  processo: varchar("processo", { length: 255 }),
+  /** CNJ unified number, NNNNNNN-DD.AAAA.J.TR.OOOO */
+  numeroCnj: varchar("numeroCnj", { length: 25 }),
+  classe: varchar("classe", { length: 255 }),
+  tribunal: varchar("tribunal", { length: 20 }),
+  relator: varchar("relator", { length: 255 }),
+  orgaoJulgador: varchar("orgaoJulgador", { length: 255 }),
+  dataJulgamento: varchar("dataJulgamento", { length: 10 }),
+  dataPublicacao: varchar("dataPublicacao", { length: 10 }),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 }, (t) => ([
   index("idx_documents_userId").on(t.userId),
+  index("idx_documents_parentDocumentId").on(t.parentDocumentId),
+  index("idx_documents_processo").on(t.processo),
+  index("idx_documents_tribunal").on(t.tribunal),
 ]));
 
 export type Document = typeof documents.$inferSelect;
 export type InsertDocument = typeof documents.$inferInsert;
 
+// ─── Document Versions (replaced uploads) ───────────────────────────────────
+
+export const documentVersions = mysqlTable("documentVersions", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Logical document (the documents row keeps its id across versions) */
+  documentId: int("documentId").notNull(),
+  version: int("version").notNull(),
+  filename: varchar("filename", { length: 500 }).notNull(),
+  mimeType: varchar("mimeType", { length: 100 }).notNull(),
+  fileSize: bigint("fileSize", { mode: "number" }),
+  /** Stored object of this version; kept until the document itself is deleted */
+  fileKey: varchar("fileKey", { length: 1024 }),
+  chunkCount: int("chunkCount"),
+  entityCount: int("entityCount"),
+  processo: varchar("processo", { length: 255 }),
+  /** When the version was uploaded / replaced by the next one */
+  uploadedAt: timestamp("uploadedAt").notNull(),
+  replacedAt: timestamp("replacedAt").defaultNow().notNull(),
+  replacedBy: int("replacedBy"),
+}, (t) => [
+  index("idx_documentVersions_documentId").on(t.documentId),
+]);
+
+export type DocumentVersion = typeof documentVersions.$inferSelect;
+export type InsertDocumentVersion = typeof documentVersions.$inferInsert;
+
+// ─── Browser Uploads (multi-part transfers to storage) ──────────────────────
+
+export const uploads = mysqlTable("uploads", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Identifier handed to the browser by documents.createUpload */
+  uploadId: varchar("uploadId", { length: 32 }).notNull().unique(),
+  userId: int("userId").notNull(),
+  /** Storage key of the assembled file; its parts are stored as `<fileKey>.partNNNNN` */
+  fileKey: varchar("fileKey", { length: 1024 }).notNull(),
+  /** Size and part plan announced when the upload was created */
+  fileSize: bigint("fileSize", { mode: "number" }).notNull(),
+  partCount: int("partCount").notNull(),
+  /** "completing" while one request assembles the parts, so a retry cannot register the file twice */
+  status: mysqlEnum("status", ["pending", "completing", "completed"]).default("pending").notNull(),
+  /** Document created (or replaced) by the completed upload */
+  documentId: int("documentId"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Upload = typeof uploads.$inferSelect;
+export type InsertUpload = typeof uploads.$inferInsert;
+
 // ─── GraphRAG: Knowledge Graph Nodes (Entities) ─────────────────────────────
 
 export const graphNodes = mysqlTable("graphNodes", {
@@ -135,6 +223,22 @@ export const graphNodes = mysqlTable("graphNodes", {
 export type GraphNode = typeof graphNodes.$inferSelect;
 export type InsertGraphNode = typeof graphNodes.$inferInsert;
 
+/** Mentions of a node by one uploaded document, taken back off the node when the document goes */
+export const documentGraphMentions = mysqlTable("documentGraphMentions", {
+  id: int("id").autoincrement().primaryKey(),
+  documentId: int("documentId").notNull(),
+  /** References graphNodes.entityId */
+  entityId: varchar("entityId", { length: 500 }).notNull(),
+  /** Share of the node's mentionCount contributed by this document */
+  mentionCount: int("mentionCount").default(1).notNull(),
+}, (t) => ([
+  uniqueIndex("uq_documentGraphMentions_documentId_entityId").on(t.documentId, t.entityId),
+  index("idx_documentGraphMentions_entityId").on(t.entityId),
+]));
+
+export type DocumentGraphMention = typeof documentGraphMentions.$inferSelect;
+export type InsertDocumentGraphMention = typeof documentGraphMentions.$inferInsert;
+
 // ─── GraphRAG: Knowledge Graph Edges (Relationships) ────────────────────────
 
 export const graphEdges = mysqlTable("graphEdges", {
@@ -164,6 +268,54 @@ export const graphEdges = mysqlTable("graphEdges", {
 export type GraphEdge = typeof graphEdges.$inferSelect;
 export type InsertGraphEdge = typeof graphEdges.$inferInsert;
 
+// ─── GraphRAG: Entity Aliases ───────────────────────────────────────────────
+
+/** Entity IDs resolved to a canonical graph node (see entity-resolution.ts) */
+export const entityAliases = mysqlTable("entityAliases", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Entity ID of the surface form or merged node (e.g., "ministro:min_herman_benjamin") */
+  alias: varchar("alias", { length: 500 }).notNull().unique(),
+  /** Name as extracted */
+  name: varchar("name", { length: 500 }).notNull(),
+  /** Canonical entity ID (references graphNodes.entityId) */
+  entityId: varchar("entityId", { length: 500 }).notNull(),
+  entityType: varchar("entityType", { length: 100 }).notNull(),
+  /** rule: normalization rules; embedding: automatic merge; review: merge approved by an admin */
+  method: mysqlEnum("method", ["rule", "embedding", "review"]).notNull(),
+  /** Embedding similarity of merges (1 for rules) */
+  confidence: float("confidence").default(1.0),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (t) => [
+  index("idx_entityAliases_entityId").on(t.entityId),
+]);
+
+export type EntityAlias = typeof entityAliases.$inferSelect;
+export type InsertEntityAlias = typeof entityAliases.$inferInsert;
+
+// ─── GraphRAG: Entity Merge Candidates ──────────────────────────────────────
+
+/** Similar nodes below the automatic merge threshold, waiting for an admin decision */
+export const entityMergeCandidates = mysqlTable("entityMergeCandidates", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Node that would be merged away */
+  sourceEntityId: varchar("sourceEntityId", { length: 500 }).notNull(),
+  /** Node that would absorb it */
+  targetEntityId: varchar("targetEntityId", { length: 500 }).notNull(),
+  entityType: varchar("entityType", { length: 100 }).notNull(),
+  /** Cosine similarity of the entity names */
+  similarity: float("similarity").notNull(),
+  status: mysqlEnum("status", ["pending", "approved", "rejected"]).default("pending").notNull(),
+  reviewedBy: int("reviewedBy"),
+  reviewedAt: timestamp("reviewedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (t) => [
+  index("idx_entityMergeCandidates_sourceEntityId").on(t.sourceEntityId),
+  index("idx_entityMergeCandidates_status").on(t.status),
+]);
+
+export type EntityMergeCandidate = typeof entityMergeCandidates.$inferSelect;
+export type InsertEntityMergeCandidate = typeof entityMergeCandidates.$inferInsert;
+
 // ─── GraphRAG: Communities ──────────────────────────────────────────────────
 
 export const communities = mysqlTable("communities", {
@@ -203,11 +355,11 @@ export const extractionLogs = mysqlTable("extractionLogs", {
   resourceId: varchar("resourceId", { length: 255 }),
   documentId: int("documentId"),
   action: mysqlEnum("action", [
-    "sync_datasets", "download_resource", "process_json",
+    "sync_datasets", "discover_datasets", "download_resource", "process_json", "schema_drift",
     "extract_entities", "build_communities", "generate_embeddings",
-    "upload_document", "process_document", "rag_query"
+    "upload_document", "process_document", "rag_query", "reveal_pii"
   ]).notNull(),
-  status: mysqlEnum("status", ["started", "completed", "failed"]).default("started").notNull(),
+  status: mysqlEnum("status", ["started", "completed", "failed", "warning"]).default("started").notNull(),
   details: text("details"),
   recordsProcessed: int("recordsProcessed"),
   chunksGenerated: int("chunksGenerated"),
@@ -222,6 +374,143 @@ export const extractionLogs = mysqlTable("extractionLogs", {
 export type ExtractionLog = typeof extractionLogs.$inferSelect;
 export type InsertExtractionLog = typeof extractionLogs.$inferInsert;
 
+// ─── Schema Profiles (drift detection) ──────────────────────────────────────
+
+export const schemaProfiles = mysqlTable("schemaProfiles", {
+  id: int("id").autoincrement().primaryKey(),
+  datasetId: int("datasetId").notNull(),
+  resourceId: varchar("resourceId", { length: 255 }).notNull(),
+  recordCount: int("recordCount").notNull(),
+  /** Field name → { types, fillRate } over all records of the resource */
+  fields: json("fields").notNull(),
+  /** Differences against the previous profile of the dataset, null when none */
+  drift: json("drift"),
+  /** Set when an admin dismisses the dashboard alert */
+  acknowledgedAt: timestamp("acknowledgedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type SchemaProfile = typeof schemaProfiles.$inferSelect;
+export type InsertSchemaProfile = typeof schemaProfiles.$inferInsert;
+
+// ─── Records (cross-dataset deduplication) ──────────────────────────────────
+
+export const records = mysqlTable("records", {
+  id: int("id").autoincrement().primaryKey(),
+  /** SHA-256 of the canonical id (process number + class + judgment date) */
+  recordKey: varchar("recordKey", { length: 64 }).notNull().unique(),
+  canonicalId: varchar("canonicalId", { length: 255 }).notNull(),
+  processo: varchar("processo", { length: 255 }),
+  classe: varchar("classe", { length: 255 }),
+  dataJulgamento: varchar("dataJulgamento", { length: 10 }),
+  /** Resource whose copy is the fullest; identical copies elsewhere are skipped */
+  primaryResourceId: varchar("primaryResourceId", { length: 255 }).notNull(),
+  /** Text length and SHA-256 of the primary copy (0/null until its resource is re-ingested) */
+  textLength: int("textLength").default(0).notNull(),
+  contentHash: varchar("contentHash", { length: 64 }),
+  /** Every resource that contains the record */
+  resourceIds: json("resourceIds").$type<string[]>().notNull(),
+  datasetSlugs: json("datasetSlugs").$type<string[]>().notNull(),
+  /** Union of the mapped metadata of every copy (first value wins per field) */
+  metadata: json("metadata"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (t) => [
+  index("idx_records_processo").on(t.processo),
+]);
+
+export type StjRecord = typeof records.$inferSelect;
+export type InsertStjRecord = typeof records.$inferInsert;
+
+// ─── Chunk Parents (small-to-big retrieval) ─────────────────────────────────
+
+export const chunkParents = mysqlTable("chunkParents", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Referenced by `parentId` in the payload of every child point in Qdrant */
+  parentId: varchar("parentId", { length: 64 }).notNull(),
+  collectionName: varchar("collectionName", { length: 255 }).notNull(),
+  /** Same value as the `sourceId` payload of the child points: "document:<id>" or "resource:<id>" */
+  sourceId: varchar("sourceId", { length: 128 }).notNull(),
+  /** Ingest run that last wrote the parent; older runs are pruned with the stale points */
+  runId: varchar("runId", { length: 64 }),
+  text: text("text").notNull(),
+  metadata: json("metadata"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (t) => [
+  uniqueIndex("uq_chunkParents_parentId_sourceId").on(t.parentId, t.sourceId),
+  index("idx_chunkParents_collectionName").on(t.collectionName),
+  index("idx_chunkParents_sourceId").on(t.sourceId),
+]);
+
+export type ChunkParent = typeof chunkParents.$inferSelect;
+export type InsertChunkParent = typeof chunkParents.$inferInsert;
+
+// ─── Quarantined Chunks ─────────────────────────────────────────────────────
+
+/** Chunks held back from the graph and embeddings by the quality gate (see text-quality.ts) */
+export const quarantinedChunks = mysqlTable("quarantinedChunks", {
+  id: int("id").autoincrement().primaryKey(),
+  /** Same value as the `sourceId` payload of stored points: "document:<id>" or "resource:<id>" */
+  sourceId: varchar("sourceId", { length: 128 }).notNull(),
+  documentId: int("documentId"),
+  resourceId: varchar("resourceId", { length: 255 }),
+  collectionName: varchar("collectionName", { length: 255 }).notNull(),
+  chunkIndex: int("chunkIndex").notNull(),
+  text: text("text").notNull(),
+  /** Failed checks, e.g. ["encoding", "language"] */
+  reasons: json("reasons").notNull(),
+  score: float("score").notNull(),
+  metadata: json("metadata"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (t) => [
+  index("idx_quarantinedChunks_sourceId").on(t.sourceId),
+  index("idx_quarantinedChunks_documentId").on(t.documentId),
+]);
+
+export type QuarantinedChunk = typeof quarantinedChunks.$inferSelect;
+export type InsertQuarantinedChunk = typeof quarantinedChunks.$inferInsert;
+
+// ─── PII Mappings (LGPD) ────────────────────────────────────────────────────
+
+/** Pseudonyms that replaced personal data in chunks and LLM prompts (see pii-redaction.ts) */
+export const piiMappings = mysqlTable("piiMappings", {
+  id: int("id").autoincrement().primaryKey(),
+  /** e.g. "[CPF_3F9A1C2B7D4E]" */
+  pseudonym: varchar("pseudonym", { length: 64 }).notNull().unique(),
+  /** cpf, cnpj, rg, phone, email, cep, address, minor */
+  piiType: varchar("piiType", { length: 20 }).notNull(),
+  /** AES-256-GCM "iv.tag.ciphertext" (base64); only revealed to admins */
+  encryptedValue: text("encryptedValue").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (t) => [
+  index("idx_piiMappings_piiType").on(t.piiType),
+]);
+
+export type PiiMapping = typeof piiMappings.$inferSelect;
+export type InsertPiiMapping = typeof piiMappings.$inferInsert;
+
+// ─── Sync Schedules ─────────────────────────────────────────────────────────
+
+export const syncSchedules = mysqlTable("syncSchedules", {
+  id: int("id").autoincrement().primaryKey(),
+  name: varchar("name", { length: 255 }).notNull(),
+  /** Cron pattern for the BullMQ repeatable job, e.g. "0 3 * * *" */
+  cron: varchar("cron", { length: 100 }).notNull(),
+  timezone: varchar("timezone", { length: 64 }).default("America/Sao_Paulo").notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
+  /** Enqueue processing for resources whose revision changed after the sync */
+  processChanged: boolean("processChanged").default(true).notNull(),
+  lastRunAt: timestamp("lastRunAt"),
+  lastRunStatus: mysqlEnum("lastRunStatus", ["completed", "failed"]),
+  lastRunDetails: text("lastRunDetails"),
+  nextRunAt: timestamp("nextRunAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type SyncSchedule = typeof syncSchedules.$inferSelect;
+export type InsertSyncSchedule = typeof syncSchedules.$inferInsert;
+
 // ─── RAG Query History ──────────────────────────────────────────────────────
 
 export const ragQueries = mysqlTable("ragQueries", {
@@ -16,6 +16,8 @@ import { THIRTY_DAYS_MS, COOKIE_NAME } from "@shared/const";
 import { startWorkers, stopWorkers } from "../queue/worker";
 import { closeQueues } from "../queue/queues";
 import { closeRedis } from "../queue/connection";
+import { registerSchedules } from "../scheduler";
+import { assertPiiKeyConfigured } from "../pii-redaction";
 
 const isProduction = process.env.NODE_ENV === "production";
 
@@ -39,6 +41,13 @@ async function findAvailablePort(startPort: number = 3000): Promise<number> {
 }
 
 async function startServer() {
+  try {
+    assertPiiKeyConfigured();
+  } catch (err) {
+    logger.error({ err: String(err) }, "Invalid PII redaction configuration");
+    process.exit(1);
+  }
+
   const app = express();
   app.set("trust proxy", 1);
   const server = createServer(app);
@@ -120,6 +129,7 @@ async function startServer() {
 
   // Start BullMQ workers (no-op if REDIS_URL not set)
   startWorkers();
+  registerSchedules().catch((err) => logger.error({ err: String(err) }, "registerSchedules failed"));
 
   // Graceful shutdown
   const shutdown = async (signal: string) => {
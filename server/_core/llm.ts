@@ -1,3 +1,5 @@
+import { redactMessages } from "../pii-redaction";
+
 export type Role = "system" | "user" | "assistant" | "tool" | "function";
 
 export type TextContent = {
@@ -275,9 +277,11 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     response_format,
   } = params;
 
+  // Personal data never leaves for the LLM provider (see pii-redaction.ts)
+  const redacted = await redactMessages(messages);
   const payload: Record<string, unknown> = {
     model: "gemini-2.5-flash",
-    messages: messages.map(normalizeMessage),
+    messages: redacted.map(normalizeMessage),
   };
 
   if (tools && tools.length > 0) {
@@ -0,0 +1,11 @@
+declare module "word-extractor" {
+  interface WordDocument {
+    getBody(): string;
+    getFootnotes(): string;
+    getHeaders(options?: { includeFooters?: boolean }): string;
+  }
+
+  export default class WordExtractor {
+    extract(source: string | Buffer): Promise<WordDocument>;
+  }
+}
@@ -1,5 +1,10 @@
-import { describe, it, expect } from "vitest";
-import { chunkText, processSTJRecord, processSTJRecords } from "./chunker";
+import { describe, it, expect, vi } from "vitest";
+import {
+  chunkText, chunkLegalText, chunkWithStrategy, chunkHierarchically, getDefaultChunkingStrategy, getChunkSizing,
+  enforceTokenLimit,
+  processSTJRecord, processSTJRecords,
+} from "./chunker";
+import { countTokens } from "./tokenizer";
 
 // ─── chunkText ──────────────────────────────────────────────────────────────
 
@@ -112,7 +117,7 @@ describe("processSTJRecord", () => {
 
 describe("processSTJRecords", () => {
   it("returns empty array for empty input", () => {
-    expect(processSTJRecords([], "ds", "res")).toEqual([]);
+    expect(processSTJRecords([], "ds", "res")).toEqual({ chunks: [], parents: [], quarantined: [], pseudonyms: [] });
   });
 
   it("processes multiple records into chunks with enriched metadata", () => {
@@ -120,7 +125,7 @@ describe("processSTJRecords", () => {
       { ementa: "Ementa 1.", processo: "REsp 1/SP" },
       { ementa: "Ementa 2.", processo: "REsp 2/RJ" },
     ];
-    const chunks = processSTJRecords(records, "corte-especial", "resource-1");
+    const { chunks } = processSTJRecords(records, "corte-especial", "resource-1");
     expect(chunks.length).toBeGreaterThanOrEqual(2);
     for (const chunk of chunks) {
       expect(chunk.metadata.source).toBe("stj");
@@ -131,7 +136,226 @@ describe("processSTJRecords", () => {
 
   it("skips records that produce empty text", () => {
     const records = [{}, { ementa: "Alguma coisa." }];
-    const chunks = processSTJRecords(records, "ds", "res");
+    const { chunks } = processSTJRecords(records, "ds", "res");
     expect(chunks.length).toBeGreaterThanOrEqual(1);
   });
+
+  it("quarantines chunks that fail the quality gate", () => {
+    const records = [
+      { processo: "REsp 1/SP", ementa: "Recurso especial provido para afastar a multa aplicada pelo tribunal de origem." },
+      { processo: "REsp 2/RJ", ementa: "DecisÃ£o que negou provimento Ã  apelaÃ§Ã£o interposta pelo rÃ©u." },
+    ];
+    const { chunks, quarantined } = processSTJRecords(records, "ds", "res");
+    expect(chunks.every(c => c.metadata.processo === "REsp 1/SP")).toBe(true);
+    expect(quarantined).toHaveLength(1);
+    expect(quarantined[0].chunk.metadata.processo).toBe("REsp 2/RJ");
+    expect(quarantined[0].assessment.reasons).toContain("encoding");
+  });
+});
+
+// ─── chunkLegalText ─────────────────────────────────────────────────────────
+
+const ACORDAO = [
+  "EMENTA: PROCESSUAL CIVIL. AGRAVO INTERNO. 1. A Corte de origem decidiu com base no acervo probatório. "
+    + "2. Incide a Súmula 7/STJ quanto à pretensão de reexame de provas. "
+    + "3. Agravo interno não provido, mantida a decisão agravada.",
+  "",
+  "RELATÓRIO",
+  "Trata-se de agravo interno interposto contra decisão que conheceu do agravo.",
+  "",
+  "VOTO",
+  "O recurso não merece prosperar.",
+  "Dispõe o Código:",
+  "Art. 1.022. Cabem embargos de declaração contra qualquer decisão judicial para:",
+  "I - esclarecer obscuridade ou eliminar contradição;",
+  "II - suprir omissão;",
+  "",
+  "Não há omissão no acórdão recorrido.",
+  "Ante o exposto, nego provimento ao agravo interno.",
+].join("\n");
+
+const STATUTE = [
+  "Art. 5º Todos são iguais perante a lei.",
+  "§ 1º As normas definidoras dos direitos têm aplicação imediata.",
+  "§ 2º Os direitos expressos não excluem outros:",
+  "I - decorrentes do regime;",
+  "a) primeira hipótese;",
+  "b) segunda hipótese;",
+  "Parágrafo único. Disposição final.",
+  "Art. 6º São direitos sociais a educação e a saúde.",
+].join("\n");
+
+describe("chunkLegalText", () => {
+  it("returns empty array for empty text", () => {
+    expect(chunkLegalText("")).toEqual([]);
+  });
+
+  it("keeps sections apart and tags chunks with their section path", () => {
+    const chunks = chunkLegalText(ACORDAO, { source: "test" }, 200, 0);
+    const paths = chunks.map(c => c.metadata.sectionPath);
+
+    expect(paths).toContain("RELATÓRIO");
+    expect(paths).toContain("VOTO > Art. 1.022");
+    expect(paths).toContain("DISPOSITIVO");
+    expect(chunks.find(c => c.metadata.section === "DISPOSITIVO")?.text).toBe("Ante o exposto, nego provimento ao agravo interno.");
+    expect(chunks.every(c => c.metadata.source === "test")).toBe(true);
+    expect(chunks.map(c => c.index)).toEqual(chunks.map((_, i) => i));
+  });
+
+  it("never splits an ementa mid-item", () => {
+    const chunks = chunkLegalText(ACORDAO, {}, 80, 0).filter(c => c.metadata.section === "EMENTA");
+
+    expect(chunks.map(c => c.metadata.sectionPath)).toEqual([
+      "EMENTA", "EMENTA > item 1", "EMENTA > item 2", "EMENTA > item 3",
+    ]);
+    expect(chunks[2].text).toBe("2. Incide a Súmula 7/STJ quanto à pretensão de reexame de provas.");
+  });
+
+  it("packs statute units up to the chunk size under their common path", () => {
+    const chunks = chunkLegalText(STATUTE, {}, 120, 0);
+
+    expect(chunks[0].metadata.sectionPath).toBe("Art. 5º");
+    expect(chunks.map(c => c.metadata.sectionPath)).toContain("Art. 5º > § 2º");
+    expect(chunks[chunks.length - 1].metadata.sectionPath).toBe("Art. 6º");
+    expect(chunks.some(c => c.text.includes("Art. 5º") && c.text.includes("Art. 6º"))).toBe(false);
+  });
+
+  it("tracks the full Art./§/inciso/alínea hierarchy", () => {
+    const chunks = chunkLegalText(STATUTE, {}, 10, 0);
+    const paths = chunks.map(c => c.metadata.sectionPath);
+
+    expect(paths).toContain("Art. 5º > § 2º > inciso I > alínea b");
+    expect(paths).toContain("Art. 5º > Parágrafo único");
+  });
+
+  it("splits units longer than the chunk size with the sentence chunker", () => {
+    const longVoto = "VOTO\n" + Array.from({ length: 30 }, (_, i) => `Frase número ${i} do voto.`).join(" ");
+    const chunks = chunkLegalText(longVoto, {}, 200, 20);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(c => c.metadata.sectionPath === "VOTO")).toBe(true);
+  });
+
+  it("treats lowercase section words in prose as text", () => {
+    const chunks = chunkLegalText("Decisão que negou seguimento ao recurso.");
+    expect(chunks[0].metadata.section).toBeUndefined();
+  });
+});
+
+describe("chunking strategy selection", () => {
+  it("dispatches to the chosen chunker", () => {
+    expect(chunkWithStrategy("legal", "VOTO\nTexto.")[0].metadata.sectionPath).toBe("VOTO");
+    expect(chunkWithStrategy("sentence", "VOTO\nTexto.")[0].metadata.sectionPath).toBeUndefined();
+  });
+
+  it("reads the default from CHUNKING_STRATEGY", () => {
+    const previous = process.env.CHUNKING_STRATEGY;
+    process.env.CHUNKING_STRATEGY = "legal";
+    expect(getDefaultChunkingStrategy()).toBe("legal");
+    process.env.CHUNKING_STRATEGY = "bogus";
+    expect(getDefaultChunkingStrategy()).toBe("sentence");
+    if (previous === undefined) delete process.env.CHUNKING_STRATEGY;
+    else process.env.CHUNKING_STRATEGY = previous;
+  });
+
+  it("lets processSTJRecords use the legal chunker", () => {
+    // The one-line header chunk would be quarantined as too short
+    vi.stubEnv("QUALITY_GATE_ENABLED", "false");
+    const { chunks } = processSTJRecords(
+      [{ processo: "REsp 1/SP", ementa: "1. Primeiro item da ementa. 2. Segundo item da ementa." }],
+      "ds", "res", "legal",
+    );
+    expect(chunks.map(c => c.metadata.sectionPath)).toEqual([undefined, "EMENTA"]);
+    vi.unstubAllEnvs();
+  });
+});
+
+// ─── Token-based sizing ─────────────────────────────────────────────────────
+
+describe("token-based chunk sizing", () => {
+  const longText = Array.from({ length: 80 }, (_, i) => `O recorrente alegou violação ao dispositivo número ${i}.`).join(" ");
+
+  it("sizes chunks in tokens of the embedding model", () => {
+    const chunks = chunkWithStrategy("sentence", longText, {}, { unit: "tokens", size: 100, overlap: 10 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) expect(countTokens(chunk.text)).toBeLessThanOrEqual(110);
+  });
+
+  it("reads the unit from CHUNK_SIZE_UNIT", () => {
+    const previous = process.env.CHUNK_SIZE_UNIT;
+    process.env.CHUNK_SIZE_UNIT = "tokens";
+    expect(getChunkSizing().unit).toBe("tokens");
+    delete process.env.CHUNK_SIZE_UNIT;
+    expect(getChunkSizing()).toEqual({ unit: "chars", size: 1000, overlap: 200, parentSize: 4000 });
+    if (previous !== undefined) process.env.CHUNK_SIZE_UNIT = previous;
+  });
+});
+
+describe("enforceTokenLimit", () => {
+  it("returns chunks unchanged when they fit", () => {
+    const chunks = chunkText("Texto curto.", { a: 1 });
+    expect(enforceTokenLimit(chunks, 100)).toBe(chunks);
+  });
+
+  it("re-splits chunks the model would truncate and renumbers them", () => {
+    const oversized = Array.from({ length: 60 }, (_, i) => `palavra${i}`).join(" ");
+    const chunks = [
+      { text: "Início.", index: 0, metadata: { chunkIndex: 0, sectionPath: "VOTO" } },
+      { text: oversized, index: 1, metadata: { chunkIndex: 1, sectionPath: "VOTO" } },
+    ];
+
+    const result = enforceTokenLimit(chunks, 50);
+
+    expect(result.length).toBeGreaterThan(2);
+    expect(result.every(c => countTokens(c.text) <= 50)).toBe(true);
+    expect(result.map(c => c.index)).toEqual(result.map((_, i) => i));
+    expect(result.map(c => c.metadata.chunkIndex)).toEqual(result.map((_, i) => i));
+    expect(result.every(c => c.metadata.sectionPath === "VOTO")).toBe(true);
+  });
+});
+
+// ─── chunkHierarchically ────────────────────────────────────────────────────
+
+describe("chunkHierarchically", () => {
+  const sizing = { unit: "chars" as const, size: 200, overlap: 0, parentSize: 600 };
+
+  it("links every chunk to a parent holding its whole section", () => {
+    const { chunks, parents } = chunkHierarchically("legal", ACORDAO, { recordKey: "k" }, sizing);
+
+    expect(parents.map(p => p.metadata.section)).toEqual(["EMENTA", "RELATÓRIO", "VOTO", "DISPOSITIVO"]);
+    for (const chunk of chunks) {
+      const parent = parents.find(p => p.parentId === chunk.metadata.parentId);
+      expect(parent?.text).toContain(chunk.text);
+      expect(parent?.metadata.section).toBe(chunk.metadata.section);
+    }
+    expect(parents.find(p => p.metadata.section === "VOTO")?.text).toContain("II - suprir omissão;");
+  });
+
+  it("uses the whole text as parent for the sentence strategy", () => {
+    const text = Array.from({ length: 10 }, (_, i) => `Frase número ${i} da ementa.`).join(" ");
+    const { chunks, parents } = chunkHierarchically("sentence", text, {}, sizing);
+
+    expect(parents).toHaveLength(1);
+    expect(parents[0].text).toBe(text);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(c => c.metadata.parentId === parents[0].parentId)).toBe(true);
+  });
+
+  it("splits sections larger than the parent size into several parents", () => {
+    const voto = "VOTO\n" + Array.from({ length: 60 }, (_, i) => `Fundamento número ${i} do voto.`).join(" ");
+    const { parents } = chunkHierarchically("legal", voto, {}, sizing);
+
+    expect(parents.length).toBeGreaterThan(1);
+    expect(parents.every(p => p.text.length <= 600 && p.metadata.section === "VOTO")).toBe(true);
+  });
+
+  it("derives stable parent ids from the record and content", () => {
+    const a = chunkHierarchically("legal", ACORDAO, { recordKey: "k" }, sizing).parents;
+    const b = chunkHierarchically("legal", ACORDAO, { recordKey: "k" }, sizing).parents;
+    const c = chunkHierarchically("legal", ACORDAO, { recordKey: "other" }, sizing).parents;
+
+    expect(b.map(p => p.parentId)).toEqual(a.map(p => p.parentId));
+    expect(c[0].parentId).not.toBe(a[0].parentId);
+  });
 });
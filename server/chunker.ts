@@ -1,7 +1,18 @@
 /**
  * Semantic Chunking Engine for Legal Documents
  * Splits long legal texts into meaningful chunks preserving context.
+ * Two strategies: "sentence" (fixed window over sentences) and "legal"
+ * (structural: decision sections and Art./§/inciso/alínea hierarchies).
+ * Sizes are in characters or, with CHUNK_SIZE_UNIT=tokens, in tokens of the
+ * configured embedding model (see tokenizer.ts).
  */
+import { getRecordMapper, canonicalRecordIdentity, type MappedRecord } from "./record-mappers";
+import { countTokens, getEmbeddingTokenLimit, getTokenChunkDefaults } from "./tokenizer";
+import { splitSentences } from "./sentence-splitter";
+import { gateChunks, type QuarantinedTextChunk } from "./text-quality";
+import { redactText, type PseudonymEntry } from "./pii-redaction";
+import { logger } from "./_core/logger";
+import { createHash } from "crypto";
 
 export interface TextChunk {
   text: string;
@@ -9,32 +20,137 @@ export interface TextChunk {
   metadata: Record<string, any>;
 }
 
+export type ChunkingStrategy = "sentence" | "legal";
+
+export const CHUNKING_STRATEGIES = ["sentence", "legal"] as const satisfies readonly ChunkingStrategy[];
+
 const DEFAULT_CHUNK_SIZE = 1000; // characters
 const DEFAULT_OVERLAP = 200;
 
+/** Length of a text in the unit chunk sizes are expressed in */
+export type LengthFn = (text: string) => number;
+
+const charLength: LengthFn = text => text.length;
+
+export interface ChunkSizing {
+  unit: "chars" | "tokens";
+  size: number;
+  overlap: number;
+  /** Max size of the parent section handed to the LLM (see chunkHierarchically) */
+  parentSize: number;
+}
+
+/** Parents default to this many child chunks (PARENT_CHUNK_SIZE overrides, same unit) */
+const PARENT_SIZE_FACTOR = 4;
+
+/** Chunk sizing from CHUNK_SIZE_UNIT ("chars" default, or "tokens" for the embedding provider) */
+export function getChunkSizing(): ChunkSizing {
+  const { size, overlap } = process.env.CHUNK_SIZE_UNIT === "tokens"
+    ? getTokenChunkDefaults()
+    : { size: DEFAULT_CHUNK_SIZE, overlap: DEFAULT_OVERLAP };
+  return {
+    unit: process.env.CHUNK_SIZE_UNIT === "tokens" ? "tokens" : "chars",
+    size,
+    overlap,
+    parentSize: Number(process.env.PARENT_CHUNK_SIZE || size * PARENT_SIZE_FACTOR),
+  };
+}
+
+function measureFor(sizing: ChunkSizing): LengthFn {
+  return sizing.unit === "tokens" ? text => countTokens(text) : charLength;
+}
+
+/** Strategy used when callers do not choose one (CHUNKING_STRATEGY env, default "sentence") */
+export function getDefaultChunkingStrategy(): ChunkingStrategy {
+  const configured = process.env.CHUNKING_STRATEGY;
+  return CHUNKING_STRATEGIES.find(s => s === configured) ?? "sentence";
+}
+
+/** Chunk text with the given strategy, then re-split anything the embedding model would truncate */
+export function chunkWithStrategy(
+  strategy: ChunkingStrategy,
+  text: string,
+  metadata: Record<string, any> = {},
+  sizing: ChunkSizing = getChunkSizing()
+): TextChunk[] {
+  const measure = measureFor(sizing);
+  const chunks = strategy === "legal"
+    ? chunkLegalText(text, metadata, sizing.size, sizing.overlap, measure)
+    : chunkText(text, metadata, sizing.size, sizing.overlap, measure);
+  return enforceTokenLimit(chunks);
+}
+
+/**
+ * Truncation check: chunks over the embedding model's token limit would be
+ * silently cut by the model, so they are re-split (by sentence, then by word)
+ * and a warning is logged. Chunk indices are renumbered when anything changes.
+ */
+export function enforceTokenLimit(chunks: TextChunk[], maxTokens = getEmbeddingTokenLimit()): TextChunk[] {
+  const tokens: LengthFn = text => countTokens(text);
+  const oversized = chunks.filter(c => tokens(c.text) > maxTokens);
+  if (oversized.length === 0) return chunks;
+
+  logger.warn(
+    { oversized: oversized.length, maxTokens, largest: Math.max(...oversized.map(c => tokens(c.text))) },
+    "[Chunker] Chunks exceed the embedding token limit, re-splitting",
+  );
+
+  const result: TextChunk[] = [];
+  for (const chunk of chunks) {
+    if (tokens(chunk.text) <= maxTokens) {
+      result.push(chunk);
+      continue;
+    }
+    const overlap = Math.floor(maxTokens / 10);
+    for (const part of chunkText(chunk.text, {}, maxTokens - overlap, overlap, tokens)) {
+      result.push(...splitByWords(part.text, maxTokens, tokens).map(text => ({ text, index: 0, metadata: chunk.metadata })));
+    }
+  }
+  return result.map((chunk, index) => ({ text: chunk.text, index, metadata: { ...chunk.metadata, chunkIndex: index } }));
+}
+
+/** Last resort for a single sentence over the limit: cut at word boundaries */
+function splitByWords(text: string, maxLength: number, measure: LengthFn): string[] {
+  if (measure(text) <= maxLength) return [text];
+  const parts: string[] = [];
+  let current = "";
+  for (const word of text.split(" ")) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && measure(candidate) > maxLength) {
+      parts.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
 /** Split text into chunks with overlap, respecting sentence boundaries */
 export function chunkText(
   text: string,
   metadata: Record<string, any> = {},
   chunkSize = DEFAULT_CHUNK_SIZE,
-  overlap = DEFAULT_OVERLAP
+  overlap = DEFAULT_OVERLAP,
+  measure: LengthFn = charLength
 ): TextChunk[] {
   if (!text || text.trim().length === 0) return [];
 
   const cleanText = text.replace(/\s+/g, " ").trim();
 
-  if (cleanText.length <= chunkSize) {
+  if (measure(cleanText) <= chunkSize) {
     return [{ text: cleanText, index: 0, metadata }];
   }
 
   // Split into sentences first
-  const sentences = splitIntoSentences(cleanText);
+  const sentences = splitSentences(cleanText);
   const chunks: TextChunk[] = [];
   let currentChunk = "";
   let chunkIndex = 0;
 
   for (const sentence of sentences) {
-    if (currentChunk.length + sentence.length > chunkSize && currentChunk.length > 0) {
+    if (currentChunk.length > 0 && measure(currentChunk) + measure(sentence) > chunkSize) {
       chunks.push({
         text: currentChunk.trim(),
         index: chunkIndex++,
@@ -47,7 +163,7 @@ export function chunkText(
       let overlapLen = 0;
       for (let i = words.length - 1; i >= 0 && overlapLen < overlap; i--) {
         overlapWords.unshift(words[i]);
-        overlapLen += words[i].length + 1;
+        overlapLen += measure(words[i] + " ");
       }
       currentChunk = overlapWords.join(" ") + " " + sentence;
     } else {
@@ -66,92 +182,360 @@ export function chunkText(
   return chunks;
 }
 
-/** Split text into sentences, handling legal document patterns */
-function splitIntoSentences(text: string): string[] {
-  // Legal text patterns: article numbers, abbreviations, etc.
-  const sentenceEnders = /(?<=[.!?;])\s+(?=[A-ZÁÀÂÃÉÈÊÍÌÎÓÒÔÕÚÙÛÇ0-9"])/g;
-  const parts = text.split(sentenceEnders).filter(s => s.trim().length > 0);
-  return parts;
+// ─── Structural (legal) chunking ─────────────────────────────────────────────
+
+/** Section headings of acórdãos and decisions, matched at the start of a line */
+const SECTION_HEADINGS: { name: string; pattern: RegExp }[] = [
+  { name: "EMENTA", pattern: /^EMENTA\b/i },
+  { name: "RELATÓRIO", pattern: /^RELAT[OÓ]RIO\b/i },
+  { name: "VOTO", pattern: /^VOTO(?:[ -](?:VENCIDO|VOGAL|VISTA|DE DESEMPATE))?\b/i },
+  { name: "DISPOSITIVO", pattern: /^DISPOSITIVO\b/i },
+  { name: "ACÓRDÃO", pattern: /^AC[OÓ]RD[AÃ]O\b/i },
+  { name: "DECISÃO", pattern: /^DECIS[AÃ]O\b/i },
+  { name: "INTEIRO TEOR", pattern: /^INTEIRO TEOR\b/i },
+];
+
+/** Closing paragraph of a voto or decisão ("Ante o exposto, nego provimento...") */
+const DISPOSITIVO_OPENING = /^(?:ante|diante|em face|em razão|pelo|por todo) (?:o|do|de todo o) exposto\b/i;
+
+/** Statute units, outermost first: Art. > § > inciso > alínea */
+const LEGAL_UNITS: { level: number; pattern: RegExp; label: (m: RegExpMatchArray) => string }[] = [
+  { level: 0, pattern: /^Art(?:igo)?\.?\s*(\d+(?:\.\d{3})*\s*[º°o]?(?:-[A-Z])?)(?=[\s.:-])/, label: m => `Art. ${m[1].replace(/\s+/g, "")}` },
+  { level: 1, pattern: /^(?:§\s*(\d+\s*[º°o]?)|(Par[aá]grafo [uú]nico))/i, label: m => (m[1] ? `§ ${m[1].replace(/\s+/g, "")}` : "Parágrafo único") },
+  { level: 2, pattern: /^([IVXLCDM]+)\s*[-–—.)]\s+/, label: m => `inciso ${m[1]}` },
+  { level: 3, pattern: /^([a-z])\)\s+/, label: m => `alínea ${m[1]}` },
+];
+
+interface StructuralUnit {
+  path: string[];
+  text: string;
 }
 
-/** Extract relevant fields from STJ JSON records and create text for embedding */
-export function processSTJRecord(record: any): { text: string; metadata: Record<string, any> } {
-  const fields: string[] = [];
-  const metadata: Record<string, any> = {};
-
-  // Common fields across STJ datasets
-  if (record.id) metadata.recordId = record.id;
-  if (record.processo) { metadata.processo = record.processo; fields.push(`Processo: ${record.processo}`); }
-  if (record.classe) { metadata.classe = record.classe; fields.push(`Classe: ${record.classe}`); }
-  if (record.relator) { metadata.relator = record.relator; fields.push(`Relator: ${record.relator}`); }
-  if (record.orgaoJulgador) { metadata.orgaoJulgador = record.orgaoJulgador; fields.push(`Órgão Julgador: ${record.orgaoJulgador}`); }
-  if (record.dataJulgamento) { metadata.dataJulgamento = record.dataJulgamento; fields.push(`Data do Julgamento: ${record.dataJulgamento}`); }
-  if (record.dataPublicacao) { metadata.dataPublicacao = record.dataPublicacao; fields.push(`Data da Publicação: ${record.dataPublicacao}`); }
-
-  // Ementa - most important field for legal search
-  if (record.ementa) { fields.push(`EMENTA: ${record.ementa}`); }
-
-  // Decision content
-  if (record.decisao) { fields.push(`DECISÃO: ${record.decisao}`); }
-  if (record.acordao) { fields.push(`ACÓRDÃO: ${record.acordao}`); }
-
-  // Legal references
-  if (record.referenciasLegislativas) {
-    const refs = Array.isArray(record.referenciasLegislativas)
-      ? record.referenciasLegislativas.join("; ")
-      : record.referenciasLegislativas;
-    fields.push(`Referências Legislativas: ${refs}`);
-    metadata.referenciasLegislativas = refs;
+/** Section heading of a line and the content that follows it on the same line */
+function matchSection(line: string): { name: string; rest: string } | null {
+  for (const { name, pattern } of SECTION_HEADINGS) {
+    const match = line.match(pattern);
+    if (!match) continue;
+    const rest = line.slice(match[0].length);
+    // Headings stand alone or are followed by ":"/"-"; "Ementa do recurso..." is prose
+    if (rest.trim() === "" || /^\s*[:\-–—.]/.test(rest) || match[0] === match[0].toUpperCase()) {
+      return { name, rest: rest.replace(/^\s*[:\-–—.]?\s*/, "") };
+    }
   }
+  return null;
+}
 
-  // Notes and observations
-  if (record.notas) { fields.push(`Notas: ${record.notas}`); }
-  if (record.informacoesComplementares) { fields.push(`Informações Complementares: ${record.informacoesComplementares}`); }
-
-  // Espelho de acórdão specific fields
-  if (record.palavrasChave) {
-    const kw = Array.isArray(record.palavrasChave) ? record.palavrasChave.join(", ") : record.palavrasChave;
-    fields.push(`Palavras-chave: ${kw}`);
-    metadata.palavrasChave = kw;
+/**
+ * Split ementa text into its numbered items ("1. ... 2. ..."), also when the
+ * items run together on one line. Numbers must be sequential to count as items.
+ */
+function splitEmentaItems(text: string): { item: number | null; text: string }[] {
+  const starts: { item: number; at: number }[] = [];
+  const pattern = /(?:^|\s)(\d{1,2})\.\s+(?=[A-ZÁÀÂÃÉÊÍÓÔÕÚÇ])/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const item = Number(match[1]);
+    if (item === (starts.length > 0 ? starts[starts.length - 1].item + 1 : 1)) {
+      starts.push({ item, at: match.index + match[0].indexOf(match[1]) });
+    }
   }
-  if (record.tema) { metadata.tema = record.tema; fields.push(`Tema: ${record.tema}`); }
-  if (record.ramo) { metadata.ramo = record.ramo; fields.push(`Ramo do Direito: ${record.ramo}`); }
+  if (starts.length < 2) return [{ item: null, text }];
 
-  // Handle nested structures - iterate remaining keys
-  for (const [key, value] of Object.entries(record)) {
-    if (typeof value === "string" && value.length > 50 && !fields.some(f => f.includes(value.substring(0, 30)))) {
-      fields.push(`${key}: ${value}`);
+  const items: { item: number | null; text: string }[] = [];
+  if (text.slice(0, starts[0].at).trim()) items.push({ item: null, text: text.slice(0, starts[0].at).trim() });
+  starts.forEach((start, i) => {
+    items.push({ item: start.item, text: text.slice(start.at, starts[i + 1]?.at ?? text.length).trim() });
+  });
+  return items;
+}
+
+/** Parse text into units tagged with their section path (e.g. ["VOTO", "Art. 5º", "§ 1º"]) */
+function parseStructure(text: string): StructuralUnit[] {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n").map(l => l.replace(/[ \t]+/g, " ").trim());
+  const units: StructuralUnit[] = [];
+  let section: string[] = [];
+  let legalPath: string[] = [];
+  let current: StructuralUnit | null = null;
+
+  const flush = () => {
+    if (current && current.text.trim()) units.push({ path: current.path, text: current.text.trim() });
+    current = null;
+  };
+  const append = (line: string) => {
+    if (!current) current = { path: [...section, ...legalPath], text: line };
+    else current.text += (current.text ? "\n" : "") + line;
+  };
+
+  for (const line of lines) {
+    if (!line) {
+      // Blank lines separate prose paragraphs; inside a decision section they also end
+      // a quoted statute, while in plain statute text the Art./§ hierarchy carries on
+      if (legalPath.length === 0 || section.length > 0) {
+        flush();
+        legalPath = [];
+      }
+      continue;
     }
+
+    const heading = matchSection(line);
+    if (heading) {
+      flush();
+      section = [heading.name];
+      legalPath = [];
+      if (heading.rest) append(heading.rest);
+      continue;
+    }
+
+    if (DISPOSITIVO_OPENING.test(line) && (section[0] === "VOTO" || section[0] === "DECISÃO")) {
+      flush();
+      section = ["DISPOSITIVO"];
+      legalPath = [];
+      append(line);
+      continue;
+    }
+
+    const unit = LEGAL_UNITS.map(u => ({ u, m: line.match(u.pattern) })).find(({ m }) => m);
+    if (unit?.m) {
+      flush();
+      legalPath = [...legalPath.slice(0, unit.u.level), unit.u.label(unit.m)];
+      append(line);
+      continue;
+    }
+
+    append(line);
   }
+  flush();
 
-  return {
-    text: fields.join("\n\n"),
-    metadata,
+  // Ementa items become their own units so they are never split mid-item
+  return units.flatMap(unit => unit.path[0] !== "EMENTA" || unit.path.length > 1
+    ? [unit]
+    : splitEmentaItems(unit.text).map(({ item, text }) => ({
+      path: item === null ? unit.path : [...unit.path, `item ${item}`],
+      text,
+    })));
+}
+
+function articleOf(path: string[]): string | undefined {
+  return path.find(p => p.startsWith("Art."));
+}
+
+/** Longest common prefix of the section paths packed into one chunk */
+function commonPath(paths: string[][]): string[] {
+  const [first, ...rest] = paths;
+  let length = first.length;
+  for (const path of rest) {
+    let i = 0;
+    while (i < length && path[i] === first[i]) i++;
+    length = i;
+  }
+  return first.slice(0, length);
+}
+
+/**
+ * Pack consecutive units into chunks of up to chunkSize. Entering or leaving a
+ * section or an article starts a new chunk; a unit longer than chunkSize is
+ * split with the sentence chunker. The path of a chunk is the common prefix.
+ */
+function packUnits(
+  units: StructuralUnit[],
+  chunkSize: number,
+  overlap: number,
+  measure: LengthFn
+): StructuralUnit[] {
+  const packed: StructuralUnit[] = [];
+  let pending: StructuralUnit[] = [];
+  const flush = () => {
+    if (pending.length === 0) return;
+    packed.push({ text: pending.map(u => u.text).join("\n"), path: commonPath(pending.map(u => u.path)) });
+    pending = [];
   };
+
+  for (const unit of units) {
+    const unitText = unit.text.replace(/[ \t]+/g, " ");
+    const unitLength = measure(unitText);
+    if (unitLength > chunkSize) {
+      flush();
+      for (const part of chunkText(unitText, {}, chunkSize, overlap, measure)) packed.push({ text: part.text, path: unit.path });
+      continue;
+    }
+    const pendingLength = pending.reduce((sum, u) => sum + measure(u.text) + 1, 0);
+    if (pending.length > 0 && (
+      pending[0].path[0] !== unit.path[0]
+      || articleOf(pending[0].path) !== articleOf(unit.path)
+      || pendingLength + unitLength > chunkSize
+    )) {
+      flush();
+    }
+    pending.push({ path: unit.path, text: unitText });
+  }
+  flush();
+
+  return packed;
+}
+
+function sectionMetadata(path: string[]): Record<string, any> {
+  return path.length > 0 ? { section: path[0], sectionPath: path.join(" > ") } : {};
+}
+
+/**
+ * Structure-aware chunking for acórdãos and statutes. Consecutive units of the
+ * same section (and article) are packed up to chunkSize; a unit longer than chunkSize is split
+ * with the sentence chunker. Each chunk carries `section` and `sectionPath`
+ * (e.g. "VOTO > Art. 5º > § 1º") in its metadata.
+ */
+export function chunkLegalText(
+  text: string,
+  metadata: Record<string, any> = {},
+  chunkSize = DEFAULT_CHUNK_SIZE,
+  overlap = DEFAULT_OVERLAP,
+  measure: LengthFn = charLength
+): TextChunk[] {
+  if (!text || text.trim().length === 0) return [];
+
+  return packUnits(parseStructure(text), chunkSize, overlap, measure).map((chunk, index) => ({
+    text: chunk.text,
+    index,
+    metadata: { ...metadata, chunkIndex: index, ...sectionMetadata(chunk.path) },
+  }));
+}
+
+// ─── Parent–child (small-to-big) chunking ────────────────────────────────────
+
+/** Enclosing record/section of retrieval chunks; handed to the LLM instead of the fragment */
+export interface ParentChunk {
+  parentId: string;
+  text: string;
+  metadata: Record<string, any>;
 }
 
-/** Process an array of STJ records into chunks ready for embedding */
+export interface HierarchicalChunks {
+  /** Small retrieval chunks, each with `parentId` in its metadata */
+  chunks: TextChunk[];
+  parents: ParentChunk[];
+}
+
+function parentIdOf(metadata: Record<string, any>, path: string[], text: string): string {
+  return createHash("sha256")
+    .update(`${metadata.recordKey ?? metadata.documentId ?? ""}|${path.join(" > ")}|${text}`)
+    .digest("hex")
+    .substring(0, 32);
+}
+
+/**
+ * Chunk text into parents and children. Parents are whole sections ("legal")
+ * or the whole text ("sentence"), split into windows of sizing.parentSize when
+ * larger; children are chunked from each parent with the chosen strategy.
+ */
+export function chunkHierarchically(
+  strategy: ChunkingStrategy,
+  text: string,
+  metadata: Record<string, any> = {},
+  sizing: ChunkSizing = getChunkSizing()
+): HierarchicalChunks {
+  if (!text || text.trim().length === 0) return { chunks: [], parents: [] };
+
+  const measure = measureFor(sizing);
+  const units: StructuralUnit[] = strategy === "legal"
+    ? parseStructure(text)
+    : [{ path: [], text: text.replace(/\s+/g, " ").trim() }];
+
+  // Parents never mix sections; only units larger than a parent are split
+  const parentUnits: StructuralUnit[][] = [];
+  for (const unit of units) {
+    const pieces = measure(unit.text) > sizing.parentSize
+      ? chunkText(unit.text, {}, sizing.parentSize, 0, measure).map(c => ({ path: unit.path, text: c.text }))
+      : [unit];
+    for (const piece of pieces) {
+      const current = parentUnits[parentUnits.length - 1];
+      const currentLength = current?.reduce((sum, u) => sum + measure(u.text) + 1, 0) ?? 0;
+      if (current && current[0].path[0] === piece.path[0] && currentLength + measure(piece.text) <= sizing.parentSize) {
+        current.push(piece);
+      } else {
+        parentUnits.push([piece]);
+      }
+    }
+  }
+
+  const parents: ParentChunk[] = [];
+  const children: TextChunk[] = [];
+  for (const group of parentUnits) {
+    const parentText = group.map(u => u.text).join("\n");
+    const parentPath = commonPath(group.map(u => u.path));
+    const parentId = parentIdOf(metadata, parentPath, parentText);
+    parents.push({ parentId, text: parentText, metadata: { ...metadata, ...sectionMetadata(parentPath) } });
+
+    const packed = strategy === "legal"
+      ? packUnits(group, sizing.size, sizing.overlap, measure)
+      : chunkText(parentText, {}, sizing.size, sizing.overlap, measure).map(c => ({ text: c.text, path: [] }));
+    for (const child of packed) {
+      const index = children.length;
+      children.push({
+        text: child.text,
+        index,
+        metadata: { ...metadata, chunkIndex: index, parentId, ...sectionMetadata(child.path) },
+      });
+    }
+  }
+
+  return { chunks: enforceTokenLimit(children), parents };
+}
+
+/**
+ * Extract relevant fields from an STJ record and create text for embedding,
+ * using the record mapper registered for the dataset (see record-mappers.ts)
+ */
+export function processSTJRecord(record: any, datasetSlug?: string): MappedRecord {
+  return getRecordMapper(datasetSlug).map(record);
+}
+
+/**
+ * Process an array of STJ records into retrieval chunks and their parent
+ * sections (see chunkHierarchically). Each chunk carries the record's canonical
+ * `recordKey` (see canonicalRecordIdentity) and its `parentId`; repeated copies
+ * of the same record within the array are skipped. Chunks failing the quality
+ * gate (see text-quality.ts) are returned separately as `quarantined`.
+ * Personal data is replaced with pseudonyms (see pii-redaction.ts); the caller
+ * saves the returned `pseudonyms`.
+ */
 export function processSTJRecords(
   records: any[],
   datasetSlug: string,
-  resourceName: string
-): TextChunk[] {
+  resourceName: string,
+  strategy: ChunkingStrategy = getDefaultChunkingStrategy()
+): HierarchicalChunks & { quarantined: QuarantinedTextChunk[]; pseudonyms: PseudonymEntry[] } {
   const allChunks: TextChunk[] = [];
+  const allParents: ParentChunk[] = [];
+  const quarantined: QuarantinedTextChunk[] = [];
+  const pseudonyms: PseudonymEntry[] = [];
+  const seenKeys = new Set<string>();
 
   for (const record of records) {
-    const { text, metadata } = processSTJRecord(record);
-    if (text.trim().length === 0) continue;
+    const mapped = processSTJRecord(record, datasetSlug);
+    if (mapped.text.trim().length === 0) continue;
+    const { metadata } = mapped;
+
+    const identity = canonicalRecordIdentity(metadata);
+    if (identity) {
+      if (seenKeys.has(identity.recordKey)) continue;
+      seenKeys.add(identity.recordKey);
+    }
 
     const enrichedMetadata = {
       ...metadata,
+      ...identity,
       source: "stj",
       datasetSlug,
       resourceName,
     };
 
-    const chunks = chunkText(text, enrichedMetadata);
-    allChunks.push(...chunks);
+    const { text, pseudonyms: found } = redactText(mapped.text);
+    pseudonyms.push(...found);
+    const { chunks, parents } = chunkHierarchically(strategy, text, enrichedMetadata);
+    const gated = gateChunks(chunks);
+    allChunks.push(...gated.accepted);
+    allParents.push(...parents);
+    quarantined.push(...gated.quarantined);
   }
 
-  return allChunks;
+  return { chunks: allChunks, parents: allParents, quarantined, pseudonyms };
 }
@@ -1,12 +1,15 @@
-import { eq, desc, sql, and, like } from "drizzle-orm";
+import { eq, ne, desc, sql, and, or, like, isNull, isNotNull, inArray } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
 import {
   datasets, resources, documents, extractionLogs, ragQueries,
-  graphNodes, graphEdges, communities,
+  graphNodes, graphEdges, documentGraphMentions, communities, syncSchedules, schemaProfiles, records, chunkParents, documentVersions, uploads,
+  quarantinedChunks, piiMappings, entityAliases, entityMergeCandidates,
 } from "../drizzle/schema";
 import type {
   InsertDataset, InsertResource, InsertDocument, InsertExtractionLog, InsertRagQuery,
-  InsertGraphNode, InsertGraphEdge, InsertCommunity,
+  InsertGraphNode, InsertGraphEdge, InsertCommunity, InsertSyncSchedule, InsertSchemaProfile,
+  InsertStjRecord, InsertChunkParent, InsertDocumentVersion, InsertQuarantinedChunk, InsertUpload,
+  InsertPiiMapping, InsertEntityAlias, InsertEntityMergeCandidate, GraphNode,
 } from "../drizzle/schema";
 import { logger } from "./_core/logger";
 
@@ -26,7 +29,7 @@ export async function upsertDataset(data: InsertDataset) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   await db.insert(datasets).values(data).onDuplicateKeyUpdate({
-    set: { title: data.title, description: data.description, organization: data.organization, category: data.category, totalResources: data.totalResources, jsonResources: data.jsonResources, lastSyncedAt: data.lastSyncedAt, metadata: data.metadata },
+    set: { title: data.title, description: data.description, organization: data.organization, category: data.category, totalResources: data.totalResources, jsonResources: data.jsonResources, lastSyncedAt: data.lastSyncedAt, lastError: data.lastError, lastErrorAt: data.lastErrorAt, metadata: data.metadata },
   });
 }
 
@@ -36,6 +39,18 @@ export async function getAllDatasets() {
   return db.select().from(datasets).orderBy(datasets.title);
 }
 
+export async function setDatasetEnabled(slug: string, enabled: boolean) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.update(datasets).set({ enabled }).where(eq(datasets.slug, slug));
+}
+
+export async function setDatasetSyncError(slug: string, lastError: string | null) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(datasets).set({ lastError, lastErrorAt: lastError ? new Date() : null }).where(eq(datasets.slug, slug));
+}
+
 export async function getDatasetBySlug(slug: string) {
   const db = await getDb();
   if (!db) return undefined;
@@ -49,7 +64,7 @@ export async function upsertResource(data: InsertResource) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   await db.insert(resources).values(data).onDuplicateKeyUpdate({
-    set: { name: data.name, format: data.format, url: data.url, fileSize: data.fileSize },
+    set: { name: data.name, format: data.format, url: data.url, fileSize: data.fileSize, remoteRevision: data.remoteRevision },
   });
 }
 
@@ -59,7 +74,7 @@ export async function getResourcesByDatasetId(datasetId: number) {
   return db.select().from(resources).where(eq(resources.datasetId, datasetId)).orderBy(resources.name);
 }
 
-export async function updateResourceStatus(resourceId: string, status: string, extra?: Partial<{ downloadedAt: Date; processedAt: Date; embeddedAt: Date; recordCount: number; chunkCount: number; entityCount: number; relationshipCount: number; errorMessage: string }>) {
+export async function updateResourceStatus(resourceId: string, status: string, extra?: Partial<{ downloadedAt: Date; processedAt: Date; embeddedAt: Date; recordCount: number; chunkCount: number; entityCount: number; relationshipCount: number; errorMessage: string; contentHash: string; ingestedRevision: string | null; snapshotKey: string; snapshotAt: Date }>) {
   const db = await getDb();
   if (!db) return;
   await db.update(resources).set({ status: status as any, ...extra }).where(eq(resources.resourceId, resourceId));
@@ -96,10 +111,23 @@ export async function createDocument(data: InsertDocument) {
   return result[0].insertId;
 }
 
-export async function getDocumentsByUserId(userId: number) {
+/** Filters on the decision metadata detected in uploads */
+export interface DocumentFilters {
+  processo?: string;
+  tribunal?: string;
+  classe?: string;
+  relator?: string;
+}
+
+export async function getDocumentsByUserId(userId: number, filters: DocumentFilters = {}) {
   const db = await getDb();
   if (!db) return [];
-  return db.select().from(documents).where(eq(documents.userId, userId)).orderBy(desc(documents.createdAt));
+  const conditions = [eq(documents.userId, userId)];
+  if (filters.processo) conditions.push(like(documents.processo, `%${filters.processo}%`));
+  if (filters.tribunal) conditions.push(eq(documents.tribunal, filters.tribunal));
+  if (filters.classe) conditions.push(eq(documents.classe, filters.classe));
+  if (filters.relator) conditions.push(like(documents.relator, `%${filters.relator}%`));
+  return db.select().from(documents).where(and(...conditions)).orderBy(desc(documents.createdAt));
 }
 
 export async function updateDocument(id: number, data: Partial<InsertDocument>) {
@@ -108,6 +136,12 @@ export async function updateDocument(id: number, data: Partial<InsertDocument>)
   await db.update(documents).set(data as any).where(eq(documents.id, id));
 }
 
+export async function getChildDocuments(parentDocumentId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(documents).where(eq(documents.parentDocumentId, parentDocumentId)).orderBy(documents.id);
+}
+
 export async function getDocumentById(id: number) {
   const db = await getDb();
   if (!db) return undefined;
@@ -121,14 +155,65 @@ export async function getAllDocuments() {
   return db.select().from(documents).orderBy(desc(documents.createdAt));
 }
 
+export async function deleteDocument(id: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db.delete(documentVersions).where(eq(documentVersions.documentId, id));
+  await db.delete(documents).where(eq(documents.id, id));
+}
+
+export async function createDocumentVersion(data: InsertDocumentVersion) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.insert(documentVersions).values(data);
+}
+
+export async function getDocumentVersions(documentId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(documentVersions)
+    .where(eq(documentVersions.documentId, documentId))
+    .orderBy(desc(documentVersions.version));
+}
+
+// ─── Browser Uploads ────────────────────────────────────────────────────────
+
+export async function createUpload(data: InsertUpload) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.insert(uploads).values(data);
+}
+
+export async function getUploadByUploadId(uploadId: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(uploads).where(eq(uploads.uploadId, uploadId)).limit(1);
+  return result[0];
+}
+
+/** Move a pending upload to "completing"; false when another request got there first */
+export async function claimUpload(id: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const result = await db.update(uploads).set({ status: "completing" })
+    .where(and(eq(uploads.id, id), eq(uploads.status, "pending")));
+  return result[0].affectedRows === 1;
+}
+
+export async function updateUpload(id: number, data: Partial<Pick<InsertUpload, "status" | "documentId">>) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(uploads).set(data).where(eq(uploads.id, id));
+}
+
 // ─── Graph Nodes (Entities) ─────────────────────────────────────────────────
 
 export async function upsertGraphNode(data: InsertGraphNode) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
+  // A node keeps the name it was created with; later mentions may use an alias
   await db.insert(graphNodes).values(data).onDuplicateKeyUpdate({
     set: {
-      name: data.name,
       description: data.description,
       mentionCount: sql`mentionCount + 1`,
       metadata: data.metadata,
@@ -157,10 +242,27 @@ export async function getGraphNodesByType(entityType: string, limit = 100) {
   return db.select().from(graphNodes).where(eq(graphNodes.entityType, entityType)).orderBy(desc(graphNodes.mentionCount)).limit(limit);
 }
 
+/** Nodes whose name or one of whose aliases contains the query ("CDC" finds "Lei 8.078/90") */
 export async function searchGraphNodes(query: string, limit = 20) {
   const db = await getDb();
   if (!db) return [];
-  return db.select().from(graphNodes).where(like(graphNodes.name, `%${query}%`)).orderBy(desc(graphNodes.mentionCount)).limit(limit);
+  const pattern = `%${query}%`;
+  return db.select().from(graphNodes)
+    .where(or(
+      like(graphNodes.name, pattern),
+      sql`${graphNodes.entityId} IN (SELECT ${entityAliases.entityId} FROM ${entityAliases} WHERE ${entityAliases.name} LIKE ${pattern})`,
+    ))
+    .orderBy(desc(graphNodes.mentionCount))
+    .limit(limit);
+}
+
+/** The subset of `entityIds` that already are graph nodes */
+export async function getExistingGraphNodeIds(entityIds: string[]): Promise<string[]> {
+  const db = await getDb();
+  if (!db || entityIds.length === 0) return [];
+  const rows = await db.select({ entityId: graphNodes.entityId }).from(graphNodes)
+    .where(inArray(graphNodes.entityId, entityIds));
+  return rows.map(r => r.entityId);
 }
 
 export async function getAllGraphNodes() {
@@ -205,6 +307,51 @@ export async function batchInsertGraphEdges(edges: InsertGraphEdge[]) {
   }
 }
 
+/** Record the nodes an uploaded document's extraction upserted, once per upsert */
+export async function addDocumentGraphMentions(documentId: number, entityIds: string[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const counts = new Map<string, number>();
+  for (const entityId of entityIds) counts.set(entityId, (counts.get(entityId) ?? 0) + 1);
+  for (const [entityId, mentionCount] of counts) {
+    await db.insert(documentGraphMentions).values({ documentId, entityId, mentionCount }).onDuplicateKeyUpdate({
+      set: { mentionCount: sql`${documentGraphMentions.mentionCount} + ${mentionCount}` },
+    });
+  }
+}
+
+/**
+ * Remove the graph contribution of an uploaded document: edges extracted from it,
+ * and its recorded mentions taken off each node's mentionCount. A node is deleted
+ * only once no mention is left and no remaining edge references it, so nodes other
+ * documents or STJ resources also mention stay in the graph.
+ */
+export async function deleteDocumentGraph(documentId: number): Promise<{ nodes: number; edges: number }> {
+  const db = await getDb();
+  if (!db) return { nodes: 0, edges: 0 };
+  const mentions = await db.select().from(documentGraphMentions)
+    .where(eq(documentGraphMentions.documentId, documentId));
+  for (const mention of mentions) {
+    await db.update(graphNodes)
+      .set({ mentionCount: sql`GREATEST(${graphNodes.mentionCount} - ${mention.mentionCount}, 0)` })
+      .where(eq(graphNodes.entityId, mention.entityId));
+  }
+  await db.delete(documentGraphMentions).where(eq(documentGraphMentions.documentId, documentId));
+
+  const edgeResult = await db.delete(graphEdges).where(eq(graphEdges.sourceRef, String(documentId)));
+  let nodes = 0;
+  const mentioned = mentions.map(m => m.entityId);
+  for (let i = 0; i < mentioned.length; i += 100) {
+    const nodeResult = await db.delete(graphNodes).where(and(
+      inArray(graphNodes.entityId, mentioned.slice(i, i + 100)),
+      sql`${graphNodes.mentionCount} <= 0`,
+      sql`NOT EXISTS (SELECT 1 FROM ${graphEdges} WHERE ${graphEdges.sourceEntityId} = ${graphNodes.entityId} OR ${graphEdges.targetEntityId} = ${graphNodes.entityId})`,
+    ));
+    nodes += nodeResult[0].affectedRows;
+  }
+  return { nodes, edges: edgeResult[0].affectedRows };
+}
+
 export async function getEdgesForEntity(entityId: string) {
   const db = await getDb();
   if (!db) return [];
@@ -229,6 +376,157 @@ export async function getGraphEdgeStats() {
   return result;
 }
 
+// ─── Entity Resolution ───────────────────────────────────────────────────────
+
+/** Insert or re-point aliases (an alias resolves to a single canonical node) */
+export async function upsertEntityAliases(data: InsertEntityAlias[]) {
+  const db = await getDb();
+  if (!db || data.length === 0) return;
+  for (let i = 0; i < data.length; i += 100) {
+    await db.insert(entityAliases).values(data.slice(i, i + 100)).onDuplicateKeyUpdate({
+      set: {
+        entityId: sql`VALUES(${entityAliases.entityId})`,
+        method: sql`VALUES(${entityAliases.method})`,
+        confidence: sql`VALUES(${entityAliases.confidence})`,
+      },
+    });
+  }
+}
+
+export async function getEntityAliasesByAlias(aliases: string[]) {
+  const db = await getDb();
+  if (!db || aliases.length === 0) return [];
+  return db.select().from(entityAliases).where(inArray(entityAliases.alias, aliases));
+}
+
+export async function getEntityAliases(entityId: string) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(entityAliases).where(eq(entityAliases.entityId, entityId)).orderBy(entityAliases.name);
+}
+
+/**
+ * Merge node `sourceEntityId` into `targetEntityId`: edges and aliases are re-pointed,
+ * mentions added up and the source recorded as an alias of the target. When the target
+ * does not exist yet the source node is renamed instead. Returns false when there is
+ * no source node.
+ */
+export async function mergeGraphNodes(
+  sourceEntityId: string,
+  targetEntityId: string,
+  alias: Pick<InsertEntityAlias, "method" | "confidence">
+): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (sourceEntityId === targetEntityId) return false;
+  return db.transaction(async (tx) => {
+    const [source] = await tx.select().from(graphNodes).where(eq(graphNodes.entityId, sourceEntityId)).limit(1);
+    if (!source) return false;
+    const [target] = await tx.select().from(graphNodes).where(eq(graphNodes.entityId, targetEntityId)).limit(1);
+    if (target) {
+      await tx.update(graphNodes)
+        .set({ mentionCount: sql`${graphNodes.mentionCount} + ${source.mentionCount ?? 1}` })
+        .where(eq(graphNodes.id, target.id));
+      await tx.delete(graphNodes).where(eq(graphNodes.id, source.id));
+    } else {
+      await tx.update(graphNodes).set({ entityId: targetEntityId }).where(eq(graphNodes.id, source.id));
+    }
+
+    await tx.update(graphEdges).set({ sourceEntityId: targetEntityId }).where(eq(graphEdges.sourceEntityId, sourceEntityId));
+    await tx.update(graphEdges).set({ targetEntityId: targetEntityId }).where(eq(graphEdges.targetEntityId, sourceEntityId));
+    // Edges between the two nodes became self-loops
+    await tx.delete(graphEdges).where(and(
+      eq(graphEdges.sourceEntityId, targetEntityId),
+      eq(graphEdges.targetEntityId, targetEntityId),
+    ));
+
+    const mentions = await tx.select().from(documentGraphMentions)
+      .where(eq(documentGraphMentions.entityId, sourceEntityId));
+    for (const mention of mentions) {
+      await tx.insert(documentGraphMentions)
+        .values({ documentId: mention.documentId, entityId: targetEntityId, mentionCount: mention.mentionCount })
+        .onDuplicateKeyUpdate({ set: { mentionCount: sql`${documentGraphMentions.mentionCount} + ${mention.mentionCount}` } });
+    }
+    await tx.delete(documentGraphMentions).where(eq(documentGraphMentions.entityId, sourceEntityId));
+
+    await tx.update(entityAliases).set({ entityId: targetEntityId }).where(eq(entityAliases.entityId, sourceEntityId));
+    await tx.delete(entityAliases).where(eq(entityAliases.alias, targetEntityId));
+    await tx.insert(entityAliases).values({
+      alias: sourceEntityId,
+      name: source.name,
+      entityId: targetEntityId,
+      entityType: source.entityType,
+      ...alias,
+    }).onDuplicateKeyUpdate({
+      set: { entityId: targetEntityId, method: alias.method, confidence: alias.confidence },
+    });
+
+    // Pending reviews involving the merged node no longer apply
+    await tx.delete(entityMergeCandidates).where(and(
+      eq(entityMergeCandidates.status, "pending"),
+      or(
+        eq(entityMergeCandidates.sourceEntityId, sourceEntityId),
+        eq(entityMergeCandidates.targetEntityId, sourceEntityId),
+      ),
+    ));
+    return true;
+  });
+}
+
+/** Queue a pair for review unless it was already proposed (in either direction); returns whether it was added */
+export async function createEntityMergeCandidate(data: InsertEntityMergeCandidate): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+  const existing = await db.select({ id: entityMergeCandidates.id }).from(entityMergeCandidates)
+    .where(or(
+      and(
+        eq(entityMergeCandidates.sourceEntityId, data.sourceEntityId),
+        eq(entityMergeCandidates.targetEntityId, data.targetEntityId),
+      ),
+      and(
+        eq(entityMergeCandidates.sourceEntityId, data.targetEntityId),
+        eq(entityMergeCandidates.targetEntityId, data.sourceEntityId),
+      ),
+    ))
+    .limit(1);
+  if (existing.length > 0) return false;
+  await db.insert(entityMergeCandidates).values(data);
+  return true;
+}
+
+export async function getEntityMergeCandidateById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(entityMergeCandidates).where(eq(entityMergeCandidates.id, id)).limit(1);
+  return result[0];
+}
+
+/** Candidates with the nodes on both sides (most similar first) */
+export async function getEntityMergeCandidates(status: "pending" | "approved" | "rejected" = "pending", limit = 50) {
+  const db = await getDb();
+  if (!db) return [];
+  const candidates = await db.select().from(entityMergeCandidates)
+    .where(eq(entityMergeCandidates.status, status))
+    .orderBy(desc(entityMergeCandidates.similarity))
+    .limit(limit);
+  const ids = candidates.flatMap(c => [c.sourceEntityId, c.targetEntityId]);
+  const nodes = ids.length > 0
+    ? await db.select().from(graphNodes).where(inArray(graphNodes.entityId, ids))
+    : [];
+  const byId = new Map<string, GraphNode>(nodes.map(n => [n.entityId, n]));
+  return candidates.map(c => ({
+    ...c,
+    source: byId.get(c.sourceEntityId) ?? null,
+    target: byId.get(c.targetEntityId) ?? null,
+  }));
+}
+
+export async function updateEntityMergeCandidate(id: number, data: Partial<InsertEntityMergeCandidate>) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(entityMergeCandidates).set(data).where(eq(entityMergeCandidates.id, id));
+}
+
 // ─── Communities ─────────────────────────────────────────────────────────────
 
 export async function upsertCommunity(data: InsertCommunity) {
@@ -272,6 +570,12 @@ export async function createLog(data: InsertExtractionLog) {
   return result[0].insertId;
 }
 
+export async function deleteLogsByDocumentId(documentId: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db.delete(extractionLogs).where(eq(extractionLogs.documentId, documentId));
+}
+
 export async function updateLog(id: number, data: Partial<InsertExtractionLog>) {
   const db = await getDb();
   if (!db) return;
@@ -284,6 +588,200 @@ export async function getRecentLogs(limit = 50) {
   return db.select().from(extractionLogs).orderBy(desc(extractionLogs.createdAt)).limit(limit);
 }
 
+// ─── Schema Profiles ─────────────────────────────────────────────────────────
+
+export async function getLatestSchemaProfile(datasetId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(schemaProfiles)
+    .where(eq(schemaProfiles.datasetId, datasetId))
+    .orderBy(desc(schemaProfiles.createdAt), desc(schemaProfiles.id))
+    .limit(1);
+  return result[0];
+}
+
+export async function createSchemaProfile(data: InsertSchemaProfile) {
+  const db = await getDb();
+  if (!db) return;
+  const result = await db.insert(schemaProfiles).values(data);
+  return result[0].insertId;
+}
+
+/** Unacknowledged profiles that recorded drift (dashboard alerts) */
+export async function getOpenSchemaDrifts(limit = 20) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(schemaProfiles)
+    .where(and(isNotNull(schemaProfiles.drift), isNull(schemaProfiles.acknowledgedAt)))
+    .orderBy(desc(schemaProfiles.createdAt))
+    .limit(limit);
+}
+
+export async function acknowledgeSchemaDrift(id: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(schemaProfiles).set({ acknowledgedAt: new Date() }).where(eq(schemaProfiles.id, id));
+}
+
+// ─── Records (deduplication) ─────────────────────────────────────────────────
+
+export async function getRecordsByKeys(recordKeys: string[]) {
+  const db = await getDb();
+  if (!db || recordKeys.length === 0) return [];
+  return db.select().from(records).where(inArray(records.recordKey, recordKeys));
+}
+
+export async function createRecord(data: InsertStjRecord) {
+  const db = await getDb();
+  if (!db) return;
+  const result = await db.insert(records).values(data);
+  return result[0].insertId;
+}
+
+export async function updateRecordSources(
+  id: number,
+  data: Partial<Pick<InsertStjRecord,
+    "resourceIds" | "datasetSlugs" | "metadata" | "primaryResourceId" | "textLength" | "contentHash">>,
+) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(records).set(data).where(eq(records.id, id));
+}
+
+/** Records that list a resource among their sources */
+export async function getRecordsByResource(resourceId: string) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(records)
+    .where(sql`JSON_CONTAINS(${records.resourceIds}, JSON_QUOTE(${resourceId}))`);
+}
+
+export async function deleteRecord(id: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db.delete(records).where(eq(records.id, id));
+}
+
+// ─── Chunk Parents ───────────────────────────────────────────────────────────
+
+export async function upsertChunkParents(data: InsertChunkParent[]) {
+  const db = await getDb();
+  if (!db) return;
+  for (const parent of data) {
+    await db.insert(chunkParents).values(parent).onDuplicateKeyUpdate({
+      set: { text: parent.text, metadata: parent.metadata, collectionName: parent.collectionName, runId: parent.runId },
+    });
+  }
+}
+
+/** Delete the parents of a source that ingest run `runId` did not write */
+export async function deleteStaleChunkParents(sourceId: string, runId: string) {
+  const db = await getDb();
+  if (!db) return;
+  await db.delete(chunkParents).where(and(
+    eq(chunkParents.sourceId, sourceId),
+    or(isNull(chunkParents.runId), ne(chunkParents.runId, runId)),
+  ));
+}
+
+export async function deleteChunkParentsByCollection(collectionName: string) {
+  const db = await getDb();
+  if (!db) return;
+  await db.delete(chunkParents).where(eq(chunkParents.collectionName, collectionName));
+}
+
+export async function getChunkParentsByIds(parentIds: string[]) {
+  const db = await getDb();
+  if (!db || parentIds.length === 0) return [];
+  return db.select().from(chunkParents).where(inArray(chunkParents.parentId, parentIds));
+}
+
+// ─── Quarantined Chunks ──────────────────────────────────────────────────────
+
+export async function insertQuarantinedChunks(data: InsertQuarantinedChunk[]) {
+  const db = await getDb();
+  if (!db || data.length === 0) return;
+  for (let i = 0; i < data.length; i += 100) {
+    await db.insert(quarantinedChunks).values(data.slice(i, i + 100));
+  }
+}
+
+export async function deleteQuarantinedChunks(sourceId: string) {
+  const db = await getDb();
+  if (!db) return;
+  await db.delete(quarantinedChunks).where(eq(quarantinedChunks.sourceId, sourceId));
+}
+
+export async function getQuarantinedChunks(sourceId: string, limit = 100) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(quarantinedChunks)
+    .where(eq(quarantinedChunks.sourceId, sourceId))
+    .orderBy(quarantinedChunks.chunkIndex)
+    .limit(limit);
+}
+
+// ─── PII Mappings ────────────────────────────────────────────────────────────
+
+/** Insert new pseudonyms; a pseudonym already mapped keeps its first value */
+export async function upsertPiiMappings(data: InsertPiiMapping[]) {
+  const db = await getDb();
+  if (!db || data.length === 0) return;
+  for (let i = 0; i < data.length; i += 100) {
+    await db.insert(piiMappings).values(data.slice(i, i + 100)).onDuplicateKeyUpdate({
+      set: { pseudonym: sql`${piiMappings.pseudonym}` },
+    });
+  }
+}
+
+export async function getPiiMappings(pseudonyms: string[]) {
+  const db = await getDb();
+  if (!db || pseudonyms.length === 0) return [];
+  return db.select().from(piiMappings).where(inArray(piiMappings.pseudonym, pseudonyms));
+}
+
+export async function getPiiMappingStats() {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select({ piiType: piiMappings.piiType, count: sql<number>`count(*)` })
+    .from(piiMappings)
+    .groupBy(piiMappings.piiType);
+}
+
+// ─── Sync Schedules ──────────────────────────────────────────────────────────
+
+export async function getAllSyncSchedules() {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(syncSchedules).orderBy(syncSchedules.name);
+}
+
+export async function getSyncScheduleById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(syncSchedules).where(eq(syncSchedules.id, id)).limit(1);
+  return result[0];
+}
+
+export async function createSyncSchedule(data: InsertSyncSchedule) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const result = await db.insert(syncSchedules).values(data);
+  return result[0].insertId;
+}
+
+export async function updateSyncSchedule(id: number, data: Partial<InsertSyncSchedule>) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(syncSchedules).set(data).where(eq(syncSchedules.id, id));
+}
+
+export async function deleteSyncSchedule(id: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db.delete(syncSchedules).where(eq(syncSchedules.id, id));
+}
+
 // ─── RAG Queries ─────────────────────────────────────────────────────────────
 
 export async function createRagQuery(data: InsertRagQuery) {
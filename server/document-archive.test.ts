@@ -0,0 +1,169 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { crc32, deflateRawSync } from "zlib";
+
+vi.mock("./db", () => ({
+  createDocument: vi.fn(),
+  getChildDocuments: vi.fn().mockResolvedValue([]),
+  updateDocument: vi.fn(),
+  createLog: vi.fn().mockResolvedValue(1),
+  updateLog: vi.fn(),
+}));
+vi.mock("./storage", () => ({
+  storagePutStream: vi.fn(async (key: string, stream: NodeJS.ReadableStream) => {
+    for await (const _ of stream) { /* drain */ }
+    return { key };
+  }),
+  storageGet: vi.fn(async (key: string) => ({ key, url: `https://storage/${key}` })),
+}));
+vi.mock("./queue/queues", () => ({
+  enqueueDocumentProcess: vi.fn().mockResolvedValue("job-1"),
+}));
+
+import { expandArchive, processArchive } from "./document-archive";
+import { createDocument, getChildDocuments, updateDocument } from "./db";
+import { storagePutStream } from "./storage";
+import { enqueueDocumentProcess } from "./queue/queues";
+
+/** Build a minimal ZIP archive (deflated entries, no extras) */
+function buildZip(entries: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(entries)) {
+    const nameBuf = Buffer.from(name, "utf-8");
+    const raw = Buffer.from(content, "utf-8");
+    const data = deflateRawSync(raw);
+    const crc = crc32(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBuf.length, 26);
+    locals.push(local, nameBuf, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBuf.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBuf);
+
+    offset += local.length + nameBuf.length + data.length;
+  }
+  const centralDir = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(entries).length, 8);
+  end.writeUInt16LE(Object.keys(entries).length, 10);
+  end.writeUInt32LE(centralDir.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, centralDir, end]);
+}
+
+const BUNDLE = {
+  "processo/": "",
+  "processo/peticao.txt": "Petição inicial",
+  "processo/decisao.html": "<p>Decisão</p>",
+  "processo/planilha.xlsx": "binário",
+  "__MACOSX/processo/._peticao.txt": "resource fork",
+  "processo/.DS_Store": "finder",
+};
+
+describe("expandArchive", () => {
+  let dir: string;
+  let zipPath: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    dir = await mkdtemp(join(tmpdir(), "archive-test-"));
+    zipPath = join(dir, "lote.zip");
+    await writeFile(zipPath, buildZip(BUNDLE));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("registers supported entries as child documents and queues them", async () => {
+    vi.mocked(createDocument).mockResolvedValueOnce(11).mockResolvedValueOnce(12);
+
+    const result = await expandArchive({ id: 10, userId: 7, extractEntities: false }, zipPath, { chunking: "legal" });
+
+    expect(result).toEqual({ documentIds: [11, 12], skipped: 1 });
+    expect(storagePutStream).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(storagePutStream).mock.calls[0][0]).toMatch(/^documents\/7\/.+-peticao\.txt$/);
+    expect(createDocument).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 7,
+      parentDocumentId: 10,
+      filename: "peticao.txt",
+      originalName: "processo/peticao.txt",
+      mimeType: "text/plain",
+      fileSize: Buffer.byteLength("Petição inicial"),
+      extractEntities: false,
+      status: "uploaded",
+    }));
+    expect(createDocument).toHaveBeenCalledWith(expect.objectContaining({ filename: "decisao.html", mimeType: "text/html" }));
+    expect(enqueueDocumentProcess).toHaveBeenCalledWith(11, { chunking: "legal" });
+    expect(enqueueDocumentProcess).toHaveBeenCalledWith(12, { chunking: "legal" });
+  });
+
+  it("re-queues entries registered by an earlier run", async () => {
+    vi.mocked(getChildDocuments).mockResolvedValueOnce([
+      { id: 21, originalName: "processo/peticao.txt" },
+    ] as any);
+    vi.mocked(createDocument).mockResolvedValueOnce(22);
+
+    const result = await expandArchive({ id: 10, userId: 7, extractEntities: true }, zipPath);
+
+    expect(result.documentIds).toEqual([21, 22]);
+    expect(createDocument).toHaveBeenCalledTimes(1);
+    expect(enqueueDocumentProcess).toHaveBeenCalledWith(21, { chunking: undefined });
+  });
+});
+
+describe("processArchive", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("downloads the archive and records the expanded documents", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response(buildZip(BUNDLE))));
+    vi.mocked(createDocument).mockResolvedValueOnce(11).mockResolvedValueOnce(12);
+
+    const result = await processArchive({ id: 10, userId: 7, extractEntities: true, filename: "lote.zip" }, "https://storage/lote.zip");
+
+    expect(result.documentIds).toEqual([11, 12]);
+    expect(updateDocument).toHaveBeenLastCalledWith(10, {
+      status: "extracted",
+      chunkCount: 0,
+      metadata: { archive: { documentIds: [11, 12], skippedEntries: 1 } },
+    });
+  });
+
+  it("marks the archive as failed when the download fails", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("denied", { status: 403, statusText: "Forbidden" })));
+
+    await expect(
+      processArchive({ id: 10, userId: 7, extractEntities: true, filename: "lote.zip" }, "https://storage/lote.zip")
+    ).rejects.toThrow("HTTP 403 Forbidden");
+    expect(updateDocument).toHaveBeenLastCalledWith(10, expect.objectContaining({ status: "error" }));
+  });
+});
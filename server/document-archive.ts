@@ -0,0 +1,136 @@
+/**
+ * Document Archives - ZIP uploads are expanded into child documents.
+ * The archive is streamed to a spool file and each supported entry is
+ * streamed to storage, registered with `parentDocumentId` and queued for
+ * processing, so archives of hundreds of MB never sit in memory.
+ */
+import { join, basename } from "path";
+import { tmpdir } from "os";
+import { Readable } from "stream";
+import { nanoid } from "nanoid";
+import { createDocument, getChildDocuments, updateDocument, createLog, updateLog } from "./db";
+import type { Document } from "../drizzle/schema";
+import { storageGet, storagePutStream } from "./storage";
+import { enqueueDocumentProcess } from "./queue/queues";
+import { detectDocumentFormat, mimeTypeForFilename } from "./document-formats";
+import { openZip, nextZipEntry, openZipEntry } from "./resource-parsers";
+import { writeStreamToFile, ensureDir, removeFile } from "./stj-stream";
+import type { ChunkingStrategy } from "./chunker";
+
+const SPOOL_DIR = process.env.UPLOAD_SPOOL_DIR || join(tmpdir(), "document-uploads");
+/** Guard against archives with an unreasonable number of entries */
+const MAX_ARCHIVE_ENTRIES = Number(process.env.UPLOAD_ARCHIVE_MAX_ENTRIES || "1000");
+
+/** Entries that are never documents (folders, macOS resource forks, hidden files) */
+function isIgnoredEntry(path: string): boolean {
+  return path.endsWith("/") || path.startsWith("__MACOSX/") || basename(path).startsWith(".");
+}
+
+/**
+ * Expand a ZIP file into child documents of `archive`. Entries registered by an
+ * earlier run (same path inside the archive) are re-queued instead of duplicated.
+ */
+export async function expandArchive(
+  archive: Pick<Document, "id" | "userId" | "extractEntities">,
+  zipPath: string,
+  options: { chunking?: ChunkingStrategy } = {}
+): Promise<{ documentIds: number[]; skipped: number }> {
+  const existing = await getChildDocuments(archive.id);
+  const documentIds: number[] = [];
+  let skipped = 0;
+
+  const zip = await openZip(zipPath);
+  try {
+    for (let entry = await nextZipEntry(zip); entry; entry = await nextZipEntry(zip)) {
+      if (isIgnoredEntry(entry.fileName)) continue;
+      const filename = basename(entry.fileName);
+      const mimeType = mimeTypeForFilename(filename);
+      if (!detectDocumentFormat(mimeType, filename)) {
+        skipped++;
+        continue;
+      }
+      if (documentIds.length >= MAX_ARCHIVE_ENTRIES) {
+        throw new Error(`Archive has more than ${MAX_ARCHIVE_ENTRIES} documents`);
+      }
+
+      let childId = existing.find(d => d.originalName === entry!.fileName)?.id;
+      if (!childId) {
+        const fileKey = `documents/${archive.userId}/${nanoid()}-${filename}`;
+        const { key } = await storagePutStream(fileKey, await openZipEntry(zip, entry), mimeType);
+        const { url } = await storageGet(key);
+        childId = await createDocument({
+          userId: archive.userId,
+          parentDocumentId: archive.id,
+          filename,
+          originalName: entry.fileName,
+          mimeType,
+          fileSize: entry.uncompressedSize,
+          fileUrl: url,
+          fileKey: key,
+          extractEntities: archive.extractEntities,
+          status: "uploaded",
+        });
+      }
+      await enqueueDocumentProcess(childId, { chunking: options.chunking });
+      documentIds.push(childId);
+    }
+  } finally {
+    zip.close();
+  }
+
+  return { documentIds, skipped };
+}
+
+/** Download an uploaded ZIP to the spool dir, expand it and record the result on the archive row */
+export async function processArchive(
+  archive: Pick<Document, "id" | "userId" | "extractEntities" | "filename">,
+  fileUrl: string,
+  options: { chunking?: ChunkingStrategy } = {}
+): Promise<{ documentIds: number[]; skipped: number }> {
+  const startTime = Date.now();
+  const logId = await createLog({
+    action: "process_document",
+    documentId: archive.id,
+    status: "started",
+    details: `Expanding archive ${archive.filename}`,
+  });
+  const zipPath = join(SPOOL_DIR, `${archive.id}-${nanoid(8)}.zip`);
+
+  try {
+    await updateDocument(archive.id, { status: "extracting" });
+    const response = await fetch(fileUrl);
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to fetch archive ${archive.id}: HTTP ${response.status} ${response.statusText}`);
+    }
+    await ensureDir(SPOOL_DIR);
+    await writeStreamToFile(Readable.fromWeb(response.body as any), zipPath);
+
+    const result = await expandArchive(archive, zipPath, options);
+    await updateDocument(archive.id, {
+      status: "extracted",
+      chunkCount: 0,
+      metadata: { archive: { documentIds: result.documentIds, skippedEntries: result.skipped } },
+    });
+
+    if (logId) {
+      await updateLog(logId, {
+        status: "completed",
+        durationMs: Date.now() - startTime,
+        details: `Expanded archive ${archive.filename}: ${result.documentIds.length} documents queued, ${result.skipped} unsupported entries skipped`,
+      });
+    }
+    return result;
+  } catch (error: any) {
+    await updateDocument(archive.id, { status: "error", errorMessage: error.message });
+    if (logId) {
+      await updateLog(logId, {
+        status: "failed",
+        durationMs: Date.now() - startTime,
+        errorMessage: error.message,
+      });
+    }
+    throw error;
+  } finally {
+    await removeFile(zipPath);
+  }
+}
@@ -0,0 +1,100 @@
+import { vi, describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+
+vi.mock("word-extractor", () => ({
+  default: vi.fn(() => ({ extract: vi.fn().mockResolvedValue({ getBody: () => "DECISÃO\r\n\r\n\r\nVistos.  " }) })),
+}));
+
+import {
+  detectDocumentFormat, rtfToText, odtToText, htmlToText, decodeHtml, parseEmail, docToText,
+} from "./document-formats";
+
+describe("detectDocumentFormat", () => {
+  it("prefers the MIME type and falls back to the extension", () => {
+    expect(detectDocumentFormat("application/rtf", "x.bin")).toBe("rtf");
+    expect(detectDocumentFormat("text/html; charset=iso-8859-1", "x")).toBe("html");
+    expect(detectDocumentFormat("application/octet-stream", "Mensagem.EML")).toBe("eml");
+    expect(detectDocumentFormat("application/msword", "peca.doc")).toBe("doc");
+    expect(detectDocumentFormat("image/png", "foto.png")).toBeNull();
+  });
+});
+
+describe("rtfToText", () => {
+  it("drops control words and tables and decodes escapes", () => {
+    const rtf = String.raw`{\rtf1\ansi\ansicpg1252{\fonttbl{\f0 Arial;}}{\colortbl;\red0\green0\blue0;}` +
+      String.raw`{\*\generator Microsoft Word;}{\header P\'e1gina 1}\pard\b AC\'d3RD\'c3O\b0\par ` +
+      String.raw`Vistos e relatados \u8220?estes\u8221? autos\emdash decis\u227?o un\'e2nime.\par}`;
+    expect(rtfToText(rtf)).toBe("ACÓRDÃO\nVistos e relatados “estes” autos—decisão unânime.");
+  });
+});
+
+describe("odtToText", () => {
+  it("extracts headings and paragraphs from content.xml", async () => {
+    const buffer = readFileSync(path.join(import.meta.dirname, "__fixtures__", "peticao.odt"));
+    expect(await odtToText(buffer)).toBe(
+      "PETIÇÃO INICIAL\nExcelentíssimo Senhor Doutor Juiz de Direito da Vara Cível.\n" +
+      "Valor da causa: R$ 10.000,00\nTermos em que pede deferimento."
+    );
+  });
+});
+
+describe("htmlToText", () => {
+  it("keeps visible text, one block per line", () => {
+    const html = `<html><head><title>STJ</title><script>var x = "<p>";</script></head>
+      <body><div class="ementa"><p>PROCESSUAL CIVIL.&nbsp;AGRAVO</p><p>Recurso<br>n&atilde;o provido.</p></div>
+      <table><tr><td>Relator</td><td>Min. Fulano</td></tr></table></body></html>`;
+    expect(htmlToText(html)).toBe("PROCESSUAL CIVIL. AGRAVO\n\nRecurso\nnão provido.\n\nRelator Min. Fulano");
+  });
+
+  it("decodes with the charset of the meta tag", () => {
+    const latin1 = Buffer.from('<meta charset="iso-8859-1"><p>Decisão</p>', "latin1");
+    expect(htmlToText(decodeHtml(latin1))).toBe("Decisão");
+  });
+
+  it("keeps parsing past malformed markup", () => {
+    expect(htmlToText("<p>Ementa</p><![CDATA[sem fim")).toMatch(/^Ementa\n/);
+  });
+});
+
+describe("parseEmail", () => {
+  it("returns headers, body and attachments", async () => {
+    const eml = [
+      "From: Cartório <cartorio@tj.example>",
+      "To: Escritório <contato@adv.example>",
+      "Subject: Intimação - Processo 0001234-56.2020.8.26.0100",
+      "Date: Mon, 10 Feb 2025 10:00:00 -0300",
+      "MIME-Version: 1.0",
+      'Content-Type: multipart/mixed; boundary="b1"',
+      "",
+      "--b1",
+      "Content-Type: text/plain; charset=utf-8",
+      "",
+      "Segue em anexo a decisão.",
+      "--b1",
+      'Content-Type: text/plain; name="decisao.txt"',
+      'Content-Disposition: attachment; filename="decisao.txt"',
+      "Content-Transfer-Encoding: base64",
+      "",
+      Buffer.from("Ante o exposto, defiro o pedido.").toString("base64"),
+      "--b1--",
+      "",
+    ].join("\r\n");
+
+    const { text, attachments } = await parseEmail(Buffer.from(eml));
+
+    expect(text).toBe(
+      "Assunto: Intimação - Processo 0001234-56.2020.8.26.0100\nDe: \"Cartório\" <cartorio@tj.example>\n" +
+      "Para: \"Escritório\" <contato@adv.example>\nData: 2025-02-10\n\nSegue em anexo a decisão."
+    );
+    expect(attachments).toEqual([
+      { filename: "decisao.txt", mimeType: "text/plain", content: Buffer.from("Ante o exposto, defiro o pedido.") },
+    ]);
+  });
+});
+
+describe("docToText", () => {
+  it("returns the normalized body of a Word 97-2003 file", async () => {
+    expect(await docToText(Buffer.from("doc"))).toBe("DECISÃO\n\nVistos.");
+  });
+});
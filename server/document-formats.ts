@@ -0,0 +1,264 @@
+/**
+ * Document Formats - Format detection and text extraction for uploads besides
+ * PDF/DOCX/TXT (handled in document-processor.ts):
+ *   - RTF: control words stripped, \'hh (cp1252) and \uN escapes decoded
+ *   - ODT: content.xml of the OpenDocument ZIP
+ *   - HTML: pages saved from tribunal sites (charset from <meta>, scripts/styles dropped)
+ *   - EML: headers + body; attachments are returned for processing as child documents
+ *   - DOC: legacy Word binary via word-extractor
+ * ZIP archives are detected here but expanded into child documents (document-archive.ts).
+ */
+import sax from "sax";
+import yauzl from "yauzl";
+import type { Readable } from "stream";
+
+export type DocumentFormat = "txt" | "pdf" | "docx" | "rtf" | "odt" | "html" | "eml" | "doc" | "zip";
+
+export interface EmailAttachment {
+  filename: string;
+  mimeType: string;
+  content: Buffer;
+}
+
+const FORMATS: { format: DocumentFormat; mimeTypes: string[]; extensions: string[] }[] = [
+  { format: "txt", mimeTypes: ["text/plain"], extensions: ["txt"] },
+  { format: "pdf", mimeTypes: ["application/pdf"], extensions: ["pdf"] },
+  {
+    format: "docx",
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+    extensions: ["docx"],
+  },
+  { format: "rtf", mimeTypes: ["application/rtf", "text/rtf", "application/x-rtf"], extensions: ["rtf"] },
+  { format: "odt", mimeTypes: ["application/vnd.oasis.opendocument.text"], extensions: ["odt"] },
+  { format: "html", mimeTypes: ["text/html", "application/xhtml+xml"], extensions: ["html", "htm", "xhtml"] },
+  { format: "eml", mimeTypes: ["message/rfc822"], extensions: ["eml"] },
+  { format: "doc", mimeTypes: ["application/msword"], extensions: ["doc"] },
+  { format: "zip", mimeTypes: ["application/zip", "application/x-zip-compressed"], extensions: ["zip"] },
+];
+
+/** Upload format from the MIME type, falling back to the file extension */
+export function detectDocumentFormat(mimeType: string, filename: string): DocumentFormat | null {
+  const mime = mimeType.split(";")[0].trim().toLowerCase();
+  const byMime = FORMATS.find(f => f.mimeTypes.includes(mime));
+  if (byMime) return byMime.format;
+  const extension = filename.split(".").pop()?.toLowerCase() || "";
+  return FORMATS.find(f => f.extensions.includes(extension))?.format ?? null;
+}
+
+/** MIME type for a file inside an archive, from its extension */
+export function mimeTypeForFilename(filename: string): string {
+  const extension = filename.split(".").pop()?.toLowerCase() || "";
+  return FORMATS.find(f => f.extensions.includes(extension))?.mimeTypes[0] ?? "application/octet-stream";
+}
+
+// ─── RTF ─────────────────────────────────────────────────────────────────────
+
+/** Destinations whose content is not document text */
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  "fonttbl", "colortbl", "stylesheet", "info", "pict", "object", "themedata", "colorschememapping",
+  "datastore", "latentstyles", "listtable", "listoverridetable", "rsidtbl", "generator", "xmlnstbl",
+  "fldinst", "header", "headerl", "headerr", "headerf", "footer", "footerl", "footerr", "footerf",
+]);
+
+const RTF_SYMBOLS: Record<string, string> = {
+  par: "\n", line: "\n", sect: "\n", page: "\n", row: "\n", cell: " ", tab: "\t",
+  emdash: "—", endash: "–", bullet: "•", lquote: "‘", rquote: "’", ldblquote: "“", rdblquote: "”",
+};
+
+/** Control symbols (\\ \{ \} \~ \- \_ and escaped line breaks); "" drops the symbol */
+const RTF_CONTROL_SYMBOLS: Record<string, string> = {
+  "\\": "\\", "{": "{", "}": "}", "~": " ", "-": "", "_": "-", "\n": "\n", "\r": "\n",
+};
+
+const CP1252 = new TextDecoder("windows-1252");
+
+/** Plain text of an RTF document */
+export function rtfToText(rtf: string): string {
+  const out: string[] = [];
+  const stack: { skip: boolean; uc: number }[] = [];
+  let skip = false;
+  let uc = 1;
+  /** Fallback characters still to drop after a \uN escape */
+  let pendingSkip = 0;
+  const emit = (text: string) => {
+    if (skip) return;
+    if (pendingSkip > 0) { pendingSkip--; return; }
+    out.push(text);
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const ch = rtf[i];
+    if (ch === "{") {
+      stack.push({ skip, uc });
+      i++;
+    } else if (ch === "}") {
+      ({ skip, uc } = stack.pop() ?? { skip: false, uc: 1 });
+      i++;
+    } else if (ch === "\r" || ch === "\n") {
+      i++;
+    } else if (ch !== "\\") {
+      emit(ch);
+      i++;
+    } else {
+      const next = rtf[i + 1];
+      if (next === "'") {
+        emit(CP1252.decode(Uint8Array.of(parseInt(rtf.slice(i + 2, i + 4), 16))));
+        i += 4;
+      } else if (next === "*") {
+        // Ignorable destination unless it is known
+        skip = true;
+        i += 2;
+      } else if (next !== undefined && /[a-zA-Z]/.test(next)) {
+        const match = /^([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i + 1, i + 40))!;
+        const [whole, word, param] = match;
+        i += 1 + whole.length;
+        if (RTF_SKIPPED_DESTINATIONS.has(word)) skip = true;
+        else if (word === "uc") uc = Number(param ?? 1);
+        else if (word === "u" && param !== undefined) {
+          const code = Number(param);
+          emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+          if (!skip) pendingSkip = uc;
+        } else if (RTF_SYMBOLS[word]) emit(RTF_SYMBOLS[word]);
+      } else {
+        const symbol = next !== undefined ? RTF_CONTROL_SYMBOLS[next] : undefined;
+        if (symbol) emit(symbol);
+        i += 2;
+      }
+    }
+  }
+  return normalizeExtractedText(out.join(""));
+}
+
+// ─── ODT ─────────────────────────────────────────────────────────────────────
+
+function readZipEntry(buffer: Buffer, name: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    yauzl.fromBuffer(buffer, { lazyEntries: true }, (err, zip) => {
+      if (err || !zip) return reject(err ?? new Error("Failed to open ZIP"));
+      zip.on("entry", (entry: yauzl.Entry) => {
+        if (entry.fileName !== name) return zip.readEntry();
+        zip.openReadStream(entry, async (streamErr, stream) => {
+          if (streamErr || !stream) return reject(streamErr ?? new Error(`Failed to read ${name}`));
+          const parts: Buffer[] = [];
+          for await (const part of stream as Readable) parts.push(part as Buffer);
+          zip.close();
+          resolve(Buffer.concat(parts).toString("utf-8"));
+        });
+      });
+      zip.on("end", () => reject(new Error(`${name} not found in archive`)));
+      zip.on("error", reject);
+      zip.readEntry();
+    });
+  });
+}
+
+/** Plain text of an OpenDocument text file (paragraphs and headings of content.xml) */
+export async function odtToText(buffer: Buffer): Promise<string> {
+  const xml = await readZipEntry(buffer, "content.xml");
+  const parser = sax.parser(true);
+  const out: string[] = [];
+  parser.onopentag = (node) => {
+    if (node.name === "text:s") out.push(" ".repeat(Number(node.attributes["text:c"] ?? 1)));
+    else if (node.name === "text:tab") out.push("\t");
+    else if (node.name === "text:line-break") out.push("\n");
+  };
+  parser.ontext = (text) => out.push(text);
+  parser.onclosetag = (name) => {
+    if (name === "text:p" || name === "text:h" || name === "table:table-row") out.push("\n");
+    else if (name === "table:table-cell") out.push(" ");
+  };
+  parser.write(xml).close();
+  return normalizeExtractedText(out.join(""));
+}
+
+// ─── HTML ────────────────────────────────────────────────────────────────────
+
+const HTML_SKIPPED = new Set(["script", "style", "noscript", "head", "template", "svg"]);
+const HTML_BLOCKS = new Set([
+  "p", "div", "br", "li", "tr", "h1", "h2", "h3", "h4", "h5", "h6", "table", "section", "article",
+  "blockquote", "pre", "header", "footer", "hr", "ul", "ol", "dt", "dd", "title",
+]);
+
+/** Decode an HTML file with the charset declared in its <meta> tag (default UTF-8) */
+export function decodeHtml(buffer: Buffer): string {
+  const head = buffer.subarray(0, 4096).toString("latin1");
+  const charset = /<meta[^>]+charset=["']?([\w-]+)/i.exec(head)?.[1]?.toLowerCase() || "utf-8";
+  try {
+    return new TextDecoder(charset).decode(buffer);
+  } catch {
+    return buffer.toString("utf-8");
+  }
+}
+
+/** Visible text of an HTML page, one line per block element */
+export function htmlToText(html: string): string {
+  const parser = sax.parser(false, { lowercase: true });
+  const out: string[] = [];
+  let skipped = 0;
+  // Tolerate malformed markup: resume() clears the error and keeps parsing
+  parser.onerror = () => parser.resume();
+  parser.onopentag = (node) => {
+    if (HTML_SKIPPED.has(node.name)) skipped++;
+    else if (HTML_BLOCKS.has(node.name)) out.push("\n");
+    else if (node.name === "td" || node.name === "th") out.push(" ");
+  };
+  parser.onclosetag = (name) => {
+    if (HTML_SKIPPED.has(name)) skipped = Math.max(0, skipped - 1);
+    else if (HTML_BLOCKS.has(name)) out.push("\n");
+  };
+  parser.ontext = (text) => {
+    if (skipped === 0) out.push(text.replace(/\s+/g, " "));
+  };
+  parser.write(html).close();
+  return normalizeExtractedText(out.join(""));
+}
+
+// ─── EML ─────────────────────────────────────────────────────────────────────
+
+/** Headers and body text of an e-mail, plus its attachments */
+export async function parseEmail(buffer: Buffer): Promise<{ text: string; attachments: EmailAttachment[] }> {
+  const { simpleParser } = await import("mailparser");
+  const mail = await simpleParser(buffer);
+  const addressText = (value: typeof mail.from | typeof mail.to) =>
+    (Array.isArray(value) ? value.map(v => v.text).join(", ") : value?.text) || "";
+
+  const headers = [
+    mail.subject ? `Assunto: ${mail.subject}` : "",
+    mail.from ? `De: ${addressText(mail.from)}` : "",
+    mail.to ? `Para: ${addressText(mail.to)}` : "",
+    mail.date ? `Data: ${mail.date.toISOString().slice(0, 10)}` : "",
+  ].filter(Boolean);
+  const body = mail.text || (mail.html ? htmlToText(mail.html) : "");
+
+  const attachments = mail.attachments
+    // Inline images of the HTML body are not attachments
+    .filter(a => a.contentDisposition !== "inline" || !a.contentType.startsWith("image/"))
+    .map((a, i) => ({
+      filename: a.filename || `anexo-${i + 1}`,
+      mimeType: a.contentType || "application/octet-stream",
+      content: a.content,
+    }));
+
+  return { text: normalizeExtractedText([...headers, "", body].join("\n")), attachments };
+}
+
+// ─── DOC ─────────────────────────────────────────────────────────────────────
+
+/** Body text of a legacy Word (.doc) file */
+export async function docToText(buffer: Buffer): Promise<string> {
+  const { default: WordExtractor } = await import("word-extractor");
+  const document = await new WordExtractor().extract(buffer);
+  return normalizeExtractedText(document.getBody());
+}
+
+/** Trim lines and collapse runs of blank lines */
+function normalizeExtractedText(text: string): string {
+  return text
+    .replace(/ /g, " ")
+    .split("\n")
+    .map(line => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
@@ -0,0 +1,107 @@
+import { vi, describe, it, expect, beforeEach } from "vitest";
+
+vi.mock("./db", () => ({
+  getChildDocuments: vi.fn(),
+  deleteDocument: vi.fn(),
+  updateDocument: vi.fn(),
+  deleteDocumentGraph: vi.fn(),
+  deleteLogsByDocumentId: vi.fn(),
+  deleteQuarantinedChunks: vi.fn(),
+  createDocumentVersion: vi.fn(),
+  getDocumentVersions: vi.fn(),
+  createLog: vi.fn().mockResolvedValue(1),
+}));
+vi.mock("./embeddings", () => ({
+  deleteCollection: vi.fn(),
+}));
+vi.mock("./storage", () => ({
+  storageDelete: vi.fn(),
+}));
+vi.mock("./_core/logger", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import { deleteDocumentCascade, replaceDocument } from "./document-lifecycle";
+import {
+  getChildDocuments, deleteDocument, updateDocument, deleteDocumentGraph, deleteLogsByDocumentId, deleteQuarantinedChunks,
+  createDocumentVersion, getDocumentVersions,
+} from "./db";
+import { deleteCollection } from "./embeddings";
+import { storageDelete } from "./storage";
+
+function doc(overrides: Record<string, any>): any {
+  return {
+    id: 1, userId: 7, version: 1, filename: "peticao.eml", mimeType: "message/rfc822", fileSize: 100,
+    fileKey: null, collectionName: null, chunkCount: null, entityCount: null, processo: null,
+    createdAt: new Date("2024-01-10T10:00:00Z"),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(deleteDocumentGraph).mockResolvedValue({ nodes: 2, edges: 3 });
+  vi.mocked(getDocumentVersions).mockResolvedValue([]);
+});
+
+describe("deleteDocumentCascade", () => {
+  it("deletes descendants, vectors, graph, logs and stored files", async () => {
+    const email = doc({ id: 1, version: 2, fileKey: "documents/7/a-intimacao.eml", collectionName: "doc_1" });
+    const attachment = doc({ id: 2, parentDocumentId: 1, fileKey: "documents/7/b-decisao.pdf" });
+    vi.mocked(getChildDocuments).mockImplementation(async (id: number) => (id === 1 ? [attachment] : []));
+    vi.mocked(getDocumentVersions).mockImplementation(async (id: number) =>
+      (id === 1 ? [{ version: 1, fileKey: "documents/7/a-intimacao-v1.eml" }] : []) as any);
+
+    const summary = await deleteDocumentCascade(email);
+
+    expect(summary).toEqual({ documents: 2, graphNodes: 4, graphEdges: 6 });
+    expect(deleteCollection).toHaveBeenCalledWith("doc_1");
+    expect(deleteCollection).toHaveBeenCalledWith("doc_2");
+    expect(deleteDocumentGraph).toHaveBeenCalledWith(1);
+    expect(deleteDocumentGraph).toHaveBeenCalledWith(2);
+    expect(deleteQuarantinedChunks).toHaveBeenCalledWith("document:2");
+    expect(deleteLogsByDocumentId).toHaveBeenCalledWith(1);
+    expect(storageDelete).toHaveBeenCalledWith(["documents/7/a-intimacao.eml", "documents/7/a-intimacao-v1.eml"]);
+    expect(storageDelete).toHaveBeenCalledWith(["documents/7/b-decisao.pdf"]);
+    // Children go before their parent
+    expect(vi.mocked(deleteDocument).mock.calls.map(c => c[0])).toEqual([2, 1]);
+  });
+});
+
+describe("replaceDocument", () => {
+  it("records the current version, purges derived data and resets the row", async () => {
+    vi.mocked(getChildDocuments).mockResolvedValue([]);
+    vi.mocked(getDocumentVersions).mockResolvedValue([
+      { version: 1, replacedAt: new Date("2024-02-01T09:00:00Z") },
+    ] as any);
+    const current = doc({
+      id: 5, version: 2, filename: "acordao-v2.pdf", mimeType: "application/pdf", fileKey: "documents/7/old.pdf",
+      chunkCount: 12, entityCount: 4, processo: "REsp 1.234.567/SP",
+    });
+
+    const result = await replaceDocument(current, {
+      filename: "acordao-v3.pdf",
+      mimeType: "application/pdf",
+      fileSize: 2048,
+      fileKey: "documents/7/new.pdf",
+      fileUrl: "https://storage/new.pdf",
+    }, 7);
+
+    expect(result.version).toBe(3);
+    expect(createDocumentVersion).toHaveBeenCalledWith(expect.objectContaining({
+      documentId: 5, version: 2, filename: "acordao-v2.pdf", fileKey: "documents/7/old.pdf",
+      chunkCount: 12, processo: "REsp 1.234.567/SP",
+      uploadedAt: new Date("2024-02-01T09:00:00Z"), replacedBy: 7,
+    }));
+    expect(deleteCollection).toHaveBeenCalledWith("doc_5");
+    expect(deleteDocumentGraph).toHaveBeenCalledWith(5);
+    // The old object stays in storage for the version history
+    expect(storageDelete).not.toHaveBeenCalled();
+    expect(deleteLogsByDocumentId).not.toHaveBeenCalled();
+    expect(deleteDocument).not.toHaveBeenCalled();
+    expect(updateDocument).toHaveBeenCalledWith(5, expect.objectContaining({
+      filename: "acordao-v3.pdf", originalName: "acordao-v3.pdf", fileKey: "documents/7/new.pdf",
+      version: 3, status: "uploaded", chunkCount: null, processo: null,
+    }));
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Document Lifecycle - Deleting and replacing uploads. Both cascade over what was
+ * derived from the file: child documents (e-mail attachments, archive entries),
+ * the `doc_<id>` Qdrant collection and its parent sections, quarantined chunks,
+ * graph nodes/edges sourced from the document, and the stored objects.
+ * A replacement keeps the document id (so its collection name and graph sourceRef)
+ * and records the previous file in documentVersions, leaving its object in storage;
+ * deletion removes the objects of every version and also drops the logs.
+ */
+import {
+  getChildDocuments, deleteDocument, updateDocument, deleteDocumentGraph, deleteLogsByDocumentId,
+  createDocumentVersion, getDocumentVersions, createLog, deleteQuarantinedChunks,
+} from "./db";
+import type { Document } from "../drizzle/schema";
+import { deleteCollection } from "./embeddings";
+import { storageDelete } from "./storage";
+import { logger } from "./_core/logger";
+
+export interface CascadeSummary {
+  /** Documents removed (the document and its descendants) or purged on replace */
+  documents: number;
+  graphNodes: number;
+  graphEdges: number;
+}
+
+export interface ReplacementFile {
+  filename: string;
+  mimeType: string;
+  fileSize: number;
+  fileKey: string;
+  fileUrl: string;
+}
+
+/** Delete the child documents, vectors and graph contribution of a document (not the row itself) */
+async function purgeDerivedData(doc: Document, summary: CascadeSummary): Promise<void> {
+  for (const child of await getChildDocuments(doc.id)) {
+    await deleteWithDescendants(child, summary);
+  }
+  await deleteCollection(doc.collectionName || `doc_${doc.id}`);
+  await deleteQuarantinedChunks(`document:${doc.id}`);
+  const graph = await deleteDocumentGraph(doc.id);
+  summary.graphNodes += graph.nodes;
+  summary.graphEdges += graph.edges;
+}
+
+async function deleteWithDescendants(doc: Document, summary: CascadeSummary): Promise<void> {
+  await purgeDerivedData(doc, summary);
+  await deleteLogsByDocumentId(doc.id);
+  const versions = await getDocumentVersions(doc.id);
+  const fileKeys = new Set([doc.fileKey, ...versions.map(v => v.fileKey)].filter((key): key is string => !!key));
+  if (fileKeys.size > 0) await storageDelete(Array.from(fileKeys));
+  await deleteDocument(doc.id);
+  summary.documents++;
+}
+
+/** Delete a document, its descendants and everything derived from them */
+export async function deleteDocumentCascade(doc: Document): Promise<CascadeSummary> {
+  const summary: CascadeSummary = { documents: 0, graphNodes: 0, graphEdges: 0 };
+  await deleteWithDescendants(doc, summary);
+  logger.info({ documentId: doc.id, ...summary }, "[Documents] Document deleted");
+  return summary;
+}
+
+/**
+ * Replace the file of a document with a new version. The current version is
+ * recorded in the history (its stored object is kept for the version history),
+ * derived data of the old file is purged and the row is reset to "uploaded" so it can be processed again.
+ */
+export async function replaceDocument(
+  doc: Document,
+  file: ReplacementFile,
+  replacedBy: number
+): Promise<{ version: number; purged: CascadeSummary }> {
+  const history = await getDocumentVersions(doc.id);
+  await createDocumentVersion({
+    documentId: doc.id,
+    version: doc.version,
+    filename: doc.filename,
+    mimeType: doc.mimeType,
+    fileSize: doc.fileSize,
+    fileKey: doc.fileKey,
+    chunkCount: doc.chunkCount,
+    entityCount: doc.entityCount,
+    processo: doc.processo,
+    // The previous version was uploaded when the one before it was replaced
+    uploadedAt: history[0]?.replacedAt ?? doc.createdAt,
+    replacedBy,
+  });
+
+  const purged: CascadeSummary = { documents: 0, graphNodes: 0, graphEdges: 0 };
+  await purgeDerivedData(doc, purged);
+
+  const version = doc.version + 1;
+  await updateDocument(doc.id, {
+    ...file,
+    originalName: file.filename,
+    version,
+    status: "uploaded",
+    errorMessage: null,
+    textContent: null,
+    chunkCount: null,
+    entityCount: null,
+    collectionName: null,
+    metadata: null,
+    processo: null,
+    numeroCnj: null,
+    classe: null,
+    tribunal: null,
+    relator: null,
+    orgaoJulgador: null,
+    dataJulgamento: null,
+    dataPublicacao: null,
+  });
+
+  await createLog({
+    action: "upload_document",
+    documentId: doc.id,
+    status: "completed",
+    details: `Replaced version ${doc.version} (${doc.filename}) with version ${version} (${file.filename})`,
+  });
+  logger.info({ documentId: doc.id, version, ...purged }, "[Documents] Document replaced");
+  return { version, purged };
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import {
+  extractDocumentMetadata, findCnjNumber, tribunalFromCnj, tribunalFromText, parseDecisionDate,
+} from "./document-metadata";
+
+const STJ_ACORDAO = `Superior Tribunal de Justiça
+AgInt no RECURSO ESPECIAL Nº 1.987.654 - SP (2022/0123456-7)
+AGRAVO INTERNO NO RECURSO ESPECIAL Nº 1.987.654 - SP (2022/0123456-7)
+RELATOR : MINISTRO HERMAN BENJAMIN
+AGRAVANTE : MUNICÍPIO DE SÃO PAULO
+EMENTA
+PROCESSUAL CIVIL. AGRAVO INTERNO. SÚMULA 7/STJ. Processo de origem 0001234-13.2020.8.26.0100.
+ACÓRDÃO
+Vistos, relatados e discutidos os autos em que são partes as acima indicadas, acordam os Ministros
+da SEGUNDA TURMA do Superior Tribunal de Justiça, por unanimidade, negar provimento ao agravo interno.
+Brasília, 14 de março de 2023 (Data do Julgamento)
+Documento eletrônico VDA123 - DJe 21/03/2023`;
+
+const TJSP_SENTENCA = `TRIBUNAL DE JUSTIÇA DO ESTADO DE SÃO PAULO
+Registro: 2021.0000123456
+ACÓRDÃO
+Apelação Cível nº 0001234-13.2020.8.26.0100
+Relator(a): Des. Maria da Silva
+Órgão Julgador: 3ª Câmara de Direito Público
+Data do julgamento: 5/8/2021
+Data de publicação: 10/08/2021`;
+
+describe("findCnjNumber", () => {
+  it("accepts numbers with valid check digits, with or without punctuation", () => {
+    expect(findCnjNumber("autos 0001234-13.2020.8.26.0100")).toBe("0001234-13.2020.8.26.0100");
+    expect(findCnjNumber("autos 00012341320208260100")).toBe("0001234-13.2020.8.26.0100");
+  });
+
+  it("skips numbers whose check digits do not match", () => {
+    expect(findCnjNumber("autos 0001234-14.2020.8.26.0100")).toBeUndefined();
+  });
+});
+
+describe("tribunal detection", () => {
+  it("derives the court from the J.TR segment of a CNJ number", () => {
+    expect(tribunalFromCnj("0001234-13.2020.8.26.0100")).toBe("TJSP");
+    expect(tribunalFromCnj("1012345-28.2019.4.03.6100")).toBe("TRF3");
+    expect(tribunalFromCnj("0701234-69.2021.8.07.0001")).toBe("TJDF");
+  });
+
+  it("reads the court from the heading", () => {
+    expect(tribunalFromText("SUPERIOR TRIBUNAL DE JUSTIÇA")).toBe("STJ");
+    expect(tribunalFromText("Tribunal de Justiça do Estado de Mato Grosso do Sul")).toBe("TJMS");
+    expect(tribunalFromText("TRIBUNAL REGIONAL FEDERAL DA 4ª REGIÃO")).toBe("TRF4");
+  });
+});
+
+describe("parseDecisionDate", () => {
+  it("parses numeric and written dates", () => {
+    expect(parseDecisionDate("5/8/2021")).toBe("2021-08-05");
+    expect(parseDecisionDate("14 de março de 2023")).toBe("2023-03-14");
+    expect(parseDecisionDate("1º de abril de 2022")).toBe("2022-04-01");
+    expect(parseDecisionDate("31 de brumário de 2022")).toBeUndefined();
+  });
+});
+
+describe("extractDocumentMetadata", () => {
+  it("extracts the fields of an STJ acórdão", () => {
+    expect(extractDocumentMetadata(STJ_ACORDAO)).toEqual({
+      numeroCnj: "0001234-13.2020.8.26.0100",
+      processo: "AgInt no REsp 1.987.654/SP",
+      classe: "AgInt no REsp",
+      uf: "SP",
+      tribunal: "STJ",
+      relator: "MINISTRO HERMAN BENJAMIN",
+      orgaoJulgador: "Segunda Turma",
+      dataJulgamento: "2023-03-14",
+      dataPublicacao: "2023-03-21",
+    });
+  });
+
+  it("falls back to the CNJ number and labelled fields of state court decisions", () => {
+    expect(extractDocumentMetadata(TJSP_SENTENCA)).toEqual({
+      numeroCnj: "0001234-13.2020.8.26.0100",
+      processo: "0001234-13.2020.8.26.0100",
+      tribunal: "TJSP",
+      relator: "Des. Maria da Silva",
+      orgaoJulgador: "3ª Câmara de Direito Público",
+      dataJulgamento: "2021-08-05",
+      dataPublicacao: "2021-08-10",
+    });
+  });
+
+  it("returns no fields for text without decision metadata", () => {
+    expect(extractDocumentMetadata("Lista de compras: pão, leite e café.")).toEqual({});
+  });
+});
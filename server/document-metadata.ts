@@ -0,0 +1,239 @@
+/**
+ * Document Metadata - Structured fields of uploaded decisions, detected in the text:
+ *   - CNJ unified process number (NNNNNNN-DD.AAAA.J.TR.OOOO, check digits verified)
+ *   - processo/classe from STJ-style headings ("RECURSO ESPECIAL Nº 1.234.567 - SP")
+ *     or labels ("AgInt no REsp 1.234.567/SP")
+ *   - tribunal, relator, órgão julgador, judgment and publication dates
+ * Field names match RecordMetadata so upload chunks can be filtered and cited like STJ records.
+ */
+import { normalizeDate, ufFromProcesso, type RecordMetadata } from "./record-mappers";
+
+export interface DocumentMetadata extends RecordMetadata {
+  numeroCnj?: string;
+  tribunal?: string;
+}
+
+/** Structured fields are searched in the heading and the closing lines of a decision */
+const HEAD_CHARS = 6000;
+const TAIL_CHARS = 3000;
+
+// ─── CNJ number ──────────────────────────────────────────────────────────────
+
+const CNJ_PATTERN = /\b(\d{7})-?(\d{2})\.?(\d{4})\.?(\d)\.?(\d{2})\.?(\d{4})\b/g;
+
+/** CNJ Resolution 65/2008 check digits (ISO 7064 mod 97-10) */
+function cnjCheckDigits(sequence: string, year: string, segment: string, court: string, origin: string): string {
+  const value = BigInt(`${sequence}${year}${segment}${court}${origin}00`);
+  return String(98n - (value % 97n)).padStart(2, "0");
+}
+
+/** First CNJ number in the text whose check digits are valid, formatted */
+export function findCnjNumber(text: string): string | undefined {
+  for (const match of text.matchAll(CNJ_PATTERN)) {
+    const [, sequence, digits, year, segment, court, origin] = match;
+    if (cnjCheckDigits(sequence, year, segment, court, origin) === digits) {
+      return `${sequence}-${digits}.${year}.${segment}.${court}.${origin}`;
+    }
+  }
+  return undefined;
+}
+
+/** State courts by the TR code of the Justiça Estadual segment (8) */
+const STATE_COURTS = [
+  "AC", "AL", "AP", "AM", "BA", "CE", "DF", "ES", "GO", "MA", "MT", "MS", "MG", "PA",
+  "PB", "PR", "PE", "PI", "RJ", "RN", "RS", "RO", "RR", "SC", "SE", "SP", "TO",
+];
+
+/** Court of a CNJ number from its J.TR segment ("8.26" → "TJSP", "4.03" → "TRF3") */
+export function tribunalFromCnj(cnj: string): string | undefined {
+  const [, segment, court] = cnj.match(/\.\d{4}\.(\d)\.(\d{2})\./) ?? [];
+  const tr = Number(court);
+  switch (segment) {
+    case "1": return "STF";
+    case "3": return "STJ";
+    case "4": return tr > 0 ? `TRF${tr}` : undefined;
+    case "5": return tr > 0 ? `TRT${tr}` : "TST";
+    case "6": return STATE_COURTS[tr - 1] ? `TRE-${STATE_COURTS[tr - 1]}` : "TSE";
+    case "8": return STATE_COURTS[tr - 1] ? `TJ${STATE_COURTS[tr - 1]}` : undefined;
+    default: return undefined;
+  }
+}
+
+// ─── Tribunal ────────────────────────────────────────────────────────────────
+
+const UF_BY_STATE: Record<string, string> = {
+  "acre": "AC", "alagoas": "AL", "amapa": "AP", "amazonas": "AM", "bahia": "BA", "ceara": "CE",
+  "distrito federal e territorios": "DF", "distrito federal": "DF", "espirito santo": "ES", "goias": "GO",
+  "maranhao": "MA", "mato grosso do sul": "MS", "mato grosso": "MT", "minas gerais": "MG", "para": "PA",
+  "paraiba": "PB", "parana": "PR", "pernambuco": "PE", "piaui": "PI", "rio de janeiro": "RJ",
+  "rio grande do norte": "RN", "rio grande do sul": "RS", "rondonia": "RO", "roraima": "RR",
+  "santa catarina": "SC", "sergipe": "SE", "sao paulo": "SP", "tocantins": "TO",
+};
+
+function fold(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+/** Court named in the heading ("SUPERIOR TRIBUNAL DE JUSTIÇA" → "STJ") */
+export function tribunalFromText(text: string): string | undefined {
+  const folded = fold(text);
+  if (/superior tribunal de justica/.test(folded)) return "STJ";
+  if (/supremo tribunal federal/.test(folded)) return "STF";
+  if (/tribunal superior do trabalho/.test(folded)) return "TST";
+  const regional = folded.match(/tribunal regional (federal|do trabalho) da (\d{1,2})/);
+  if (regional) return `${regional[1] === "federal" ? "TRF" : "TRT"}${Number(regional[2])}`;
+  const state = folded.match(/tribunal de justica d[oae] (?:estado d[oae] )?([a-z ]+)/);
+  if (state) {
+    // Longest state name first ("mato grosso do sul" before "mato grosso")
+    const name = Object.keys(UF_BY_STATE)
+      .sort((a, b) => b.length - a.length)
+      .find(n => state[1].startsWith(n));
+    if (name) return `TJ${UF_BY_STATE[name]}`;
+  }
+  return undefined;
+}
+
+// ─── Processo and classe ─────────────────────────────────────────────────────
+
+/** Class names in decision headings and their STJ siglas (longest names first) */
+const CLASSES: [string, string][] = [
+  ["AGRAVO EM RECURSO ESPECIAL", "AREsp"],
+  ["RECURSO ESPECIAL", "REsp"],
+  ["RECURSO EM HABEAS CORPUS", "RHC"],
+  ["HABEAS CORPUS", "HC"],
+  ["RECURSO EM MANDADO DE SEGURANÇA", "RMS"],
+  ["MANDADO DE SEGURANÇA", "MS"],
+  ["CONFLITO DE COMPETÊNCIA", "CC"],
+  ["EMBARGOS DE DIVERGÊNCIA EM RECURSO ESPECIAL", "EREsp"],
+  ["RECLAMAÇÃO", "Rcl"],
+  ["AÇÃO RESCISÓRIA", "AR"],
+  ["AGRAVO DE INSTRUMENTO", "AI"],
+  ["APELAÇÃO CÍVEL", "AC"],
+  ["APELAÇÃO CRIMINAL", "ACr"],
+];
+
+const CLASS_PREFIXES: [RegExp, string][] = [
+  [/^AGRAVO INTERNO (?:NO|NA|NOS|NAS) /, "AgInt no "],
+  [/^AGRAVO REGIMENTAL (?:NO|NA|NOS|NAS) /, "AgRg no "],
+  [/^EMBARGOS DE DECLARAÇÃO (?:NO|NA|NOS|NAS) /, "EDcl no "],
+];
+
+/** Sigla of a heading class ("AGRAVO INTERNO NO RECURSO ESPECIAL" → "AgInt no REsp"); unknown classes are kept */
+export function classSigla(name: string): string {
+  let rest = name.trim().replace(/\s+/g, " ").toUpperCase();
+  let prefix = "";
+  for (let changed = true; changed;) {
+    changed = false;
+    for (const [pattern, sigla] of CLASS_PREFIXES) {
+      if (pattern.test(rest)) {
+        prefix += sigla;
+        rest = rest.replace(pattern, "");
+        changed = true;
+      }
+    }
+  }
+  const known = CLASSES.find(([full]) => rest === full);
+  return known ? `${prefix}${known[1]}` : name.trim().replace(/\s+/g, " ");
+}
+
+/** "RECURSO ESPECIAL Nº 1.234.567 - SP (2020/0123456-7)" */
+const HEADING_PATTERN = /^((?:[A-ZÀ-Ú]+ ){1,10}?)N[º°o.]+\s*([\d.\-]+\d)(?:\s*[-–/]\s*([A-Z]{2})\b)?/m;
+/** "AgInt no REsp 1.234.567/SP", "HC 123.456/RJ" */
+const LABEL_PATTERN = /\b((?:(?:AgInt|AgRg|EDcl) (?:no|nos|na) )*(?:REsp|AREsp|EREsp|HC|RHC|RMS|MS|CC|Rcl|AR))\s+(?:n[º°.]\s*)?(\d{1,3}(?:\.\d{3})+|\d+)\s*\/\s*([A-Z]{2})\b/;
+
+function findProcesso(text: string): { processo: string; classe: string } | undefined {
+  const heading = text.match(HEADING_PATTERN);
+  if (heading) {
+    const classe = classSigla(heading[1]);
+    const processo = `${classe} ${heading[2]}${heading[3] ? `/${heading[3]}` : ""}`;
+    return { processo, classe };
+  }
+  const label = text.match(LABEL_PATTERN);
+  if (label) return { processo: `${label[1]} ${label[2]}/${label[3]}`, classe: label[1] };
+  return undefined;
+}
+
+// ─── Relator and órgão julgador ─────────────────────────────────────────────
+
+/** Value of a "LABEL : value" line, up to the end of the line */
+function labelledValue(text: string, label: RegExp): string | undefined {
+  const match = text.match(new RegExp(`^\\s*(?:${label.source})\\s*:\\s*(.+)$`, "im"));
+  return match?.[1].replace(/\s+/g, " ").replace(/[.;,]+$/, "").trim() || undefined;
+}
+
+const ORGAO_PATTERN =
+  /((?:Primeira|Segunda|Terceira|Quarta|Quinta|Sexta|Sétima|Oitava|\d{1,2}ª) (?:Turma|Seção|Câmara)(?: Cível| Criminal| de Direito (?:Público|Privado|Criminal))?|Corte Especial|Órgão Especial|Tribunal Pleno)\b/i;
+
+function titleCase(text: string): string {
+  return text.toLowerCase().replace(/(^|\s)(\S)/g, (_, space, first) => space + first.toUpperCase())
+    .replace(/\b(De|Da|Do|Das|Dos|E)\b/g, w => w.toLowerCase());
+}
+
+// ─── Dates ───────────────────────────────────────────────────────────────────
+
+const MONTHS = [
+  "janeiro", "fevereiro", "marco", "abril", "maio", "junho",
+  "julho", "agosto", "setembro", "outubro", "novembro", "dezembro",
+];
+
+const DATE = "(\\d{1,2}\\/\\d{1,2}\\/\\d{4}|\\d{1,2}(?:º|°)? de [a-zç]+ de \\d{4})";
+
+/** "10/03/2023" or "10 de março de 2023" → "2023-03-10" */
+export function parseDecisionDate(value: string): string | undefined {
+  const numeric = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (numeric) return normalizeDate(`${numeric[1].padStart(2, "0")}/${numeric[2].padStart(2, "0")}/${numeric[3]}`);
+  const written = fold(value).match(/^(\d{1,2})(?:º|°|o)? de ([a-z]+) de (\d{4})$/);
+  if (!written) return undefined;
+  const month = MONTHS.indexOf(written[2]) + 1;
+  if (month === 0) return undefined;
+  return `${written[3]}-${String(month).padStart(2, "0")}-${written[1].padStart(2, "0")}`;
+}
+
+function findDate(text: string, patterns: RegExp[]): string | undefined {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    const date = match && parseDecisionDate(match[1].trim());
+    if (date) return date;
+  }
+  return undefined;
+}
+
+const JUDGMENT_DATE_PATTERNS = [
+  new RegExp(`data d[oe] julgamento\\s*:?\\s*${DATE}`, "i"),
+  new RegExp(`julgado em\\s*:?\\s*${DATE}`, "i"),
+  new RegExp(`sess[ãa]o (?:virtual )?de\\s*${DATE}`, "i"),
+  new RegExp(`Bras[íi]lia\\s*(?:\\(DF\\))?,\\s*${DATE}`, "i"),
+];
+
+const PUBLICATION_DATE_PATTERNS = [
+  new RegExp(`data d[ae] publica[çc][ãa]o(?:\\/fonte)?\\s*:?\\s*(?:DJe?\\s*)?${DATE}`, "i"),
+  new RegExp(`\\bDJe?\\s+(?:de\\s+)?${DATE}`),
+  new RegExp(`publicad[oa] em\\s*:?\\s*${DATE}`, "i"),
+];
+
+// ─── Extraction ─────────────────────────────────────────────────────────────
+
+/** Structured metadata of a decision; fields that are not found are omitted */
+export function extractDocumentMetadata(text: string): DocumentMetadata {
+  const scope = text.length > HEAD_CHARS + TAIL_CHARS
+    ? `${text.slice(0, HEAD_CHARS)}\n${text.slice(-TAIL_CHARS)}`
+    : text;
+  const metadata: DocumentMetadata = {};
+  const set = (key: keyof DocumentMetadata, value: string | undefined) => {
+    if (value) metadata[key] = value;
+  };
+
+  const numeroCnj = findCnjNumber(scope);
+  const found = findProcesso(scope);
+  set("numeroCnj", numeroCnj);
+  set("processo", found?.processo ?? numeroCnj);
+  set("classe", found?.classe ?? labelledValue(scope, /classe/));
+  set("uf", ufFromProcesso(found?.processo));
+  set("tribunal", tribunalFromText(text.slice(0, HEAD_CHARS)) ?? (numeroCnj ? tribunalFromCnj(numeroCnj) : undefined));
+  set("relator", labelledValue(scope, /relatora?(?:\s*\(a\))?/));
+  const orgao = labelledValue(scope, /[óo]rg[ãa]o julgador/) ?? scope.match(ORGAO_PATTERN)?.[1];
+  set("orgaoJulgador", orgao && (orgao === orgao.toUpperCase() ? titleCase(orgao) : orgao));
+  set("dataJulgamento", findDate(scope, JUDGMENT_DATE_PATTERNS));
+  set("dataPublicacao", findDate(scope, PUBLICATION_DATE_PATTERNS));
+  return metadata;
+}
@@ -1,27 +1,73 @@
 import { vi, describe, it, expect, beforeEach } from "vitest";
 
 vi.mock("./embeddings", () => ({
-  storeChunks: vi.fn().mockResolvedValue({ stored: 5 }),
+  storeChunks: vi.fn().mockResolvedValue({ stored: 5, errors: 0 }),
+  storeChunkParents: vi.fn().mockResolvedValue(1),
+  pruneStalePoints: vi.fn(),
 }));
 vi.mock("./db", () => ({
   updateDocument: vi.fn(),
   createLog: vi.fn().mockResolvedValue(1),
   updateLog: vi.fn(),
+  getDocumentById: vi.fn(),
+  getChildDocuments: vi.fn().mockResolvedValue([]),
+  createDocument: vi.fn(),
+  batchUpsertGraphNodes: vi.fn(),
+  batchInsertGraphEdges: vi.fn(),
+  addDocumentGraphMentions: vi.fn(),
+  deleteQuarantinedChunks: vi.fn(),
+  insertQuarantinedChunks: vi.fn(),
+  upsertPiiMappings: vi.fn(),
+  getEntityAliasesByAlias: vi.fn().mockResolvedValue([]),
+  upsertEntityAliases: vi.fn(),
+  getExistingGraphNodeIds: vi.fn().mockResolvedValue([]),
+  deleteDocumentGraph: vi.fn().mockResolvedValue({ nodes: 0, edges: 0 }),
+}));
+vi.mock("./entity-extractor", () => ({
+  extractEntitiesFromChunks: vi.fn().mockResolvedValue({
+    entities: [{ entityId: "legislacao:sumula_7", name: "Súmula 7", entityType: "LEGISLACAO", description: "Reexame de provas" }],
+    relationships: [{
+      sourceEntityId: "decisao:agravo_desprovido", targetEntityId: "legislacao:sumula_7",
+      relationshipType: "FUNDAMENTA", description: "Aplica a Súmula 7", weight: 0.9,
+    }],
+  }),
+}));
+vi.mock("./storage", () => ({
+  storagePut: vi.fn().mockResolvedValue({ key: "k", url: "https://storage/k" }),
+}));
+vi.mock("./queue/queues", () => ({
+  enqueueDocumentProcess: vi.fn().mockResolvedValue("job-1"),
+}));
+vi.mock("./ocr", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./ocr")>()),
+  recognizePages: vi.fn(),
+}));
+vi.mock("pdf-parse", () => ({
+  PDFParse: vi.fn(),
 }));
 vi.mock("./_core/logger", () => ({
   logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
 }));
 
-import { extractText, processDocument } from "./document-processor";
-import { updateDocument } from "./db";
-import { storeChunks } from "./embeddings";
+import { extractText, extractDocument, processDocument } from "./document-processor";
+import {
+  updateDocument, getDocumentById, getChildDocuments, createDocument, batchUpsertGraphNodes, batchInsertGraphEdges,
+  updateLog, deleteQuarantinedChunks, insertQuarantinedChunks, upsertPiiMappings, deleteDocumentGraph,
+  addDocumentGraphMentions,
+} from "./db";
+import { extractEntitiesFromChunks } from "./entity-extractor";
+import { storagePut } from "./storage";
+import { enqueueDocumentProcess } from "./queue/queues";
+import { storeChunks, storeChunkParents, pruneStalePoints } from "./embeddings";
+import { recognizePages } from "./ocr";
+import { PDFParse } from "pdf-parse";
 
 const mockUpdateDoc = vi.mocked(updateDocument);
 const mockStoreChunks = vi.mocked(storeChunks);
 
 beforeEach(() => {
   vi.clearAllMocks();
-  mockStoreChunks.mockResolvedValue({ stored: 5 } as any);
+  mockStoreChunks.mockResolvedValue({ stored: 5, errors: 0 });
 });
 
 describe("extractText", () => {
@@ -43,7 +89,110 @@ describe("extractText", () => {
   });
 });
 
+describe("extractText (PDF)", () => {
+  const textLayer = "EMENTA: PROCESSUAL CIVIL. AGRAVO INTERNO NO RECURSO ESPECIAL. REEXAME DE FATOS E PROVAS. " +
+    "INVIABILIDADE. SÚMULA 7 DO STJ. AGRAVO INTERNO NÃO PROVIDO.";
+  const getScreenshot = vi.fn();
+
+  function mockPdf(pages: string[]) {
+    vi.mocked(PDFParse).mockImplementation((() => ({
+      getText: vi.fn().mockResolvedValue({ pages: pages.map((text, i) => ({ num: i + 1, text })) }),
+      getScreenshot,
+      destroy: vi.fn().mockResolvedValue(undefined),
+    })) as any);
+  }
+
+  it("OCRs only the pages with an empty or sparse text layer", async () => {
+    mockPdf([textLayer, "", "  3  "]);
+    getScreenshot.mockResolvedValue({
+      pages: [{ pageNumber: 2, data: new Uint8Array([1]) }, { pageNumber: 3, data: new Uint8Array([2]) }],
+    });
+    vi.mocked(recognizePages).mockResolvedValue([
+      { pageNumber: 2, text: "Vistos, relatados e discutidos estes autos.", confidence: 88 },
+      { pageNumber: 3, text: "Ante o exposto, nego provimento.", confidence: 74 },
+    ]);
+
+    const result = await extractDocument(Buffer.from("%PDF"), "application/pdf", "peticao.pdf");
+
+    expect(getScreenshot).toHaveBeenCalledWith(expect.objectContaining({ partial: [2, 3] }));
+    expect(result.text).toBe(`${textLayer}\nVistos, relatados e discutidos estes autos.\nAnte o exposto, nego provimento.`);
+    expect(result.ocr).toMatchObject({ language: "por", meanConfidence: 81, pages: [{ page: 2, confidence: 88 }, { page: 3, confidence: 74 }] });
+  });
+
+  it("skips OCR for PDFs with a full text layer", async () => {
+    mockPdf([textLayer]);
+
+    const result = await extractDocument(Buffer.from("%PDF"), "application/pdf", "acordao.pdf");
+
+    expect(result).toEqual({ text: textLayer, ocr: undefined, pages: [{ page: 1, text: textLayer }] });
+    expect(getScreenshot).not.toHaveBeenCalled();
+  });
+});
+
 describe("processDocument", () => {
+  it("adds page ranges of PDF uploads to the chunk metadata", async () => {
+    vi.stubEnv("OCR_ENABLED", "false");
+    vi.mocked(PDFParse).mockImplementation((() => ({
+      getText: vi.fn().mockResolvedValue({ pages: [
+        { num: 1, text: "PROCESSUAL CIVIL. AGRAVO INTERNO NO RECURSO ESPECIAL. REEXAME DE FATOS E PROVAS. SÚMULA 7 DO STJ." },
+        { num: 2, text: "Ante o exposto, nego provimento ao agravo interno, mantendo a decisão agravada por seus fundamentos." },
+      ] }),
+      destroy: vi.fn().mockResolvedValue(undefined),
+    })) as any);
+
+    await processDocument(5, Buffer.from("%PDF"), "application/pdf", "acordao.pdf", "doc_5");
+
+    const chunks = mockStoreChunks.mock.calls[0][1];
+    expect(chunks[0].metadata).toMatchObject({ filename: "acordao.pdf", pageStart: 1, pageEnd: 2 });
+    vi.unstubAllEnvs();
+  });
+
+  it("registers e-mail attachments as child documents and queues them", async () => {
+    vi.mocked(getDocumentById).mockResolvedValue({ id: 8, userId: 3 } as any);
+    vi.mocked(getChildDocuments).mockResolvedValue([{ id: 20, originalName: "voto.txt" }] as any);
+    vi.mocked(createDocument).mockResolvedValue(21);
+    const attachment = (name: string, type: string) => [
+      "--b1", `Content-Type: ${type}; name="${name}"`, `Content-Disposition: attachment; filename="${name}"`, "",
+      "conteudo do anexo",
+    ];
+    const eml = [
+      "Subject: Intimação", "MIME-Version: 1.0", 'Content-Type: multipart/mixed; boundary="b1"', "",
+      "--b1", "Content-Type: text/plain", "", "Segue a decisão e o voto.",
+      ...attachment("decisao.txt", "text/plain"),
+      ...attachment("voto.txt", "text/plain"),
+      ...attachment("foto.png", "image/png"),
+      "--b1--", "",
+    ].join("\r\n");
+
+    await processDocument(8, Buffer.from(eml), "message/rfc822", "intimacao.eml", "doc_8", { chunking: "legal" });
+
+    expect(storagePut).toHaveBeenCalledTimes(1);
+    expect(createDocument).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 3, parentDocumentId: 8, originalName: "decisao.txt", mimeType: "text/plain", fileUrl: "https://storage/k",
+    }));
+    expect(enqueueDocumentProcess).toHaveBeenCalledWith(21, { chunking: "legal" });
+    expect(enqueueDocumentProcess).toHaveBeenCalledWith(20, { chunking: "legal" });
+    expect(mockUpdateDoc).toHaveBeenCalledWith(8, expect.objectContaining({
+      status: "extracted", metadata: { attachmentDocumentIds: [21, 20] },
+    }));
+  });
+
+  it("stores OCR confidence in the document metadata", async () => {
+    vi.mocked(PDFParse).mockImplementation((() => ({
+      getText: vi.fn().mockResolvedValue({ pages: [{ num: 1, text: "" }] }),
+      getScreenshot: vi.fn().mockResolvedValue({ pages: [{ pageNumber: 1, data: new Uint8Array([1]) }] }),
+      destroy: vi.fn().mockResolvedValue(undefined),
+    })) as any);
+    vi.mocked(recognizePages).mockResolvedValue([{ pageNumber: 1, text: "Decisão digitalizada. Recurso provido.", confidence: 83 }]);
+
+    await processDocument(2, Buffer.from("%PDF"), "application/pdf", "scan.pdf", "doc_2");
+
+    expect(mockUpdateDoc).toHaveBeenCalledWith(2, expect.objectContaining({
+      status: "extracted",
+      metadata: { ocr: expect.objectContaining({ meanConfidence: 83, pages: [{ page: 1, confidence: 83, chars: 38 }] }) },
+    }));
+  });
+
   it("processes TXT document through full pipeline", async () => {
     const buffer = Buffer.from("Ementa do processo. Decisão favorável ao autor. Recurso provido pela turma.");
     const result = await processDocument(1, buffer, "text/plain", "doc.txt", "test_collection");
@@ -51,7 +200,109 @@ describe("processDocument", () => {
     expect(result.chunks).toBeGreaterThanOrEqual(1);
     expect(result.embeddings).toBe(5);
     expect(mockUpdateDoc).toHaveBeenCalled();
-    expect(mockStoreChunks).toHaveBeenCalledWith("test_collection", expect.any(Array));
+    expect(mockStoreChunks).toHaveBeenCalledWith("test_collection", expect.any(Array), {
+      sourceId: "document:1", runId: expect.any(String),
+    });
+  });
+
+  it("prunes points of chunks that no longer exist after re-processing", async () => {
+    const buffer = Buffer.from("Ementa do processo. Recurso provido.");
+    await processDocument(3, buffer, "text/plain", "doc.txt", "doc_3");
+
+    const { runId } = mockStoreChunks.mock.calls[0][2];
+    expect(storeChunkParents).toHaveBeenCalledWith("doc_3", expect.any(Array), expect.any(Array), { sourceId: "document:3", runId });
+    expect(pruneStalePoints).toHaveBeenCalledWith("doc_3", "document:3", runId, { key: "documentId", value: 3 });
+  });
+
+  it("stores detected decision metadata on the document and in every chunk", async () => {
+    const buffer = Buffer.from([
+      "SUPERIOR TRIBUNAL DE JUSTIÇA",
+      "RECURSO ESPECIAL Nº 1.234.567 - RS (2021/0001234-5)",
+      "RELATOR : MINISTRO MARCO AURÉLIO BELLIZZE",
+      "EMENTA: RECURSO ESPECIAL. DIREITO CIVIL. Recurso provido.",
+    ].join("\n"));
+    await processDocument(6, buffer, "text/plain", "resp.txt", "doc_6");
+
+    expect(mockUpdateDoc).toHaveBeenCalledWith(6, expect.objectContaining({
+      status: "extracted",
+      processo: "REsp 1.234.567/RS",
+      classe: "REsp",
+      tribunal: "STJ",
+      relator: "MINISTRO MARCO AURÉLIO BELLIZZE",
+      dataJulgamento: null,
+    }));
+    const chunks = mockStoreChunks.mock.calls[0][1];
+    expect(chunks[0].metadata).toMatchObject({
+      source: "upload", documentId: 6, processo: "REsp 1.234.567/RS", uf: "RS", tribunal: "STJ",
+    });
+  });
+
+  it("adds entities of opted-in uploads to the knowledge graph tagged with the document", async () => {
+    const buffer = Buffer.from("Agravo interno desprovido. Incide a Súmula 7 do STJ.");
+    const result = await processDocument(4, buffer, "text/plain", "agravo.txt", "doc_4", { extractEntities: true });
+
+    expect(extractEntitiesFromChunks).toHaveBeenCalledTimes(1);
+    // The previous contribution is removed before extracting again
+    expect(vi.mocked(deleteDocumentGraph).mock.invocationCallOrder[0])
+      .toBeLessThan(vi.mocked(batchUpsertGraphNodes).mock.invocationCallOrder[0]);
+    expect(batchUpsertGraphNodes).toHaveBeenCalledWith([
+      expect.objectContaining({ entityId: "legislacao:sumula_7", source: "upload", sourceRef: "4" }),
+    ]);
+    expect(batchInsertGraphEdges).toHaveBeenCalledWith([
+      expect.objectContaining({ relationshipType: "FUNDAMENTA", sourceRef: "4" }),
+    ]);
+    // Kept per document so deleting it takes exactly these mentions back
+    expect(addDocumentGraphMentions).toHaveBeenCalledWith(4, ["legislacao:sumula_7"]);
+    expect(mockUpdateDoc).toHaveBeenCalledWith(4, { status: "entities_extracted", entityCount: 1 });
+    expect(result.entities).toBe(1);
+  });
+
+  it("skips entity extraction for uploads that opted out", async () => {
+    const buffer = Buffer.from("Agravo interno desprovido. Incide a Súmula 7 do STJ.");
+    const result = await processDocument(4, buffer, "text/plain", "agravo.txt", "doc_4", { extractEntities: false });
+
+    expect(extractEntitiesFromChunks).not.toHaveBeenCalled();
+    expect(batchUpsertGraphNodes).not.toHaveBeenCalled();
+    // Entities of an earlier run with extraction enabled are removed
+    expect(deleteDocumentGraph).toHaveBeenCalledWith(4);
+    expect(result.entities).toBe(0);
+  });
+
+  it("quarantines chunks that fail the quality gate and reports them", async () => {
+    const buffer = Buffer.from("The court dismissed the appeal and the decision of the lower court was upheld.");
+    const result = await processDocument(9, buffer, "text/plain", "english.txt", "doc_9", { extractEntities: true });
+
+    expect(result.chunks).toBe(0);
+    expect(extractEntitiesFromChunks).not.toHaveBeenCalled();
+    expect(mockStoreChunks).toHaveBeenCalledWith("doc_9", [], expect.any(Object));
+    expect(deleteQuarantinedChunks).toHaveBeenCalledWith("document:9");
+    expect(insertQuarantinedChunks).toHaveBeenCalledWith([expect.objectContaining({
+      sourceId: "document:9", documentId: 9, collectionName: "doc_9", chunkIndex: 0, reasons: ["language"],
+    })]);
+    expect(mockUpdateDoc).toHaveBeenCalledWith(9, expect.objectContaining({
+      status: "chunked", chunkCount: 0, metadata: { quality: { quarantinedChunks: 1, reasons: { language: 1 } } },
+    }));
+    expect(updateLog).toHaveBeenCalledWith(1, expect.objectContaining({
+      status: "warning", details: "Processed english.txt: 1 of 1 chunks quarantined (language: 1)",
+    }));
+  });
+
+  it("pseudonymizes personal data before storing text and embedding chunks", async () => {
+    vi.stubEnv("PII_ENCRYPTION_KEY", "test-pii-key");
+    const buffer = Buffer.from("Agravo interno do autor, CPF 529.982.247-25, telefone (11) 98765-4321. Recurso desprovido.");
+    await processDocument(10, buffer, "text/plain", "peticao.txt", "doc_10");
+
+    const chunks = mockStoreChunks.mock.calls[0][1];
+    expect(chunks[0].text).toMatch(/CPF \[CPF_[0-9A-F]{12}\], telefone \[TELEFONE_[0-9A-F]{12}\]/);
+    expect(mockUpdateDoc).toHaveBeenCalledWith(10, expect.objectContaining({
+      status: "extracted",
+      textContent: expect.not.stringContaining("529.982.247-25"),
+      metadata: { pii: { cpf: 1, phone: 1 } },
+    }));
+    expect(upsertPiiMappings).toHaveBeenCalledWith([
+      expect.objectContaining({ piiType: "cpf" }), expect.objectContaining({ piiType: "phone" }),
+    ]);
+    vi.unstubAllEnvs();
   });
 
   it("throws when extracted text is empty", async () => {
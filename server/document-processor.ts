@@ -1,47 +1,179 @@
 /**
- * Document Processor - Handles uploaded PDF, DOCX, TXT files
- * Extracts text, chunks, and generates embeddings.
+ * Document Processor - Handles uploaded PDF, DOCX, TXT, RTF, ODT, HTML, EML and DOC files
+ * Extracts text (OCR for scanned PDF pages), detects decision metadata (process
+ * number, classe, tribunal, relator, dates), pseudonymizes personal data (see
+ * pii-redaction.ts), chunks, quarantines low-quality
+ * chunks (see text-quality.ts), extracts entities into the knowledge graph
+ * (unless the upload opted out), and generates embeddings.
+ * E-mail attachments become child documents processed in their own jobs.
  */
-import { chunkText } from "./chunker";
-import { storeChunks } from "./embeddings";
-import { updateDocument, createLog, updateLog } from "./db";
+import { chunkHierarchically, getDefaultChunkingStrategy, type ChunkingStrategy } from "./chunker";
+import { storeChunks, storeChunkParents, pruneStalePoints } from "./embeddings";
+import { randomUUID } from "crypto";
+import {
+  updateDocument, createLog, updateLog, getDocumentById, getChildDocuments, createDocument,
+  deleteQuarantinedChunks, insertQuarantinedChunks, deleteDocumentGraph,
+} from "./db";
+import { extractEntitiesFromChunks } from "./entity-extractor";
+import { storeExtraction } from "./entity-resolution";
+import { storagePut } from "./storage";
+import { enqueueDocumentProcess } from "./queue/queues";
+import { logger } from "./_core/logger";
+import { nanoid } from "nanoid";
+import {
+  detectDocumentFormat, rtfToText, odtToText, htmlToText, decodeHtml, parseEmail, docToText,
+  type DocumentFormat, type EmailAttachment,
+} from "./document-formats";
+import { cleanPdfPages, assignPageRanges, type PdfPage } from "./pdf-layout";
+import { extractDocumentMetadata } from "./document-metadata";
+import { gateChunks, summarizeQuarantine, describeQuarantine, toQuarantineRows } from "./text-quality";
+import { redactText, savePseudonyms, summarizePseudonyms } from "./pii-redaction";
+import { isOcrEnabled, isSparsePage, getOcrRenderScale, recognizePages, summarizeOcr, type OcrMetadata } from "./ocr";
+
+/** Max chunks per document sent to LLM entity extraction (same budget as a resource) */
+const ENTITY_CHUNK_LIMIT = 50;
+
+export interface ProcessDocumentOptions {
+  chunking?: ChunkingStrategy;
+  /** Add entities and relationships to the knowledge graph (source "upload") */
+  extractEntities?: boolean;
+}
+
+export interface ExtractionResult {
+  text: string;
+  /** E-mail attachments, processed as child documents */
+  attachments?: EmailAttachment[];
+  /** Present when at least one PDF page was recognized by OCR */
+  ocr?: OcrMetadata;
+  /** Cleaned PDF pages (headers, footers and stamps removed); `text` is their concatenation */
+  pages?: PdfPage[];
+}
 
 /** Extract text from a buffer based on MIME type */
 export async function extractText(buffer: Buffer, mimeType: string, filename: string): Promise<string> {
-  if (mimeType === "text/plain" || filename.endsWith(".txt")) {
-    return buffer.toString("utf-8");
-  }
+  return (await extractDocument(buffer, mimeType, filename)).text;
+}
+
+/**
+ * Extract PDF text page by page. Pages with an empty or sparse text layer
+ * (scanned petitions and decisions) are rendered and OCR'd instead; page
+ * boundaries are kept for page citations.
+ */
+async function extractPdf(buffer: Buffer): Promise<ExtractionResult> {
+  const { PDFParse } = await import("pdf-parse");
+  const parser = new PDFParse({ data: buffer });
+  try {
+    const result = await parser.getText();
+    const pages = new Map(result.pages.map(p => [p.num, p.text]));
 
-  if (mimeType === "application/pdf" || filename.endsWith(".pdf")) {
-    try {
-      const { PDFParse } = await import("pdf-parse");
-      const parser = new PDFParse({ data: buffer }) as any;
-      await parser.load();
-      const pages: string[] = [];
-      for (let i = 1; i <= parser.doc.numPages; i++) {
-        const pageText = await parser.getText(i);
-        if (pageText) pages.push(String(pageText.text || pageText));
+    const sparsePages = result.pages.filter(p => isSparsePage(p.text)).map(p => p.num);
+    let ocr: OcrMetadata | undefined;
+    if (sparsePages.length > 0 && isOcrEnabled()) {
+      const screenshots = await parser.getScreenshot({
+        partial: sparsePages,
+        scale: getOcrRenderScale(),
+        imageDataUrl: false,
+        imageBuffer: true,
+      });
+      const recognized = await recognizePages(
+        screenshots.pages.map(s => ({ pageNumber: s.pageNumber, image: Buffer.from(s.data) }))
+      );
+      for (const page of recognized) {
+        // Keep the text layer when OCR found less (e.g. a page with a stamp only)
+        if (page.text.length > (pages.get(page.pageNumber) ?? "").trim().length) pages.set(page.pageNumber, page.text);
       }
-      return pages.join("\n") || "";
-    } catch (error: any) {
-      throw new Error(`PDF extraction failed: ${error.message}`);
+      if (recognized.length > 0) ocr = summarizeOcr(recognized);
     }
+
+    const cleaned = cleanPdfPages(
+      Array.from(pages.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([page, pageText]) => ({ page, text: pageText }))
+    ).filter(p => p.text.length > 0);
+    return { text: cleaned.map(p => p.text).join("\n"), ocr, pages: cleaned };
+  } finally {
+    await parser.destroy().catch(() => {});
   }
+}
 
-  if (
-    mimeType === "application/vnd.openxmlformats-officedocument.wordprocessingml.document" ||
-    filename.endsWith(".docx")
-  ) {
-    try {
+/** Text extraction per upload format */
+async function extractByFormat(format: DocumentFormat, buffer: Buffer): Promise<ExtractionResult> {
+  switch (format) {
+    case "txt":
+      return { text: buffer.toString("utf-8") };
+    case "pdf":
+      return extractPdf(buffer);
+    case "docx": {
       const mammoth = await import("mammoth");
       const result = await mammoth.extractRawText({ buffer });
-      return result.value || "";
-    } catch (error: any) {
-      throw new Error(`DOCX extraction failed: ${error.message}`);
+      return { text: result.value || "" };
     }
+    case "rtf":
+      return { text: rtfToText(buffer.toString("latin1")) };
+    case "odt":
+      return { text: await odtToText(buffer) };
+    case "html":
+      return { text: htmlToText(decodeHtml(buffer)) };
+    case "eml":
+      return parseEmail(buffer);
+    case "doc":
+      return { text: await docToText(buffer) };
+    case "zip":
+      throw new Error("ZIP archives are expanded into child documents, not extracted");
+  }
+}
+
+/** Extract text (OCR metadata for scanned PDFs, attachments for e-mails) from a buffer based on MIME type */
+export async function extractDocument(buffer: Buffer, mimeType: string, filename: string): Promise<ExtractionResult> {
+  const format = detectDocumentFormat(mimeType, filename);
+  if (!format) throw new Error(`Unsupported file type: ${mimeType}`);
+  try {
+    return await extractByFormat(format, buffer);
+  } catch (error: any) {
+    throw new Error(`${format.toUpperCase()} extraction failed: ${error.message}`);
   }
+}
 
-  throw new Error(`Unsupported file type: ${mimeType}`);
+/**
+ * Register e-mail attachments as child documents of the e-mail and queue them.
+ * Attachments already registered by an earlier run (same filename) are re-queued.
+ */
+async function createAttachmentDocuments(
+  parentId: number,
+  attachments: EmailAttachment[],
+  options: ProcessDocumentOptions
+): Promise<number[]> {
+  const parent = await getDocumentById(parentId);
+  if (!parent) return [];
+  const existing = await getChildDocuments(parentId);
+
+  const childIds: number[] = [];
+  for (const attachment of attachments) {
+    if (!detectDocumentFormat(attachment.mimeType, attachment.filename)) {
+      logger.info({ documentId: parentId, filename: attachment.filename }, "[Documents] Skipping unsupported attachment");
+      continue;
+    }
+    let childId = existing.find(d => d.originalName === attachment.filename)?.id;
+    if (!childId) {
+      const fileKey = `documents/${parent.userId}/${nanoid()}-${attachment.filename}`;
+      const { key, url } = await storagePut(fileKey, attachment.content, attachment.mimeType);
+      childId = await createDocument({
+        userId: parent.userId,
+        parentDocumentId: parentId,
+        filename: attachment.filename,
+        originalName: attachment.filename,
+        mimeType: attachment.mimeType,
+        fileSize: attachment.content.length,
+        fileUrl: url,
+        fileKey: key,
+        extractEntities: parent.extractEntities,
+        status: "uploaded",
+      });
+    }
+    await enqueueDocumentProcess(childId, { chunking: options.chunking });
+    childIds.push(childId);
+  }
+  return childIds;
 }
 
 /** Process a document: extract text, chunk, and generate embeddings */
@@ -50,8 +182,9 @@ export async function processDocument(
   buffer: Buffer,
   mimeType: string,
   filename: string,
-  collectionName: string
-): Promise<{ chunks: number; embeddings: number }> {
+  collectionName: string,
+  options: ProcessDocumentOptions = {}
+): Promise<{ chunks: number; embeddings: number; entities: number }> {
   const startTime = Date.now();
   const logId = await createLog({
     action: "process_document",
@@ -63,34 +196,90 @@ export async function processDocument(
   try {
     // Step 1: Extract text
     await updateDocument(documentId, { status: "extracting" });
-    const text = await extractText(buffer, mimeType, filename);
+    const { text: rawText, ocr, pages: rawPages, attachments } = await extractDocument(buffer, mimeType, filename);
+    const attachmentIds = attachments?.length
+      ? await createAttachmentDocuments(documentId, attachments, options)
+      : [];
 
-    if (!text || text.trim().length === 0) {
+    if (!rawText || rawText.trim().length === 0) {
       throw new Error("No text content extracted from document");
     }
 
+    // Decision metadata is public; personal data is pseudonymized before anything is stored
+    const decision = extractDocumentMetadata(rawText);
+    const { text, pseudonyms } = redactText(rawText);
+    const pages = rawPages?.map(p => ({ ...p, text: redactText(p.text).text }));
+    await savePseudonyms(pseudonyms);
+
+    const metadata = {
+      ...(ocr ? { ocr } : {}),
+      ...(attachmentIds.length > 0 ? { attachmentDocumentIds: attachmentIds } : {}),
+      ...(pseudonyms.length > 0 ? { pii: summarizePseudonyms(pseudonyms) } : {}),
+    };
     await updateDocument(documentId, {
       status: "extracted",
       textContent: text.substring(0, 65000), // MySQL text limit
+      metadata: Object.keys(metadata).length > 0 ? metadata : null,
+      processo: decision.processo ?? null,
+      numeroCnj: decision.numeroCnj ?? null,
+      classe: decision.classe ?? null,
+      tribunal: decision.tribunal ?? null,
+      relator: decision.relator ?? null,
+      orgaoJulgador: decision.orgaoJulgador ?? null,
+      dataJulgamento: decision.dataJulgamento ?? null,
+      dataPublicacao: decision.dataPublicacao ?? null,
     });
 
     // Step 2: Chunk text
     await updateDocument(documentId, { status: "chunking" });
-    const chunks = chunkText(text, {
+    const hierarchy = chunkHierarchically(options.chunking ?? getDefaultChunkingStrategy(), text, {
+      ...decision,
       source: "upload",
       documentId,
       filename,
       mimeType,
     });
+    const allChunks = pages ? assignPageRanges(hierarchy.chunks, pages) : hierarchy.chunks;
+    const parents = pages ? assignPageRanges(hierarchy.parents, pages) : hierarchy.parents;
+
+    // Low-quality chunks stay out of the graph and the collection
+    const sourceId = `document:${documentId}`;
+    const { accepted: chunks, quarantined } = gateChunks(allChunks);
+    const quality = quarantined.length > 0 ? summarizeQuarantine(quarantined) : null;
+    await deleteQuarantinedChunks(sourceId);
+    await insertQuarantinedChunks(toQuarantineRows(quarantined, { sourceId, documentId, collectionName }));
 
     await updateDocument(documentId, {
       status: "chunked",
       chunkCount: chunks.length,
+      ...(quality ? { metadata: { ...metadata, quality } } : {}),
     });
 
-    // Step 3: Generate embeddings and store
+    // Step 3: Extract entities into the knowledge graph (limit for performance).
+    // A previous run (re-process, replacement or since opted out) is removed first.
+    await deleteDocumentGraph(documentId);
+    let entityCount = 0;
+    let relationshipCount = 0;
+    if (options.extractEntities && chunks.length > 0) {
+      await updateDocument(documentId, { status: "extracting_entities" });
+      const sourceRef = String(documentId);
+      const extraction = await storeExtraction(
+        await extractEntitiesFromChunks(chunks.slice(0, ENTITY_CHUNK_LIMIT)),
+        { source: "upload", sourceRef }
+      );
+      entityCount = extraction.entities.length;
+      relationshipCount = extraction.relationships.length;
+      await updateDocument(documentId, { status: "entities_extracted", entityCount });
+    }
+
+    // Step 4: Generate embeddings and store
     await updateDocument(documentId, { status: "embedding" });
-    const result = await storeChunks(collectionName, chunks);
+    const runId = randomUUID();
+    await storeChunkParents(collectionName, parents, chunks, { sourceId, runId });
+    const result = await storeChunks(collectionName, chunks, { sourceId, runId });
+    if (result.errors === 0) {
+      await pruneStalePoints(collectionName, sourceId, runId, { key: "documentId", value: documentId });
+    }
 
     await updateDocument(documentId, {
       status: "embedded",
@@ -101,14 +290,17 @@ export async function processDocument(
     const duration = Date.now() - startTime;
     if (logId) {
       await updateLog(logId, {
-        status: "completed",
+        status: quality ? "warning" : "completed",
+        ...(quality ? { details: `Processed ${filename}: ${describeQuarantine(quality, allChunks.length)}` } : {}),
         chunksGenerated: chunks.length,
+        entitiesExtracted: entityCount,
+        relationshipsExtracted: relationshipCount,
         embeddingsGenerated: result.stored,
         durationMs: duration,
       });
     }
 
-    return { chunks: chunks.length, embeddings: result.stored };
+    return { chunks: chunks.length, embeddings: result.stored, entities: entityCount };
   } catch (error: any) {
     await updateDocument(documentId, {
       status: "error",
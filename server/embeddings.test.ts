@@ -1,5 +1,5 @@
 import { vi, describe, it, expect, beforeEach } from "vitest";
-import { fetchWithRetry } from "./embeddings";
+import { fetchWithRetry, chunkPointId } from "./embeddings";
 import { resetMetrics } from "./_core/metrics";
 
 beforeEach(() => {
@@ -90,3 +90,61 @@ describe("generateQueryEmbedding (local)", () => {
     vi.unstubAllEnvs();
   });
 });
+
+describe("chunkPointId", () => {
+  const chunk = (text: string, chunkIndex = 0) => ({ text, index: chunkIndex, metadata: { recordKey: "abc", chunkIndex } });
+
+  it("is a stable UUID for the same source, record, position and text", () => {
+    const id = chunkPointId("resource:r1", chunk("Recurso provido."));
+    expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(chunkPointId("resource:r1", chunk("Recurso provido."))).toBe(id);
+  });
+
+  it("changes with the source, the chunk index or the content", () => {
+    const id = chunkPointId("resource:r1", chunk("Recurso provido."));
+    expect(chunkPointId("resource:r2", chunk("Recurso provido."))).not.toBe(id);
+    expect(chunkPointId("resource:r1", chunk("Recurso provido.", 1))).not.toBe(id);
+    expect(chunkPointId("resource:r1", chunk("Recurso desprovido."))).not.toBe(id);
+  });
+});
+
+describe("storeChunks / pruneStalePoints", () => {
+  it("upserts deterministic IDs and deletes points of older runs", async () => {
+    vi.stubEnv("EMBEDDING_PROVIDER", "local");
+    vi.stubEnv("QDRANT_URL", "http://qdrant:6333");
+    vi.resetModules();
+
+    const fetchMock = vi.fn(async (url: string) => ({
+      ok: true,
+      json: async () => (String(url).endsWith("/embeddings") ? { embeddings: [[0.1], [0.2]] } : { result: {} }),
+      text: async () => "",
+    }));
+    // @ts-expect-error — mock global fetch
+    global.fetch = fetchMock;
+
+    const embeddings = await import("./embeddings");
+    const chunks = [
+      { text: "Primeiro trecho.", index: 0, metadata: { documentId: 7, chunkIndex: 0 } },
+      { text: "Segundo trecho.", index: 1, metadata: { documentId: 7, chunkIndex: 1 } },
+    ];
+    const result = await embeddings.storeChunks("doc_7", chunks, { sourceId: "document:7", runId: "run-2" });
+    expect(result).toEqual({ stored: 2, errors: 0 });
+
+    const upsert = fetchMock.mock.calls.find(([url, init]: any[]) => String(url).endsWith("/points") && init.method === "PUT")!;
+    const { points } = JSON.parse((upsert as any[])[1].body);
+    expect(points.map((p: any) => p.id)).toEqual(chunks.map(c => embeddings.chunkPointId("document:7", c)));
+    expect(points[0].payload).toMatchObject({ text: "Primeiro trecho.", sourceId: "document:7", ingestRunId: "run-2" });
+
+    await embeddings.pruneStalePoints("doc_7", "document:7", "run-2");
+    const [deleteUrl, deleteInit] = fetchMock.mock.calls.at(-1) as any[];
+    expect(deleteUrl).toBe("http://qdrant:6333/collections/doc_7/points/delete?wait=true");
+    expect(JSON.parse(deleteInit.body)).toEqual({
+      filter: {
+        must: [{ key: "sourceId", match: { value: "document:7" } }],
+        must_not: [{ key: "ingestRunId", match: { value: "run-2" } }],
+      },
+    });
+
+    vi.unstubAllEnvs();
+  });
+});
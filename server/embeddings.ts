@@ -7,12 +7,17 @@
  *
  * NOTE: Switching providers requires re-indexing — vector spaces are incompatible.
  */
-import type { TextChunk } from "./chunker";
+import type { TextChunk, ParentChunk } from "./chunker";
+import { upsertChunkParents, getChunkParentsByIds, deleteChunkParentsByCollection, deleteStaleChunkParents } from "./db";
 import { logger } from "./_core/logger";
 import { incMetric, recordTiming } from "./_core/metrics";
-import { ensureCollection as ensureQdrantCollection, upsertPoints as qdrantUpsertPoints, searchCollection as qdrantSearchCollection } from "./vector/qdrant";
+import {
+  ensureCollection as ensureQdrantCollection, upsertPoints as qdrantUpsertPoints,
+  searchCollection as qdrantSearchCollection, deletePointsByFilter as qdrantDeletePoints,
+  deleteCollection as qdrantDeleteCollection, isQdrantConfigured, deterministicPointId,
+} from "./vector/qdrant";
 import pLimit from "p-limit";
-import { randomUUID } from "crypto";
+import { createHash } from "crypto";
 
 const EMBEDDING_PROVIDER = (process.env.EMBEDDING_PROVIDER || "gemini").toLowerCase();
 if (!["gemini", "local"].includes(EMBEDDING_PROVIDER)) {
@@ -236,12 +241,33 @@ export async function generateBatchEmbeddings(texts: string[]): Promise<number[]
   }
 }
 
-/** Store chunks with embeddings in Qdrant */
+/**
+ * Deterministic Qdrant point ID (UUID-formatted sha256) for a chunk, derived from
+ * its source (resource or document), record, position and content. Re-indexing the
+ * same source yields the same IDs, so points are overwritten instead of duplicated.
+ */
+export function chunkPointId(sourceId: string, chunk: TextChunk): string {
+  const recordId = chunk.metadata.recordKey ?? chunk.metadata.processo ?? "";
+  const chunkIndex = chunk.metadata.chunkIndex ?? chunk.index;
+  const contentHash = createHash("sha256").update(chunk.text).digest("hex");
+  return deterministicPointId(`${sourceId}|${recordId}|${chunkIndex}|${contentHash}`);
+}
+
+export interface StoreChunksOptions {
+  /** Source the chunks belong to ("resource:<resourceId>" or "document:<id>"), stored as `sourceId` */
+  sourceId: string;
+  /** Ingest run marker stored as `ingestRunId`; points of older runs are removed by pruneStalePoints */
+  runId?: string;
+  onProgress?: (processed: number, total: number) => void;
+}
+
+/** Store chunks with embeddings in Qdrant, upserting by deterministic point ID */
 export async function storeChunks(
   collectionName: string,
   chunks: TextChunk[],
-  onProgress?: (processed: number, total: number) => void
+  options: StoreChunksOptions
 ): Promise<{ stored: number; errors: number }> {
+  const { sourceId, runId, onProgress } = options;
   await ensureQdrantCollection(collectionName, EMBEDDING_DIMENSION);
 
   const seen = new Set<string>();
@@ -263,9 +289,9 @@ export async function storeChunks(
       try {
         const embeddings = await generateBatchEmbeddings(texts);
         const points = batch.map((c, idx) => ({
-          id: randomUUID(),
+          id: chunkPointId(sourceId, c),
           vector: embeddings[idx],
-          payload: { text: texts[idx], ...c.metadata },
+          payload: { text: texts[idx], ...c.metadata, sourceId, ...(runId ? { ingestRunId: runId } : {}) },
         }));
 
         await qdrantUpsertPoints(collectionName, points);
@@ -287,6 +313,69 @@ export async function storeChunks(
   return { stored, errors };
 }
 
+/**
+ * Remove points and parent sections of `sourceId` that were not written by run `runId` —
+ * chunks whose source record or text disappeared since the previous run. `legacy` also matches
+ * points stored before IDs were deterministic (no `sourceId`) by a payload field.
+ * Only call after a run stored every chunk, otherwise points that failed to re-embed are lost.
+ */
+export async function pruneStalePoints(
+  collectionName: string,
+  sourceId: string,
+  runId: string,
+  legacy?: { key: string; value: string | number }
+): Promise<void> {
+  const sourceCondition = { key: "sourceId", match: { value: sourceId } };
+  try {
+    await deleteStaleChunkParents(sourceId, runId);
+    await qdrantDeletePoints(collectionName, {
+      ...(legacy
+        ? {
+          should: [
+            sourceCondition,
+            { must: [{ is_empty: { key: "sourceId" } }, { key: legacy.key, match: { value: legacy.value } }] },
+          ],
+        }
+        : { must: [sourceCondition] }),
+      must_not: [{ key: "ingestRunId", match: { value: runId } }],
+    });
+  } catch (error: any) {
+    logger.warn({ err: String(error), collectionName, sourceId }, "[Embeddings] Failed to prune stale points");
+  }
+}
+
+/**
+ * Store the parent sections referenced by chunks (via `parentId` in the payload),
+ * tagged with the source and run like the points of storeChunks.
+ * Only parents with at least one chunk in `chunks` are kept.
+ */
+export async function storeChunkParents(
+  collectionName: string,
+  parents: ParentChunk[],
+  chunks: TextChunk[],
+  options: Pick<StoreChunksOptions, "sourceId" | "runId">
+): Promise<number> {
+  const referenced = new Set(chunks.map(c => c.metadata.parentId));
+  const kept = parents.filter(p => referenced.has(p.parentId));
+  await upsertChunkParents(kept.map(p => ({
+    parentId: p.parentId,
+    collectionName,
+    sourceId: options.sourceId,
+    runId: options.runId ?? null,
+    text: p.text,
+    metadata: p.metadata,
+  })));
+  return kept.length;
+}
+
+/** Parent sections (text and metadata) by parentId */
+export async function getChunkParents(
+  parentIds: string[]
+): Promise<Map<string, { text: string; metadata: Record<string, any> }>> {
+  const rows = await getChunkParentsByIds(Array.from(new Set(parentIds)));
+  return new Map(rows.map(r => [r.parentId, { text: r.text, metadata: (r.metadata as Record<string, any>) ?? {} }]));
+}
+
 /** Query Qdrant for similar documents */
 export async function queryCollection(
   collectionName: string,
@@ -349,6 +438,12 @@ export async function queryMultipleCollections(
   };
 }
 
+/** Drop a collection (e.g. `doc_<id>` of a deleted upload) and the parent sections stored for it */
+export async function deleteCollection(collectionName: string): Promise<void> {
+  if (isQdrantConfigured()) await qdrantDeleteCollection(collectionName);
+  await deleteChunkParentsByCollection(collectionName);
+}
+
 /** Get collection stats from Qdrant */
 export async function getCollectionStats(collectionName: string): Promise<{ count: number }> {
   try {
@@ -29,7 +29,7 @@ beforeEach(() => {
   vi.clearAllMocks();
 });
 
-// ─── normalizeEntityId (tested indirectly via extractEntitiesFromChunk) ────
+// ─── canonical entity IDs (rules in entity-resolution.test.ts) ─────────────
 
 describe("extractEntitiesFromChunk", () => {
   it("extracts entities and relationships from valid LLM response", async () => {
@@ -49,9 +49,10 @@ describe("extractEntitiesFromChunk", () => {
 
     const result = await extractEntitiesFromChunk(makeChunk("Texto jurídico..."));
     expect(result.entities).toHaveLength(2);
-    expect(result.entities[0].entityId).toBe("ministro:min_herman_benjamin");
-    expect(result.entities[1].entityId).toBe("processo:resp_1_234_567_sp");
+    expect(result.entities[0].entityId).toBe("ministro:herman_benjamin");
+    expect(result.entities[1].entityId).toBe("processo:resp_1234567");
     expect(result.relationships).toHaveLength(1);
+    expect(result.relationships[0].sourceEntityId).toBe("ministro:herman_benjamin");
     expect(result.relationships[0].relationshipType).toBe("RELATOR_DE");
   });
 
@@ -5,6 +5,7 @@
 import { invokeLLM } from "./_core/llm";
 import type { TextChunk } from "./chunker";
 import { logger } from "./_core/logger";
+import { canonicalEntityId } from "./entity-resolution";
 
 export interface ExtractedEntity {
   entityId: string;
@@ -37,14 +38,6 @@ const RELATIONSHIP_TYPES = [
   "APLICA", "CONTRARIA", "CONFIRMA",
 ];
 
-function normalizeEntityId(name: string, type: string): string {
-  const normalized = name.toLowerCase()
-    .normalize("NFD").replace(/[\u0300-\u036f]/g, "")
-    .replace(/[^a-z0-9]+/g, "_")
-    .replace(/^_+|_+$/g, "");
-  return `${type.toLowerCase()}:${normalized}`;
-}
-
 const EXTRACTION_PROMPT = `Você é um especialista em extração de entidades e relações de textos jurídicos brasileiros do Superior Tribunal de Justiça (STJ).
 
 Analise o texto fornecido e extraia TODAS as entidades e relações relevantes.
@@ -133,17 +126,17 @@ export async function extractEntitiesFromChunk(chunk: TextChunk): Promise<Extrac
 
     const parsed = JSON.parse(content);
 
-    // Normalize entity IDs
+    // Canonical entity IDs (see entity-resolution.ts)
     const entities: ExtractedEntity[] = (parsed.entities || []).map((e: any) => ({
-      entityId: normalizeEntityId(e.name, e.entityType),
+      entityId: canonicalEntityId(e.name, e.entityType),
       name: e.name,
       entityType: e.entityType,
       description: e.description,
     }));
 
     const relationships: ExtractedRelationship[] = (parsed.relationships || []).map((r: any) => ({
-      sourceEntityId: normalizeEntityId(r.sourceName, r.sourceType),
-      targetEntityId: normalizeEntityId(r.targetName, r.targetType),
+      sourceEntityId: canonicalEntityId(r.sourceName, r.sourceType),
+      targetEntityId: canonicalEntityId(r.targetName, r.targetType),
       relationshipType: r.relationshipType,
       description: r.description,
       weight: Math.min(1, Math.max(0, r.weight || 0.5)),
@@ -0,0 +1,247 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from "vitest";
+
+vi.mock("./db", () => ({
+  getEntityAliasesByAlias: vi.fn().mockResolvedValue([]),
+  upsertEntityAliases: vi.fn(),
+  getExistingGraphNodeIds: vi.fn().mockResolvedValue([]),
+  batchUpsertGraphNodes: vi.fn(),
+  addDocumentGraphMentions: vi.fn(),
+  batchInsertGraphEdges: vi.fn(),
+  mergeGraphNodes: vi.fn().mockResolvedValue(true),
+  createEntityMergeCandidate: vi.fn().mockResolvedValue(true),
+  getEntityMergeCandidateById: vi.fn(),
+  updateEntityMergeCandidate: vi.fn(),
+  getAllGraphNodes: vi.fn().mockResolvedValue([]),
+}));
+vi.mock("./embeddings", () => ({
+  generateBatchEmbeddings: vi.fn(async (texts: string[]) => texts.map(() => [0.1, 0.2, 0.3])),
+}));
+vi.mock("./vector/qdrant", async (importOriginal) => ({
+  deterministicPointId: (await importOriginal<typeof import("./vector/qdrant")>()).deterministicPointId,
+  ensureCollection: vi.fn(),
+  upsertPoints: vi.fn(),
+  searchCollection: vi.fn().mockResolvedValue([]),
+  deletePointsByFilter: vi.fn().mockResolvedValue(true),
+  isQdrantConfigured: vi.fn(() => Boolean(process.env.QDRANT_URL)),
+}));
+vi.mock("./_core/logger", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import {
+  canonicalEntityId, canonicalEntity, resolveExtraction, storeExtraction, linkSimilarEntities,
+  reviewMergeCandidate, resolveExistingEntities,
+} from "./entity-resolution";
+import {
+  getEntityAliasesByAlias, upsertEntityAliases, getExistingGraphNodeIds, batchUpsertGraphNodes, batchInsertGraphEdges,
+  addDocumentGraphMentions, mergeGraphNodes, createEntityMergeCandidate, getEntityMergeCandidateById, updateEntityMergeCandidate, getAllGraphNodes,
+} from "./db";
+import { searchCollection, upsertPoints, deletePointsByFilter } from "./vector/qdrant";
+
+function entity(name: string, entityType: string) {
+  return { entityId: canonicalEntityId(name, entityType), name, entityType, description: "" };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.stubEnv("QDRANT_URL", "");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("canonicalEntityId", () => {
+  it("strips the titles of ministros", () => {
+    const ids = ["Min. Herman Benjamin", "Herman Benjamin", "Ministro HERMAN BENJAMIN", "Exmo. Sr. Ministro Herman Benjamin (Relator)"]
+      .map(name => canonicalEntityId(name, "MINISTRO"));
+    expect(new Set(ids)).toEqual(new Set(["ministro:herman_benjamin"]));
+    expect(canonicalEntity("MINISTRA NANCY ANDRIGHI", "MINISTRO").name).toBe("Nancy Andrighi");
+    expect(canonicalEntity("Min. Marco Aurélio da Silva", "MINISTRO").name).toBe("Marco Aurélio da Silva");
+  });
+
+  it("reduces process numbers to class and digits", () => {
+    expect(canonicalEntityId("REsp 1.234.567/SP", "PROCESSO")).toBe("processo:resp_1234567");
+    expect(canonicalEntityId("RECURSO ESPECIAL Nº 1.234.567 - SP", "PROCESSO")).toBe("processo:resp_1234567");
+    expect(canonicalEntityId("AgInt no AREsp nº 987.654/RJ", "PROCESSO")).toBe("processo:agint_no_aresp_987654");
+    expect(canonicalEntityId("Processo 0001234-13.2020.8.26.0100", "PROCESSO")).toBe("processo:cnj_00012341320208260100");
+    expect(canonicalEntityId("HC 123456", "PRECEDENTE")).toBe("precedente:hc_123456");
+  });
+
+  it("maps statutes and codes to the same law", () => {
+    for (const name of ["Lei 8.078/90", "Lei nº 8.078, de 11 de setembro de 1990", "CDC", "Código de Defesa do Consumidor"]) {
+      expect(canonicalEntityId(name, "LEGISLACAO")).toBe("legislacao:lei_8078");
+    }
+    expect(canonicalEntityId("Art. 927 do CC", "LEGISLACAO")).toBe("legislacao:lei_10406:art_927");
+    expect(canonicalEntityId("artigo 927 do Código Civil", "LEGISLACAO")).toBe("legislacao:lei_10406:art_927");
+    expect(canonicalEntityId("art. 1.022 do CPC/2015", "LEGISLACAO")).toBe("legislacao:lei_13105:art_1022");
+    expect(canonicalEntityId("art. 535 do CPC/73", "LEGISLACAO")).toBe("legislacao:lei_5869:art_535");
+    expect(canonicalEntityId("art. 5º, XXXV, da CF/88", "LEGISLACAO")).toBe("legislacao:cf_1988:art_5");
+    expect(canonicalEntityId("Decreto-Lei 2.848/40", "LEGISLACAO")).toBe("legislacao:decreto_lei_2848_1940");
+    expect(canonicalEntityId("CP", "LEGISLACAO")).toBe("legislacao:decreto_lei_2848_1940");
+    expect(canonicalEntityId("art. 33 da Lei 11.343/2006", "LEGISLACAO")).toBe("legislacao:lei_11343:art_33");
+  });
+
+  it("normalizes súmulas and órgãos julgadores", () => {
+    expect(canonicalEntityId("Súmula 7/STJ", "LEGISLACAO")).toBe("legislacao:sumula_stj_7");
+    expect(canonicalEntityId("Súmula n. 7 do STJ", "LEGISLACAO")).toBe("legislacao:sumula_stj_7");
+    expect(canonicalEntityId("Súmula 282 do STF", "PRECEDENTE")).toBe("precedente:sumula_stf_282");
+    expect(canonicalEntityId("1ª Turma", "ORGAO_JULGADOR")).toBe("orgao_julgador:primeira_turma");
+    expect(canonicalEntityId("PRIMEIRA TURMA do STJ", "ORGAO_JULGADOR")).toBe("orgao_julgador:primeira_turma");
+    expect(canonicalEntityId("2ª Seção", "ORGAO_JULGADOR")).toBe("orgao_julgador:segunda_secao");
+  });
+
+  it("falls back to the lowercase slug", () => {
+    expect(canonicalEntityId("Responsabilidade Civil", "TEMA")).toBe("tema:responsabilidade_civil");
+    expect(canonicalEntityId("Art. 5º", "LEGISLACAO")).toBe("legislacao:art_5");
+  });
+});
+
+describe("resolveExtraction", () => {
+  it("follows merge aliases, deduplicates and drops self-loops", async () => {
+    vi.mocked(getEntityAliasesByAlias).mockResolvedValue([
+      { alias: "tema:dano_moral_coletivo", entityId: "tema:dano_moral" } as any,
+    ]);
+    const result = await resolveExtraction({
+      entities: [
+        entity("Min. Herman Benjamin", "MINISTRO"),
+        entity("Lei 8.078/90", "LEGISLACAO"),
+        entity("Dano Moral Coletivo", "TEMA"),
+      ],
+      relationships: [
+        { sourceEntityId: "legislacao:lei_8078", targetEntityId: "legislacao:lei_8078", relationshipType: "REFERENCIA", description: "", weight: 1 },
+        { sourceEntityId: "ministro:herman_benjamin", targetEntityId: "tema:dano_moral_coletivo", relationshipType: "TRATA_DE", description: "", weight: 1 },
+      ],
+    });
+
+    expect(result.entities.map(e => [e.entityId, e.name])).toEqual([
+      ["ministro:herman_benjamin", "Herman Benjamin"],
+      ["legislacao:lei_8078", "Lei 8.078/90"],
+      ["tema:dano_moral", "Dano Moral Coletivo"],
+    ]);
+    expect(result.relationships).toEqual([expect.objectContaining({ targetEntityId: "tema:dano_moral" })]);
+    // Surface forms that the rules rewrote become searchable aliases
+    expect(vi.mocked(upsertEntityAliases).mock.calls[0][0]).toEqual([
+      expect.objectContaining({ alias: "ministro:min_herman_benjamin", entityId: "ministro:herman_benjamin", method: "rule" }),
+      expect.objectContaining({ alias: "legislacao:lei_8_078_90", name: "Lei 8.078/90", entityId: "legislacao:lei_8078" }),
+    ]);
+  });
+});
+
+describe("storeExtraction", () => {
+  it("writes resolved nodes and edges tagged with their origin", async () => {
+    const resolved = await storeExtraction({
+      entities: [entity("CDC", "LEGISLACAO"), entity("Lei 8.078/90", "LEGISLACAO")],
+      relationships: [],
+    }, { source: "upload", sourceRef: "7" });
+
+    expect(resolved.entities).toHaveLength(1);
+    expect(batchUpsertGraphNodes).toHaveBeenCalledWith([
+      expect.objectContaining({ entityId: "legislacao:lei_8078", source: "upload", sourceRef: "7" }),
+    ]);
+    expect(batchInsertGraphEdges).toHaveBeenCalledWith([]);
+    expect(addDocumentGraphMentions).toHaveBeenCalledWith(7, ["legislacao:lei_8078"]);
+  });
+
+  it("records per-document mentions only for uploads", async () => {
+    await storeExtraction({ entities: [entity("CDC", "LEGISLACAO")], relationships: [] }, { source: "stj", sourceRef: "espelhos" });
+    expect(batchUpsertGraphNodes).toHaveBeenCalled();
+    expect(addDocumentGraphMentions).not.toHaveBeenCalled();
+  });
+});
+
+describe("linkSimilarEntities", () => {
+  beforeEach(() => {
+    vi.stubEnv("QDRANT_URL", "http://qdrant:6333");
+  });
+
+  it("merges near-identical entities and queues similar ones for review", async () => {
+    vi.mocked(searchCollection)
+      .mockResolvedValueOnce([{ id: "a", score: 0.97, payload: { entityId: "tema:dano_moral" } }])
+      .mockResolvedValueOnce([{ id: "b", score: 0.9, payload: { entityId: "ministro:antonio_herman_benjamin" } }])
+      .mockResolvedValueOnce([{ id: "c", score: 0.5, payload: { entityId: "tema:prescricao" } }]);
+
+    const result = await linkSimilarEntities([
+      entity("Danos Morais", "TEMA"),
+      entity("Herman Benjamin", "MINISTRO"),
+      entity("Decadência", "TEMA"),
+      entity("REsp 1.234.567/SP", "PROCESSO"),
+    ]);
+
+    expect(result).toEqual({ merged: 1, queued: 1 });
+    expect(searchCollection).toHaveBeenCalledTimes(3);
+    expect(mergeGraphNodes).toHaveBeenCalledWith("tema:danos_morais", "tema:dano_moral", { method: "embedding", confidence: 0.97 });
+    expect(deletePointsByFilter).toHaveBeenCalled();
+    expect(createEntityMergeCandidate).toHaveBeenCalledWith({
+      sourceEntityId: "ministro:herman_benjamin",
+      targetEntityId: "ministro:antonio_herman_benjamin",
+      entityType: "MINISTRO",
+      similarity: 0.9,
+    });
+    const points = vi.mocked(upsertPoints).mock.calls[0][1];
+    expect(points.map(p => p.payload?.entityId)).toEqual(["ministro:herman_benjamin", "tema:decadencia"]);
+  });
+
+  it("only queues parties for review, however similar", async () => {
+    vi.mocked(searchCollection).mockResolvedValueOnce([{ id: "a", score: 0.99, payload: { entityId: "parte:joao_silva" } }]);
+    expect(await linkSimilarEntities([entity("João da Silva", "PARTE")])).toEqual({ merged: 0, queued: 1 });
+    expect(mergeGraphNodes).not.toHaveBeenCalled();
+    expect(createEntityMergeCandidate).toHaveBeenCalledWith(expect.objectContaining({
+      sourceEntityId: "parte:joao_da_silva", targetEntityId: "parte:joao_silva",
+    }));
+  });
+
+  it("reads thresholds from the environment", async () => {
+    vi.stubEnv("ENTITY_AUTO_MERGE_THRESHOLD", "0.99");
+    vi.mocked(searchCollection).mockResolvedValueOnce([{ id: "a", score: 0.97, payload: { entityId: "tema:dano_moral" } }]);
+    expect(await linkSimilarEntities([entity("Danos Morais", "TEMA")])).toEqual({ merged: 0, queued: 1 });
+  });
+
+  it("is skipped without Qdrant or when disabled", async () => {
+    vi.stubEnv("ENTITY_RESOLUTION_EMBEDDINGS", "false");
+    expect(await linkSimilarEntities([entity("Danos Morais", "TEMA")])).toEqual({ merged: 0, queued: 0 });
+    expect(searchCollection).not.toHaveBeenCalled();
+  });
+
+  it("only compares entities that storeExtraction created", async () => {
+    vi.mocked(getExistingGraphNodeIds).mockResolvedValue(["tema:dano_moral"]);
+    await storeExtraction({ entities: [entity("Dano Moral", "TEMA"), entity("Prescrição", "TEMA")], relationships: [] },
+      { source: "stj", sourceRef: "acordaos" });
+    expect(searchCollection).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("review queue", () => {
+  const candidate = {
+    id: 3, sourceEntityId: "tema:danos_morais", targetEntityId: "tema:dano_moral", entityType: "TEMA",
+    similarity: 0.9, status: "pending", reviewedBy: null, reviewedAt: null, createdAt: new Date(),
+  } as const;
+
+  it("merges approved pairs", async () => {
+    vi.mocked(getEntityMergeCandidateById).mockResolvedValue({ ...candidate });
+    expect(await reviewMergeCandidate(3, true, 1)).toEqual({ merged: true });
+    expect(updateEntityMergeCandidate).toHaveBeenCalledWith(3, expect.objectContaining({ status: "approved", reviewedBy: 1 }));
+    expect(mergeGraphNodes).toHaveBeenCalledWith("tema:danos_morais", "tema:dano_moral", { method: "review", confidence: 0.9 });
+  });
+
+  it("keeps rejected pairs apart and refuses to review twice", async () => {
+    vi.mocked(getEntityMergeCandidateById).mockResolvedValueOnce({ ...candidate });
+    expect(await reviewMergeCandidate(3, false, 1)).toEqual({ merged: false });
+    expect(mergeGraphNodes).not.toHaveBeenCalled();
+
+    vi.mocked(getEntityMergeCandidateById).mockResolvedValueOnce({ ...candidate, status: "rejected" });
+    await expect(reviewMergeCandidate(3, true, 1)).rejects.toThrow("already reviewed");
+  });
+});
+
+describe("resolveExistingEntities", () => {
+  it("merges nodes created before the rules into their canonical node", async () => {
+    vi.mocked(getAllGraphNodes).mockResolvedValue([
+      { entityId: "ministro:herman_benjamin", name: "Herman Benjamin", entityType: "MINISTRO" },
+      { entityId: "ministro:min_herman_benjamin", name: "Min. Herman Benjamin", entityType: "MINISTRO" },
+    ] as any);
+    expect(await resolveExistingEntities()).toEqual({ checked: 2, merged: 1 });
+    expect(mergeGraphNodes).toHaveBeenCalledTimes(1);
+    expect(mergeGraphNodes).toHaveBeenCalledWith("ministro:min_herman_benjamin", "ministro:herman_benjamin", { method: "rule", confidence: 1 });
+  });
+});
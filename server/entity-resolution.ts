@@ -0,0 +1,434 @@
+/**
+ * Entity Resolution - Maps the names extracted by the LLM to canonical graph nodes,
+ * so "Min. Herman Benjamin" and "Ministro HERMAN BENJAMIN", or "Lei 8.078/90" and
+ * "CDC", end up on the same node:
+ *   1. Rules: canonicalEntity() strips the titles of ministros and reduces process
+ *      numbers, statutes (codes by their abbreviation too), súmulas and órgãos
+ *      julgadores to a single spelling
+ *   2. Aliases: IDs of merged nodes resolve to the node that absorbed them (entityAliases)
+ *   3. Embeddings: names of new nodes are compared with existing nodes of the same type;
+ *      near-identical ones are merged, similar ones queued for review (entityMergeCandidates)
+ * Thresholds are read from ENTITY_* env vars.
+ */
+import type { ExtractedEntity, ExtractionResult } from "./entity-extractor";
+import type { InsertEntityAlias } from "../drizzle/schema";
+import {
+  getEntityAliasesByAlias, upsertEntityAliases, getExistingGraphNodeIds, batchUpsertGraphNodes, addDocumentGraphMentions,
+  batchInsertGraphEdges, mergeGraphNodes, createEntityMergeCandidate, getEntityMergeCandidateById,
+  updateEntityMergeCandidate, getAllGraphNodes,
+} from "./db";
+import { classSigla } from "./document-metadata";
+import { generateBatchEmbeddings } from "./embeddings";
+import {
+  ensureCollection, upsertPoints, searchCollection, deletePointsByFilter, isQdrantConfigured, deterministicPointId,
+  type QdrantPoint,
+} from "./vector/qdrant";
+import { logger } from "./_core/logger";
+
+export interface CanonicalEntity {
+  entityId: string;
+  /** Display name of a new node (titles stripped for ministros, otherwise as extracted) */
+  name: string;
+}
+
+/** Types compared by embedding; numbered entities (processos, statutes) only differ by a digit */
+const EMBEDDING_TYPES = new Set(["MINISTRO", "TEMA", "CONCEITO_JURIDICO", "PARTE", "DECISAO"]);
+/** Never merged automatically: similar names ("João da Silva", "João Silva") are often different people */
+const REVIEW_ONLY_TYPES = new Set(["PARTE"]);
+
+function thresholds() {
+  return {
+    autoMerge: Number(process.env.ENTITY_AUTO_MERGE_THRESHOLD || "0.95"),
+    review: Number(process.env.ENTITY_REVIEW_THRESHOLD || "0.85"),
+  };
+}
+
+export function isEntityEmbeddingResolutionEnabled(): boolean {
+  return (process.env.ENTITY_RESOLUTION_EMBEDDINGS || "true").toLowerCase() !== "false" && isQdrantConfigured();
+}
+
+function entityCollection(): string {
+  return process.env.ENTITY_COLLECTION || "graph_entities";
+}
+
+function stripAccents(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+function slugify(text: string): string {
+  return stripAccents(text.toLowerCase())
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/** ID of a name without resolution rules (how entity IDs were built before canonicalization) */
+function surfaceEntityId(name: string, type: string): string {
+  return `${type.toLowerCase()}:${slugify(name)}`;
+}
+
+// ─── Ministros ──────────────────────────────────────────────────────────────
+
+/** "Exmo. Sr. Ministro", "Min.", "Relatora", "Des.", "Dr." ... (repeated: "Relator Ministro") */
+const TITLE_PATTERN = new RegExp(
+  "^(?:(?:exm[oa]\\.?|excelent[íi]ssim[oa])\\s+)?(?:(?:sr|sra|senhor|senhora)\\.?\\s+)?"
+  + "(?:ministr[oa]|min\\.?|desembargador(?:a)?|des\\.|relator(?:a)?|ju[íi]z(?:a)?|dr\\.|dra\\.|doutor(?:a)?)\\s+",
+  "i"
+);
+/** "(Relator)", "- Relatora", "(Desembargador convocado do TJSP)" */
+const TRAILING_ROLE_PATTERN = /\s*(?:\([^)]*\)|[,–-]\s*relator(?:a)?)\s*$/i;
+const NAME_PARTICLES = new Set(["da", "de", "do", "das", "dos", "e"]);
+
+function ministroName(name: string): string {
+  let rest = name.trim().replace(/\s+/g, " ");
+  while (TRAILING_ROLE_PATTERN.test(rest)) rest = rest.replace(TRAILING_ROLE_PATTERN, "");
+  while (TITLE_PATTERN.test(rest)) rest = rest.replace(TITLE_PATTERN, "");
+  return rest.toLowerCase().split(" ")
+    .map((word, i) => (i > 0 && NAME_PARTICLES.has(word) ? word : word.charAt(0).toUpperCase() + word.slice(1)))
+    .join(" ");
+}
+
+// ─── Processos and súmulas ──────────────────────────────────────────────────
+
+/** "0001234-13.2020.8.26.0100" */
+const CNJ_PATTERN = /\b(\d{7})-?(\d{2})\.?(\d{4})\.?(\d)\.?(\d{2})\.?(\d{4})\b/;
+/** "REsp 1.234.567/SP", "AgInt no AREsp nº 987.654 - RJ", "RECURSO ESPECIAL Nº 1.234.567" */
+const CLASS_NUMBER_PATTERN = /^(\p{L}[\p{L} ]*?)\s*(?:n[º°o.]*\s*)?(\d{1,3}(?:\.\d{3})+|\d+)/iu;
+/** "Súmula 7/STJ", "Súmula n. 282 do STF", "Súmula Vinculante 10" */
+const SUMULA_PATTERN = /s[úu]mula\s+(vinculante\s+)?(?:n[º°o.]*\s*)?(\d+)(?:\s*(?:\/|-|d[oae])\s*(stj|stf|tst))?/i;
+
+function sumulaKey(name: string): string | undefined {
+  const match = name.match(SUMULA_PATTERN);
+  if (!match) return undefined;
+  if (match[1]) return `sumula_vinculante_${match[2]}`;
+  return `sumula_${(match[3] || "stj").toLowerCase()}_${match[2]}`;
+}
+
+function processoKey(name: string): string | undefined {
+  const cnj = name.match(CNJ_PATTERN);
+  if (cnj) return `cnj_${cnj.slice(1).join("")}`;
+  const match = name.trim().match(CLASS_NUMBER_PATTERN);
+  if (!match) return undefined;
+  return `${slugify(classSigla(match[1]))}_${match[2].replace(/\./g, "")}`;
+}
+
+// ─── Legislação ─────────────────────────────────────────────────────────────
+
+/** "Art. 927", "artigo 6º", "art. 1.022", "art. 273-A" */
+const ARTICLE_PATTERN = /\bart(?:igo)?s?\.?\s*(\d{1,3}(?:\.\d{3})*)\s*(?:[º°o](?![a-z]))?(?:\s*-\s*([A-Z])\b)?/i;
+/** "Lei 8.078/90", "Lei nº 8.078, de 11 de setembro de 1990", "LC 101/2000", "Decreto-Lei 2.848/40", "EC 45/2004" */
+const NUMBERED_STATUTE_PATTERN = new RegExp(
+  "\\b(lei\\s+complementar|emenda\\s+constitucional|decreto-lei|decreto|medida\\s+provis[óo]ria|lei|lc|ec|dl|mp)\\s*(?:federal\\s*)?"
+  + "(?:n[º°o.]*\\s*)?(\\d{1,3}(?:\\.\\d{3})+|\\d+)"
+  + "(?:\\s*(?:\\/\\s*|,?\\s+de\\s+(?:\\d{1,2}[º°]?\\s+de\\s+\\p{L}+\\s+de\\s+)?)(\\d{4}|\\d{2})\\b)?",
+  "iu"
+);
+const STATUTE_KINDS: Record<string, string> = {
+  "lei": "lei", "lei complementar": "lc", "lc": "lc", "decreto-lei": "decreto_lei", "dl": "decreto_lei",
+  "decreto": "decreto", "medida provisoria": "mp", "mp": "mp", "emenda constitucional": "ec", "ec": "ec",
+};
+/** Numbering restarted for these, so the year is part of the key (laws are numbered sequentially) */
+const YEAR_SCOPED_KINDS = new Set(["decreto_lei", "decreto", "mp"]);
+
+interface CodeAlias {
+  key: string;
+  abbr?: string;
+  /** Lowercase, without accents */
+  name?: string;
+  /** Code superseded by a newer one with the same abbreviation ("CC/1916", "CPC/73") */
+  year?: number;
+}
+
+/** Codes and statutes cited by abbreviation or popular name */
+const CODE_ALIASES: CodeAlias[] = [
+  { key: "lei_8078", abbr: "CDC", name: "codigo de defesa do consumidor" },
+  { key: "lei_10406", abbr: "CC", name: "codigo civil" },
+  { key: "lei_3071", abbr: "CC", name: "codigo civil", year: 1916 },
+  { key: "lei_13105", abbr: "CPC", name: "codigo de processo civil" },
+  { key: "lei_5869", abbr: "CPC", name: "codigo de processo civil", year: 1973 },
+  { key: "cf_1988", abbr: "CF", name: "constituicao federal" },
+  { key: "cf_1988", abbr: "CRFB", name: "constituicao da republica" },
+  { key: "lei_8069", abbr: "ECA", name: "estatuto da crianca e do adolescente" },
+  { key: "lei_5172", abbr: "CTN", name: "codigo tributario nacional" },
+  { key: "decreto_lei_5452_1943", abbr: "CLT", name: "consolidacao das leis do trabalho" },
+  { key: "decreto_lei_2848_1940", abbr: "CP", name: "codigo penal" },
+  { key: "decreto_lei_3689_1941", abbr: "CPP", name: "codigo de processo penal" },
+  { key: "decreto_lei_4657_1942", abbr: "LINDB", name: "lei de introducao as normas do direito brasileiro" },
+  { key: "lei_7210", abbr: "LEP", name: "lei de execucao penal" },
+  { key: "lc_101", abbr: "LRF", name: "lei de responsabilidade fiscal" },
+  { key: "lei_8429", abbr: "LIA", name: "lei de improbidade administrativa" },
+  { key: "lei_11340", name: "lei maria da penha" },
+  { key: "lei_11343", name: "lei de drogas" },
+];
+
+const YEAR_SUFFIX = "(?:\\s*\\/\\s*|\\s+de\\s+)(\\d{4}|\\d{2})\\b";
+/** Abbreviations are matched case-sensitively ("CP", not "cp" inside a word) */
+const CODE_ABBR_PATTERN = new RegExp(
+  `\\b(${[...new Set(CODE_ALIASES.flatMap(c => (c.abbr ? [c.abbr] : [])))].join("|")})\\b(?:${YEAR_SUFFIX})?`
+);
+const CODE_NAME_PATTERN = new RegExp(
+  `\\b(${[...new Set(CODE_ALIASES.flatMap(c => (c.name ? [c.name] : [])))].join("|")})\\b(?:${YEAR_SUFFIX})?`
+);
+
+function fullYear(year: string | undefined): number | undefined {
+  if (!year) return undefined;
+  const value = Number(year);
+  if (year.length === 4) return value;
+  return value > new Date().getFullYear() % 100 ? 1900 + value : 2000 + value;
+}
+
+function statuteKey(name: string): string | undefined {
+  const numbered = name.match(NUMBERED_STATUTE_PATTERN);
+  if (numbered) {
+    const kind = STATUTE_KINDS[stripAccents(numbered[1].toLowerCase()).replace(/\s+/g, " ")];
+    const key = `${kind}_${numbered[2].replace(/\./g, "")}`;
+    if (!YEAR_SCOPED_KINDS.has(kind)) return key;
+    const year = fullYear(numbered[3]);
+    if (year) return `${key}_${year}`;
+    // "Decreto-Lei 2.848" without the year: take it from the known codes
+    return CODE_ALIASES.find(c => c.key.startsWith(`${key}_`))?.key ?? key;
+  }
+
+  const abbr = name.match(CODE_ABBR_PATTERN);
+  const named = abbr ? undefined : stripAccents(name.toLowerCase()).match(CODE_NAME_PATTERN);
+  const match = abbr ?? named;
+  if (!match) return undefined;
+  const candidates = CODE_ALIASES.filter(c => (abbr ? c.abbr === match[1] : c.name === match[1]));
+  const year = fullYear(match[2]);
+  return (candidates.find(c => c.year !== undefined && c.year === year) ?? candidates.find(c => c.year === undefined))?.key;
+}
+
+function legislacaoKey(name: string): string | undefined {
+  const sumula = sumulaKey(name);
+  if (sumula) return sumula;
+  const statute = statuteKey(name);
+  if (!statute) return undefined;
+  const article = name.match(ARTICLE_PATTERN);
+  if (!article) return statute;
+  return `${statute}:art_${article[1].replace(/\./g, "")}${article[2] ? article[2].toLowerCase() : ""}`;
+}
+
+// ─── Órgãos julgadores ──────────────────────────────────────────────────────
+
+const ORDINALS = ["", "primeira", "segunda", "terceira", "quarta", "quinta", "sexta"];
+/** "Primeira Turma do STJ", "2ª Seção - STJ" */
+const TRIBUNAL_SUFFIX_PATTERN = /\s*(?:[-–,/]\s*|\s+d[oa]\s+)(?:stj|superior tribunal de justica)\s*$/;
+
+function orgaoKey(name: string): string | undefined {
+  const plain = stripAccents(name.toLowerCase()).trim().replace(TRIBUNAL_SUFFIX_PATTERN, "");
+  const numbered = plain.match(/^([1-6])\s*[ªa°º]?\s+(turma|secao)$/);
+  if (numbered) return `${ORDINALS[Number(numbered[1])]}_${numbered[2]}`;
+  const short = plain.match(/^([ts])([1-6])$/);
+  if (short) return `${ORDINALS[Number(short[2])]}_${short[1] === "t" ? "turma" : "secao"}`;
+  if (plain === "ce") return "corte_especial";
+  return slugify(plain);
+}
+
+// ─── Canonical IDs ──────────────────────────────────────────────────────────
+
+/** Canonical entity ID and display name of an extracted name (falls back to its lowercase slug) */
+export function canonicalEntity(name: string, type: string): CanonicalEntity {
+  const prefix = type.toLowerCase();
+  let key: string | undefined;
+  let displayName = name.trim();
+  switch (type) {
+    case "MINISTRO":
+      displayName = ministroName(name);
+      key = slugify(displayName);
+      break;
+    case "PROCESSO":
+      key = processoKey(name);
+      break;
+    case "PRECEDENTE":
+      key = sumulaKey(name) ?? processoKey(name);
+      break;
+    case "LEGISLACAO":
+      key = legislacaoKey(name);
+      break;
+    case "ORGAO_JULGADOR":
+      key = orgaoKey(name);
+      break;
+  }
+  return { entityId: key ? `${prefix}:${key}` : surfaceEntityId(name, type), name: displayName };
+}
+
+export function canonicalEntityId(name: string, type: string): string {
+  return canonicalEntity(name, type).entityId;
+}
+
+/**
+ * Rewrite an extraction onto canonical nodes: IDs of merged nodes are replaced by the
+ * node that absorbed them, entities landing on the same ID are deduplicated and
+ * relationships that became self-loops ("Lei 8.078/90" REFERENCIA "CDC") dropped.
+ * Names that resolved to a different ID are recorded as aliases (for search).
+ */
+export async function resolveExtraction(extraction: ExtractionResult): Promise<ExtractionResult> {
+  const ids = new Set([
+    ...extraction.entities.map(e => e.entityId),
+    ...extraction.relationships.flatMap(r => [r.sourceEntityId, r.targetEntityId]),
+  ]);
+  const redirects = new Map((await getEntityAliasesByAlias([...ids])).map(a => [a.alias, a.entityId]));
+  const resolve = (entityId: string) => redirects.get(entityId) ?? entityId;
+
+  const entities = new Map<string, ExtractedEntity>();
+  const aliases: InsertEntityAlias[] = [];
+  for (const entity of extraction.entities) {
+    const entityId = resolve(entity.entityId);
+    const surfaceId = surfaceEntityId(entity.name, entity.entityType);
+    if (surfaceId !== entity.entityId) {
+      aliases.push({ alias: surfaceId, name: entity.name, entityId, entityType: entity.entityType, method: "rule", confidence: 1 });
+    }
+    if (!entities.has(entityId)) {
+      entities.set(entityId, { ...entity, entityId, name: canonicalEntity(entity.name, entity.entityType).name });
+    }
+  }
+  await upsertEntityAliases(aliases);
+
+  const relationships = extraction.relationships
+    .map(r => ({ ...r, sourceEntityId: resolve(r.sourceEntityId), targetEntityId: resolve(r.targetEntityId) }))
+    .filter(r => r.sourceEntityId !== r.targetEntityId);
+
+  return { entities: Array.from(entities.values()), relationships };
+}
+
+// ─── Embedding similarity ───────────────────────────────────────────────────
+
+/** Merge two nodes and drop the vector of the one merged away */
+export async function mergeEntities(
+  sourceEntityId: string,
+  targetEntityId: string,
+  method: InsertEntityAlias["method"],
+  confidence = 1
+): Promise<boolean> {
+  const merged = await mergeGraphNodes(sourceEntityId, targetEntityId, { method, confidence });
+  if (merged && isQdrantConfigured()) {
+    await deletePointsByFilter(entityCollection(), { must: [{ key: "entityId", match: { value: sourceEntityId } }] })
+      .catch(err => logger.warn({ err: String(err), sourceEntityId }, "[EntityResolution] Failed to delete entity vector"));
+  }
+  if (merged) logger.info({ sourceEntityId, targetEntityId, method, confidence }, "[EntityResolution] Entities merged");
+  return merged;
+}
+
+/**
+ * Compare new nodes with the existing nodes of the same type by name embedding:
+ * at ENTITY_AUTO_MERGE_THRESHOLD or above the new node is merged into the existing
+ * one (parties excepted), at ENTITY_REVIEW_THRESHOLD or above the pair is queued for review.
+ */
+export async function linkSimilarEntities(entities: ExtractedEntity[]): Promise<{ merged: number; queued: number }> {
+  const candidates = entities.filter(e => EMBEDDING_TYPES.has(e.entityType));
+  if (!isEntityEmbeddingResolutionEnabled() || candidates.length === 0) return { merged: 0, queued: 0 };
+
+  const collection = entityCollection();
+  const limits = thresholds();
+  const vectors = await generateBatchEmbeddings(candidates.map(e => e.name));
+  await ensureCollection(collection, vectors[0].length);
+
+  let merged = 0;
+  let queued = 0;
+  const points: QdrantPoint[] = [];
+  for (let i = 0; i < candidates.length; i++) {
+    const entity = candidates[i];
+    const hits = await searchCollection(collection, vectors[i], 1, true, {
+      must: [{ key: "entityType", match: { value: entity.entityType } }],
+      must_not: [{ key: "entityId", match: { value: entity.entityId } }],
+    });
+    const best = hits[0];
+    const similarity: number = best?.score ?? 0;
+    if (best && similarity >= limits.autoMerge && !REVIEW_ONLY_TYPES.has(entity.entityType)) {
+      if (await mergeEntities(entity.entityId, best.payload.entityId, "embedding", similarity)) {
+        merged++;
+        continue;
+      }
+    } else if (best && similarity >= limits.review) {
+      const added = await createEntityMergeCandidate({
+        sourceEntityId: entity.entityId,
+        targetEntityId: best.payload.entityId,
+        entityType: entity.entityType,
+        similarity,
+      });
+      if (added) queued++;
+    }
+    points.push({
+      id: deterministicPointId(entity.entityId),
+      vector: vectors[i],
+      payload: { entityId: entity.entityId, entityType: entity.entityType, name: entity.name },
+    });
+  }
+  if (points.length > 0) await upsertPoints(collection, points);
+  return { merged, queued };
+}
+
+/**
+ * Write an extraction to the knowledge graph: resolve it onto canonical nodes,
+ * upsert nodes and edges tagged with their origin (recording an upload's mentions
+ * per document), then compare the nodes it created with the existing ones.
+ * Returns the resolved extraction.
+ */
+export async function storeExtraction(
+  extraction: ExtractionResult,
+  origin: { source: "stj" | "upload"; sourceRef: string }
+): Promise<ExtractionResult> {
+  const resolved = await resolveExtraction(extraction);
+  const existing = new Set(await getExistingGraphNodeIds(resolved.entities.map(e => e.entityId)));
+  await batchUpsertGraphNodes(
+    resolved.entities.map(e => ({
+      entityId: e.entityId,
+      name: e.name,
+      entityType: e.entityType,
+      description: e.description,
+      ...origin,
+    }))
+  );
+  await batchInsertGraphEdges(
+    resolved.relationships.map(r => ({
+      sourceEntityId: r.sourceEntityId,
+      targetEntityId: r.targetEntityId,
+      relationshipType: r.relationshipType,
+      description: r.description,
+      weight: r.weight,
+      sourceRef: origin.sourceRef,
+    }))
+  );
+  // Recorded before linking, so a merge below carries the document's mentions along
+  if (origin.source === "upload") {
+    await addDocumentGraphMentions(Number(origin.sourceRef), resolved.entities.map(e => e.entityId));
+  }
+
+  try {
+    const linked = await linkSimilarEntities(resolved.entities.filter(e => !existing.has(e.entityId)));
+    if (linked.merged > 0 || linked.queued > 0) {
+      logger.info({ ...origin, ...linked }, "[EntityResolution] Similar entities linked");
+    }
+  } catch (error: any) {
+    // The graph is usable without it; the nodes are compared again when mentioned by a new extraction
+    logger.warn({ err: String(error), ...origin }, "[EntityResolution] Embedding comparison failed");
+  }
+  return resolved;
+}
+
+// ─── Review queue and maintenance ───────────────────────────────────────────
+
+/** Apply an admin decision on a queued pair; approval merges the source node into the target */
+export async function reviewMergeCandidate(id: number, approve: boolean, reviewedBy: number): Promise<{ merged: boolean }> {
+  const candidate = await getEntityMergeCandidateById(id);
+  if (!candidate) throw new Error("Merge candidate not found");
+  if (candidate.status !== "pending") throw new Error("Merge candidate already reviewed");
+  await updateEntityMergeCandidate(id, { status: approve ? "approved" : "rejected", reviewedBy, reviewedAt: new Date() });
+  if (!approve) return { merged: false };
+  return { merged: await mergeEntities(candidate.sourceEntityId, candidate.targetEntityId, "review", candidate.similarity) };
+}
+
+/** Re-apply the rules to every node (nodes created before them or before a rule change) */
+export async function resolveExistingEntities(): Promise<{ checked: number; merged: number }> {
+  const nodes = await getAllGraphNodes();
+  const redirects = new Map(
+    (await getEntityAliasesByAlias(nodes.map(n => canonicalEntityId(n.name, n.entityType)))).map(a => [a.alias, a.entityId])
+  );
+  let merged = 0;
+  for (const node of nodes) {
+    const canonicalId = canonicalEntityId(node.name, node.entityType);
+    const targetId = redirects.get(canonicalId) ?? canonicalId;
+    if (targetId !== node.entityId && await mergeEntities(node.entityId, targetId, "rule")) merged++;
+  }
+  logger.info({ checked: nodes.length, merged }, "[EntityResolution] Existing entities resolved");
+  return { checked: nodes.length, merged };
+}
@@ -5,6 +5,7 @@ vi.mock("./embeddings", () => ({
   queryCollection: vi.fn(),
   queryMultipleCollections: vi.fn(),
   listCollections: vi.fn(),
+  getChunkParents: vi.fn().mockResolvedValue(new Map()),
 }));
 vi.mock("./entity-extractor", () => ({
   extractQueryEntities: vi.fn(),
@@ -27,7 +28,7 @@ vi.mock("./_core/logger", () => ({
 }));
 
 import { invokeLLM } from "./_core/llm";
-import { listCollections, queryMultipleCollections } from "./embeddings";
+import { listCollections, queryMultipleCollections, getChunkParents } from "./embeddings";
 import { extractQueryEntities } from "./entity-extractor";
 import { searchGraphNodes, createRagQuery, updateRagQuery } from "./db";
 import { graphRAGQuery } from "./graphrag-query";
@@ -101,6 +102,76 @@ describe("graphRAGQuery", () => {
     expect(result.vectorResults.length).toBeGreaterThanOrEqual(0);
   });
 
+  it("hands the LLM the parent section of matched chunks, once per parent", async () => {
+    mockLLM.mockResolvedValueOnce(llmResponse(JSON.stringify({ queryType: "local", reasoning: "" })));
+    mockLLM.mockResolvedValue(llmResponse("Resposta."));
+    mockListCollections.mockResolvedValueOnce(["stj_corte"]);
+    mockQueryMulti.mockResolvedValueOnce({
+      documents: ["fragmento 1", "fragmento 2", "fragmento legado"],
+      metadatas: [{ parentId: "p1", sectionPath: "EMENTA" }, { parentId: "p1" }, {}],
+      distances: [0.1, 0.2, 0.3],
+      collections: ["stj_corte", "stj_corte", "stj_corte"],
+    } as any);
+    vi.mocked(getChunkParents).mockResolvedValueOnce(new Map([["p1", { text: "EMENTA COMPLETA com a tese", metadata: {} }]]));
+
+    const result = await graphRAGQuery("dano moral");
+
+    expect(getChunkParents).toHaveBeenCalledWith(["p1", "p1"]);
+    expect(result.vectorResults).toEqual([
+      { text: "EMENTA COMPLETA com a tese", matchedText: "fragmento 1", sectionPath: "EMENTA", score: 0.9, source: "stj_corte" },
+      { text: "fragmento legado", matchedText: "fragmento legado", score: 0.7, source: "stj_corte" },
+    ]);
+    const prompt = mockLLM.mock.calls[mockLLM.mock.calls.length - 1][0].messages[1].content as string;
+    expect(prompt).toContain("EMENTA COMPLETA com a tese");
+    expect(prompt).not.toContain("fragmento 1");
+  });
+
+  it("labels uploaded passages with the file and page range of the parent section", async () => {
+    mockLLM.mockResolvedValueOnce(llmResponse(JSON.stringify({ queryType: "local", reasoning: "" })));
+    mockLLM.mockResolvedValue(llmResponse("Resposta."));
+    mockListCollections.mockResolvedValueOnce(["doc_4"]);
+    mockQueryMulti.mockResolvedValueOnce({
+      documents: ["trecho da página 13", "trecho sem pai"],
+      metadatas: [
+        { parentId: "p1", filename: "peticao.pdf", pageStart: 13, pageEnd: 13 },
+        { filename: "peticao.pdf", pageStart: 2, pageEnd: 2 },
+      ],
+      distances: [0.1, 0.2],
+      collections: ["doc_4", "doc_4"],
+    } as any);
+    vi.mocked(getChunkParents).mockResolvedValueOnce(new Map([
+      ["p1", { text: "Seção completa", metadata: { filename: "peticao.pdf", pageStart: 12, pageEnd: 13 } }],
+    ]));
+
+    const result = await graphRAGQuery("tese da petição");
+
+    expect(result.vectorResults.map(r => r.citation)).toEqual(["peticao.pdf, p. 12–13", "peticao.pdf, p. 2"]);
+    const prompt = mockLLM.mock.calls[mockLLM.mock.calls.length - 1][0].messages[1].content as string;
+    expect(prompt).toContain("[peticao.pdf, p. 12–13]\nSeção completa");
+  });
+
+  it("cites the detected process number of uploaded decisions", async () => {
+    mockLLM.mockResolvedValueOnce(llmResponse(JSON.stringify({ queryType: "local", reasoning: "" })));
+    mockLLM.mockResolvedValue(llmResponse("Resposta."));
+    mockListCollections.mockResolvedValueOnce(["doc_6"]);
+    mockQueryMulti.mockResolvedValueOnce({
+      documents: ["trecho do acórdão", "trecho do despacho"],
+      metadatas: [
+        { source: "upload", processo: "AgInt no REsp 1.234.567/SP", filename: "acordao.pdf", pageStart: 3, pageEnd: 4 },
+        { source: "upload", processo: "0001234-13.2020.8.26.0100", filename: "despacho.txt" },
+      ],
+      distances: [0.1, 0.2],
+      collections: ["doc_6", "doc_7"],
+    } as any);
+
+    const result = await graphRAGQuery("tese do acórdão");
+
+    expect(result.vectorResults.map(r => r.citation)).toEqual([
+      "AgInt no REsp 1.234.567/SP — acordao.pdf, p. 3–4",
+      "0001234-13.2020.8.26.0100",
+    ]);
+  });
+
   it("handles entities found in graph for local search", async () => {
     mockLLM.mockResolvedValueOnce(llmResponse(JSON.stringify({ queryType: "local", reasoning: "" })));
     mockLLM.mockResolvedValue(llmResponse("Resposta com entidades."));
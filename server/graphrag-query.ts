@@ -4,19 +4,40 @@
  * following the Microsoft GraphRAG architecture.
  */
 import { invokeLLM } from "./_core/llm";
-import { queryMultipleCollections, listCollections } from "./embeddings";
+import { queryMultipleCollections, listCollections, getChunkParents } from "./embeddings";
 import { extractQueryEntities } from "./entity-extractor";
 import {
   searchGraphNodes, getEdgesForEntity, getAllCommunities,
   createRagQuery, updateRagQuery, createLog, updateLog,
 } from "./db";
 
+/** Vector hit; `text` is the enclosing parent section when one is stored, `matchedText` the chunk that matched */
+export interface VectorResult {
+  text: string;
+  score: number;
+  source: string;
+  matchedText?: string;
+  sectionPath?: string;
+  /** Process, uploaded file and page range of the text ("REsp 1.234.567/SP — acordao.pdf, p. 12–13") */
+  citation?: string;
+}
+
+/** Citation label for an uploaded document passage with detected process number and/or page metadata */
+function pageCitation(metadata: Record<string, any> | undefined): string | undefined {
+  const processo = metadata?.source === "upload" ? metadata.processo : undefined;
+  if (!metadata?.pageStart) return processo;
+  const { pageStart, pageEnd } = metadata;
+  const pages = pageEnd && pageEnd !== pageStart ? `p. ${pageStart}–${pageEnd}` : `p. ${pageStart}`;
+  const location = metadata.filename ? `${metadata.filename}, ${pages}` : pages;
+  return processo ? `${processo} — ${location}` : location;
+}
+
 export interface GraphRAGResult {
   answer: string;
   queryType: "local" | "global" | "hybrid";
   entities: { name: string; type: string; description: string }[];
   communityReports: { title: string; summary: string }[];
-  vectorResults: { text: string; score: number; source: string }[];
+  vectorResults: VectorResult[];
   reasoningChain: string;
   queryId: number;
 }
@@ -175,9 +196,15 @@ async function globalSearch(_query: string): Promise<{
   return { communityReports, context, reasoningChain: reasoning.join("\n") };
 }
 
-/** VECTOR SEARCH: Traditional embedding-based retrieval */
+/** Child chunks fetched per requested result, since several may share one parent */
+const CHILD_OVERFETCH = 3;
+
+/**
+ * VECTOR SEARCH: Small-to-big retrieval — match on small chunks, return the
+ * enclosing parent section (full ementa or voto) once per parent.
+ */
 async function vectorSearch(query: string, nResults = 10): Promise<{
-  results: { text: string; score: number; source: string }[];
+  results: VectorResult[];
   reasoningChain: string;
 }> {
   const reasoning: string[] = [];
@@ -190,15 +217,34 @@ async function vectorSearch(query: string, nResults = 10): Promise<{
       return { results: [], reasoningChain: reasoning.join("\n") };
     }
 
-    const searchResult = await queryMultipleCollections(collections, query, nResults);
-
-    const results = searchResult.documents.map((doc, i) => ({
-      text: doc,
-      score: 1 - (searchResult.distances[i] || 0), // Convert distance to similarity
-      source: searchResult.collections[i] || "unknown",
-    }));
+    const searchResult = await queryMultipleCollections(collections, query, nResults * CHILD_OVERFETCH);
+    const metadatas = searchResult.metadatas ?? [];
+    const parents = await getChunkParents(metadatas.map(m => m?.parentId).filter(Boolean));
+
+    // Hits are ordered best first, so the first chunk of each parent carries its score
+    const results: VectorResult[] = [];
+    const seenParents = new Set<string>();
+    searchResult.documents.forEach((doc, i) => {
+      const parentId: string | undefined = metadatas[i]?.parentId;
+      if (parentId) {
+        if (seenParents.has(parentId)) return;
+        seenParents.add(parentId);
+      }
+      const parent = parentId ? parents.get(parentId) : undefined;
+      // The parent's page range covers the whole section handed to the LLM
+      const citation = pageCitation(parent ? { ...metadatas[i], ...parent.metadata } : metadatas[i]);
+      results.push({
+        text: parent?.text || doc,
+        score: 1 - (searchResult.distances[i] || 0), // Convert distance to similarity
+        source: searchResult.collections[i] || "unknown",
+        matchedText: doc,
+        ...(metadatas[i]?.sectionPath ? { sectionPath: metadatas[i].sectionPath } : {}),
+        ...(citation ? { citation } : {}),
+      });
+    });
+    results.splice(nResults);
 
-    reasoning.push(`Resultados vetoriais encontrados: ${results.length}`);
+    reasoning.push(`Resultados vetoriais encontrados: ${results.length} (${parents.size} secções-pai)`);
 
     return { results, reasoningChain: reasoning.join("\n") };
   } catch (error: any) {
@@ -236,7 +282,7 @@ export async function graphRAGQuery(
     let vectorContext = "";
     let entities: { name: string; type: string; description: string }[] = [];
     let communityReports: { title: string; summary: string }[] = [];
-    let vectorResults: { text: string; score: number; source: string }[] = [];
+    let vectorResults: VectorResult[] = [];
     const reasoningParts: string[] = [`Tipo de consulta: ${queryType}`];
 
     if (queryType === "local" || queryType === "hybrid") {
@@ -255,7 +301,7 @@ export async function graphRAGQuery(
 
     // Always do vector search as supplement
     const vector = await vectorSearch(query);
-    vectorContext = vector.results.map(r => r.text).join("\n\n");
+    vectorContext = vector.results.map(r => (r.citation ? `[${r.citation}]\n${r.text}` : r.text)).join("\n\n");
     vectorResults = vector.results;
     reasoningParts.push(`[VECTOR] ${vector.reasoningChain}`);
 
@@ -281,7 +327,8 @@ Responda à consulta do utilizador com base EXCLUSIVAMENTE no contexto fornecido
 - Se o contexto não contiver informação suficiente, diga explicitamente
 - Use linguagem técnica jurídica adequada
 - Estruture a resposta com parágrafos claros
-- Quando possível, indique a fonte (processo, ministro, órgão julgador)`,
+- Quando possível, indique a fonte (processo, ministro, órgão julgador)
+- Para documentos enviados, cite o arquivo e a página indicados entre colchetes (ex.: "p. 12–13")`,
           },
           {
             role: "user",
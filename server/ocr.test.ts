@@ -0,0 +1,85 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from "vitest";
+
+const recognize = vi.fn();
+const terminate = vi.fn().mockResolvedValue(undefined);
+vi.mock("tesseract.js", () => ({
+  createWorker: vi.fn(async () => ({ recognize, terminate })),
+}));
+
+import { createWorker } from "tesseract.js";
+import { isSparsePage, recognizePages, summarizeOcr, isOcrEnabled } from "./ocr";
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("isSparsePage", () => {
+  it("flags empty and near-empty text layers", () => {
+    expect(isSparsePage("")).toBe(true);
+    expect(isSparsePage("  \n -- 1 of 3 --  ")).toBe(true);
+    expect(isSparsePage("RECURSO ESPECIAL Nº 1.234.567 - SP ".repeat(5))).toBe(false);
+  });
+
+  it("honours OCR_MIN_PAGE_CHARS", () => {
+    vi.stubEnv("OCR_MIN_PAGE_CHARS", "5");
+    expect(isSparsePage("Vistos etc.")).toBe(false);
+  });
+});
+
+describe("isOcrEnabled", () => {
+  it("is on unless OCR_ENABLED=false", () => {
+    expect(isOcrEnabled()).toBe(true);
+    vi.stubEnv("OCR_ENABLED", "false");
+    expect(isOcrEnabled()).toBe(false);
+  });
+});
+
+describe("recognizePages", () => {
+  it("recognizes every page with one Portuguese worker and terminates it", async () => {
+    recognize
+      .mockResolvedValueOnce({ data: { text: " Vistos.\n", confidence: 91.4 } })
+      .mockResolvedValueOnce({ data: { text: "Ante o exposto, nego provimento.", confidence: 78.6 } });
+
+    const results = await recognizePages([
+      { pageNumber: 2, image: Buffer.from("png-2") },
+      { pageNumber: 5, image: Buffer.from("png-5") },
+    ]);
+
+    expect(createWorker).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(createWorker).mock.calls[0][0]).toBe("por");
+    expect(results).toEqual([
+      { pageNumber: 2, text: "Vistos.", confidence: 91 },
+      { pageNumber: 5, text: "Ante o exposto, nego provimento.", confidence: 79 },
+    ]);
+    expect(terminate).toHaveBeenCalled();
+  });
+
+  it("terminates the worker when recognition fails", async () => {
+    recognize.mockRejectedValueOnce(new Error("bad image"));
+    await expect(recognizePages([{ pageNumber: 1, image: Buffer.from("x") }])).rejects.toThrow("bad image");
+    expect(terminate).toHaveBeenCalled();
+  });
+
+  it("does not start a worker without pages", async () => {
+    expect(await recognizePages([])).toEqual([]);
+    expect(createWorker).not.toHaveBeenCalled();
+  });
+});
+
+describe("summarizeOcr", () => {
+  it("keeps per-page confidence and the mean", () => {
+    expect(summarizeOcr([
+      { pageNumber: 1, text: "abc", confidence: 90 },
+      { pageNumber: 3, text: "abcdef", confidence: 71 },
+    ])).toEqual({
+      engine: "tesseract",
+      language: "por",
+      pages: [{ page: 1, confidence: 90, chars: 3 }, { page: 3, confidence: 71, chars: 6 }],
+      meanConfidence: 81,
+    });
+  });
+});
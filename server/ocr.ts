@@ -0,0 +1,81 @@
+/**
+ * OCR fallback for scanned PDF pages (tesseract.js, Portuguese traineddata).
+ * Pages whose text layer is empty or nearly empty are rendered to PNG and
+ * recognized locally; per-page confidence is kept for the document metadata.
+ *
+ * Configuration:
+ *   - OCR_ENABLED (default "true")
+ *   - OCR_LANGUAGE (default "por")
+ *   - OCR_LANG_PATH: directory/URL with <lang>.traineddata(.gz) for offline hosts
+ *   - OCR_MIN_PAGE_CHARS (default 100): pages with fewer letters/digits are OCR'd
+ *   - OCR_RENDER_SCALE (default 2): page render scale; tesseract needs ~300 DPI
+ */
+import { logger } from "./_core/logger";
+
+export interface OcrPageResult {
+  pageNumber: number;
+  text: string;
+  /** Mean word confidence reported by tesseract (0-100) */
+  confidence: number;
+}
+
+/** OCR summary stored under `metadata.ocr` of the documents row */
+export interface OcrMetadata {
+  engine: "tesseract";
+  language: string;
+  pages: { page: number; confidence: number; chars: number }[];
+  meanConfidence: number;
+}
+
+export function isOcrEnabled(): boolean {
+  return (process.env.OCR_ENABLED || "true").toLowerCase() !== "false";
+}
+
+export function getOcrLanguage(): string {
+  return process.env.OCR_LANGUAGE || "por";
+}
+
+export function getOcrRenderScale(): number {
+  return Number(process.env.OCR_RENDER_SCALE || "2");
+}
+
+/** Whether a page's text layer is too thin to be a real text PDF page */
+export function isSparsePage(text: string): boolean {
+  const minChars = Number(process.env.OCR_MIN_PAGE_CHARS || "100");
+  const chars = text.match(/[\p{L}\p{N}]/gu)?.length ?? 0;
+  return chars < minChars;
+}
+
+/** Recognize rendered page images with a single tesseract worker */
+export async function recognizePages(
+  pages: { pageNumber: number; image: Buffer }[]
+): Promise<OcrPageResult[]> {
+  if (pages.length === 0) return [];
+  const { createWorker } = await import("tesseract.js");
+  const language = getOcrLanguage();
+  const worker = await createWorker(language, undefined, {
+    ...(process.env.OCR_LANG_PATH ? { langPath: process.env.OCR_LANG_PATH } : {}),
+  });
+
+  try {
+    const results: OcrPageResult[] = [];
+    for (const page of pages) {
+      const startMs = Date.now();
+      const { data } = await worker.recognize(page.image);
+      results.push({ pageNumber: page.pageNumber, text: data.text.trim(), confidence: Math.round(data.confidence) });
+      logger.debug({ page: page.pageNumber, confidence: data.confidence, ms: Date.now() - startMs }, "[OCR] Page recognized");
+    }
+    return results;
+  } finally {
+    await worker.terminate().catch(() => {});
+  }
+}
+
+/** Build the metadata summary for the OCR'd pages */
+export function summarizeOcr(results: OcrPageResult[]): OcrMetadata {
+  const pages = results.map(r => ({ page: r.pageNumber, confidence: r.confidence, chars: r.text.length }));
+  const meanConfidence = pages.length > 0
+    ? Math.round(pages.reduce((sum, p) => sum + p.confidence, 0) / pages.length)
+    : 0;
+  return { engine: "tesseract", language: getOcrLanguage(), pages, meanConfidence };
+}
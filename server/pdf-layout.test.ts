@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { cleanPdfPages, assignPageRanges } from "./pdf-layout";
+import type { TextChunk } from "./chunker";
+
+const header = "Superior Tribunal de Justiça";
+const running = "RECURSO ESPECIAL Nº 1.234.567 - SP (2019/0123456-7)\n" + header;
+const body = ["RELATÓRIO", "Trata-se de recurso especial interposto contra acórdão.", "Ante o exposto, nego provimento."];
+const footer = (n: number, total: number) => `Página ${n} de ${total}`;
+
+describe("cleanPdfPages", () => {
+  it("drops running headers, footers and page numbers repeated across pages", () => {
+    const pages = [1, 2, 3].map(n => ({ page: n, text: `${running}\n${body[n - 1]}\n${footer(n, 3)}` }));
+
+    expect(cleanPdfPages(pages)).toEqual(body.map((text, i) => ({ page: i + 1, text })));
+  });
+
+  it("removes tribunal stamps anywhere on the page", () => {
+    const pages = [{
+      page: 1,
+      text: [
+        "EMENTA",
+        "Documento assinado eletronicamente por FULANO DE TAL, Ministro, em 10/10/2020.",
+        "PROCESSUAL CIVIL. AGRAVO INTERNO.",
+        "Documento: 112233 - Inteiro Teor do Acórdão - Site certificado - DJe: 15/10/2020 Página 1 de 9",
+        "A autenticidade pode ser conferida com o código verificador 4A5B6C.",
+      ].join("\n"),
+    }];
+
+    expect(cleanPdfPages(pages)[0].text).toBe("EMENTA\nPROCESSUAL CIVIL. AGRAVO INTERNO.");
+  });
+
+  it("keeps lines that occur only on a few pages", () => {
+    const pages = [1, 2, 3, 4].map(n => ({ page: n, text: n === 1 ? "RELATÓRIO\nTexto." : `Texto ${n}.` }));
+    expect(cleanPdfPages(pages)[0].text).toBe("RELATÓRIO\nTexto.");
+  });
+});
+
+describe("assignPageRanges", () => {
+  const pages = [
+    { page: 1, text: "EMENTA\nPROCESSUAL CIVIL. AGRAVO INTERNO NO RECURSO ESPECIAL." },
+    { page: 2, text: "1. Incide a Súmula 7/STJ quando a revisão exige reexame de provas." },
+    { page: 4, text: "2. Agravo interno não provido." },
+  ];
+
+  it("sets the first and last page of each chunk", () => {
+    const chunks: TextChunk[] = [
+      { text: "EMENTA PROCESSUAL CIVIL. AGRAVO INTERNO NO RECURSO ESPECIAL. 1. Incide a Súmula", index: 0, metadata: { chunkIndex: 0 } },
+      { text: "1. Incide a Súmula 7/STJ quando a revisão exige reexame de provas.", index: 1, metadata: { chunkIndex: 1 } },
+      { text: "reexame de provas. 2. Agravo interno não provido.", index: 2, metadata: { chunkIndex: 2 } },
+    ];
+
+    expect(assignPageRanges(chunks, pages).map(c => [c.metadata.pageStart, c.metadata.pageEnd])).toEqual([
+      [1, 2], [2, 2], [2, 4],
+    ]);
+  });
+
+  it("leaves chunks it cannot locate untouched", () => {
+    const chunk: TextChunk = { text: "texto que não existe no documento", index: 0, metadata: {} };
+    expect(assignPageRanges([chunk], pages)).toEqual([chunk]);
+  });
+});
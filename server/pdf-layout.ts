@@ -0,0 +1,125 @@
+/**
+ * Page layout cleanup for extracted PDF text and page tracking for chunks.
+ *  - Lines repeated at the top/bottom of most pages (running headers/footers,
+ *    e.g. "Superior Tribunal de Justiça", "RECURSO ESPECIAL Nº 1.234.567 - SP")
+ *    and bare page numbers are dropped.
+ *  - Tribunal stamps (electronic signature notices, verification codes, STJ
+ *    "Documento: ... Site certificado" lines) are dropped wherever they occur.
+ *  - Chunks get `pageStart`/`pageEnd` so answers can cite "p. 12–13".
+ */
+import type { TextChunk, ParentChunk } from "./chunker";
+
+export interface PdfPage {
+  /** 1-based page number in the original PDF */
+  page: number;
+  text: string;
+}
+
+/** Lines at each end of a page that may belong to a running header/footer */
+const EDGE_LINES = 3;
+/** Share of pages a line must appear on (at an edge) to count as header/footer */
+const REPEAT_RATIO = 0.5;
+
+const PAGE_NUMBER = /^(?:-+\s*)?(?:p[áa]g(?:ina)?\.?\s*)?\d{1,4}(?:\s*(?:de|\/|of)\s*\d{1,4})?(?:\s*-+)?$/i;
+
+const STAMP_PATTERNS: RegExp[] = [
+  /documento assinado (?:eletr[ôo]nica|digital)mente/i,
+  /assinado (?:eletr[ôo]nica|digital)mente por/i,
+  /este documento (?:foi assinado|pode ser (?:verificado|acessado|conferido|validado))/i,
+  /c[óo]digo (?:verificador|de autenticidade|de verifica[çc][ãa]o|CRC)/i,
+  /\bICP-Brasil\b|MP n?[ºo°]?\s*2\.200-2/i,
+  /^Documento:\s*\d+\s*-.*Site certificado/i,
+  /^fls?\.\s*\d+$/i,
+];
+
+/** Header/footer comparison key: case and numbers (page no., dates) ignored */
+function lineKey(line: string): string {
+  return line.toLowerCase().replace(/\d+/g, "#").replace(/\s+/g, " ").trim();
+}
+
+/** Tribunal stamp line (signature notice, verification code, sheet number) */
+export function isStamp(line: string): boolean {
+  return STAMP_PATTERNS.some(pattern => pattern.test(line));
+}
+
+/** Remove running headers/footers, page numbers and tribunal stamps from each page */
+export function cleanPdfPages(pages: PdfPage[]): PdfPage[] {
+  const pageLines = pages.map(p => p.text.split("\n").map(l => l.trim()).filter(l => l.length > 0));
+  const edgeIndexes = (lines: string[]) => {
+    const indexes = new Set<number>();
+    for (let i = 0; i < Math.min(EDGE_LINES, lines.length); i++) {
+      indexes.add(i);
+      indexes.add(lines.length - 1 - i);
+    }
+    return indexes;
+  };
+
+  // Count on how many pages each edge line occurs
+  const counts = new Map<string, number>();
+  for (const lines of pageLines) {
+    const keys = new Set(Array.from(edgeIndexes(lines), i => lineKey(lines[i])));
+    for (const key of keys) counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  const minRepeats = Math.max(2, Math.ceil(pages.length * REPEAT_RATIO));
+  const isRepeated = (line: string) => (counts.get(lineKey(line)) ?? 0) >= minRepeats;
+
+  return pages.map((page, p) => {
+    const lines = pageLines[p];
+    const edges = edgeIndexes(lines);
+    const kept = lines.filter((line, i) => {
+      if (isStamp(line)) return false;
+      if (edges.has(i) && (PAGE_NUMBER.test(line) || isRepeated(line))) return false;
+      return true;
+    });
+    return { page: page.page, text: kept.join("\n") };
+  });
+}
+
+/** Word stream of the document with the page each word is on */
+function pageWordIndex(pages: PdfPage[]): { words: string[]; pageOf: number[] } {
+  const words: string[] = [];
+  const pageOf: number[] = [];
+  for (const page of pages) {
+    for (const word of page.text.split(/\s+/)) {
+      if (!word) continue;
+      words.push(word);
+      pageOf.push(page.page);
+    }
+  }
+  return { words, pageOf };
+}
+
+/** Words of a chunk matched against the document to locate it */
+const ANCHOR_WORDS = 8;
+
+function findWords(words: string[], anchor: string[], from: number): number {
+  outer: for (let i = from; i <= words.length - anchor.length; i++) {
+    for (let j = 0; j < anchor.length; j++) {
+      if (words[i + j] !== anchor[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+/**
+ * Set `pageStart`/`pageEnd` on chunks (and parent sections) by locating their
+ * words in the page text. Chunkers only re-join whitespace, so the word
+ * sequence of a chunk occurs verbatim in the pages; chunks are in document
+ * order, so each search starts from the previous match.
+ */
+export function assignPageRanges<T extends TextChunk | ParentChunk>(items: T[], pages: PdfPage[]): T[] {
+  const { words, pageOf } = pageWordIndex(pages);
+  let cursor = 0;
+  return items.map(item => {
+    const chunkWords = item.text.split(/\s+/).filter(Boolean);
+    const anchor = chunkWords.slice(0, ANCHOR_WORDS);
+    if (anchor.length === 0) return item;
+    let start = findWords(words, anchor, cursor);
+    if (start < 0) start = findWords(words, anchor, 0);
+    if (start < 0) return item;
+    cursor = start;
+    const end = Math.min(start + chunkWords.length - 1, words.length - 1);
+    return { ...item, metadata: { ...item.metadata, pageStart: pageOf[start], pageEnd: pageOf[end] } };
+  });
+}
@@ -0,0 +1,132 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from "vitest";
+
+vi.mock("./db", () => ({
+  upsertPiiMappings: vi.fn(),
+  getPiiMappings: vi.fn(),
+}));
+vi.mock("./_core/logger", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import {
+  isValidCpf, isValidCnpj, detectPii, redactText, pseudonymFor, findPseudonyms, savePseudonyms,
+  revealPseudonyms, redactMessages, assertPiiKeyConfigured,
+} from "./pii-redaction";
+import { upsertPiiMappings, getPiiMappings } from "./db";
+
+const PETICAO = "O autor JOSÉ SILVA, CPF 529.982.247-25, RG nº 12.345.678-9, residente na Rua das Flores, 123, "
+  + "apto 45, CEP 01310-100, tel. (11) 98765-4321, e-mail jose@exemplo.com.br, representando o menor "
+  + "João Pedro da Silva e Maria Souza, menor impúbere, contra a empresa CNPJ 11.222.333/0001-81.";
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.stubEnv("PII_ENCRYPTION_KEY", "test-pii-key");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("checksums", () => {
+  it("validates CPF and CNPJ check digits", () => {
+    expect(isValidCpf("529.982.247-25")).toBe(true);
+    expect(isValidCpf("52998224725")).toBe(true);
+    expect(isValidCpf("529.982.247-24")).toBe(false);
+    expect(isValidCpf("111.111.111-11")).toBe(false);
+    expect(isValidCnpj("11.222.333/0001-81")).toBe(true);
+    expect(isValidCnpj("11.222.333/0001-80")).toBe(false);
+  });
+});
+
+describe("detectPii", () => {
+  it("finds Brazilian identifiers, contacts, addresses and names of minors", () => {
+    expect(detectPii(PETICAO).map(m => `${m.type}:${m.value}`)).toEqual([
+      "cpf:529.982.247-25",
+      "rg:12.345.678-9",
+      "address:Rua das Flores, 123, apto 45",
+      "cep:01310-100",
+      "phone:(11) 98765-4321",
+      "email:jose@exemplo.com.br",
+      "minor:João Pedro da Silva",
+      "minor:Maria Souza",
+      "cnpj:11.222.333/0001-81",
+    ]);
+  });
+
+  it("leaves case numbers, invalid identifiers and ordinary legal text alone", () => {
+    const text = "REsp 1.987.654/SP, processo 0001234-13.2020.8.26.0100, CPF 529.982.247-24. "
+      + "A criança tem prioridade absoluta (art. 227 da CF). O valor menor Que o devido, Av. Paulista no ano de 2021.";
+    expect(detectPii(text)).toEqual([]);
+  });
+
+  it("only looks for the configured types", () => {
+    vi.stubEnv("PII_REDACT_TYPES", "cpf,cnpj");
+    expect(new Set(redactText(PETICAO).pseudonyms.map(p => p.type))).toEqual(new Set(["cpf", "cnpj"]));
+  });
+});
+
+describe("redactText", () => {
+  it("replaces values with stable pseudonyms", () => {
+    const { text, pseudonyms } = redactText(PETICAO);
+    const cpf = pseudonymFor("cpf", "52998224725");
+    expect(text).toContain(`CPF ${cpf}, RG nº [RG_`);
+    expect(text).toContain("representando o menor [MENOR_");
+    expect(text).not.toMatch(/529\.982|98765|jose@|Flores|João Pedro/);
+    expect(pseudonyms).toHaveLength(9);
+    // Formatting does not change the pseudonym
+    expect(redactText("CPF 52998224725").text).toBe(`CPF ${cpf}`);
+    expect(findPseudonyms(text)).toHaveLength(9);
+  });
+
+  it("returns the text unchanged when redaction is disabled or no key is configured", () => {
+    vi.stubEnv("PII_REDACTION_ENABLED", "false");
+    expect(redactText(PETICAO)).toEqual({ text: PETICAO, pseudonyms: [] });
+    vi.stubEnv("PII_REDACTION_ENABLED", "true");
+    vi.stubEnv("PII_ENCRYPTION_KEY", "");
+    vi.stubEnv("JWT_SECRET", "session-secret");
+    expect(redactText(PETICAO).pseudonyms).toEqual([]);
+  });
+
+  it("requires a dedicated key while enabled", () => {
+    vi.stubEnv("PII_ENCRYPTION_KEY", "");
+    vi.stubEnv("JWT_SECRET", "session-secret");
+    expect(() => assertPiiKeyConfigured()).toThrow("PII_ENCRYPTION_KEY");
+    vi.stubEnv("PII_REDACTION_ENABLED", "false");
+    expect(() => assertPiiKeyConfigured()).not.toThrow();
+  });
+});
+
+describe("encrypted mapping", () => {
+  it("stores encrypted values that admins can reveal", async () => {
+    const { pseudonyms } = redactText(PETICAO);
+    await savePseudonyms([...pseudonyms, ...pseudonyms]);
+
+    const rows = vi.mocked(upsertPiiMappings).mock.calls[0][0];
+    expect(rows).toHaveLength(9);
+    expect(JSON.stringify(rows)).not.toContain("529.982.247-25");
+
+    vi.mocked(getPiiMappings).mockResolvedValue(rows.map((row, id) => ({ ...row, id, createdAt: new Date() })) as any);
+    const revealed = await revealPseudonyms(rows.map(r => r.pseudonym));
+    expect(revealed).toContainEqual({ pseudonym: pseudonymFor("cpf", "52998224725"), type: "cpf", value: "529.982.247-25" });
+  });
+
+  it("cannot be decrypted with another key", async () => {
+    await savePseudonyms(redactText("CPF 529.982.247-25").pseudonyms);
+    const rows = vi.mocked(upsertPiiMappings).mock.calls[0][0];
+    vi.mocked(getPiiMappings).mockResolvedValue(rows as any);
+    vi.stubEnv("PII_ENCRYPTION_KEY", "another-key");
+    await expect(revealPseudonyms([rows[0].pseudonym])).rejects.toThrow();
+  });
+});
+
+describe("redactMessages", () => {
+  it("redacts string and text parts of LLM messages", async () => {
+    const messages = await redactMessages([
+      { role: "system", content: "Extraia entidades." },
+      { role: "user", content: [{ type: "text", text: "CPF 529.982.247-25" }] },
+    ]);
+    expect(messages[0].content).toBe("Extraia entidades.");
+    expect(messages[1].content).toEqual([{ type: "text", text: `CPF ${pseudonymFor("cpf", "52998224725")}` }]);
+    expect(upsertPiiMappings).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * PII Redaction (LGPD) - Personal data in uploads and STJ records is replaced
+ * with stable pseudonyms before chunks are embedded or text is sent to the LLM:
+ *   - CPF and CNPJ (only numbers whose check digits are valid)
+ *   - RG (numbers after an "RG"/"Cédula de identidade" label; RG has no national check digit)
+ *   - phone numbers, e-mail addresses, CEP and street addresses
+ *   - names of minors ("o menor João da Silva", "Maria Souza, menor impúbere")
+ * The same value always gets the same pseudonym (HMAC of the value), e.g.
+ * "[CPF_3F9A1C2B7D4E]", so retrieval and the graph can still link occurrences.
+ * The original values are kept AES-256-GCM encrypted in piiMappings and can only
+ * be revealed by admins. Keys are derived from PII_ENCRYPTION_KEY, which is never
+ * shared with JWT_SECRET: rotating the session secret must not change pseudonyms
+ * or make the stored mapping unreadable.
+ */
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, randomBytes } from "crypto";
+import { upsertPiiMappings, getPiiMappings } from "./db";
+import type { Message } from "./_core/llm";
+import { logger } from "./_core/logger";
+
+export type PiiType = "cpf" | "cnpj" | "rg" | "phone" | "email" | "cep" | "address" | "minor";
+
+export const PII_TYPES: PiiType[] = ["cpf", "cnpj", "rg", "phone", "email", "cep", "address", "minor"];
+
+export interface PiiMatch {
+  type: PiiType;
+  start: number;
+  end: number;
+  value: string;
+}
+
+export interface PseudonymEntry {
+  pseudonym: string;
+  type: PiiType;
+  value: string;
+}
+
+const PSEUDONYM_PREFIX: Record<PiiType, string> = {
+  cpf: "CPF",
+  cnpj: "CNPJ",
+  rg: "RG",
+  phone: "TELEFONE",
+  email: "EMAIL",
+  cep: "CEP",
+  address: "ENDERECO",
+  minor: "MENOR",
+};
+
+const PSEUDONYM_PATTERN = /\[(?:CPF|CNPJ|RG|TELEFONE|EMAIL|CEP|ENDERECO|MENOR)_[0-9A-F]{12}\]/g;
+
+// ─── Configuration ───────────────────────────────────────────────────────────
+
+let _warnedMissingKey = false;
+
+function piiSecret(): string {
+  return process.env.PII_ENCRYPTION_KEY || "";
+}
+
+function isRedactionSwitchedOn(): boolean {
+  return (process.env.PII_REDACTION_ENABLED || "true").toLowerCase() !== "false";
+}
+
+/** Throw when redaction is on without its dedicated key (checked on server start) */
+export function assertPiiKeyConfigured(): void {
+  if (isRedactionSwitchedOn() && !piiSecret()) {
+    throw new Error("PII_ENCRYPTION_KEY is required while PII redaction is enabled (PII_REDACTION_ENABLED=false turns it off)");
+  }
+}
+
+/** Redaction runs unless PII_REDACTION_ENABLED=false; it needs a key for the reversible mapping */
+export function isPiiRedactionEnabled(): boolean {
+  if (!isRedactionSwitchedOn()) return false;
+  if (!piiSecret()) {
+    if (!_warnedMissingKey) {
+      logger.warn("[PII] Redaction disabled: set PII_ENCRYPTION_KEY");
+      _warnedMissingKey = true;
+    }
+    return false;
+  }
+  return true;
+}
+
+/** Types to redact from PII_REDACT_TYPES (comma-separated, default all) */
+export function getRedactedTypes(): PiiType[] {
+  const configured = (process.env.PII_REDACT_TYPES || "").split(",").map(t => t.trim().toLowerCase()).filter(Boolean);
+  return configured.length > 0 ? PII_TYPES.filter(t => configured.includes(t)) : PII_TYPES;
+}
+
+function deriveKey(purpose: string): Buffer {
+  return Buffer.from(hkdfSync("sha256", piiSecret(), "", purpose, 32));
+}
+
+// ─── Checksums ───────────────────────────────────────────────────────────────
+
+function digitsOf(value: string): number[] {
+  return value.replace(/\D/g, "").split("").map(Number);
+}
+
+/** CPF check digits (mod 11, weights 10..2 and 11..2) */
+export function isValidCpf(value: string): boolean {
+  const d = digitsOf(value);
+  if (d.length !== 11 || d.every(x => x === d[0])) return false;
+  const check = (length: number) => {
+    const sum = d.slice(0, length).reduce((acc, x, i) => acc + x * (length + 1 - i), 0);
+    return ((sum * 10) % 11) % 10;
+  };
+  return check(9) === d[9] && check(10) === d[10];
+}
+
+/** CNPJ check digits (mod 11, weights 5..2,9..2 and 6..2,9..2) */
+export function isValidCnpj(value: string): boolean {
+  const d = digitsOf(value);
+  if (d.length !== 14 || d.every(x => x === d[0])) return false;
+  const check = (length: number) => {
+    const weights = length === 12 ? [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2] : [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+    const rest = d.slice(0, length).reduce((acc, x, i) => acc + x * weights[i], 0) % 11;
+    return rest < 2 ? 0 : 11 - rest;
+  };
+  return check(12) === d[12] && check(13) === d[13];
+}
+
+// ─── Detection ───────────────────────────────────────────────────────────────
+
+/** A person's name: capitalized words, possibly joined by "da", "de", "dos"... */
+const NAME = "\\p{Lu}[\\p{L}'’]+(?:\\s+(?:(?:d[aeo]s?|D[AEO]S?)\\s+)?\\p{Lu}[\\p{L}'’]+){0,5}";
+/** "o menor", "da criança", "seu filho menor"... (the article keeps out "valor menor", "menor grau") */
+const MINOR_MARKER = "(?<![\\p{L}])(?:[oOaA]s?|d[oa]s?|ao|à|pel[oa]|seus?|suas?|filh[oa]s?)\\s+"
+  + "(?:[Mm]enor|MENOR|[Cc]rian[çc]a|CRIAN[ÇC]A|[Aa]dolescente|ADOLESCENTE|[Ii]nfante|INFANTE)";
+
+const STREET_TYPES = ["Rua", "Avenida", "Av.", "Travessa", "Alameda", "Praça", "Rodovia", "Estrada", "Largo", "Quadra"];
+const STREET = STREET_TYPES
+  .flatMap(t => [t, t.toUpperCase()])
+  .map(t => t.replace(/\./g, "\\."))
+  .join("|");
+
+interface Detector {
+  type: PiiType;
+  /** Matches exactly the value to replace (labels are in lookbehinds) */
+  pattern: RegExp;
+  validate?: (value: string) => boolean;
+}
+
+const DETECTORS: Detector[] = [
+  { type: "email", pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  { type: "cnpj", pattern: /(?<!\d)\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2}(?!\d)/g, validate: isValidCnpj },
+  { type: "cpf", pattern: /(?<!\d)\d{3}\.?\d{3}\.?\d{3}-?\d{2}(?!\d)/g, validate: isValidCpf },
+  {
+    type: "rg",
+    pattern: /(?<=\b(?:RG|R\.G\.|[Rr]egistro [Gg]eral|[Cc][ée]dula de [Ii]dentidade|[Cc]arteira de [Ii]dentidade)(?:\s+n[º°o]\.?)?\s*:?\s*)\d{1,2}\.?\d{3}\.?\d{3}-?[\dXx](?![\dXx])/g,
+  },
+  {
+    type: "phone",
+    pattern: /(?:\+55\s?)?\(\d{2}\)\s?9?\d{4}[-\s]?\d{4}(?!\d)|\+55\s?\d{2}\s?9?\d{4}[-\s]?\d{4}(?!\d)|(?<=\b(?:[Tt]el(?:efone)?|TEL(?:EFONE)?|[Cc]elular|CELULAR|[Ff]one|FONE|WhatsApp)\.?\s*:?\s*)\d{2}\s?9?\d{4}[-\s]?\d{4}(?!\d)/g,
+    validate: value => /^[1-9]{2}$/.test(value.replace(/\D/g, "").replace(/^55(?=\d{10,11}$)/, "").slice(0, 2)),
+  },
+  { type: "cep", pattern: /(?<!\d)\d{2}\.?\d{3}-\d{3}(?!\d)/g },
+  {
+    type: "address",
+    pattern: new RegExp(
+      `(?<!\\p{L})(?:${STREET})\\s+(?:(?:d[aeo]s?|D[AEO]S?)\\s+)?[\\p{Lu}\\d][^\\n,;]{0,40}?(?:,\\s*(?:[nN][º°oO]?\\.?\\s*)?|\\s+[nN][º°oO]\\.?\\s*)\\d{1,5}(?!\\d)`
+        + "(?:\\s*,?\\s*(?:apto?\\.?|apartamento|casa|bloco|sala)\\s*[\\w-]+)*",
+      "gu"
+    ),
+  },
+  { type: "minor", pattern: new RegExp(`(?<=${MINOR_MARKER}(?:\\s+imp[úu]bere)?\\s*,?\\s*)${NAME}`, "gu") },
+  { type: "minor", pattern: new RegExp(`${NAME}(?=\\s*(?:,\\s*|\\(\\s*)(?:menor|MENOR)(?!\\p{L}))`, "gu") },
+];
+
+/** Personal data in `text`, without overlaps (earliest, then longest match wins) */
+export function detectPii(text: string, types: PiiType[] = getRedactedTypes()): PiiMatch[] {
+  const matches: PiiMatch[] = [];
+  for (const detector of DETECTORS) {
+    if (!types.includes(detector.type)) continue;
+    for (const match of text.matchAll(detector.pattern)) {
+      const value = match[0];
+      if (detector.validate && !detector.validate(value)) continue;
+      matches.push({ type: detector.type, start: match.index!, end: match.index! + value.length, value });
+    }
+  }
+
+  matches.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+  const kept: PiiMatch[] = [];
+  for (const match of matches) {
+    if (kept.length > 0 && match.start < kept[kept.length - 1].end) continue;
+    kept.push(match);
+  }
+  return kept;
+}
+
+// ─── Pseudonyms ──────────────────────────────────────────────────────────────
+
+/** Comparison form of a value, so "123.456.789-09" and "12345678909" share a pseudonym */
+function normalizeValue(type: PiiType, value: string): string {
+  switch (type) {
+    case "cpf":
+    case "cnpj":
+    case "cep":
+      return value.replace(/\D/g, "");
+    case "phone":
+      return value.replace(/\D/g, "").replace(/^55(?=\d{10,11}$)/, "");
+    case "email":
+      return value.toLowerCase();
+    case "rg":
+      return value.replace(/[^\dXx]/g, "").toUpperCase();
+    case "address":
+    case "minor":
+      return value.normalize("NFC").replace(/\s+/g, " ").trim().toUpperCase();
+  }
+}
+
+export function pseudonymFor(type: PiiType, value: string): string {
+  const digest = createHmac("sha256", deriveKey("pii-pseudonym"))
+    .update(`${type}:${normalizeValue(type, value)}`)
+    .digest("hex");
+  return `[${PSEUDONYM_PREFIX[type]}_${digest.slice(0, 12).toUpperCase()}]`;
+}
+
+/** Pseudonyms occurring in a text (e.g. an answer the admin wants to read in clear) */
+export function findPseudonyms(text: string): string[] {
+  return Array.from(new Set(text.match(PSEUDONYM_PATTERN) ?? []));
+}
+
+/**
+ * Replace personal data with pseudonyms. Returns the text unchanged when
+ * redaction is disabled; `pseudonyms` must be saved with savePseudonyms.
+ */
+export function redactText(text: string): { text: string; pseudonyms: PseudonymEntry[] } {
+  if (!text || !isPiiRedactionEnabled()) return { text, pseudonyms: [] };
+  const matches = detectPii(text);
+  if (matches.length === 0) return { text, pseudonyms: [] };
+
+  const pseudonyms: PseudonymEntry[] = [];
+  let out = "";
+  let cursor = 0;
+  for (const match of matches) {
+    const pseudonym = pseudonymFor(match.type, match.value);
+    pseudonyms.push({ pseudonym, type: match.type, value: match.value });
+    out += text.slice(cursor, match.start) + pseudonym;
+    cursor = match.end;
+  }
+  return { text: out + text.slice(cursor), pseudonyms };
+}
+
+/** Count of redacted values per type (stored in document metadata) */
+export function summarizePseudonyms(pseudonyms: PseudonymEntry[]): Partial<Record<PiiType, number>> {
+  const summary: Partial<Record<PiiType, number>> = {};
+  for (const entry of pseudonyms) summary[entry.type] = (summary[entry.type] ?? 0) + 1;
+  return summary;
+}
+
+// ─── Encrypted mapping ───────────────────────────────────────────────────────
+
+function encryptValue(value: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", deriveKey("pii-encryption"), iv);
+  const encrypted = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(b => b.toString("base64")).join(".");
+}
+
+function decryptValue(payload: string): string {
+  const [iv, tag, encrypted] = payload.split(".").map(part => Buffer.from(part, "base64"));
+  const decipher = createDecipheriv("aes-256-gcm", deriveKey("pii-encryption"), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+}
+
+/** Store the encrypted original of each new pseudonym (existing mappings are kept) */
+export async function savePseudonyms(pseudonyms: PseudonymEntry[]): Promise<void> {
+  const unique = new Map(pseudonyms.map(p => [p.pseudonym, p]));
+  if (unique.size === 0) return;
+  await upsertPiiMappings(Array.from(unique.values(), p => ({
+    pseudonym: p.pseudonym,
+    piiType: p.type,
+    encryptedValue: encryptValue(p.value),
+  })));
+}
+
+/** Original values of pseudonyms (admin only); unknown pseudonyms are left out */
+export async function revealPseudonyms(pseudonyms: string[]): Promise<PseudonymEntry[]> {
+  const rows = await getPiiMappings(pseudonyms);
+  return rows.map(row => ({
+    pseudonym: row.pseudonym,
+    type: row.piiType as PiiType,
+    value: decryptValue(row.encryptedValue),
+  }));
+}
+
+/** Redact the text parts of LLM messages and save the pseudonyms they introduced */
+export async function redactMessages(messages: Message[]): Promise<Message[]> {
+  if (!isPiiRedactionEnabled()) return messages;
+  const pseudonyms: PseudonymEntry[] = [];
+  const redact = (text: string) => {
+    const result = redactText(text);
+    pseudonyms.push(...result.pseudonyms);
+    return result.text;
+  };
+
+  const redacted = messages.map(message => {
+    const parts = Array.isArray(message.content) ? message.content : [message.content];
+    const content = parts.map(part =>
+      typeof part === "string" ? redact(part) : part.type === "text" ? { ...part, text: redact(part.text) } : part
+    );
+    return { ...message, content: Array.isArray(message.content) ? content : content[0] };
+  });
+
+  await savePseudonyms(pseudonyms);
+  return redacted;
+}
@@ -4,22 +4,35 @@
 import { Queue } from "bullmq";
 import { getRedisConnection } from "./connection";
 import { logger } from "../_core/logger";
+import type { ChunkingStrategy } from "../chunker";
 
 export const QUEUE_NAMES = {
   RESOURCE_PROCESS: "resource-process",
   DOCUMENT_PROCESS: "document-process",
+  SCHEDULED_SYNC: "scheduled-sync",
 } as const;
 
 export interface ResourceProcessJob {
   resourceId: string;
+  /** Re-process even when the downloaded content hash is unchanged */
+  force?: boolean;
+  /** Re-process from the archived raw snapshot instead of downloading again */
+  fromSnapshot?: boolean;
 }
 
 export interface DocumentProcessJob {
   documentId: number;
+  /** Chunker to use; defaults to CHUNKING_STRATEGY */
+  chunking?: ChunkingStrategy;
+}
+
+export interface ScheduledSyncJob {
+  scheduleId: number;
 }
 
 let _resourceQueue: Queue<ResourceProcessJob> | null = null;
 let _documentQueue: Queue<DocumentProcessJob> | null = null;
+let _scheduleQueue: Queue<ScheduledSyncJob> | null = null;
 
 export function getResourceQueue(): Queue<ResourceProcessJob> | null {
   if (_resourceQueue) return _resourceQueue;
@@ -37,11 +50,22 @@ export function getDocumentQueue(): Queue<DocumentProcessJob> | null {
   return _documentQueue;
 }
 
+export function getScheduleQueue(): Queue<ScheduledSyncJob> | null {
+  if (_scheduleQueue) return _scheduleQueue;
+  const connection = getRedisConnection();
+  if (!connection) return null;
+  _scheduleQueue = new Queue(QUEUE_NAMES.SCHEDULED_SYNC, { connection: connection as any }) as Queue<ScheduledSyncJob>;
+  return _scheduleQueue;
+}
+
 /** Add a resource processing job to the queue. Returns jobId or null if queue unavailable. */
-export async function enqueueResourceProcess(resourceId: string): Promise<string | null> {
+export async function enqueueResourceProcess(
+  resourceId: string,
+  options: { force?: boolean; fromSnapshot?: boolean } = {},
+): Promise<string | null> {
   const queue = getResourceQueue();
   if (!queue) return null;
-  const job = await queue.add("process", { resourceId }, {
+  const job = await queue.add("process", { resourceId, force: options.force, fromSnapshot: options.fromSnapshot }, {
     attempts: 3,
     backoff: { type: "exponential", delay: 5000 },
     removeOnComplete: { count: 100 },
@@ -52,10 +76,13 @@ export async function enqueueResourceProcess(resourceId: string): Promise<string
 }
 
 /** Add a document processing job to the queue. Returns jobId or null if queue unavailable. */
-export async function enqueueDocumentProcess(documentId: number): Promise<string | null> {
+export async function enqueueDocumentProcess(
+  documentId: number,
+  options: { chunking?: ChunkingStrategy } = {},
+): Promise<string | null> {
   const queue = getDocumentQueue();
   if (!queue) return null;
-  const job = await queue.add("process", { documentId }, {
+  const job = await queue.add("process", { documentId, chunking: options.chunking }, {
     attempts: 3,
     backoff: { type: "exponential", delay: 5000 },
     removeOnComplete: { count: 100 },
@@ -65,7 +92,65 @@ export async function enqueueDocumentProcess(documentId: number): Promise<string
   return job.id!;
 }
 
+function scheduleJobId(scheduleId: number): string {
+  return `sync-schedule-${scheduleId}`;
+}
+
+/**
+ * Register (or replace) the repeatable job for a sync schedule.
+ * Returns the next run time, or null if the queue is unavailable.
+ */
+export async function upsertScheduledSync(
+  scheduleId: number,
+  cron: string,
+  timezone?: string,
+): Promise<Date | null> {
+  const queue = getScheduleQueue();
+  if (!queue) return null;
+  await queue.upsertJobScheduler(
+    scheduleJobId(scheduleId),
+    { pattern: cron, tz: timezone },
+    {
+      name: "sync",
+      data: { scheduleId },
+      opts: { removeOnComplete: { count: 100 }, removeOnFail: { count: 50 } },
+    },
+  );
+  const scheduler = await queue.getJobScheduler(scheduleJobId(scheduleId));
+  logger.info({ scheduleId, cron, next: scheduler?.next }, "[Queue] Sync schedule registered");
+  return scheduler?.next ? new Date(scheduler.next) : null;
+}
+
+/** Next run time of a registered sync schedule, or null if not registered */
+export async function getScheduledSyncNextRun(scheduleId: number): Promise<Date | null> {
+  const queue = getScheduleQueue();
+  if (!queue) return null;
+  const scheduler = await queue.getJobScheduler(scheduleJobId(scheduleId));
+  return scheduler?.next ? new Date(scheduler.next) : null;
+}
+
+/** Remove the repeatable job of a sync schedule (no-op if not registered) */
+export async function removeScheduledSync(scheduleId: number): Promise<void> {
+  const queue = getScheduleQueue();
+  if (!queue) return;
+  await queue.removeJobScheduler(scheduleJobId(scheduleId));
+  logger.info({ scheduleId }, "[Queue] Sync schedule removed");
+}
+
+/** Run a sync schedule once, right away. Returns jobId or null if queue unavailable. */
+export async function enqueueScheduledSync(scheduleId: number): Promise<string | null> {
+  const queue = getScheduleQueue();
+  if (!queue) return null;
+  const job = await queue.add("sync", { scheduleId }, {
+    removeOnComplete: { count: 100 },
+    removeOnFail: { count: 50 },
+  });
+  logger.info({ jobId: job.id, scheduleId }, "[Queue] Sync schedule run enqueued");
+  return job.id!;
+}
+
 export async function closeQueues(): Promise<void> {
   if (_resourceQueue) { await _resourceQueue.close().catch(() => {}); _resourceQueue = null; }
   if (_documentQueue) { await _documentQueue.close().catch(() => {}); _documentQueue = null; }
+  if (_scheduleQueue) { await _scheduleQueue.close().catch(() => {}); _scheduleQueue = null; }
 }
@@ -5,7 +5,10 @@ vi.mock("./connection", () => ({
   getRedisConnection: vi.fn().mockReturnValue(null),
 }));
 vi.mock("./queues", () => ({
-  QUEUE_NAMES: { RESOURCE_PROCESS: "resource-process", DOCUMENT_PROCESS: "document-process" },
+  QUEUE_NAMES: {
+    RESOURCE_PROCESS: "resource-process", DOCUMENT_PROCESS: "document-process", SCHEDULED_SYNC: "scheduled-sync",
+  },
+  enqueueResourceProcess: vi.fn(),
 }));
 vi.mock("bullmq", () => ({
   Worker: vi.fn(),
@@ -23,15 +26,29 @@ vi.mock("../db", () => ({
   batchInsertGraphEdges: vi.fn(),
   getDocumentById: vi.fn(),
   updateResourceStatus: vi.fn(),
+  deleteQuarantinedChunks: vi.fn(),
+  insertQuarantinedChunks: vi.fn(),
+  getEntityAliasesByAlias: vi.fn().mockResolvedValue([]),
+  upsertEntityAliases: vi.fn(),
+  getExistingGraphNodeIds: vi.fn().mockResolvedValue([]),
 }));
 vi.mock("../stj-extractor", () => ({
   downloadResource: vi.fn(),
+  readResourceBatches: vi.fn(async function* () { yield [{ id: 1 }]; }),
+  cleanupDownload: vi.fn(),
 }));
 vi.mock("../chunker", () => ({
-  processSTJRecords: vi.fn().mockReturnValue([{ text: "chunk1", index: 0, metadata: {} }]),
+  processSTJRecords: vi.fn().mockReturnValue({
+    chunks: [{ text: "chunk1", index: 0, metadata: { parentId: "p1" } }],
+    parents: [{ parentId: "p1", text: "parent", metadata: {} }],
+    quarantined: [],
+    pseudonyms: [],
+  }),
 }));
 vi.mock("../embeddings", () => ({
-  storeChunks: vi.fn().mockResolvedValue({ stored: 1 }),
+  storeChunks: vi.fn().mockResolvedValue({ stored: 1, errors: 0 }),
+  storeChunkParents: vi.fn().mockResolvedValue(1),
+  pruneStalePoints: vi.fn(),
 }));
 vi.mock("../entity-extractor", () => ({
   extractEntitiesFromChunks: vi.fn().mockResolvedValue({ entities: [], relationships: [] }),
@@ -39,13 +56,40 @@ vi.mock("../entity-extractor", () => ({
 vi.mock("../document-processor", () => ({
   processDocument: vi.fn().mockResolvedValue({ chunks: 1, embeddings: 1 }),
 }));
+vi.mock("../document-archive", () => ({
+  processArchive: vi.fn().mockResolvedValue({ documentIds: [2, 3], skipped: 0 }),
+}));
+vi.mock("../storage", () => ({
+  storageGet: vi.fn(async (key: string) => ({ key, url: `https://storage.example.com/${key}?token=fresh` })),
+}));
+vi.mock("../scheduler", () => ({
+  runScheduledSync: vi.fn(),
+}));
+vi.mock("../schema-drift", () => ({
+  RecordProfiler: vi.fn(() => ({ add: vi.fn(), build: vi.fn().mockReturnValue({ recordCount: 1, fields: {} }) })),
+  recordSchemaProfile: vi.fn(),
+}));
+vi.mock("../record-dedup", () => ({
+  dedupeChunks: vi.fn(async (chunks: any[]) => ({ chunks, newRecords: chunks.length, duplicates: 0 })),
+  releaseDroppedRecords: vi.fn().mockResolvedValue([]),
+}));
 
 // We can't directly call handleResourceProcess/handleDocumentProcess since they're not exported.
 // Instead, test startWorkers behavior and use the Worker mock to capture the handler functions.
 import { startWorkers, stopWorkers } from "./worker";
 import { getRedisConnection } from "./connection";
-import { getResourceByResourceId, getDocumentById, updateResourceStatus } from "../db";
-import { downloadResource } from "../stj-extractor";
+import {
+  getResourceByResourceId, getDocumentById, updateResourceStatus, getDatasetBySlug, updateLog,
+  deleteQuarantinedChunks, insertQuarantinedChunks,
+} from "../db";
+import { processSTJRecords } from "../chunker";
+import { recordSchemaProfile } from "../schema-drift";
+import { downloadResource, cleanupDownload } from "../stj-extractor";
+import { storeChunks, storeChunkParents, pruneStalePoints } from "../embeddings";
+import { processArchive } from "../document-archive";
+import { processDocument } from "../document-processor";
+import { releaseDroppedRecords } from "../record-dedup";
+import { enqueueResourceProcess } from "./queues";
 import { Worker } from "bullmq";
 
 const mockGetRedis = vi.mocked(getRedisConnection);
@@ -53,6 +97,9 @@ const mockGetResource = vi.mocked(getResourceByResourceId);
 const mockGetDoc = vi.mocked(getDocumentById);
 const mockDownload = vi.mocked(downloadResource);
 const mockUpdateStatus = vi.mocked(updateResourceStatus);
+const mockStoreChunks = vi.mocked(storeChunks);
+const mockPrune = vi.mocked(pruneStalePoints);
+const mockCleanup = vi.mocked(cleanupDownload);
 const MockWorker = vi.mocked(Worker);
 
 // Helper to create a mock BullMQ Job
@@ -77,7 +124,7 @@ describe("startWorkers", () => {
     expect(MockWorker).not.toHaveBeenCalled();
   });
 
-  it("creates resource and document workers when Redis is available", () => {
+  it("creates resource, document and schedule workers when Redis is available", () => {
     mockGetRedis.mockReturnValue({} as any);
     // Mock Worker constructor to return an object with .on()
     MockWorker.mockImplementation((() => ({
@@ -86,7 +133,7 @@ describe("startWorkers", () => {
 
     startWorkers();
 
-    expect(MockWorker).toHaveBeenCalledTimes(2);
+    expect(MockWorker).toHaveBeenCalledTimes(3);
     expect(MockWorker).toHaveBeenCalledWith(
       "resource-process",
       expect.any(Function),
@@ -97,6 +144,11 @@ describe("startWorkers", () => {
       expect.any(Function),
       expect.objectContaining({ concurrency: 2 }),
     );
+    expect(MockWorker).toHaveBeenCalledWith(
+      "scheduled-sync",
+      expect.any(Function),
+      expect.objectContaining({ concurrency: 1 }),
+    );
   });
 });
 
@@ -143,6 +195,7 @@ describe("handleDocumentProcess (via Worker handler)", () => {
   it("processes document successfully", async () => {
     mockGetDoc.mockResolvedValue({
       id: 1, fileUrl: "https://example.com/file.txt", mimeType: "text/plain", filename: "doc.txt",
+      extractEntities: false,
     } as any);
     vi.stubGlobal("fetch", vi.fn().mockResolvedValue({
       ok: true, arrayBuffer: () => Promise.resolve(new ArrayBuffer(8)),
@@ -150,6 +203,39 @@ describe("handleDocumentProcess (via Worker handler)", () => {
     const job = createMockJob({ documentId: 1 });
     await documentHandler(job);
     expect(job.updateProgress).toHaveBeenCalledWith(100);
+    expect(processDocument).toHaveBeenLastCalledWith(
+      1, expect.any(Buffer), "text/plain", "doc.txt", "doc_1", { chunking: undefined, extractEntities: false }
+    );
+  });
+
+  it("downloads from a freshly signed URL when the document has a storage key", async () => {
+    mockGetDoc.mockResolvedValue({
+      id: 1, fileUrl: "https://storage.example.com/expired", fileKey: "documents/7/abc-doc.txt",
+      mimeType: "text/plain", filename: "doc.txt",
+    } as any);
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true, arrayBuffer: () => Promise.resolve(new ArrayBuffer(8)),
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    await documentHandler(createMockJob({ documentId: 1 }));
+    expect(fetchMock).toHaveBeenCalledWith("https://storage.example.com/documents/7/abc-doc.txt?token=fresh");
+  });
+
+  it("expands ZIP archives instead of extracting them", async () => {
+    vi.mocked(processDocument).mockClear();
+    mockGetDoc.mockResolvedValue({
+      id: 5, userId: 7, fileUrl: null, fileKey: "documents/7/abc-lote.zip",
+      mimeType: "application/zip", filename: "lote.zip",
+    } as any);
+    const job = createMockJob({ documentId: 5, chunking: "legal" });
+    await documentHandler(job);
+    expect(processArchive).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 5 }),
+      "https://storage.example.com/documents/7/abc-lote.zip?token=fresh",
+      { chunking: "legal" }
+    );
+    expect(processDocument).not.toHaveBeenCalled();
+    expect(job.updateProgress).toHaveBeenCalledWith(100);
   });
 });
 
@@ -173,6 +259,121 @@ describe("handleResourceProcess (via Worker handler)", () => {
     await expect(resourceHandler(job)).rejects.toThrow("Resource not found: missing-id");
   });
 
+  it("skips processing when the content hash is unchanged", async () => {
+    mockGetResource.mockResolvedValue({
+      id: 1, name: "test", datasetId: 1, contentHash: "same-hash", remoteRevision: "r2",
+    } as any);
+    mockDownload.mockResolvedValue({ recordCount: 1, contentHash: "same-hash", ndjsonPath: "/tmp/x.ndjson" });
+    const job = createMockJob({ resourceId: "res-1" });
+
+    await resourceHandler(job);
+
+    expect(mockStoreChunks).not.toHaveBeenCalled();
+    expect(mockUpdateStatus).toHaveBeenCalledWith("res-1", "embedded", { ingestedRevision: "r2" });
+  });
+
+  it("records content hash and revision after a full run", async () => {
+    mockGetResource.mockResolvedValue({
+      id: 1, name: "test", datasetId: 1, contentHash: "old-hash", remoteRevision: "r2",
+    } as any);
+    mockDownload.mockResolvedValue({ recordCount: 1, contentHash: "new-hash", ndjsonPath: "/tmp/x.ndjson" });
+    const job = createMockJob({ resourceId: "res-1" });
+
+    await resourceHandler(job);
+
+    expect(mockStoreChunks).toHaveBeenCalled();
+    expect(mockUpdateStatus).toHaveBeenCalledWith("res-1", "embedded", expect.objectContaining({
+      recordCount: 1, contentHash: "new-hash", ingestedRevision: "r2",
+    }));
+    expect(mockCleanup).toHaveBeenCalled();
+  });
+
+  it("upserts by source and prunes points left over from previous runs", async () => {
+    mockGetResource.mockResolvedValue({ id: 1, name: "test", datasetId: 1, contentHash: "old-hash" } as any);
+    mockDownload.mockResolvedValue({ recordCount: 1, contentHash: "new-hash", ndjsonPath: "/tmp/x.ndjson" });
+
+    await resourceHandler(createMockJob({ resourceId: "res-1" }));
+
+    const [, , options] = mockStoreChunks.mock.calls[0];
+    expect(options).toEqual({ sourceId: "resource:res-1", runId: expect.any(String) });
+    expect(storeChunkParents).toHaveBeenCalledWith(expect.any(String), expect.any(Array), expect.any(Array), options);
+    expect(mockPrune).toHaveBeenCalledWith(
+      expect.any(String), "resource:res-1", options.runId, { key: "resourceName", value: "test" },
+    );
+  });
+
+  it("re-ingests the resources that take over records this one dropped", async () => {
+    mockGetResource.mockResolvedValue({ id: 1, name: "test", datasetId: 1, contentHash: "old-hash" } as any);
+    mockDownload.mockResolvedValue({ recordCount: 1, contentHash: "new-hash", ndjsonPath: "/tmp/x.ndjson" });
+    vi.mocked(releaseDroppedRecords).mockResolvedValueOnce(["res-2"]);
+
+    await resourceHandler(createMockJob({ resourceId: "res-1" }));
+
+    expect(releaseDroppedRecords).toHaveBeenCalledWith("res-1", expect.any(Set));
+    expect(enqueueResourceProcess).toHaveBeenCalledWith("res-2", { force: true });
+  });
+
+  it("quarantines low-quality chunks and reports them in the log", async () => {
+    mockGetResource.mockResolvedValue({ id: 1, name: "test", datasetId: 1, contentHash: "old-hash" } as any);
+    mockDownload.mockResolvedValue({ recordCount: 1, contentHash: "new-hash", ndjsonPath: "/tmp/x.ndjson" });
+    vi.mocked(processSTJRecords).mockReturnValueOnce({
+      chunks: [{ text: "chunk1", index: 0, metadata: { parentId: "p1" } }],
+      parents: [{ parentId: "p1", text: "parent", metadata: {} }],
+      quarantined: [{
+        chunk: { text: "The appeal is dismissed.", index: 1, metadata: { parentId: "p1" } },
+        assessment: { score: 0.6, passed: false, reasons: ["language"], metrics: {} as any },
+      }],
+      pseudonyms: [],
+    });
+
+    await resourceHandler(createMockJob({ resourceId: "res-1" }));
+
+    expect(deleteQuarantinedChunks).toHaveBeenCalledWith("resource:res-1");
+    expect(insertQuarantinedChunks).toHaveBeenCalledWith([expect.objectContaining({
+      sourceId: "resource:res-1", resourceId: "res-1", chunkIndex: 1, reasons: ["language"], score: 0.6,
+    })]);
+    expect(updateLog).toHaveBeenCalledWith(1, expect.objectContaining({
+      status: "warning",
+      details: "Processed resource test — 1 of 2 chunks quarantined (language: 1)",
+    }));
+  });
+
+  it("keeps existing points when some chunks failed to embed", async () => {
+    mockGetResource.mockResolvedValue({ id: 1, name: "test", datasetId: 1, contentHash: "old-hash" } as any);
+    mockDownload.mockResolvedValue({ recordCount: 1, contentHash: "new-hash", ndjsonPath: "/tmp/x.ndjson" });
+    mockStoreChunks.mockResolvedValueOnce({ stored: 0, errors: 1 });
+
+    await resourceHandler(createMockJob({ resourceId: "res-1" }));
+
+    expect(mockPrune).not.toHaveBeenCalled();
+  });
+
+  it("re-processes from the archived snapshot even when the hash matches", async () => {
+    mockGetResource.mockResolvedValue({
+      id: 1, name: "test", datasetId: 1, contentHash: "same-hash", remoteRevision: "r2", snapshotKey: "stj/snapshots/x",
+    } as any);
+    mockDownload.mockResolvedValue({ recordCount: 1, contentHash: "same-hash", ndjsonPath: "/tmp/x.ndjson" });
+    const job = createMockJob({ resourceId: "res-1", force: true, fromSnapshot: true });
+
+    await resourceHandler(job);
+
+    expect(mockDownload).toHaveBeenCalledWith("res-1", { fromSnapshot: true });
+    expect(mockStoreChunks).toHaveBeenCalled();
+  });
+
+  it("profiles the records for schema drift detection", async () => {
+    mockGetResource.mockResolvedValue({ id: 1, name: "test", datasetId: 1, contentHash: "old-hash" } as any);
+    vi.mocked(getDatasetBySlug).mockResolvedValue({ id: 1, slug: "atas-de-distribuicao" } as any);
+    mockDownload.mockResolvedValue({ recordCount: 1, contentHash: "new-hash", ndjsonPath: "/tmp/x.ndjson" });
+
+    await resourceHandler(createMockJob({ resourceId: "res-1" }));
+
+    expect(recordSchemaProfile).toHaveBeenCalledWith(
+      { datasetId: 1, datasetSlug: "atas-de-distribuicao", resourceId: "res-1" },
+      { recordCount: 1, fields: {} },
+    );
+  });
+
   it("marks resource as error on downstream failure", async () => {
     mockGetResource.mockResolvedValue({ id: 1, name: "test", datasetId: 1 } as any);
     mockDownload.mockRejectedValue(new Error("download failed"));
@@ -4,26 +4,40 @@
  */
 import { Worker, Job } from "bullmq";
 import { getRedisConnection } from "./connection";
-import { QUEUE_NAMES, ResourceProcessJob, DocumentProcessJob } from "./queues";
+import {
+  QUEUE_NAMES, ResourceProcessJob, DocumentProcessJob, ScheduledSyncJob, enqueueResourceProcess,
+} from "./queues";
 import { logger } from "../_core/logger";
+import { randomUUID } from "crypto";
 
 // Import services (same logic as synchronous routers)
 import {
   getResourceByResourceId, getDatasetBySlug, getAllDatasets,
-  createLog, updateLog, batchUpsertGraphNodes, batchInsertGraphEdges,
-  getDocumentById,
+  createLog, updateLog, getDocumentById, deleteQuarantinedChunks, insertQuarantinedChunks,
 } from "../db";
 import { updateResourceStatus } from "../db";
-import { downloadResource } from "../stj-extractor";
+import { downloadResource, readResourceBatches, cleanupDownload } from "../stj-extractor";
 import { processSTJRecords } from "../chunker";
-import { storeChunks } from "../embeddings";
+import { storeChunks, storeChunkParents, pruneStalePoints } from "../embeddings";
 import { extractEntitiesFromChunks } from "../entity-extractor";
+import { storeExtraction } from "../entity-resolution";
 import { processDocument as processDocumentService } from "../document-processor";
+import { processArchive } from "../document-archive";
+import { detectDocumentFormat } from "../document-formats";
+import { storageGet } from "../storage";
+import { runScheduledSync } from "../scheduler";
+import { RecordProfiler, recordSchemaProfile } from "../schema-drift";
+import { dedupeChunks, releaseDroppedRecords } from "../record-dedup";
+import { summarizeQuarantine, describeQuarantine, toQuarantineRows, type QualitySummary } from "../text-quality";
+import { savePseudonyms } from "../pii-redaction";
+
+/** Max chunks per resource sent to LLM entity extraction (limit for performance) */
+const ENTITY_CHUNK_LIMIT = 50;
 
 let _workers: Worker[] = [];
 
 async function handleResourceProcess(job: Job<ResourceProcessJob>): Promise<void> {
-  const { resourceId } = job.data;
+  const { resourceId, force, fromSnapshot } = job.data;
   const resource = await getResourceByResourceId(resourceId);
   if (!resource) throw new Error(`Resource not found: ${resourceId}`);
 
@@ -32,83 +46,161 @@ async function handleResourceProcess(job: Job<ResourceProcessJob>): Promise<void
     action: "process_json",
     resourceId,
     status: "started",
-    details: `Processing resource ${resource.name}`,
+    details: `Processing resource ${resource.name}${fromSnapshot ? " from snapshot" : ""}`,
   });
 
   try {
-    // Download
+    // Download (streamed to an NDJSON spool file), or restore the archived snapshot
     await updateResourceStatus(resourceId, "downloading");
     await job.updateProgress(10);
-    const data = await downloadResource(resourceId);
-
-    // Get dataset info
-    const dataset = await getDatasetBySlug(
-      (await getAllDatasets()).find(d => d.id === resource.datasetId)?.slug || ""
-    );
-
-    // Chunk
-    await updateResourceStatus(resourceId, "processing");
-    await job.updateProgress(30);
-    const chunks = processSTJRecords(data, dataset?.slug || "unknown", resource.name);
-
-    // Extract entities (limit for performance)
-    await updateResourceStatus(resourceId, "extracting_entities");
-    await job.updateProgress(50);
-    const extraction = await extractEntitiesFromChunks(chunks.slice(0, 50));
-
-    // Store entities in graph
-    await batchUpsertGraphNodes(
-      extraction.entities.map(e => ({
-        entityId: e.entityId,
-        name: e.name,
-        entityType: e.entityType,
-        description: e.description,
-        source: "stj",
-        sourceRef: dataset?.slug || resourceId,
-      }))
-    );
-    await batchInsertGraphEdges(
-      extraction.relationships.map(r => ({
-        sourceEntityId: r.sourceEntityId,
-        targetEntityId: r.targetEntityId,
-        relationshipType: r.relationshipType,
-        description: r.description,
-        weight: r.weight,
-        sourceRef: dataset?.slug || resourceId,
-      }))
-    );
-
-    // Embeddings
-    await updateResourceStatus(resourceId, "embedding");
-    await job.updateProgress(80);
-    const collectionName = `stj_${dataset?.slug?.replace(/-/g, "_") || "unknown"}`;
-    const embedResult = await storeChunks(collectionName, chunks);
-
-    await updateResourceStatus(resourceId, "embedded", {
-      processedAt: new Date(),
-      embeddedAt: new Date(),
-      recordCount: data.length,
-      chunkCount: chunks.length,
-      entityCount: extraction.entities.length,
-      relationshipCount: extraction.relationships.length,
-    });
+    const download = await downloadResource(resourceId, { fromSnapshot });
+    const { contentHash } = download;
 
-    await job.updateProgress(100);
+    try {
+      // Skip chunking, LLM extraction and embedding when the payload did not change
+      if (!force && resource.contentHash === contentHash) {
+        await updateResourceStatus(resourceId, "embedded", { ingestedRevision: resource.remoteRevision });
+        await job.updateProgress(100);
+        if (logId) {
+          await updateLog(logId, {
+            status: "completed",
+            details: `Resource ${resource.name} unchanged (content hash match) — skipped`,
+            recordsProcessed: 0,
+            durationMs: Date.now() - startTime,
+          });
+        }
+        logger.info({ resourceId }, "[Worker] Resource unchanged, skipping");
+        return;
+      }
 
-    const duration = Date.now() - startTime;
-    if (logId) {
-      await updateLog(logId, {
-        status: "completed",
-        recordsProcessed: data.length,
-        chunksGenerated: chunks.length,
-        entitiesExtracted: extraction.entities.length,
-        relationshipsExtracted: extraction.relationships.length,
-        embeddingsGenerated: embedResult.stored,
-        durationMs: duration,
+      // Get dataset info
+      const dataset = await getDatasetBySlug(
+        (await getAllDatasets()).find(d => d.id === resource.datasetId)?.slug || ""
+      );
+      const sourceRef = dataset?.slug || resourceId;
+      const collectionName = `stj_${dataset?.slug?.replace(/-/g, "_") || "unknown"}`;
+
+      await updateResourceStatus(resourceId, "processing");
+      await job.updateProgress(30);
+
+      let recordCount = 0;
+      let chunkCount = 0;
+      let entityCount = 0;
+      let relationshipCount = 0;
+      let embeddingsStored = 0;
+      let extractedChunks = 0;
+      let duplicateRecords = 0;
+      let embeddingErrors = 0;
+      const sourceId = `resource:${resourceId}`;
+      const runId = randomUUID();
+      const profiler = new RecordProfiler();
+      const seenRecordKeys = new Set<string>();
+      let quality: QualitySummary | null = null;
+      await deleteQuarantinedChunks(sourceId);
+
+      // Feed records in batches so memory stays flat regardless of file size
+      for await (const records of readResourceBatches(download)) {
+        profiler.add(records);
+        const datasetSlug = dataset?.slug || "unknown";
+        // Records already ingested from another resource are skipped before extraction/embedding
+        const processed = processSTJRecords(records, datasetSlug, resource.name);
+        await savePseudonyms(processed.pseudonyms);
+        if (processed.quarantined.length > 0) {
+          await insertQuarantinedChunks(toQuarantineRows(processed.quarantined, { sourceId, resourceId, collectionName }));
+          quality = summarizeQuarantine(processed.quarantined, quality ?? undefined);
+        }
+        const dedup = await dedupeChunks(processed.chunks, { resourceId, datasetSlug }, seenRecordKeys);
+        const chunks = dedup.chunks;
+        duplicateRecords += dedup.duplicates;
+        recordCount += records.length;
+        chunkCount += chunks.length;
+
+        // Extract entities (limit for performance)
+        const extractionBudget = ENTITY_CHUNK_LIMIT - extractedChunks;
+        if (extractionBudget > 0 && chunks.length > 0) {
+          await updateResourceStatus(resourceId, "extracting_entities");
+          const toExtract = chunks.slice(0, extractionBudget);
+          extractedChunks += toExtract.length;
+          const extraction = await storeExtraction(await extractEntitiesFromChunks(toExtract), { source: "stj", sourceRef });
+          entityCount += extraction.entities.length;
+          relationshipCount += extraction.relationships.length;
+        }
+
+        // Embeddings
+        if (chunks.length > 0) {
+          await updateResourceStatus(resourceId, "embedding");
+          await storeChunkParents(collectionName, processed.parents, chunks, { sourceId, runId });
+          const embedResult = await storeChunks(collectionName, chunks, { sourceId, runId });
+          embeddingsStored += embedResult.stored;
+          embeddingErrors += embedResult.errors;
+        }
+
+        const fraction = download.recordCount > 0 ? recordCount / download.recordCount : 1;
+        await job.updateProgress(30 + Math.round(Math.min(1, fraction) * 65));
+      }
+
+      // Points are upserted by deterministic ID; drop those whose record or chunk no longer exists
+      if (embeddingErrors === 0) {
+        await pruneStalePoints(collectionName, sourceId, runId, { key: "resourceName", value: resource.name });
+        // Records this resource no longer has move to another source, which must embed them again
+        for (const newPrimary of await releaseDroppedRecords(resourceId, seenRecordKeys)) {
+          await enqueueResourceProcess(newPrimary, { force: true });
+          logger.info({ resourceId, newPrimary }, "[Worker] Dropped records moved to another resource, re-ingesting it");
+        }
+      } else {
+        logger.warn({ resourceId, embeddingErrors }, "[Worker] Embedding errors — stale points kept");
+      }
+
+      // Compare field names/types/fill rates with the dataset's last profile
+      if (dataset) {
+        try {
+          await recordSchemaProfile(
+            { datasetId: dataset.id, datasetSlug: dataset.slug, resourceId },
+            profiler.build(),
+          );
+        } catch (error: any) {
+          logger.warn({ resourceId, err: String(error) }, "[Worker] Schema profiling failed");
+        }
+      }
+
+      await updateResourceStatus(resourceId, "embedded", {
+        processedAt: new Date(),
+        embeddedAt: new Date(),
+        recordCount,
+        chunkCount,
+        entityCount,
+        relationshipCount,
+        contentHash,
+        ingestedRevision: resource.remoteRevision,
       });
-    }
 
-    logger.info({ resourceId, duration, records: data.length }, "[Worker] Resource processed");
+      await job.updateProgress(100);
+
+      const duration = Date.now() - startTime;
+      if (logId) {
+        const notes = [
+          ...(duplicateRecords > 0 ? [`skipped ${duplicateRecords} duplicate records`] : []),
+          ...(quality ? [describeQuarantine(quality, chunkCount + quality.quarantinedChunks)] : []),
+        ];
+        await updateLog(logId, {
+          status: quality ? "warning" : "completed",
+          recordsProcessed: recordCount,
+          chunksGenerated: chunkCount,
+          entitiesExtracted: entityCount,
+          relationshipsExtracted: relationshipCount,
+          embeddingsGenerated: embeddingsStored,
+          durationMs: duration,
+          ...(notes.length > 0 ? { details: `Processed resource ${resource.name} — ${notes.join("; ")}` } : {}),
+        });
+      }
+
+      logger.info(
+        { resourceId, duration, records: recordCount, duplicates: duplicateRecords, quarantined: quality?.quarantinedChunks ?? 0 },
+        "[Worker] Resource processed"
+      );
+    } finally {
+      await cleanupDownload(download);
+    }
   } catch (error: any) {
     await updateResourceStatus(resourceId, "error", { errorMessage: error.message });
     if (logId) {
@@ -123,15 +215,25 @@ async function handleResourceProcess(job: Job<ResourceProcessJob>): Promise<void
 }
 
 async function handleDocumentProcess(job: Job<DocumentProcessJob>): Promise<void> {
-  const { documentId } = job.data;
+  const { documentId, chunking } = job.data;
   const doc = await getDocumentById(documentId);
   if (!doc) throw new Error(`Document not found: ${documentId}`);
 
   await job.updateProgress(10);
-  if (!doc.fileUrl) {
+  // Signed URLs expire after an hour; re-sign from the storage key when there is one
+  const fileUrl = doc.fileKey ? (await storageGet(doc.fileKey)).url : doc.fileUrl;
+  if (!fileUrl) {
     throw new Error(`Document ${documentId} has no fileUrl — upload may have failed`);
   }
-  const response = await fetch(doc.fileUrl);
+
+  if (detectDocumentFormat(doc.mimeType, doc.filename) === "zip") {
+    const { documentIds } = await processArchive(doc, fileUrl, { chunking });
+    await job.updateProgress(100);
+    logger.info({ documentId, documents: documentIds.length }, "[Worker] Archive expanded");
+    return;
+  }
+
+  const response = await fetch(fileUrl);
   if (!response.ok) {
     throw new Error(`Failed to fetch document ${documentId}: HTTP ${response.status} ${response.statusText}`);
   }
@@ -139,12 +241,19 @@ async function handleDocumentProcess(job: Job<DocumentProcessJob>): Promise<void
 
   await job.updateProgress(30);
   const collectionName = `doc_${documentId}`;
-  await processDocumentService(documentId, buffer, doc.mimeType, doc.filename, collectionName);
+  await processDocumentService(documentId, buffer, doc.mimeType, doc.filename, collectionName, {
+    chunking,
+    extractEntities: doc.extractEntities,
+  });
   await job.updateProgress(100);
 
   logger.info({ documentId }, "[Worker] Document processed");
 }
 
+async function handleScheduledSync(job: Job<ScheduledSyncJob>): Promise<void> {
+  await runScheduledSync(job.data.scheduleId);
+}
+
 export function startWorkers(): void {
   const connection = getRedisConnection();
   if (!connection) {
@@ -170,8 +279,17 @@ export function startWorkers(): void {
     logger.error({ jobId: job?.id, err: String(err) }, "[Worker] Document job failed");
   });
 
-  _workers = [resourceWorker, documentWorker];
-  logger.info("[Worker] BullMQ workers started (resource: concurrency=1, document: concurrency=2)");
+  const scheduleWorker = new Worker<ScheduledSyncJob>(
+    QUEUE_NAMES.SCHEDULED_SYNC,
+    handleScheduledSync,
+    { connection: connection as any, concurrency: 1 },
+  );
+  scheduleWorker.on("failed", (job, err) => {
+    logger.error({ jobId: job?.id, err: String(err) }, "[Worker] Scheduled sync job failed");
+  });
+
+  _workers = [resourceWorker, documentWorker, scheduleWorker];
+  logger.info("[Worker] BullMQ workers started (resource: concurrency=1, document: concurrency=2, schedule: concurrency=1)");
 }
 
 export async function stopWorkers(): Promise<void> {
@@ -0,0 +1,160 @@
+import { vi, describe, it, expect, beforeEach } from "vitest";
+
+vi.mock("./db", () => ({
+  getRecordsByKeys: vi.fn(),
+  getRecordsByResource: vi.fn(),
+  createRecord: vi.fn(),
+  updateRecordSources: vi.fn(),
+  deleteRecord: vi.fn(),
+}));
+
+import { createHash } from "crypto";
+import { dedupeChunks, releaseDroppedRecords } from "./record-dedup";
+import { getRecordsByKeys, getRecordsByResource, createRecord, updateRecordSources, deleteRecord } from "./db";
+import type { TextChunk } from "./chunker";
+
+const mockGetRecords = vi.mocked(getRecordsByKeys);
+const mockCreateRecord = vi.mocked(createRecord);
+const mockUpdateSources = vi.mocked(updateRecordSources);
+
+function chunk(recordKey: string | undefined, index = 0, extra: Record<string, any> = {}): TextChunk {
+  return {
+    text: `chunk ${recordKey} ${index}`,
+    index,
+    metadata: {
+      ...(recordKey ? { recordKey, canonicalId: `RESP|${recordKey}|2024-01-10` } : {}),
+      processo: `REsp ${recordKey}`,
+      chunkIndex: index,
+      source: "stj",
+      datasetSlug: "integras",
+      ...extra,
+    },
+  };
+}
+
+/** Length and hash a copy made of `texts` is stored with */
+function copyOf(...texts: string[]) {
+  const text = texts.join("\n");
+  return { textLength: text.length, contentHash: createHash("sha256").update(text).digest("hex") };
+}
+
+/** Existing row whose primary copy has the same text as `chunk(recordKey, 0)` */
+function existingRecord(recordKey: string, primaryResourceId: string, extra: Record<string, any> = {}) {
+  return {
+    id: 7, recordKey, canonicalId: `RESP|${recordKey}|2024-01-10`, processo: `REsp ${recordKey}`, classe: null,
+    dataJulgamento: "2024-01-10", primaryResourceId, ...copyOf(`chunk ${recordKey} 0`),
+    resourceIds: [primaryResourceId], datasetSlugs: ["turma"],
+    metadata: { processo: `REsp ${recordKey}` }, createdAt: new Date(), updatedAt: new Date(), ...extra,
+  };
+}
+
+const source = { resourceId: "res-b", datasetSlug: "integras" };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockGetRecords.mockResolvedValue([]);
+});
+
+describe("dedupeChunks", () => {
+  it("registers new records and keeps all their chunks", async () => {
+    const chunks = [chunk("1", 0), chunk("1", 1), chunk("2", 0)];
+
+    const result = await dedupeChunks(chunks, source);
+
+    expect(result).toEqual({ chunks, newRecords: 2, duplicates: 0 });
+    expect(mockGetRecords).toHaveBeenCalledWith(["1", "2"]);
+    expect(mockCreateRecord).toHaveBeenCalledTimes(2);
+    expect(mockCreateRecord).toHaveBeenCalledWith(expect.objectContaining({
+      recordKey: "1", primaryResourceId: "res-b", resourceIds: ["res-b"], datasetSlugs: ["integras"],
+      metadata: { processo: "REsp 1" }, ...copyOf("chunk 1 0", "chunk 1 1"),
+    }));
+  });
+
+  it("skips identical copies already ingested from another resource and merges the source", async () => {
+    mockGetRecords.mockResolvedValue([existingRecord("1", "res-a", { metadata: { processo: "REsp 1", relator: "Min. X" } })]);
+
+    const result = await dedupeChunks([chunk("1", 0, { tipoDocumento: "ACÓRDÃO" }), chunk("2", 0)], source);
+
+    expect(result.chunks.map(c => c.metadata.recordKey)).toEqual(["2"]);
+    expect(result.duplicates).toBe(1);
+    expect(mockUpdateSources).toHaveBeenCalledWith(7, {
+      resourceIds: ["res-a", "res-b"],
+      datasetSlugs: ["turma", "integras"],
+      metadata: { processo: "REsp 1", relator: "Min. X", tipoDocumento: "ACÓRDÃO" },
+    });
+  });
+
+  it("keeps records when reprocessing their primary resource", async () => {
+    mockGetRecords.mockResolvedValue([existingRecord("1", "res-b")]);
+
+    const result = await dedupeChunks([chunk("1")], source);
+
+    expect(result.chunks).toHaveLength(1);
+    expect(result.duplicates).toBe(0);
+    expect(mockCreateRecord).not.toHaveBeenCalled();
+  });
+
+  it("makes a longer copy (an íntegra after its espelho) the primary and keeps it", async () => {
+    mockGetRecords.mockResolvedValue([existingRecord("1", "res-a", { metadata: { processo: "REsp 1", relator: "Min. X" } })]);
+    const chunks = [chunk("1", 0), chunk("1", 1, { relator: "Min. Y" })];
+
+    const result = await dedupeChunks(chunks, source);
+
+    expect(result.chunks).toEqual(chunks);
+    expect(result.duplicates).toBe(0);
+    expect(mockUpdateSources).toHaveBeenCalledWith(7, expect.objectContaining({
+      primaryResourceId: "res-b", ...copyOf("chunk 1 0", "chunk 1 1"),
+      metadata: { processo: "REsp 1", relator: "Min. X" },
+    }));
+  });
+
+  it("keeps a shorter copy whose text differs without taking over as primary", async () => {
+    mockGetRecords.mockResolvedValue([existingRecord("1", "res-a", copyOf("uma versão bem mais longa do texto"))]);
+
+    const result = await dedupeChunks([chunk("1")], source);
+
+    expect(result.chunks).toHaveLength(1);
+    expect(mockUpdateSources.mock.calls[0][1]).not.toHaveProperty("primaryResourceId");
+  });
+
+  it("drops records already seen in an earlier batch of the same run", async () => {
+    const seen = new Set<string>();
+    await dedupeChunks([chunk("1")], source, seen);
+    mockGetRecords.mockResolvedValue([existingRecord("1", "res-b")]);
+
+    const result = await dedupeChunks([chunk("1")], source, seen);
+
+    expect(result.chunks).toEqual([]);
+    expect(result.duplicates).toBe(1);
+  });
+
+  it("passes through chunks without a record key", async () => {
+    const chunks = [chunk(undefined)];
+
+    const result = await dedupeChunks(chunks, source);
+
+    expect(result.chunks).toEqual(chunks);
+    expect(mockGetRecords).toHaveBeenCalledWith([]);
+  });
+});
+
+describe("releaseDroppedRecords", () => {
+  it("moves records the primary dropped to another source and forgets the resource elsewhere", async () => {
+    vi.mocked(getRecordsByResource).mockResolvedValue([
+      existingRecord("1", "res-a", { id: 1, resourceIds: ["res-a", "res-b"] }),
+      existingRecord("2", "res-b", { id: 2, resourceIds: ["res-b", "res-a"] }),
+      existingRecord("3", "res-a", { id: 3, resourceIds: ["res-a"] }),
+      existingRecord("4", "res-a", { id: 4, resourceIds: ["res-a", "res-c"] }),
+    ] as any);
+
+    const reingest = await releaseDroppedRecords("res-a", new Set(["4"]));
+
+    expect(reingest).toEqual(["res-b"]);
+    expect(mockUpdateSources).toHaveBeenCalledWith(1, {
+      resourceIds: ["res-b"], primaryResourceId: "res-b", textLength: 0, contentHash: null,
+    });
+    expect(mockUpdateSources).toHaveBeenCalledWith(2, { resourceIds: ["res-b"] });
+    expect(deleteRecord).toHaveBeenCalledWith(3);
+    expect(mockUpdateSources).not.toHaveBeenCalledWith(4, expect.anything());
+  });
+});
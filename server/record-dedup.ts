@@ -0,0 +1,149 @@
+/**
+ * Record Deduplication - The same acórdão can be published in a turma dataset and
+ * in the íntegras dataset. Each canonical record (see canonicalRecordIdentity) has a
+ * primary resource holding its fullest copy. Copies with the same text elsewhere are
+ * skipped and merged into the `records` row as extra sources; a copy with other text
+ * is embedded too, and becomes the primary when it is longer (an íntegra ingested
+ * after its espelho). When the primary stops publishing the record, ownership moves
+ * to another resource that still has it (see releaseDroppedRecords).
+ */
+import { createHash } from "crypto";
+import type { TextChunk } from "./chunker";
+import {
+  getRecordsByKeys, getRecordsByResource, createRecord, updateRecordSources, deleteRecord,
+} from "./db";
+
+export interface DedupSource {
+  resourceId: string;
+  datasetSlug: string;
+}
+
+export interface DedupResult {
+  /** Chunks still to be extracted and embedded */
+  chunks: TextChunk[];
+  /** Records seen for the first time */
+  newRecords: number;
+  /** Records already ingested with the same text from another resource (or earlier in this one) */
+  duplicates: number;
+}
+
+/** Length and SHA-256 of the text of one copy of a record (its chunks in order) */
+function fingerprint(chunks: TextChunk[]): { textLength: number; contentHash: string } {
+  const text = chunks.map(c => c.text).join("\n");
+  return { textLength: text.length, contentHash: createHash("sha256").update(text).digest("hex") };
+}
+
+/** Metadata keys that describe the chunk or the source rather than the record */
+const SOURCE_METADATA_KEYS = new Set(["chunkIndex", "source", "datasetSlug", "resourceName", "recordKey", "canonicalId"]);
+
+function recordMetadata(metadata: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(metadata).filter(([key]) => !SOURCE_METADATA_KEYS.has(key)));
+}
+
+function withItem(list: string[], item: string): string[] {
+  return list.includes(item) ? list : [...list, item];
+}
+
+/**
+ * Drop the chunks of records already ingested with the same text and register this
+ * resource as a source of every record in the batch. `seenKeys` carries the record
+ * keys of earlier batches of the same run, so a record repeated inside one resource
+ * is embedded once as well. Chunks without a recordKey are always kept.
+ */
+export async function dedupeChunks(
+  chunks: TextChunk[],
+  source: DedupSource,
+  seenKeys: Set<string> = new Set(),
+): Promise<DedupResult> {
+  const chunksByKey = new Map<string, TextChunk[]>();
+  for (const chunk of chunks) {
+    const key = chunk.metadata.recordKey;
+    if (!key) continue;
+    const list = chunksByKey.get(key);
+    if (list) list.push(chunk);
+    else chunksByKey.set(key, [chunk]);
+  }
+
+  const existing = new Map((await getRecordsByKeys(Array.from(chunksByKey.keys()))).map(r => [r.recordKey, r]));
+  const keep = new Set<string>();
+  let newRecords = 0;
+  let duplicates = 0;
+
+  for (const [key, recordChunks] of Array.from(chunksByKey.entries())) {
+    if (seenKeys.has(key)) {
+      duplicates++;
+      continue;
+    }
+    seenKeys.add(key);
+
+    const chunk = recordChunks[0];
+    const metadata = recordMetadata(chunk.metadata);
+    const copy = fingerprint(recordChunks);
+    const row = existing.get(key);
+    if (!row) {
+      await createRecord({
+        recordKey: key,
+        canonicalId: chunk.metadata.canonicalId,
+        processo: metadata.processo,
+        classe: metadata.classe,
+        dataJulgamento: metadata.dataJulgamento,
+        primaryResourceId: source.resourceId,
+        ...copy,
+        resourceIds: [source.resourceId],
+        datasetSlugs: [source.datasetSlug],
+        metadata,
+      });
+      keep.add(key);
+      newRecords++;
+      continue;
+    }
+
+    // Reprocessing the primary re-embeds its copy; a longer copy elsewhere takes over as primary
+    const isPrimary = row.primaryResourceId === source.resourceId;
+    const promote = !isPrimary && copy.textLength > row.textLength;
+    if (isPrimary || copy.contentHash !== row.contentHash) {
+      keep.add(key);
+    } else {
+      duplicates++;
+    }
+    // Field values of the primary copy win
+    const rowMetadata = row.metadata as Record<string, any> | null;
+    await updateRecordSources(row.id, {
+      resourceIds: withItem(row.resourceIds, source.resourceId),
+      datasetSlugs: withItem(row.datasetSlugs, source.datasetSlug),
+      metadata: promote ? { ...rowMetadata, ...metadata } : { ...metadata, ...rowMetadata },
+      ...(isPrimary || promote ? { primaryResourceId: source.resourceId, ...copy } : {}),
+    });
+  }
+
+  return {
+    chunks: chunks.filter(c => !c.metadata.recordKey || keep.has(c.metadata.recordKey)),
+    newRecords,
+    duplicates,
+  };
+}
+
+/**
+ * After a complete run of `resourceId`, forget it as a source of the records it no
+ * longer contains (`seenKeys` holds every record key of the run). Records it was the
+ * primary of move to another resource that still lists them, and rows left without
+ * sources are deleted. Returns the new primaries, which must be re-ingested: they
+ * skipped those records as duplicates and the old primary's points are being pruned.
+ */
+export async function releaseDroppedRecords(resourceId: string, seenKeys: Set<string>): Promise<string[]> {
+  const reingest = new Set<string>();
+  for (const row of await getRecordsByResource(resourceId)) {
+    if (seenKeys.has(row.recordKey)) continue;
+    const resourceIds = row.resourceIds.filter(id => id !== resourceId);
+    if (resourceIds.length === 0) {
+      await deleteRecord(row.id);
+    } else if (row.primaryResourceId === resourceId) {
+      reingest.add(resourceIds[0]);
+      // The new primary records its own copy's length and hash when it is re-ingested
+      await updateRecordSources(row.id, { resourceIds, primaryResourceId: resourceIds[0], textLength: 0, contentHash: null });
+    } else {
+      await updateRecordSources(row.id, { resourceIds });
+    }
+  }
+  return Array.from(reingest);
+}
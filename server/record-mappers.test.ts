@@ -0,0 +1,181 @@
+import { describe, it, expect } from "vitest";
+import {
+  getRecordMapper, registerRecordMapper, cleanText, normalizeDate, ufFromProcesso,
+  espelhoAcordaoMapper, ataDistribuicaoMapper, integraDecisaoMapper, genericMapper,
+  canonicalRecordIdentity,
+} from "./record-mappers";
+import { processSTJRecords } from "./chunker";
+
+describe("getRecordMapper", () => {
+  it("resolves exact slugs, slug prefixes and the generic fallback", () => {
+    expect(getRecordMapper("atas-de-distribuicao")).toBe(ataDistribuicaoMapper);
+    expect(getRecordMapper("espelhos-de-acordaos-sexta-turma")).toBe(espelhoAcordaoMapper);
+    expect(getRecordMapper("integras-de-decisoes-terminativas-e-acordaos-do-diario-da-justica")).toBe(integraDecisaoMapper);
+    expect(getRecordMapper("dataset-desconhecido")).toBe(genericMapper);
+    expect(getRecordMapper(undefined)).toBe(genericMapper);
+  });
+
+  it("prefers registered exact slugs over prefixes", () => {
+    const custom = { name: "custom", map: () => ({ text: "x", metadata: {} }) };
+    registerRecordMapper("espelhos-de-acordaos-teste", custom);
+    expect(getRecordMapper("espelhos-de-acordaos-teste")).toBe(custom);
+    expect(getRecordMapper("espelhos-de-acordaos-quinta-turma")).toBe(espelhoAcordaoMapper);
+  });
+});
+
+describe("field helpers", () => {
+  it("cleans HTML and whitespace", () => {
+    expect(cleanText("<p>Vistos.&nbsp;Decido:</p><br/>  Nego   provimento.")).toBe("Vistos. Decido:\nNego provimento.");
+  });
+
+  it("normalizes common STJ date formats", () => {
+    expect(normalizeDate("15/03/2024")).toBe("2024-03-15");
+    expect(normalizeDate("20240315")).toBe("2024-03-15");
+    expect(normalizeDate("2024-03-15T00:00:00")).toBe("2024-03-15");
+    expect(normalizeDate("")).toBeUndefined();
+  });
+
+  it("extracts the UF from a process label", () => {
+    expect(ufFromProcesso("AREsp 2.345.678/RS")).toBe("RS");
+    expect(ufFromProcesso("HC 123456")).toBeUndefined();
+  });
+});
+
+describe("espelhoAcordaoMapper", () => {
+  it("maps the STJ open-data field names", () => {
+    const { text, metadata } = espelhoAcordaoMapper.map({
+      id: "000123",
+      numeroProcesso: "REsp 1.234.567/SP",
+      siglaClasse: "REsp",
+      nomeOrgaoJulgador: "TERCEIRA TURMA",
+      ministroRelator: "NANCY ANDRIGHI",
+      dataDecisao: "20240312",
+      dataPublicacao: "15/03/2024",
+      ementa: "RECURSO ESPECIAL. DIREITO DO CONSUMIDOR.",
+      termosAuxiliares: "DANO MORAL",
+    });
+    expect(metadata).toMatchObject({
+      recordId: "000123",
+      processo: "REsp 1.234.567/SP",
+      classe: "REsp",
+      uf: "SP",
+      orgaoJulgador: "TERCEIRA TURMA",
+      relator: "NANCY ANDRIGHI",
+      dataJulgamento: "2024-03-12",
+      dataPublicacao: "2024-03-15",
+      palavrasChave: "DANO MORAL",
+    });
+    expect(text).toContain("EMENTA: RECURSO ESPECIAL. DIREITO DO CONSUMIDOR.");
+  });
+});
+
+describe("ataDistribuicaoMapper", () => {
+  it("yields classe, UF, distribution date and órgão", () => {
+    const { text, metadata } = ataDistribuicaoMapper.map({
+      numeroProcesso: "AREsp 2.345.678",
+      descricaoClasse: "AGRAVO EM RECURSO ESPECIAL",
+      siglaUf: "RS",
+      dataDistribuicao: "02/05/2024",
+      nomeOrgaoJulgador: "QUARTA TURMA",
+      ministro: "ANTONIO CARLOS FERREIRA",
+      tipoDistribuicao: "Prevenção",
+      assunto: ["Contratos Bancários", "Juros"],
+    });
+    expect(metadata).toMatchObject({
+      processo: "AREsp 2.345.678",
+      classe: "AGRAVO EM RECURSO ESPECIAL",
+      uf: "RS",
+      dataDistribuicao: "2024-05-02",
+      orgaoJulgador: "QUARTA TURMA",
+      relator: "ANTONIO CARLOS FERREIRA",
+      tipoDistribuicao: "Prevenção",
+    });
+    expect(text).toContain("Assunto: Contratos Bancários; Juros");
+  });
+
+  it("falls back to the UF in the process label", () => {
+    expect(ataDistribuicaoMapper.map({ processo: "HC 900.000/MG" }).metadata.uf).toBe("MG");
+  });
+});
+
+describe("integraDecisaoMapper", () => {
+  it("uses the cleaned full text without dumping unrelated fields", () => {
+    const { text, metadata } = integraDecisaoMapper.map({
+      seqDocumento: 987654,
+      processo: "REsp 1.999.999/PR",
+      tipoDocumento: "DECISÃO MONOCRÁTICA",
+      ministro: "HERMAN BENJAMIN",
+      dataPublicacao: "2024-06-01",
+      teor: "<p>Vistos.</p><p>Trata-se de recurso especial interposto contra acórdão do TJPR.</p>",
+      urlDocumento: "https://processo.stj.jus.br/processo/dj/documento/mediado/?seq_documento=987654&data_pesquisa=01/06/2024",
+    });
+    expect(metadata).toMatchObject({
+      recordId: "987654",
+      processo: "REsp 1.999.999/PR",
+      uf: "PR",
+      tipoDocumento: "DECISÃO MONOCRÁTICA",
+      relator: "HERMAN BENJAMIN",
+      dataPublicacao: "2024-06-01",
+    });
+    expect(text).toContain("INTEIRO TEOR: Vistos.\nTrata-se de recurso especial");
+    expect(text).not.toContain("<p>");
+    expect(text).not.toContain("urlDocumento");
+  });
+});
+
+describe("canonicalRecordIdentity", () => {
+  it("matches the same decision across espelhos and íntegras", () => {
+    const espelho = espelhoAcordaoMapper.map({
+      processo: "AgInt no AREsp 2.345.678/RS", siglaClasse: "AgInt no AREsp", dataDecisao: "12/03/2024",
+    });
+    const integra = integraDecisaoMapper.map({
+      processo: "AgInt no AREsp 2345678 / RS", recurso: "AGRAVO INTERNO", dataJulgamento: "20240312",
+    });
+
+    const a = canonicalRecordIdentity(espelho.metadata);
+    const b = canonicalRecordIdentity(integra.metadata);
+    expect(a).toEqual({ canonicalId: "AGINT NO ARESP|2345678|2024-03-12", recordKey: expect.stringMatching(/^[0-9a-f]{64}$/) });
+    expect(b?.recordKey).toBe(a?.recordKey);
+  });
+
+  it("distinguishes class and judgment date", () => {
+    const base = canonicalRecordIdentity({ processo: "REsp 1.234.567/SP", dataJulgamento: "2024-01-10" });
+    expect(canonicalRecordIdentity({ processo: "EDcl no REsp 1.234.567/SP", dataJulgamento: "2024-01-10" })?.recordKey)
+      .not.toBe(base?.recordKey);
+    expect(canonicalRecordIdentity({ processo: "REsp 1.234.567/SP", dataJulgamento: "2024-05-02" })?.recordKey)
+      .not.toBe(base?.recordKey);
+  });
+
+  it("falls back to the classe field when the label has no class", () => {
+    expect(canonicalRecordIdentity({ processo: "1234567", classe: "REsp", dataJulgamento: "2024-01-10" })?.canonicalId)
+      .toBe("RESP|1234567|2024-01-10");
+  });
+
+  it("returns null without a process number or judgment date", () => {
+    expect(canonicalRecordIdentity({ processo: "REsp 1/SP" })).toBeNull();
+    expect(canonicalRecordIdentity({ classe: "REsp", dataJulgamento: "2024-01-10" })).toBeNull();
+  });
+});
+
+describe("processSTJRecords with dataset mappers", () => {
+  it("stores mapper metadata on every chunk", () => {
+    const { chunks } = processSTJRecords(
+      [{ numeroProcesso: "AREsp 1/SP", dataDistribuicao: "01/02/2024", nomeOrgaoJulgador: "PRIMEIRA TURMA" }],
+      "atas-de-distribuicao",
+      "ata.json",
+    );
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].metadata).toMatchObject({
+      processo: "AREsp 1/SP", uf: "SP", dataDistribuicao: "2024-02-01", datasetSlug: "atas-de-distribuicao",
+    });
+  });
+
+  it("tags chunks with the record key and skips repeated records", () => {
+    const record = { processo: "REsp 1.234.567/SP", dataDecisao: "10/01/2024", ementa: "Ementa." };
+    const { chunks } = processSTJRecords([record, { ...record }], "espelhos-de-acordaos-primeira-turma", "a.json");
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].metadata).toMatchObject({
+      canonicalId: "RESP|1234567|2024-01-10", recordKey: expect.stringMatching(/^[0-9a-f]{64}$/),
+    });
+  });
+});
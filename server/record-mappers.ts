@@ -0,0 +1,340 @@
+/**
+ * Record Mappers - Per-dataset mapping of raw STJ records to embeddable text + metadata.
+ * Each STJ dataset family has its own schema: espelhos de acórdãos, atas de distribuição
+ * and íntegras de decisões. Mappers are looked up by dataset slug (exact or prefix match).
+ */
+import { createHash } from "crypto";
+
+/** Normalized metadata shared by all mappers (stored on every chunk) */
+export interface RecordMetadata {
+  recordId?: string;
+  processo?: string;
+  classe?: string;
+  uf?: string;
+  relator?: string;
+  orgaoJulgador?: string;
+  dataJulgamento?: string;
+  dataPublicacao?: string;
+  dataDistribuicao?: string;
+  tipoDocumento?: string;
+  [key: string]: any;
+}
+
+export interface MappedRecord {
+  text: string;
+  metadata: RecordMetadata;
+}
+
+export interface RecordMapper<T = Record<string, any>> {
+  name: string;
+  map(record: T): MappedRecord;
+}
+
+/** Espelhos de acórdãos (jurisprudência por órgão julgador) */
+export interface EspelhoAcordaoRecord {
+  id?: string | number;
+  numeroProcesso?: string;
+  numeroRegistro?: string;
+  processo?: string;
+  siglaClasse?: string;
+  descricaoClasse?: string;
+  classe?: string;
+  nomeOrgaoJulgador?: string;
+  orgaoJulgador?: string;
+  ministroRelator?: string;
+  relator?: string;
+  dataDecisao?: string;
+  dataJulgamento?: string;
+  dataPublicacao?: string;
+  ementa?: string;
+  tipoDeDecisao?: string;
+  decisao?: string;
+  acordao?: string;
+  teseJuridica?: string;
+  tema?: string;
+  ramo?: string;
+  jurisprudenciaCitada?: string;
+  referenciasLegislativas?: string | string[];
+  palavrasChave?: string | string[];
+  termosAuxiliares?: string;
+  notas?: string;
+  informacoesComplementares?: string;
+}
+
+/** Atas de distribuição (processos distribuídos por sessão) */
+export interface AtaDistribuicaoRecord {
+  id?: string | number;
+  numeroProcesso?: string;
+  numeroRegistro?: string;
+  processo?: string;
+  siglaClasse?: string;
+  descricaoClasse?: string;
+  classe?: string;
+  uf?: string;
+  siglaUf?: string;
+  ufOrigem?: string;
+  dataDistribuicao?: string;
+  dataAta?: string;
+  nomeOrgaoJulgador?: string;
+  orgaoJulgador?: string;
+  ministroRelator?: string;
+  relator?: string;
+  ministro?: string;
+  tipoDistribuicao?: string;
+  assunto?: string | string[];
+  tribunalOrigem?: string;
+}
+
+/** Íntegras de decisões terminativas e acórdãos do Diário da Justiça */
+export interface IntegraDecisaoRecord {
+  seqDocumento?: string | number;
+  id?: string | number;
+  processo?: string;
+  numeroProcesso?: string;
+  numeroRegistro?: string;
+  siglaClasse?: string;
+  classe?: string;
+  recurso?: string;
+  tipoDocumento?: string;
+  ministro?: string;
+  relator?: string;
+  nomeOrgaoJulgador?: string;
+  orgaoJulgador?: string;
+  dataJulgamento?: string;
+  dataDecisao?: string;
+  dataPublicacao?: string;
+  dataRecebimento?: string;
+  dataDistribuicao?: string;
+  assuntos?: string | string[];
+  descricaoMonocratica?: string;
+  teor?: string;
+  textoIntegral?: string;
+}
+
+// ─── Field helpers ───────────────────────────────────────────────────────────
+
+/** Strip HTML tags/entities and collapse whitespace */
+export function cleanText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return String(value)
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/p>/gi, "\n")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .trim();
+}
+
+/** Normalize "dd/mm/yyyy", "yyyymmdd" and ISO timestamps to "yyyy-mm-dd"; other values are returned as-is */
+export function normalizeDate(value: unknown): string | undefined {
+  const text = cleanText(value);
+  if (!text) return undefined;
+  let match = text.match(/^(\d{2})\/(\d{2})\/(\d{4})/);
+  if (match) return `${match[3]}-${match[2]}-${match[1]}`;
+  match = text.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+  match = text.match(/^(\d{4}-\d{2}-\d{2})/);
+  if (match) return match[1];
+  return text;
+}
+
+/** UF suffix of an STJ process label ("REsp 1.234.567/SP" → "SP") */
+export function ufFromProcesso(processo: string | undefined): string | undefined {
+  return processo?.match(/\/\s*([A-Z]{2})\b/)?.[1];
+}
+
+/** First non-empty value among the given fields, cleaned */
+function pick(record: Record<string, any>, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = cleanText(record[key]);
+    if (value) return value;
+  }
+  return undefined;
+}
+
+function joinList(value: unknown, separator: string): string | undefined {
+  if (Array.isArray(value)) {
+    const items = value.map(cleanText).filter(Boolean);
+    return items.length > 0 ? items.join(separator) : undefined;
+  }
+  return cleanText(value) || undefined;
+}
+
+/** Collects labelled text sections and metadata, skipping empty values */
+class RecordBuilder {
+  private sections: string[] = [];
+  readonly metadata: RecordMetadata = {};
+
+  field(label: string, value: string | undefined, metaKey?: keyof RecordMetadata): this {
+    if (!value) return this;
+    this.sections.push(`${label}: ${value}`);
+    if (metaKey) this.metadata[metaKey] = value;
+    return this;
+  }
+
+  meta(key: keyof RecordMetadata, value: string | undefined): this {
+    if (value) this.metadata[key] = value;
+    return this;
+  }
+
+  build(): MappedRecord {
+    return { text: this.sections.join("\n\n"), metadata: this.metadata };
+  }
+}
+
+// ─── Mappers ─────────────────────────────────────────────────────────────────
+
+export const espelhoAcordaoMapper: RecordMapper<EspelhoAcordaoRecord> = {
+  name: "espelho-acordao",
+  map(record) {
+    const processo = pick(record, "processo", "numeroProcesso");
+    const builder = new RecordBuilder()
+      .meta("recordId", pick(record, "id", "numeroRegistro"))
+      .field("Processo", processo, "processo")
+      .field("Classe", pick(record, "classe", "siglaClasse", "descricaoClasse"), "classe")
+      .meta("uf", ufFromProcesso(processo))
+      .field("Relator", pick(record, "relator", "ministroRelator"), "relator")
+      .field("Órgão Julgador", pick(record, "orgaoJulgador", "nomeOrgaoJulgador"), "orgaoJulgador")
+      .field("Data do Julgamento", normalizeDate(record.dataJulgamento ?? record.dataDecisao), "dataJulgamento")
+      .field("Data da Publicação", normalizeDate(record.dataPublicacao), "dataPublicacao")
+      .field("EMENTA", pick(record, "ementa"))
+      .field("DECISÃO", pick(record, "decisao"))
+      .field("ACÓRDÃO", pick(record, "acordao"))
+      .field("Tese Jurídica", pick(record, "teseJuridica"))
+      .field("Tema", pick(record, "tema"), "tema")
+      .field("Ramo do Direito", pick(record, "ramo"), "ramo")
+      .field("Referências Legislativas", joinList(record.referenciasLegislativas, "; "), "referenciasLegislativas")
+      .field("Jurisprudência Citada", pick(record, "jurisprudenciaCitada"))
+      .field("Palavras-chave", joinList(record.palavrasChave, ", ") ?? pick(record, "termosAuxiliares"), "palavrasChave")
+      .field("Notas", pick(record, "notas"))
+      .field("Informações Complementares", pick(record, "informacoesComplementares"));
+    return builder.build();
+  },
+};
+
+export const ataDistribuicaoMapper: RecordMapper<AtaDistribuicaoRecord> = {
+  name: "ata-distribuicao",
+  map(record) {
+    const processo = pick(record, "processo", "numeroProcesso");
+    return new RecordBuilder()
+      .meta("recordId", pick(record, "id", "numeroRegistro"))
+      .field("Processo", processo, "processo")
+      .field("Classe", pick(record, "classe", "descricaoClasse", "siglaClasse"), "classe")
+      .field("UF", pick(record, "uf", "siglaUf", "ufOrigem") ?? ufFromProcesso(processo), "uf")
+      .field("Data da Distribuição", normalizeDate(record.dataDistribuicao ?? record.dataAta), "dataDistribuicao")
+      .field("Órgão Julgador", pick(record, "orgaoJulgador", "nomeOrgaoJulgador"), "orgaoJulgador")
+      .field("Relator", pick(record, "relator", "ministroRelator", "ministro"), "relator")
+      .field("Tipo de Distribuição", pick(record, "tipoDistribuicao"), "tipoDistribuicao")
+      .field("Tribunal de Origem", pick(record, "tribunalOrigem"), "tribunalOrigem")
+      .field("Assunto", joinList(record.assunto, "; "), "assunto")
+      .build();
+  },
+};
+
+export const integraDecisaoMapper: RecordMapper<IntegraDecisaoRecord> = {
+  name: "integra-decisao",
+  map(record) {
+    const processo = pick(record, "processo", "numeroProcesso");
+    return new RecordBuilder()
+      .meta("recordId", pick(record, "seqDocumento", "id", "numeroRegistro"))
+      .field("Processo", processo, "processo")
+      .field("Classe", pick(record, "classe", "siglaClasse", "recurso"), "classe")
+      .meta("uf", ufFromProcesso(processo))
+      .field("Tipo de Documento", pick(record, "tipoDocumento"), "tipoDocumento")
+      .field("Relator", pick(record, "relator", "ministro"), "relator")
+      .field("Órgão Julgador", pick(record, "orgaoJulgador", "nomeOrgaoJulgador"), "orgaoJulgador")
+      .field("Data da Distribuição", normalizeDate(record.dataDistribuicao), "dataDistribuicao")
+      .field("Data do Julgamento", normalizeDate(record.dataJulgamento ?? record.dataDecisao), "dataJulgamento")
+      .field("Data da Publicação", normalizeDate(record.dataPublicacao), "dataPublicacao")
+      .field("Assuntos", joinList(record.assuntos, "; "), "assuntos")
+      .field("DECISÃO", pick(record, "descricaoMonocratica"))
+      .field("INTEIRO TEOR", pick(record, "teor", "textoIntegral"))
+      .build();
+  },
+};
+
+/**
+ * Fallback for unknown datasets: espelho fields plus any remaining long string
+ * field, so new datasets still produce searchable text before a mapper exists.
+ */
+export const genericMapper: RecordMapper = {
+  name: "generic",
+  map(record) {
+    const mapped = espelhoAcordaoMapper.map(record);
+    const sections = mapped.text ? [mapped.text] : [];
+    for (const [key, value] of Object.entries(record)) {
+      if (typeof value === "string" && value.length > 50 && !sections.some(s => s.includes(value.substring(0, 30)))) {
+        sections.push(`${key}: ${value}`);
+      }
+    }
+    return { text: sections.join("\n\n"), metadata: mapped.metadata };
+  },
+};
+
+// ─── Canonical identity ──────────────────────────────────────────────────────
+
+export interface RecordIdentity {
+  /** Readable canonical id, e.g. "AGINT NO ARESP|2345678|2024-03-12" */
+  canonicalId: string;
+  /** SHA-256 of canonicalId, the deduplication key */
+  recordKey: string;
+}
+
+function normalizeClassKey(value: string): string {
+  return value
+    .normalize("NFD").replace(/[\u0300-\u036f]/g, "")
+    .toUpperCase()
+    .replace(/[^A-Z0-9 ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Canonical identity of a decision across datasets: process number + class + judgment date.
+ * The class comes from the process label ("AgInt no AREsp 2.345.678/RS") when present, since
+ * labels are consistent across datasets while `classe` may be a sigla or a description.
+ * Returns null when any component is missing, so such records are never merged.
+ */
+export function canonicalRecordIdentity(metadata: RecordMetadata): RecordIdentity | null {
+  const processo = metadata.processo;
+  const date = metadata.dataJulgamento;
+  if (!processo || !date) return null;
+
+  const numberMatch = processo.match(/\d[\d.\-]*/);
+  const number = numberMatch?.[0].replace(/\D/g, "");
+  const labelClass = numberMatch ? processo.slice(0, numberMatch.index).trim() : "";
+  const classe = normalizeClassKey(labelClass || metadata.classe || "");
+  if (!number || !classe) return null;
+
+  const canonicalId = `${classe}|${number}|${date}`;
+  return { canonicalId, recordKey: createHash("sha256").update(canonicalId).digest("hex") };
+}
+
+// ─── Registry ────────────────────────────────────────────────────────────────
+
+/** Keyed by dataset slug; keys ending in "*" match slug prefixes */
+const RECORD_MAPPERS: Record<string, RecordMapper<any>> = {
+  "atas-de-distribuicao": ataDistribuicaoMapper,
+  "espelhos-de-acordaos-*": espelhoAcordaoMapper,
+  "integras-de-decisoes-terminativas-e-acordaos-do-diario-da-justica": integraDecisaoMapper,
+};
+
+/** Mapper for a dataset slug (exact match first, then longest prefix), falling back to the generic mapper */
+export function getRecordMapper(datasetSlug?: string | null): RecordMapper<any> {
+  if (!datasetSlug) return genericMapper;
+  if (RECORD_MAPPERS[datasetSlug]) return RECORD_MAPPERS[datasetSlug];
+  const prefix = Object.keys(RECORD_MAPPERS)
+    .filter(key => key.endsWith("*") && datasetSlug.startsWith(key.slice(0, -1)))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? RECORD_MAPPERS[prefix] : genericMapper;
+}
+
+/** Register (or override) the mapper for a dataset slug or "prefix-*" pattern */
+export function registerRecordMapper(slugOrPrefix: string, mapper: RecordMapper<any>): void {
+  RECORD_MAPPERS[slugOrPrefix] = mapper;
+}
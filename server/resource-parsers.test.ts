@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { crc32, deflateRawSync } from "zlib";
+import {
+  normalizeFieldName, normalizeResourceFormat, getResourceParser, registerResourceParser, SUPPORTED_FORMATS,
+  detectCsvDelimiter,
+} from "./resource-parsers";
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const item of iterable) out.push(item);
+  return out;
+}
+
+/** Build a minimal ZIP archive (deflated entries, no extras) */
+function buildZip(entries: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(entries)) {
+    const nameBuf = Buffer.from(name, "utf-8");
+    const raw = Buffer.from(content, "utf-8");
+    const data = deflateRawSync(raw);
+    const crc = crc32(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBuf.length, 26);
+    locals.push(local, nameBuf, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBuf.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBuf);
+
+    offset += local.length + nameBuf.length + data.length;
+  }
+  const centralDir = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(entries).length, 8);
+  end.writeUInt16LE(Object.keys(entries).length, 10);
+  end.writeUInt32LE(centralDir.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, centralDir, end]);
+}
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "resource-parsers-test-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("normalizeFieldName", () => {
+  it("camelCases accented, upper-case and snake_case headers", () => {
+    expect(normalizeFieldName("ÓRGÃO_JULGADOR")).toBe("orgaoJulgador");
+    expect(normalizeFieldName("Data de Publicação")).toBe("dataDePublicacao");
+    expect(normalizeFieldName("numeroProcesso")).toBe("numeroProcesso");
+    expect(normalizeFieldName("ementa")).toBe("ementa");
+  });
+});
+
+describe("normalizeResourceFormat", () => {
+  it("accepts CKAN formats and mime types", () => {
+    expect(normalizeResourceFormat("json")).toBe("JSON");
+    expect(normalizeResourceFormat("text/csv")).toBe("CSV");
+    expect(normalizeResourceFormat("application/zip")).toBe("ZIP");
+  });
+
+  it("falls back to the URL extension", () => {
+    expect(normalizeResourceFormat("", "https://x/atas.xml?download=1")).toBe("XML");
+  });
+
+  it("returns null for unsupported formats", () => {
+    expect(normalizeResourceFormat("PDF", "https://x/doc.pdf")).toBeNull();
+  });
+});
+
+describe("getResourceParser", () => {
+  it("parses ';'-delimited CSV with quoted newlines and a BOM", async () => {
+    const path = join(dir, "atas.csv");
+    await writeFile(path, "﻿Processo;Classe;Ementa\n\"REsp 1\";REsp;\"Linha 1\nLinha 2\"\n\"AREsp 2\";AREsp;\n");
+
+    const records = await collect(getResourceParser("CSV")(path));
+
+    expect(records).toEqual([
+      { processo: "REsp 1", classe: "REsp", ementa: "Linha 1\nLinha 2" },
+      { processo: "AREsp 2", classe: "AREsp" },
+    ]);
+  });
+
+  it("keeps unquoted commas inside fields of ';'-delimited CSV", async () => {
+    const path = join(dir, "espelhos.csv");
+    await writeFile(path, "Processo;Ementa\nREsp 1;PROCESSUAL CIVIL, AGRAVO INTERNO, RECURSO NÃO PROVIDO.\n");
+
+    const records = await collect(getResourceParser("CSV")(path));
+
+    expect(records).toEqual([{ processo: "REsp 1", ementa: "PROCESSUAL CIVIL, AGRAVO INTERNO, RECURSO NÃO PROVIDO." }]);
+  });
+
+  it("picks the delimiter the header line uses", () => {
+    expect(detectCsvDelimiter("processo;classe;ementa")).toBe(";");
+    expect(detectCsvDelimiter("processo,classe,ementa")).toBe(",");
+    expect(detectCsvDelimiter("processo")).toBe(",");
+  });
+
+  it("parses XML children of the root as records", async () => {
+    const path = join(dir, "espelhos.xml");
+    await writeFile(path, [
+      "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+      "<documentos>",
+      "  <documento id=\"1\"><processo>REsp 1</processo><ementa><![CDATA[Texto <b>livre</b>]]></ementa>",
+      "    <referenciaLegislativa>LEG:FED LEI 8.078</referenciaLegislativa>",
+      "    <referenciaLegislativa>LEG:FED LEI 10.406</referenciaLegislativa></documento>",
+      "  <documento id=\"2\"><processo>REsp 2</processo></documento>",
+      "</documentos>",
+    ].join("\n"));
+
+    const records = await collect(getResourceParser("xml")(path));
+
+    expect(records).toEqual([
+      {
+        id: "1",
+        processo: "REsp 1",
+        ementa: "Texto <b>livre</b>",
+        referenciaLegislativa: ["LEG:FED LEI 8.078", "LEG:FED LEI 10.406"],
+      },
+      { id: "2", processo: "REsp 2" },
+    ]);
+  });
+
+  it("parses every supported entry of a ZIP bundle", async () => {
+    const path = join(dir, "bundle.zip");
+    await writeFile(path, buildZip({
+      "parte1.json": JSON.stringify([{ processo: "REsp 1" }]),
+      "parte2.csv": "processo,classe\nREsp 2,REsp\n",
+      "LEIAME.txt": "ignorado",
+    }));
+
+    const records = await collect(getResourceParser("ZIP")(path));
+
+    expect(records).toEqual([{ processo: "REsp 1" }, { processo: "REsp 2", classe: "REsp" }]);
+  });
+
+  it("throws for unsupported formats", () => {
+    expect(() => getResourceParser("PDF")).toThrow("Unsupported resource format");
+  });
+
+  it("accepts registered parsers", async () => {
+    registerResourceParser("tsv", async function* () { yield { ok: true }; });
+    expect(SUPPORTED_FORMATS).toContain("TSV");
+    expect(normalizeResourceFormat("tsv")).toBe("TSV");
+    expect(await collect(getResourceParser("TSV")("ignored"))).toEqual([{ ok: true }]);
+  });
+});
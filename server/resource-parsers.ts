@@ -0,0 +1,231 @@
+/**
+ * Resource Parsers - Pluggable parsers keyed on `resources.format`.
+ * Each parser streams a downloaded file and yields plain records with
+ * camelCase keys, the shape the record mappers (record-mappers.ts) consume.
+ */
+import { createReadStream } from "fs";
+import { Readable } from "stream";
+import { parse as parseCsv } from "csv-parse";
+import sax from "sax";
+import yauzl from "yauzl";
+import { parseJsonRecords } from "./stj-stream";
+
+export type ResourceRecord = Record<string, any>;
+
+/** Parses a downloaded resource file into records */
+export type ResourceParser = (filePath: string) => AsyncIterable<ResourceRecord>;
+
+/** Parses a text stream (used for plain files and ZIP entries alike) */
+type StreamParser = (stream: Readable) => AsyncIterable<ResourceRecord>;
+
+/** Normalize a column/element name to camelCase without accents ("ÓRGÃO_JULGADOR" → "orgaoJulgador") */
+export function normalizeFieldName(name: string): string {
+  const words = name
+    .normalize("NFD").replace(/[\u0300-\u036f]/g, "")
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map(w => w.toLowerCase());
+  if (words.length === 0) return name;
+  return words[0] + words.slice(1).map(w => w[0].toUpperCase() + w.slice(1)).join("");
+}
+
+// ─── JSON ────────────────────────────────────────────────────────────────────
+
+const jsonStreamParser: StreamParser = (stream) => {
+  stream.setEncoding("utf-8");
+  return parseJsonRecords(stream as AsyncIterable<string>);
+};
+
+// ─── CSV ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Delimiter of a CSV from its header line. STJ exports use either "," or ";", and
+ * ";" files have unquoted commas inside fields, so only one of them may be passed on.
+ */
+export function detectCsvDelimiter(headerLine: string): ";" | "," {
+  const count = (char: string) => headerLine.split(char).length - 1;
+  return count(";") > count(",") ? ";" : ",";
+}
+
+/** CSV with a header row, delimited by the character its header uses */
+async function* csvStreamParser(stream: Readable): AsyncGenerator<ResourceRecord> {
+  // Buffer up to the end of the header line, then replay it into the parser
+  const source = stream[Symbol.asyncIterator]();
+  const head: Buffer[] = [];
+  let headerText = "";
+  while (!headerText.includes("\n")) {
+    const { value, done } = await source.next();
+    if (done) break;
+    head.push(Buffer.from(value));
+    headerText = Buffer.concat(head).toString("utf-8");
+  }
+  async function* replay() {
+    yield* head;
+    for (let next = await source.next(); !next.done; next = await source.next()) yield next.value;
+  }
+
+  const parser = Readable.from(replay()).pipe(parseCsv({
+    bom: true,
+    columns: (header: string[]) => header.map(normalizeFieldName),
+    delimiter: detectCsvDelimiter(headerText.split("\n")[0]),
+    relax_column_count: true,
+    skip_empty_lines: true,
+    trim: true,
+  }));
+  for await (const row of parser) {
+    const record: ResourceRecord = {};
+    for (const [key, value] of Object.entries(row as Record<string, string>)) {
+      if (value !== "") record[key] = value;
+    }
+    yield record;
+  }
+}
+
+// ─── XML ─────────────────────────────────────────────────────────────────────
+
+/**
+ * XML where each child of the root element is a record and its children are fields.
+ * Nested field content is flattened to text; repeated fields become arrays.
+ */
+async function* xmlStreamParser(stream: Readable): AsyncGenerator<ResourceRecord> {
+  const parser = sax.parser(true, { trim: true, normalize: true });
+  const ready: ResourceRecord[] = [];
+  let depth = 0;
+  let record: ResourceRecord | null = null;
+  let fieldName: string | null = null;
+  let fieldText: string[] = [];
+
+  parser.onopentag = (node) => {
+    depth++;
+    if (depth === 2) {
+      record = {};
+      for (const [key, value] of Object.entries(node.attributes)) {
+        record[normalizeFieldName(key)] = String(value);
+      }
+    } else if (depth === 3) {
+      fieldName = normalizeFieldName(node.name);
+      fieldText = [];
+    }
+  };
+  parser.ontext = (text) => {
+    if (depth >= 3 && text) fieldText.push(text);
+  };
+  parser.oncdata = parser.ontext;
+  parser.onclosetag = () => {
+    if (depth === 3 && record && fieldName) {
+      const value = fieldText.join(" ").trim();
+      if (value) {
+        const existing = record[fieldName];
+        if (existing === undefined) record[fieldName] = value;
+        else record[fieldName] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+      }
+      fieldName = null;
+    } else if (depth === 2 && record) {
+      ready.push(record);
+      record = null;
+    }
+    depth--;
+  };
+
+  stream.setEncoding("utf-8");
+  for await (const piece of stream) {
+    parser.write(piece as string);
+    while (ready.length > 0) yield ready.shift()!;
+  }
+  parser.close();
+  while (ready.length > 0) yield ready.shift()!;
+}
+
+// ─── ZIP ─────────────────────────────────────────────────────────────────────
+
+const STREAM_PARSERS_BY_EXTENSION: Record<string, StreamParser> = {
+  json: jsonStreamParser,
+  csv: csvStreamParser,
+  xml: xmlStreamParser,
+};
+
+export function openZip(filePath: string): Promise<yauzl.ZipFile> {
+  return new Promise((resolve, reject) => {
+    yauzl.open(filePath, { lazyEntries: true, autoClose: true }, (err, zip) => {
+      if (err || !zip) reject(err ?? new Error(`Failed to open ZIP ${filePath}`));
+      else resolve(zip);
+    });
+  });
+}
+
+export function nextZipEntry(zip: yauzl.ZipFile): Promise<yauzl.Entry | null> {
+  return new Promise((resolve, reject) => {
+    const onEntry = (entry: yauzl.Entry) => { cleanup(); resolve(entry); };
+    const onEnd = () => { cleanup(); resolve(null); };
+    const onError = (err: Error) => { cleanup(); reject(err); };
+    const cleanup = () => {
+      zip.off("entry", onEntry);
+      zip.off("end", onEnd);
+      zip.off("error", onError);
+    };
+    zip.on("entry", onEntry);
+    zip.on("end", onEnd);
+    zip.on("error", onError);
+    zip.readEntry();
+  });
+}
+
+export function openZipEntry(zip: yauzl.ZipFile, entry: yauzl.Entry): Promise<Readable> {
+  return new Promise((resolve, reject) => {
+    zip.openReadStream(entry, (err, stream) => {
+      if (err || !stream) reject(err ?? new Error(`Failed to read ${entry.fileName}`));
+      else resolve(stream);
+    });
+  });
+}
+
+/** ZIP bundles: every JSON/CSV/XML entry is parsed with its own parser, one entry at a time */
+async function* zipParser(filePath: string): AsyncGenerator<ResourceRecord> {
+  const zip = await openZip(filePath);
+  try {
+    for (let entry = await nextZipEntry(zip); entry; entry = await nextZipEntry(zip)) {
+      if (entry.fileName.endsWith("/")) continue;
+      const extension = entry.fileName.split(".").pop()?.toLowerCase() || "";
+      const parse = STREAM_PARSERS_BY_EXTENSION[extension];
+      if (!parse) continue;
+      yield* parse(await openZipEntry(zip, entry));
+    }
+  } finally {
+    zip.close();
+  }
+}
+
+// ─── Registry ────────────────────────────────────────────────────────────────
+
+const RESOURCE_PARSERS: Record<string, ResourceParser> = {
+  JSON: (filePath) => jsonStreamParser(createReadStream(filePath)),
+  CSV: (filePath) => csvStreamParser(createReadStream(filePath)),
+  XML: (filePath) => xmlStreamParser(createReadStream(filePath)),
+  ZIP: zipParser,
+};
+
+export const SUPPORTED_FORMATS = Object.keys(RESOURCE_PARSERS);
+
+/** Normalize a CKAN format ("json", "text/csv", "application/zip"...), falling back to the URL extension */
+export function normalizeResourceFormat(format: string | null | undefined, url?: string | null): string | null {
+  const candidates = [format, url?.split("?")[0].split(".").pop()];
+  for (const candidate of candidates) {
+    const value = candidate?.trim().toUpperCase().split("/").pop();
+    if (value && RESOURCE_PARSERS[value]) return value;
+  }
+  return null;
+}
+
+/** Look up the parser for a resource format; throws for unsupported formats */
+export function getResourceParser(format: string): ResourceParser {
+  const parser = RESOURCE_PARSERS[format.toUpperCase()];
+  if (!parser) throw new Error(`Unsupported resource format: ${format}`);
+  return parser;
+}
+
+/** Register (or override) the parser for a format */
+export function registerResourceParser(format: string, parser: ResourceParser): void {
+  RESOURCE_PARSERS[format.toUpperCase()] = parser;
+  if (!SUPPORTED_FORMATS.includes(format.toUpperCase())) SUPPORTED_FORMATS.push(format.toUpperCase());
+}
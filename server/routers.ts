@@ -2,28 +2,133 @@ import { z } from "zod";
 import { COOKIE_NAME } from "@shared/const";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
-import { storagePut } from "./storage";
+import { publicProcedure, protectedProcedure, adminProcedure, router } from "./_core/trpc";
+import { storagePut, storageGet, storageCreateUploadUrl, storageInfo, storageConcat } from "./storage";
 import { checkRateLimit } from "./rate-limit";
 import { nanoid } from "nanoid";
 
 // DB helpers
 import {
-  getAllDatasets, getDatasetBySlug, getResourcesByDatasetId, getResourceStats,
+  getAllDatasets, getDatasetBySlug, setDatasetEnabled, getResourcesByDatasetId, getResourceStats,
   getAllResources, getResourceByResourceId,
-  createDocument, getDocumentsByUserId, getAllDocuments, getDocumentById,
+  createDocument, updateDocument, getDocumentsByUserId, getAllDocuments, getDocumentById,
   getRecentLogs, getDashboardStats,
   getRecentRagQueries, getAllGraphNodes, getGraphNodesByType, searchGraphNodes,
   getGraphNodeStats, getGraphEdgeStats, getAllCommunities,
+  getOpenSchemaDrifts, acknowledgeSchemaDrift,
+  getAllSyncSchedules, getSyncScheduleById, createSyncSchedule, updateSyncSchedule, deleteSyncSchedule,
+  getDocumentVersions, getQuarantinedChunks, getPiiMappingStats, createLog,
+  getEntityAliases, getEntityMergeCandidates,
+  createUpload, getUploadByUploadId, claimUpload, updateUpload,
 } from "./db";
 
 // Services
-import { syncDatasets, downloadResource, getStaticDatasetList } from "./stj-extractor";
+import { discoverDatasets, downloadResource, getStaticDatasetList } from "./stj-extractor";
+import { syncAndEnqueueChanged, applySchedule, isValidCron } from "./scheduler";
+import { describeDrift, type SchemaDrift } from "./schema-drift";
+import { CHUNKING_STRATEGIES } from "./chunker";
+import { detectDocumentFormat } from "./document-formats";
+import { deleteDocumentCascade, replaceDocument } from "./document-lifecycle";
 import { getCollectionStats, listCollections } from "./embeddings";
 import { buildCommunities, getGraphVisualizationData } from "./graph-engine";
 import { graphRAGQuery } from "./graphrag-query";
+import { reviewMergeCandidate, resolveExistingEntities } from "./entity-resolution";
+import { findPseudonyms, revealPseudonyms } from "./pii-redaction";
 import { updateResourceStatus } from "./db";
-import { enqueueResourceProcess, enqueueDocumentProcess, getResourceQueue } from "./queue/queues";
+import type { Upload } from "../drizzle/schema";
+import {
+  enqueueResourceProcess, enqueueDocumentProcess, getResourceQueue, enqueueScheduledSync, removeScheduledSync,
+} from "./queue/queues";
+
+/** Largest direct upload accepted (bytes); default 500 MB */
+const UPLOAD_MAX_BYTES = Number(process.env.UPLOAD_MAX_BYTES || String(500 * 1024 * 1024));
+/** Size of the parts a browser upload is split into (bytes); default 8 MB */
+const UPLOAD_PART_BYTES = Number(process.env.UPLOAD_PART_BYTES || String(8 * 1024 * 1024));
+
+/** Storage key of one part of a browser upload */
+function uploadPartKey(key: string, part: number): string {
+  return `${key}.part${String(part).padStart(5, "0")}`;
+}
+
+/** Upload created by the caller */
+async function getOwnUpload(uploadId: string, userId: number) {
+  const upload = await getUploadByUploadId(uploadId);
+  if (!upload || upload.userId !== userId) throw new Error("Upload not found");
+  return upload;
+}
+
+/**
+ * Join the parts of a browser upload into its final object and return its size.
+ * An object joined by an earlier attempt that failed later on is reused.
+ */
+async function assembleUpload(key: string, partCount: number, mimeType: string) {
+  let info = await storageInfo(key);
+  if (!info) {
+    const partKeys = Array.from({ length: partCount }, (_, part) => uploadPartKey(key, part));
+    for (const partKey of partKeys) {
+      if (!(await storageInfo(partKey))) {
+        throw new Error("Upload not found in storage — transfer may not have completed");
+      }
+    }
+    await storageConcat(partKeys, key, mimeType);
+    info = await storageInfo(key);
+  }
+  if (!info) throw new Error("Upload not found in storage — transfer may not have completed");
+  return info;
+}
+
+/**
+ * Register a browser upload exactly once. The upload is claimed before its parts are
+ * joined, so a retried or concurrent call cannot create a second document; once the
+ * upload is completed, later calls get its document back with registered = false.
+ */
+async function completeUploadOnce(
+  upload: Upload,
+  partCount: number,
+  mimeType: string,
+  register: (info: { size: number }) => Promise<number>
+): Promise<{ documentId: number; registered: boolean }> {
+  if (upload.status === "completed" && upload.documentId) {
+    return { documentId: upload.documentId, registered: false };
+  }
+  if (partCount !== upload.partCount) {
+    throw new Error(`Upload was planned in ${upload.partCount} parts, not ${partCount}`);
+  }
+  if (!(await claimUpload(upload.id))) {
+    const current = await getUploadByUploadId(upload.uploadId);
+    if (current?.status === "completed" && current.documentId) {
+      return { documentId: current.documentId, registered: false };
+    }
+    throw new Error("Upload is already being completed");
+  }
+
+  let documentId: number;
+  try {
+    const info = await assembleUpload(upload.fileKey, upload.partCount, mimeType);
+    if (info.size !== upload.fileSize) {
+      throw new Error(`Upload size mismatch: expected ${upload.fileSize} bytes, stored ${info.size}`);
+    }
+    documentId = await register(info);
+  } catch (err) {
+    await updateUpload(upload.id, { status: "pending" });
+    throw err;
+  }
+  await updateUpload(upload.id, { status: "completed", documentId });
+  return { documentId, registered: true };
+}
+
+/** Document of the caller (admins may act on any document) */
+async function getOwnDocument(documentId: number, user: { id: number; role: string }) {
+  const doc = await getDocumentById(documentId);
+  if (!doc || (doc.userId !== user.id && user.role !== "admin")) throw new Error("Document not found");
+  return doc;
+}
+
+/** Five or six space-separated cron fields, e.g. "0 3 * * *", validated before anything is stored */
+const cronPattern = z.string().trim()
+  .regex(/^(\S+\s+){4,5}\S+$/, "Invalid cron pattern")
+  .refine(cron => isValidCron(cron), "Invalid cron pattern");
+const cronTimezone = z.string().max(64).refine(tz => isValidCron("0 0 * * *", tz), "Invalid timezone");
 
 export const appRouter = router({
   system: systemRouter,
@@ -45,6 +150,24 @@ export const appRouter = router({
     recentLogs: publicProcedure.query(async () => {
       return getRecentLogs(30);
     }),
+    schemaAlerts: publicProcedure.query(async () => {
+      const [drifts, datasets] = await Promise.all([getOpenSchemaDrifts(), getAllDatasets()]);
+      return drifts.map(profile => ({
+        id: profile.id,
+        datasetSlug: datasets.find(d => d.id === profile.datasetId)?.slug ?? String(profile.datasetId),
+        resourceId: profile.resourceId,
+        recordCount: profile.recordCount,
+        drift: profile.drift as SchemaDrift,
+        summary: describeDrift(profile.drift as SchemaDrift),
+        createdAt: profile.createdAt,
+      }));
+    }),
+    acknowledgeSchemaAlert: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input }) => {
+        await acknowledgeSchemaDrift(input.id);
+        return { id: input.id };
+      }),
   }),
 
   // ─── STJ Datasets ──────────────────────────────────────────────────────────
@@ -62,14 +185,81 @@ export const appRouter = router({
         const resources = await getResourcesByDatasetId(dataset.id);
         return { ...dataset, resources };
       }),
-    sync: protectedProcedure.mutation(async () => {
-      return syncDatasets();
+    sync: protectedProcedure
+      .input(z.object({ processChanged: z.boolean().default(false) }).optional())
+      .mutation(async ({ input }) => {
+        return syncAndEnqueueChanged(input?.processChanged ?? false);
+      }),
+    discover: adminProcedure.mutation(async () => {
+      return discoverDatasets();
     }),
+    setEnabled: adminProcedure
+      .input(z.object({ slug: z.string(), enabled: z.boolean() }))
+      .mutation(async ({ input }) => {
+        const dataset = await getDatasetBySlug(input.slug);
+        if (!dataset) throw new Error("Dataset not found");
+        await setDatasetEnabled(input.slug, input.enabled);
+        return { slug: input.slug, enabled: input.enabled };
+      }),
     resourceStats: publicProcedure.query(async () => {
       return getResourceStats();
     }),
   }),
 
+  // ─── Sync Schedules ─────────────────────────────────────────────────────────
+  schedules: router({
+    list: publicProcedure.query(async () => {
+      return getAllSyncSchedules();
+    }),
+    create: adminProcedure
+      .input(z.object({
+        name: z.string().min(1).max(255),
+        cron: cronPattern,
+        timezone: cronTimezone.optional(),
+        enabled: z.boolean().default(true),
+        processChanged: z.boolean().default(true),
+      }))
+      .mutation(async ({ input }) => {
+        const id = await createSyncSchedule(input);
+        const schedule = await getSyncScheduleById(id);
+        if (!schedule) throw new Error("Schedule not found");
+        const nextRunAt = await applySchedule(schedule);
+        return { id, nextRunAt };
+      }),
+    update: adminProcedure
+      .input(z.object({
+        id: z.number(),
+        name: z.string().min(1).max(255).optional(),
+        cron: cronPattern.optional(),
+        timezone: cronTimezone.optional(),
+        enabled: z.boolean().optional(),
+        processChanged: z.boolean().optional(),
+      }))
+      .mutation(async ({ input }) => {
+        const { id, ...changes } = input;
+        if (!(await getSyncScheduleById(id))) throw new Error("Schedule not found");
+        await updateSyncSchedule(id, changes);
+        const schedule = (await getSyncScheduleById(id))!;
+        const nextRunAt = await applySchedule(schedule);
+        return { id, nextRunAt };
+      }),
+    delete: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input }) => {
+        await removeScheduledSync(input.id);
+        await deleteSyncSchedule(input.id);
+        return { id: input.id };
+      }),
+    runNow: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input }) => {
+        if (!(await getSyncScheduleById(input.id))) throw new Error("Schedule not found");
+        const jobId = await enqueueScheduledSync(input.id);
+        if (jobId) return { jobId, status: "queued" as const };
+        throw new Error("Async processing required — REDIS_URL not configured");
+      }),
+  }),
+
   // ─── Resources ──────────────────────────────────────────────────────────────
   resources: router({
     list: publicProcedure.query(async () => {
@@ -78,8 +268,8 @@ export const appRouter = router({
     download: protectedProcedure
       .input(z.object({ resourceId: z.string() }))
       .mutation(async ({ input }) => {
-        const data = await downloadResource(input.resourceId);
-        return { recordCount: data.length, status: "downloaded" };
+        const { recordCount } = await downloadResource(input.resourceId);
+        return { recordCount, status: "downloaded" };
       }),
     process: protectedProcedure
       .input(z.object({ resourceId: z.string() }))
@@ -87,14 +277,30 @@ export const appRouter = router({
         const resource = await getResourceByResourceId(input.resourceId);
         if (!resource) throw new Error("Resource not found");
 
-        // Queue async job if Redis is available
-        const jobId = await enqueueResourceProcess(input.resourceId);
+        // Queue async job if Redis is available (manual runs always re-process)
+        const jobId = await enqueueResourceProcess(input.resourceId, { force: true });
         if (jobId) {
           await updateResourceStatus(input.resourceId, "processing");
           return { jobId, status: "processing" as const, resourceId: input.resourceId };
         }
 
         // Fallback: synchronous processing (no Redis)
+        throw new Error("Async processing required — REDIS_URL not configured");
+      }),
+    reprocessFromSnapshot: protectedProcedure
+      .input(z.object({ resourceId: z.string() }))
+      .mutation(async ({ input }) => {
+        const resource = await getResourceByResourceId(input.resourceId);
+        if (!resource) throw new Error("Resource not found");
+        if (!resource.snapshotKey) throw new Error("Resource has no snapshot — download it first");
+
+        // Re-chunk / re-extract from the archived payload without hitting the STJ portal
+        const jobId = await enqueueResourceProcess(input.resourceId, { force: true, fromSnapshot: true });
+        if (jobId) {
+          await updateResourceStatus(input.resourceId, "processing");
+          return { jobId, status: "processing" as const, resourceId: input.resourceId };
+        }
+
         throw new Error("Async processing required — REDIS_URL not configured");
       }),
     status: publicProcedure
@@ -126,9 +332,16 @@ export const appRouter = router({
 
   // ─── Documents (Upload) ─────────────────────────────────────────────────────
   documents: router({
-    list: protectedProcedure.query(async ({ ctx }) => {
-      return getDocumentsByUserId(ctx.user.id);
-    }),
+    list: protectedProcedure
+      .input(z.object({
+        processo: z.string().max(255).optional(),
+        tribunal: z.string().max(20).optional(),
+        classe: z.string().max(255).optional(),
+        relator: z.string().max(255).optional(),
+      }).optional())
+      .query(async ({ ctx, input }) => {
+        return getDocumentsByUserId(ctx.user.id, input);
+      }),
     listAll: protectedProcedure.query(async () => {
       return getAllDocuments();
     }),
@@ -137,13 +350,15 @@ export const appRouter = router({
         filename: z.string().max(500),
         mimeType: z.string().max(100),
         base64Data: z.string().max(10_485_760), // ~7.5 MB file limit (base64 overhead)
+        chunking: z.enum(CHUNKING_STRATEGIES).optional(),
+        extractEntities: z.boolean().default(true),
       }))
       .mutation(async ({ input, ctx }) => {
         const buffer = Buffer.from(input.base64Data, "base64");
 
         // Upload to S3
         const fileKey = `documents/${ctx.user.id}/${nanoid()}-${input.filename}`;
-        const { url } = await storagePut(fileKey, buffer, input.mimeType);
+        const { key, url } = await storagePut(fileKey, buffer, input.mimeType);
 
         // Create document record
         const docId = await createDocument({
@@ -153,19 +368,152 @@ export const appRouter = router({
           fileSize: buffer.length,
         originalName: input.filename,
         fileUrl: url,
+        fileKey: key,
+        extractEntities: input.extractEntities,
         status: "uploaded",
         });
 
-        return { documentId: docId, url };
+        const jobId = await enqueueDocumentProcess(docId, { chunking: input.chunking });
+        return { documentId: docId, url, jobId };
       }),
-    process: protectedProcedure
+    // Large files (and ZIP archives) go straight from the browser to storage in parts:
+    // createUpload records the part plan, createUploadPart signs a single-use PUT URL for
+    // one part (or reports it already stored, so retries resume), completeUpload joins the
+    // parts and registers the stored file once.
+    createUpload: protectedProcedure
+      .input(z.object({
+        filename: z.string().min(1).max(500),
+        mimeType: z.string().max(100),
+        fileSize: z.number().int().positive(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        if (!detectDocumentFormat(input.mimeType, input.filename)) {
+          throw new Error(`Unsupported file type: ${input.mimeType || input.filename}`);
+        }
+        if (input.fileSize > UPLOAD_MAX_BYTES) {
+          throw new Error(`File too large: maximum is ${Math.floor(UPLOAD_MAX_BYTES / (1024 * 1024))} MB`);
+        }
+        const uploadId = nanoid();
+        const partCount = Math.ceil(input.fileSize / UPLOAD_PART_BYTES);
+        await createUpload({
+          uploadId,
+          userId: ctx.user.id,
+          fileKey: `documents/${ctx.user.id}/${uploadId}-${input.filename}`,
+          fileSize: input.fileSize,
+          partCount,
+        });
+        return { uploadId, partSize: UPLOAD_PART_BYTES, partCount };
+      }),
+    createUploadPart: protectedProcedure
+      .input(z.object({
+        uploadId: z.string().max(32),
+        part: z.number().int().min(0),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const upload = await getOwnUpload(input.uploadId, ctx.user.id);
+        if (input.part >= upload.partCount) throw new Error(`Upload has only ${upload.partCount} parts`);
+        const partKey = uploadPartKey(upload.fileKey, input.part);
+        // A previous attempt may have landed even though the browser saw it fail
+        if (await storageInfo(partKey)) return { uploaded: true, signedUrl: null };
+        const { signedUrl } = await storageCreateUploadUrl(partKey);
+        return { uploaded: false, signedUrl };
+      }),
+    completeUpload: protectedProcedure
+      .input(z.object({
+        uploadId: z.string().max(32),
+        partCount: z.number().int().positive(),
+        filename: z.string().min(1).max(500),
+        mimeType: z.string().max(100),
+        chunking: z.enum(CHUNKING_STRATEGIES).optional(),
+        extractEntities: z.boolean().default(true),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const upload = await getOwnUpload(input.uploadId, ctx.user.id);
+        const { documentId, registered } = await completeUploadOnce(upload, input.partCount, input.mimeType, async (info) => {
+          const { url } = await storageGet(upload.fileKey);
+          return createDocument({
+            userId: ctx.user.id,
+            filename: input.filename,
+            mimeType: input.mimeType,
+            fileSize: info.size,
+            originalName: input.filename,
+            fileUrl: url,
+            fileKey: upload.fileKey,
+            extractEntities: input.extractEntities,
+            status: "uploaded",
+          });
+        });
+        if (!registered) return { documentId, jobId: null };
+
+        const jobId = await enqueueDocumentProcess(documentId, { chunking: input.chunking });
+        return { documentId, jobId };
+      }),
+    replace: protectedProcedure
+      .input(z.object({
+        documentId: z.number(),
+        uploadId: z.string().max(32),
+        partCount: z.number().int().positive(),
+        filename: z.string().min(1).max(500),
+        mimeType: z.string().max(100),
+        chunking: z.enum(CHUNKING_STRATEGIES).optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const doc = await getOwnDocument(input.documentId, ctx.user);
+        const upload = await getOwnUpload(input.uploadId, ctx.user.id);
+        if (upload.documentId !== null && upload.documentId !== doc.id) {
+          throw new Error("Upload already belongs to another document");
+        }
+        let version = doc.version;
+        const { registered } = await completeUploadOnce(upload, input.partCount, input.mimeType, async (info) => {
+          const { url } = await storageGet(upload.fileKey);
+          ({ version } = await replaceDocument(doc, {
+            filename: input.filename,
+            mimeType: input.mimeType,
+            fileSize: info.size,
+            fileKey: upload.fileKey,
+            fileUrl: url,
+          }, ctx.user.id));
+          return doc.id;
+        });
+        if (!registered) return { documentId: doc.id, version, jobId: null };
+
+        const jobId = await enqueueDocumentProcess(doc.id, { chunking: input.chunking });
+        return { documentId: doc.id, version, jobId };
+      }),
+    delete: protectedProcedure
       .input(z.object({ documentId: z.number() }))
-      .mutation(async ({ input }) => {
-        const doc = await getDocumentById(input.documentId);
-        if (!doc) throw new Error("Document not found");
+      .mutation(async ({ input, ctx }) => {
+        const doc = await getOwnDocument(input.documentId, ctx.user);
+        return deleteDocumentCascade(doc);
+      }),
+    versions: protectedProcedure
+      .input(z.object({ documentId: z.number() }))
+      .query(async ({ input, ctx }) => {
+        const doc = await getOwnDocument(input.documentId, ctx.user);
+        return { currentVersion: doc.version, history: await getDocumentVersions(doc.id) };
+      }),
+    /** Chunks held back by the quality gate, with the failed checks */
+    quarantine: protectedProcedure
+      .input(z.object({ documentId: z.number() }))
+      .query(async ({ input, ctx }) => {
+        const doc = await getOwnDocument(input.documentId, ctx.user);
+        return getQuarantinedChunks(`document:${doc.id}`);
+      }),
+    process: protectedProcedure
+      .input(z.object({
+        documentId: z.number(),
+        chunking: z.enum(CHUNKING_STRATEGIES).optional(),
+        /** Change the upload's entity extraction choice before re-processing */
+        extractEntities: z.boolean().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const doc = await getOwnDocument(input.documentId, ctx.user);
+        if (input.extractEntities !== undefined && input.extractEntities !== doc.extractEntities) {
+          await updateDocument(input.documentId, { extractEntities: input.extractEntities });
+        }
 
         // Queue async job if Redis is available
-        const jobId = await enqueueDocumentProcess(input.documentId);
+        const jobId = await enqueueDocumentProcess(input.documentId, { chunking: input.chunking });
         if (jobId) {
           return { jobId, status: "processing" as const, documentId: input.documentId };
         }
@@ -207,6 +555,30 @@ export const appRouter = router({
       .query(async ({ input }) => {
         return getGraphVisualizationData(input?.limit || 200);
       }),
+    /** Names and merged nodes that resolve to an entity */
+    aliases: publicProcedure
+      .input(z.object({ entityId: z.string() }))
+      .query(async ({ input }) => {
+        return getEntityAliases(input.entityId);
+      }),
+    /** Similar entities waiting for a merge decision */
+    mergeCandidates: adminProcedure
+      .input(z.object({
+        status: z.enum(["pending", "approved", "rejected"]).default("pending"),
+        limit: z.number().min(1).max(200).default(50),
+      }).optional())
+      .query(async ({ input }) => {
+        return getEntityMergeCandidates(input?.status, input?.limit);
+      }),
+    reviewMerge: adminProcedure
+      .input(z.object({ id: z.number(), approve: z.boolean() }))
+      .mutation(async ({ input, ctx }) => {
+        return reviewMergeCandidate(input.id, input.approve, ctx.user.id);
+      }),
+    /** Re-apply the resolution rules to existing nodes */
+    resolveEntities: adminProcedure.mutation(async () => {
+      return resolveExistingEntities();
+    }),
   }),
 
   // ─── Embeddings ─────────────────────────────────────────────────────────────
@@ -240,6 +612,27 @@ export const appRouter = router({
         return getRecentRagQueries(ctx.user.id, input?.limit || 20);
       }),
   }),
+
+  // ─── Privacy (LGPD) ─────────────────────────────────────────────────────────
+  privacy: router({
+    /** Pseudonymized values per type */
+    stats: adminProcedure.query(async () => {
+      return getPiiMappingStats();
+    }),
+    /** Original values of the pseudonyms found in a text; every reveal is logged */
+    reveal: adminProcedure
+      .input(z.object({ text: z.string().min(1).max(50_000) }))
+      .mutation(async ({ input, ctx }) => {
+        const pseudonyms = findPseudonyms(input.text).slice(0, 200);
+        const revealed = await revealPseudonyms(pseudonyms);
+        await createLog({
+          action: "reveal_pii",
+          status: "completed",
+          details: `User ${ctx.user.id} revealed ${revealed.length} pseudonyms: ${revealed.map(r => r.pseudonym).join(", ")}`,
+        });
+        return revealed;
+      }),
+  }),
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,133 @@
+import { vi, describe, it, expect, beforeEach } from "vitest";
+
+vi.mock("./db", () => ({
+  getAllSyncSchedules: vi.fn(),
+  getSyncScheduleById: vi.fn(),
+  updateSyncSchedule: vi.fn(),
+  updateResourceStatus: vi.fn(),
+}));
+vi.mock("./stj-extractor", () => ({
+  syncDatasets: vi.fn(),
+}));
+vi.mock("./queue/queues", () => ({
+  enqueueResourceProcess: vi.fn(),
+  upsertScheduledSync: vi.fn(),
+  removeScheduledSync: vi.fn(),
+  getScheduledSyncNextRun: vi.fn(),
+}));
+vi.mock("./_core/logger", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import { syncAndEnqueueChanged, applySchedule, registerSchedules, runScheduledSync, isValidCron } from "./scheduler";
+import { getAllSyncSchedules, getSyncScheduleById, updateSyncSchedule, updateResourceStatus } from "./db";
+import { syncDatasets } from "./stj-extractor";
+import {
+  enqueueResourceProcess, upsertScheduledSync, removeScheduledSync, getScheduledSyncNextRun,
+} from "./queue/queues";
+
+const mockSync = vi.mocked(syncDatasets);
+const mockEnqueue = vi.mocked(enqueueResourceProcess);
+const mockUpsert = vi.mocked(upsertScheduledSync);
+const mockRemove = vi.mocked(removeScheduledSync);
+const mockNextRun = vi.mocked(getScheduledSyncNextRun);
+const mockGetSchedule = vi.mocked(getSyncScheduleById);
+const mockGetAll = vi.mocked(getAllSyncSchedules);
+const mockUpdateSchedule = vi.mocked(updateSyncSchedule);
+const mockUpdateStatus = vi.mocked(updateResourceStatus);
+
+const NEXT = new Date("2026-01-02T03:00:00Z");
+
+function schedule(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 7, name: "Diária", cron: "0 3 * * *", timezone: "America/Sao_Paulo",
+    enabled: true, processChanged: true, ...overrides,
+  } as any;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockSync.mockResolvedValue({ synced: 2, errors: [], changed: ["r1", "r2"] });
+  mockEnqueue.mockResolvedValue("job-1");
+  mockUpsert.mockResolvedValue(NEXT);
+  mockNextRun.mockResolvedValue(NEXT);
+});
+
+describe("isValidCron", () => {
+  it("accepts five- and six-field patterns in a known timezone", () => {
+    expect(isValidCron("0 3 * * 1-5", "America/Sao_Paulo")).toBe(true);
+    expect(isValidCron("30 0 3 * * *")).toBe(true);
+  });
+
+  it("rejects out-of-range fields and unknown timezones", () => {
+    expect(isValidCron("99 3 * * *")).toBe(false);
+    expect(isValidCron("0 3 * * mon-xyz")).toBe(false);
+    expect(isValidCron("0 3 * * *", "America/Atlantida")).toBe(false);
+  });
+});
+
+describe("syncAndEnqueueChanged", () => {
+  it("enqueues changed resources when requested", async () => {
+    const result = await syncAndEnqueueChanged(true);
+    expect(result.enqueued).toBe(2);
+    expect(mockEnqueue).toHaveBeenCalledWith("r1");
+    expect(mockUpdateStatus).toHaveBeenCalledWith("r2", "processing");
+  });
+
+  it("only syncs when processing is not requested", async () => {
+    const result = await syncAndEnqueueChanged(false);
+    expect(result.enqueued).toBe(0);
+    expect(mockEnqueue).not.toHaveBeenCalled();
+  });
+});
+
+describe("applySchedule", () => {
+  it("registers enabled schedules and stores the next run", async () => {
+    expect(await applySchedule(schedule())).toEqual(NEXT);
+    expect(mockUpsert).toHaveBeenCalledWith(7, "0 3 * * *", "America/Sao_Paulo");
+    expect(mockUpdateSchedule).toHaveBeenCalledWith(7, { nextRunAt: NEXT });
+  });
+
+  it("removes disabled schedules and clears the next run", async () => {
+    expect(await applySchedule(schedule({ enabled: false }))).toBeNull();
+    expect(mockRemove).toHaveBeenCalledWith(7);
+    expect(mockUpdateSchedule).toHaveBeenCalledWith(7, { nextRunAt: null });
+  });
+});
+
+describe("registerSchedules", () => {
+  it("keeps going when one schedule fails to register", async () => {
+    mockGetAll.mockResolvedValue([schedule({ id: 1 }), schedule({ id: 2 })]);
+    mockUpsert.mockRejectedValueOnce(new Error("bad pattern"));
+    expect(await registerSchedules()).toBe(1);
+  });
+});
+
+describe("runScheduledSync", () => {
+  it("records the outcome and next run on the schedule", async () => {
+    mockGetSchedule.mockResolvedValue(schedule());
+    await runScheduledSync(7);
+    expect(mockUpdateSchedule).toHaveBeenCalledWith(7, expect.objectContaining({
+      lastRunAt: expect.any(Date),
+      lastRunStatus: "completed",
+      lastRunDetails: "Synced 2 datasets, 2 changed, 2 enqueued",
+      nextRunAt: NEXT,
+    }));
+  });
+
+  it("marks the run as failed when sync throws", async () => {
+    mockGetSchedule.mockResolvedValue(schedule());
+    mockSync.mockRejectedValue(new Error("CKAN down"));
+    await expect(runScheduledSync(7)).rejects.toThrow("CKAN down");
+    expect(mockUpdateSchedule).toHaveBeenCalledWith(7, expect.objectContaining({
+      lastRunStatus: "failed", lastRunDetails: "CKAN down",
+    }));
+  });
+
+  it("drops the repeatable job of a deleted schedule", async () => {
+    mockGetSchedule.mockResolvedValue(undefined);
+    await runScheduledSync(99);
+    expect(mockRemove).toHaveBeenCalledWith(99);
+    expect(mockSync).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Scheduled sync pipeline - Runs `syncDatasets` on cron-style schedules stored in
+ * the `syncSchedules` table (BullMQ repeatable jobs), then enqueues processing
+ * for the resources whose CKAN revision changed.
+ */
+import {
+  getAllSyncSchedules, getSyncScheduleById, updateSyncSchedule, updateResourceStatus,
+} from "./db";
+import type { SyncSchedule } from "../drizzle/schema";
+import { parseExpression } from "cron-parser";
+import { syncDatasets } from "./stj-extractor";
+import {
+  enqueueResourceProcess, upsertScheduledSync, removeScheduledSync, getScheduledSyncNextRun,
+} from "./queue/queues";
+import { logger } from "./_core/logger";
+
+/** Sync all enabled datasets, optionally enqueueing processing for changed resources */
+export async function syncAndEnqueueChanged(processChanged: boolean) {
+  const result = await syncDatasets();
+  let enqueued = 0;
+  if (processChanged) {
+    for (const resourceId of result.changed) {
+      const jobId = await enqueueResourceProcess(resourceId);
+      if (jobId) {
+        await updateResourceStatus(resourceId, "processing");
+        enqueued++;
+      }
+    }
+  }
+  return { ...result, enqueued };
+}
+
+/** Whether BullMQ can compute run times for a cron pattern (and IANA timezone) */
+export function isValidCron(cron: string, timezone?: string): boolean {
+  try {
+    parseExpression(cron, { tz: timezone }).next();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Register or remove the repeatable job for a schedule according to its `enabled`
+ * flag, and persist the resulting next run time.
+ */
+export async function applySchedule(schedule: SyncSchedule): Promise<Date | null> {
+  let nextRunAt: Date | null = null;
+  if (schedule.enabled) {
+    nextRunAt = await upsertScheduledSync(schedule.id, schedule.cron, schedule.timezone);
+  } else {
+    await removeScheduledSync(schedule.id);
+  }
+  await updateSyncSchedule(schedule.id, { nextRunAt });
+  return nextRunAt;
+}
+
+/** Register every stored schedule with BullMQ (called on server start) */
+export async function registerSchedules(): Promise<number> {
+  const schedules = await getAllSyncSchedules();
+  let registered = 0;
+  for (const schedule of schedules) {
+    try {
+      await applySchedule(schedule);
+      if (schedule.enabled) registered++;
+    } catch (error: any) {
+      logger.error({ scheduleId: schedule.id, err: String(error) }, "[Scheduler] Failed to register schedule");
+    }
+  }
+  logger.info({ registered, total: schedules.length }, "[Scheduler] Sync schedules registered");
+  return registered;
+}
+
+/** Execute one run of a schedule and record its outcome on the schedule row */
+export async function runScheduledSync(scheduleId: number): Promise<void> {
+  const schedule = await getSyncScheduleById(scheduleId);
+  if (!schedule) {
+    // Stale repeatable job for a deleted schedule
+    await removeScheduledSync(scheduleId);
+    logger.warn({ scheduleId }, "[Scheduler] Schedule not found, removed repeatable job");
+    return;
+  }
+
+  const lastRunAt = new Date();
+  try {
+    const result = await syncAndEnqueueChanged(schedule.processChanged);
+    await updateSyncSchedule(scheduleId, {
+      lastRunAt,
+      lastRunStatus: result.errors.length === 0 ? "completed" : "failed",
+      lastRunDetails: `Synced ${result.synced} datasets, ${result.changed.length} changed, ${result.enqueued} enqueued`
+        + (result.errors.length > 0 ? ` — errors: ${result.errors.join("; ")}` : ""),
+      nextRunAt: await getScheduledSyncNextRun(scheduleId),
+    });
+    logger.info({ scheduleId, ...result }, "[Scheduler] Scheduled sync finished");
+  } catch (error: any) {
+    await updateSyncSchedule(scheduleId, {
+      lastRunAt,
+      lastRunStatus: "failed",
+      lastRunDetails: error.message,
+      nextRunAt: await getScheduledSyncNextRun(scheduleId),
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,105 @@
+import { vi, describe, it, expect, beforeEach } from "vitest";
+
+vi.mock("./db", () => ({
+  getLatestSchemaProfile: vi.fn(),
+  createSchemaProfile: vi.fn(),
+  createLog: vi.fn(),
+}));
+vi.mock("./_core/logger", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import { RecordProfiler, compareProfiles, hasDrift, describeDrift, recordSchemaProfile } from "./schema-drift";
+import { getLatestSchemaProfile, createSchemaProfile, createLog } from "./db";
+
+const mockLatest = vi.mocked(getLatestSchemaProfile);
+const mockCreateProfile = vi.mocked(createSchemaProfile);
+const mockCreateLog = vi.mocked(createLog);
+
+function profile(records: any[]) {
+  const profiler = new RecordProfiler();
+  profiler.add(records);
+  return profiler.build();
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("RecordProfiler", () => {
+  it("accumulates types and fill rates across batches", () => {
+    const profiler = new RecordProfiler();
+    profiler.add([{ processo: "REsp 1", ementa: "x", tags: ["a"] }, { processo: "REsp 2", ementa: "" }]);
+    profiler.add([{ processo: 3, ementa: null }, { processo: "REsp 4" }]);
+
+    const result = profiler.build();
+
+    expect(result.recordCount).toBe(4);
+    expect(result.fields.processo).toEqual({ types: ["number", "string"], fillRate: 1 });
+    expect(result.fields.ementa).toEqual({ types: ["string"], fillRate: 0.25 });
+    expect(result.fields.tags).toEqual({ types: ["array"], fillRate: 0.25 });
+  });
+});
+
+describe("compareProfiles", () => {
+  const baseline = profile([
+    { processo: "REsp 1", ementa: "a", relator: "X" },
+    { processo: "REsp 2", ementa: "b", relator: "Y" },
+  ]);
+
+  it("reports nothing for an identical schema", () => {
+    const drift = compareProfiles(baseline, profile([{ processo: "REsp 3", ementa: "c", relator: "Z" }]));
+    expect(hasDrift(drift)).toBe(false);
+  });
+
+  it("detects renamed fields as removed + added", () => {
+    const drift = compareProfiles(baseline, profile([{ processo: "REsp 3", ementa: "c", ministroRelator: "Z" }]));
+    expect(drift.added).toEqual(["ministroRelator"]);
+    expect(drift.removed).toEqual(["relator"]);
+  });
+
+  it("detects type changes and fill-rate collapses", () => {
+    const drift = compareProfiles(baseline, profile([
+      { processo: 123, ementa: "c", relator: "Z" },
+      { processo: 456, ementa: "", relator: "W" },
+      { processo: 789, ementa: "", relator: "V" },
+    ]));
+    expect(drift.typeChanged).toEqual([{ field: "processo", from: ["string"], to: ["number"] }]);
+    expect(drift.fillRateDropped).toEqual([{ field: "ementa", from: 1, to: 0.3333 }]);
+    expect(describeDrift(drift)).toContain("processo (string → number)");
+  });
+
+  it("treats always-empty fields as absent", () => {
+    const drift = compareProfiles(baseline, profile([{ processo: "REsp 3", ementa: "c", relator: "" }]));
+    expect(drift.removed).toEqual(["relator"]);
+  });
+});
+
+describe("recordSchemaProfile", () => {
+  const target = { datasetId: 1, datasetSlug: "atas-de-distribuicao", resourceId: "res-1" };
+
+  it("stores the first profile as a baseline without warnings", async () => {
+    mockLatest.mockResolvedValue(undefined);
+    expect(await recordSchemaProfile(target, profile([{ processo: "REsp 1" }]))).toBeNull();
+    expect(mockCreateProfile).toHaveBeenCalledWith(expect.not.objectContaining({ drift: expect.anything() }));
+    expect(mockCreateLog).not.toHaveBeenCalled();
+  });
+
+  it("writes a warning log entry and keeps the drift on the profile", async () => {
+    const previous = profile([{ processo: "REsp 1", relator: "X" }]);
+    mockLatest.mockResolvedValue({ id: 9, recordCount: previous.recordCount, fields: previous.fields } as any);
+
+    const drift = await recordSchemaProfile(target, profile([{ processo: "REsp 2", ministroRelator: "Y" }]));
+
+    expect(drift?.removed).toEqual(["relator"]);
+    expect(mockCreateProfile).toHaveBeenCalledWith(expect.objectContaining({ drift }));
+    expect(mockCreateLog).toHaveBeenCalledWith(expect.objectContaining({
+      action: "schema_drift", status: "warning", datasetSlug: "atas-de-distribuicao", resourceId: "res-1",
+    }));
+  });
+
+  it("ignores empty resources", async () => {
+    expect(await recordSchemaProfile(target, profile([]))).toBeNull();
+    expect(mockCreateProfile).not.toHaveBeenCalled();
+  });
+});
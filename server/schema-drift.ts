@@ -0,0 +1,165 @@
+/**
+ * Schema Drift Detection - Profiles the raw records of each ingested resource
+ * (field names, value types, fill rates) and compares the profile against the
+ * last one stored for the dataset, so renamed or retyped STJ fields are noticed
+ * at ingestion time instead of through degraded answers.
+ */
+import { getLatestSchemaProfile, createSchemaProfile, createLog } from "./db";
+import { logger } from "./_core/logger";
+
+export type FieldType = "string" | "number" | "boolean" | "array" | "object";
+
+export interface FieldProfile {
+  /** Non-null value types seen for the field, sorted */
+  types: FieldType[];
+  /** Fraction of records where the field is present and non-empty (0..1) */
+  fillRate: number;
+}
+
+export interface RecordProfile {
+  recordCount: number;
+  fields: Record<string, FieldProfile>;
+}
+
+export interface SchemaDrift {
+  added: string[];
+  removed: string[];
+  typeChanged: { field: string; from: FieldType[]; to: FieldType[] }[];
+  fillRateDropped: { field: string; from: number; to: number }[];
+}
+
+/** Fill-rate drop (absolute) above which a still-present field is reported */
+const FILL_RATE_DROP_THRESHOLD = 0.5;
+
+function typeOf(value: unknown): FieldType | null {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) return "array";
+  const type = typeof value;
+  if (type === "string" || type === "number" || type === "boolean") return type;
+  return "object";
+}
+
+function isFilled(value: unknown): boolean {
+  if (value === null || value === undefined) return false;
+  if (typeof value === "string") return value.trim().length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+}
+
+/** Accumulates a profile over record batches so large resources are never held in memory */
+export class RecordProfiler {
+  private recordCount = 0;
+  private fills = new Map<string, number>();
+  private types = new Map<string, Set<FieldType>>();
+
+  add(records: any[]): void {
+    for (const record of records) {
+      if (!record || typeof record !== "object" || Array.isArray(record)) continue;
+      this.recordCount++;
+      for (const [field, value] of Object.entries(record)) {
+        if (!this.types.has(field)) this.types.set(field, new Set());
+        const type = typeOf(value);
+        if (type) this.types.get(field)!.add(type);
+        if (isFilled(value)) this.fills.set(field, (this.fills.get(field) ?? 0) + 1);
+      }
+    }
+  }
+
+  build(): RecordProfile {
+    const fields: Record<string, FieldProfile> = {};
+    for (const [field, types] of Array.from(this.types.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+      fields[field] = {
+        types: Array.from(types).sort(),
+        fillRate: this.recordCount > 0 ? Number(((this.fills.get(field) ?? 0) / this.recordCount).toFixed(4)) : 0,
+      };
+    }
+    return { recordCount: this.recordCount, fields };
+  }
+}
+
+/** Compare two profiles; fields that are never filled are treated as absent */
+export function compareProfiles(previous: RecordProfile, current: RecordProfile): SchemaDrift {
+  const present = (profile: RecordProfile) =>
+    new Set(Object.keys(profile.fields).filter(f => profile.fields[f].fillRate > 0));
+  const before = present(previous);
+  const after = present(current);
+
+  const drift: SchemaDrift = { added: [], removed: [], typeChanged: [], fillRateDropped: [] };
+  for (const field of Array.from(after)) {
+    if (!before.has(field)) drift.added.push(field);
+  }
+  for (const field of Array.from(before)) {
+    if (!after.has(field)) {
+      drift.removed.push(field);
+      continue;
+    }
+    const from = previous.fields[field];
+    const to = current.fields[field];
+    if (from.types.join(",") !== to.types.join(",")) {
+      drift.typeChanged.push({ field, from: from.types, to: to.types });
+    }
+    if (from.fillRate - to.fillRate >= FILL_RATE_DROP_THRESHOLD) {
+      drift.fillRateDropped.push({ field, from: from.fillRate, to: to.fillRate });
+    }
+  }
+  return drift;
+}
+
+export function hasDrift(drift: SchemaDrift): boolean {
+  return drift.added.length > 0 || drift.removed.length > 0
+    || drift.typeChanged.length > 0 || drift.fillRateDropped.length > 0;
+}
+
+/** One-line human summary, used in logs and dashboard alerts */
+export function describeDrift(drift: SchemaDrift): string {
+  const parts: string[] = [];
+  if (drift.added.length > 0) parts.push(`new fields: ${drift.added.join(", ")}`);
+  if (drift.removed.length > 0) parts.push(`missing fields: ${drift.removed.join(", ")}`);
+  if (drift.typeChanged.length > 0) {
+    parts.push(`type changes: ${drift.typeChanged.map(c => `${c.field} (${c.from.join("|")} → ${c.to.join("|")})`).join(", ")}`);
+  }
+  if (drift.fillRateDropped.length > 0) {
+    parts.push(`fill rate drops: ${drift.fillRateDropped.map(c => `${c.field} (${Math.round(c.from * 100)}% → ${Math.round(c.to * 100)}%)`).join(", ")}`);
+  }
+  return parts.join("; ");
+}
+
+/**
+ * Store the profile of an ingested resource and compare it with the dataset's
+ * previous profile. Drift is written as a warning log entry and kept on the
+ * profile row for the dashboard. The first profile of a dataset is the baseline.
+ */
+export async function recordSchemaProfile(
+  target: { datasetId: number; datasetSlug: string; resourceId: string },
+  profile: RecordProfile,
+): Promise<SchemaDrift | null> {
+  if (profile.recordCount === 0) return null;
+
+  const previous = await getLatestSchemaProfile(target.datasetId);
+  const drift = previous
+    ? compareProfiles({ recordCount: previous.recordCount, fields: previous.fields as RecordProfile["fields"] }, profile)
+    : null;
+  const drifted = drift !== null && hasDrift(drift);
+
+  await createSchemaProfile({
+    datasetId: target.datasetId,
+    resourceId: target.resourceId,
+    recordCount: profile.recordCount,
+    fields: profile.fields,
+    ...(drifted ? { drift } : {}),
+  });
+
+  if (!drifted) return null;
+
+  const summary = describeDrift(drift);
+  logger.warn({ ...target, drift }, "[Schema Drift] Record schema changed");
+  await createLog({
+    action: "schema_drift",
+    datasetSlug: target.datasetSlug,
+    resourceId: target.resourceId,
+    status: "warning",
+    recordsProcessed: profile.recordCount,
+    details: `Schema drift in ${target.datasetSlug}: ${summary}`,
+  });
+  return drift;
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import { splitSentences, isAbbreviation, registerAbbreviations } from "./sentence-splitter";
+
+interface CorpusEntry {
+  name: string;
+  text: string;
+  sentences: string[];
+}
+
+/** Ementas in the format published by the STJ, with the expected segmentation */
+const corpus: CorpusEntry[] = JSON.parse(
+  readFileSync(path.join(import.meta.dirname, "__fixtures__", "ementas-sentences.json"), "utf-8"),
+);
+
+describe("splitSentences — ementa corpus", () => {
+  it.each(corpus.map(entry => [entry.name, entry] as const))("%s", (_name, entry) => {
+    expect(splitSentences(entry.text)).toEqual(entry.sentences);
+  });
+});
+
+describe("splitSentences", () => {
+  it("keeps ministro titles and abbreviations with the following name", () => {
+    expect(splitSentences("Voto do Rel. Min. Herman Benjamin. Acompanho o relator.")).toEqual([
+      "Voto do Rel. Min. Herman Benjamin.",
+      "Acompanho o relator.",
+    ]);
+  });
+
+  it("does not split process numbers or statute citations", () => {
+    const text = "Cf. REsp 1.234.567/SP e art. 5º, inc. XXXV, da CF. Nada a prover.";
+    expect(splitSentences(text)).toEqual(["Cf. REsp 1.234.567/SP e art. 5º, inc. XXXV, da CF.", "Nada a prover."]);
+  });
+
+  it("splits after closing quotes and parentheses", () => {
+    expect(splitSentences("Diz a norma: \"é vedado o reexame.\" Assim, nego provimento.")).toEqual([
+      "Diz a norma: \"é vedado o reexame.\"",
+      "Assim, nego provimento.",
+    ]);
+  });
+
+  it("keeps dotted acronyms such as S.A. and i.e.", () => {
+    expect(splitSentences("A Banco X S.A. Recorreu da decisão.")).toEqual(["A Banco X S.A. Recorreu da decisão."]);
+  });
+
+  it("does not split before lowercase words", () => {
+    expect(splitSentences("Ver o voto. e o acórdão.")).toEqual(["Ver o voto. e o acórdão."]);
+  });
+
+  it("returns an empty array for blank text", () => {
+    expect(splitSentences("   ")).toEqual([]);
+  });
+});
+
+describe("abbreviation lexicon", () => {
+  it("matches case-insensitively with or without the period", () => {
+    expect(isAbbreviation("Min.")).toBe(true);
+    expect(isAbbreviation("FLS")).toBe(true);
+    expect(isAbbreviation("Turma")).toBe(false);
+  });
+
+  it("can be extended", () => {
+    expect(splitSentences("Conforme a Res. Normativa 414.")).toEqual(["Conforme a Res.", "Normativa 414."]);
+    registerAbbreviations("Res.");
+    expect(isAbbreviation("res")).toBe(true);
+    expect(splitSentences("Conforme a Res. Normativa 414.")).toEqual(["Conforme a Res. Normativa 414."]);
+  });
+});
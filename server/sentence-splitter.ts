@@ -0,0 +1,75 @@
+/**
+ * Sentence Splitter for Brazilian legal Portuguese.
+ * A period only ends a sentence when the next word starts with a capital letter,
+ * a digit or "§", and the token before it is not an abbreviation ("Min.", "Rel.",
+ * "art.", "fls.", "n."), an initial ("J."), an acronym with internal dots ("S.A."),
+ * or an item number at the start of a sentence ("2. Incide a Súmula...").
+ * Process numbers and statute citations ("REsp 1.234.567/SP", "Lei n. 8.078/1990",
+ * "0001234-56.2020.8.26.0100") never contain a boundary since their dots are not
+ * followed by whitespace.
+ */
+
+/** Abbreviations (lowercase, without the trailing period) that never end a sentence */
+const ABBREVIATIONS = new Set([
+  // Titles and roles
+  "min", "mina", "rel", "rela", "relª", "des", "desa", "desemb", "dr", "dra", "drs", "sr", "sra", "srs", "exmo", "exma",
+  "ilmo", "ilma", "prof", "profa", "profª", "adv", "proc", "procur", "dep", "sen", "pres",
+  // Statute and record references
+  "art", "arts", "inc", "incs", "al", "alín", "par", "parág", "cap", "tít", "n", "nº", "nr", "núm", "fl", "fls",
+  "p", "pp", "pág", "págs", "v", "vol", "vols", "ed", "ex", "cf", "cfr", "obs", "ref", "doc", "docs", "cit",
+  "op", "ob", "loc", "id", "ib", "ibid", "seq", "ss", "segs",
+  // Procedural terms written with a period ("Ag. Reg.", "j. 10/10/2020", "publ. DJe")
+  "ag", "agr", "emb", "embs", "decl", "rec", "reg", "regim", "j", "julg", "publ", "unân", "maj",
+  // Companies and places
+  "ltda", "cia", "fed", "est", "mun", "av", "r",
+]);
+
+/** Upper-case acronyms that share a spelling with an abbreviation ("CF" vs "cf.", "AL" vs "al.") */
+const ACRONYMS = new Set(["CF", "AL"]);
+
+/** Add abbreviations to the lexicon (case-insensitive, trailing period optional) */
+export function registerAbbreviations(...abbreviations: string[]): void {
+  for (const abbreviation of abbreviations) ABBREVIATIONS.add(abbreviation.toLowerCase().replace(/\.$/, ""));
+}
+
+export function isAbbreviation(token: string): boolean {
+  return ABBREVIATIONS.has(token.toLowerCase().replace(/\.$/, ""));
+}
+
+/** Sentence terminator (plus closing quotes/brackets) followed by the start of a new sentence */
+const BOUNDARY = /[.!?;]+["'”’)»\]]*(?=\s+["'“‘(«[]?[A-ZÁÀÂÃÉÈÊÍÌÎÓÒÔÕÚÙÛÇ0-9§])/g;
+
+/** Whether the period at `dotIndex` ends the sentence that starts at `sentenceStart` */
+function endsSentence(text: string, sentenceStart: number, dotIndex: number): boolean {
+  const tokenStart = text.lastIndexOf(" ", dotIndex - 1) + 1;
+  // Strip opening brackets/quotes: "(fls. 10)" → "fls"
+  const token = text.slice(tokenStart, dotIndex).replace(/^["'“‘(«[]+/, "");
+  if (!token) return true;
+
+  if (isAbbreviation(token) && !ACRONYMS.has(token)) return false;
+  // Initials ("J. R. Silva") and dotted acronyms ("S.A.", "i.e.", "v.g.")
+  if (/^\p{Lu}$/u.test(token) || /^(\p{L}\.)+\p{L}$/u.test(token)) return false;
+  // Item numbers opening a sentence ("1. ...", "IV. ...")
+  const isFirstToken = text.slice(sentenceStart, tokenStart).trim() === "";
+  if (isFirstToken && /^(\d{1,3}|[IVXLC]{1,6})$/.test(token)) return false;
+  return true;
+}
+
+/** Split text into sentences, keeping abbreviations, citations and item numbers intact */
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+  BOUNDARY.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = BOUNDARY.exec(text)) !== null) {
+    // Only a single period can be an abbreviation; "?", ";" and "..." always end the sentence
+    if (match[0][0] === "." && match[0][1] !== "." && !endsSentence(text, start, match.index)) continue;
+    const end = match.index + match[0].length;
+    const sentence = text.slice(start, end).trim();
+    if (sentence) sentences.push(sentence);
+    start = end;
+  }
+  const rest = text.slice(start).trim();
+  if (rest) sentences.push(rest);
+  return sentences;
+}
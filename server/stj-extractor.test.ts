@@ -1,25 +1,66 @@
 import { vi, describe, it, expect, beforeEach } from "vitest";
+import { Readable } from "stream";
+import { existsSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+const { mockGet } = vi.hoisted(() => {
+  process.env.STJ_DOWNLOAD_DIR = require("path").join(require("os").tmpdir(), "stj-extractor-test");
+  process.env.STJ_MIN_REQUEST_INTERVAL_MS = "0";
+  process.env.STJ_HTTP_MAX_RETRIES = "0";
+  return { mockGet: vi.fn() };
+});
 
 vi.mock("axios", () => ({
-  default: { create: vi.fn(() => ({ get: vi.fn() })) },
+  default: {
+    create: vi.fn(() => ({
+      get: mockGet,
+      interceptors: { request: { use: vi.fn() }, response: { use: vi.fn() } },
+    })),
+  },
 }));
 vi.mock("./db", () => ({
   upsertDataset: vi.fn(),
   upsertResource: vi.fn(),
   getDatasetBySlug: vi.fn().mockResolvedValue({ id: 1, slug: "test" }),
+  getAllDatasets: vi.fn().mockResolvedValue([]),
   getResourceByResourceId: vi.fn(),
   updateResourceStatus: vi.fn(),
+  setDatasetSyncError: vi.fn(),
   createLog: vi.fn().mockResolvedValue(1),
   updateLog: vi.fn(),
 }));
+vi.mock("./storage", () => ({
+  isStorageConfigured: vi.fn().mockReturnValue(false),
+  storagePutStream: vi.fn(async (key: string) => ({ key })),
+  storageGetStream: vi.fn(),
+}));
 vi.mock("./_core/logger", () => ({
   logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
 }));
 
-import { getStaticDatasetList, DATASETS_WITH_JSON } from "./stj-extractor";
+import {
+  getStaticDatasetList, DATASETS_WITH_JSON, getResourceRevision, needsIngest, syncDatasets,
+  downloadResource, discoverDatasets, getEnabledDatasetSlugs, readResourceBatches, cleanupDownload,
+} from "./stj-extractor";
+import {
+  getResourceByResourceId, upsertResource, upsertDataset, getAllDatasets, updateResourceStatus, setDatasetSyncError,
+} from "./db";
+import { isStorageConfigured, storagePutStream, storageGetStream } from "./storage";
+
+const mockGetResource = vi.mocked(getResourceByResourceId);
+const mockUpsertResource = vi.mocked(upsertResource);
+const mockUpsertDataset = vi.mocked(upsertDataset);
+const mockGetAllDatasets = vi.mocked(getAllDatasets);
+const mockUpdateStatus = vi.mocked(updateResourceStatus);
+const mockStorageConfigured = vi.mocked(isStorageConfigured);
+const mockStoragePut = vi.mocked(storagePutStream);
+const mockStorageGet = vi.mocked(storageGetStream);
 
 beforeEach(() => {
   vi.clearAllMocks();
+  mockGetAllDatasets.mockResolvedValue([]);
+  mockStorageConfigured.mockReturnValue(false);
 });
 
 describe("DATASETS_WITH_JSON", () => {
@@ -58,3 +99,254 @@ describe("getStaticDatasetList", () => {
     expect(integras?.title).toContain("Íntegras");
   });
 });
+
+describe("getResourceRevision", () => {
+  it("combines last_modified and hash", () => {
+    expect(getResourceRevision({ last_modified: "2025-01-01T00:00:00", hash: "abc" }))
+      .toBe("2025-01-01T00:00:00#abc");
+  });
+
+  it("falls back to metadata_modified", () => {
+    expect(getResourceRevision({ metadata_modified: "2025-02-01" })).toBe("2025-02-01#");
+  });
+
+  it("returns null when CKAN exposes no revision info", () => {
+    expect(getResourceRevision({ id: "x" })).toBeNull();
+  });
+});
+
+describe("needsIngest", () => {
+  it("is true for never-ingested resources", () => {
+    expect(needsIngest({ contentHash: null, remoteRevision: "r1", ingestedRevision: null })).toBe(true);
+  });
+
+  it("is false when the ingested revision matches the remote one", () => {
+    expect(needsIngest({ contentHash: "h", remoteRevision: "r1", ingestedRevision: "r1" })).toBe(false);
+  });
+
+  it("is true when CKAN reports a newer revision", () => {
+    expect(needsIngest({ contentHash: "h", remoteRevision: "r2", ingestedRevision: "r1" })).toBe(true);
+  });
+});
+
+describe("syncDatasets", () => {
+  it("reports only resources whose revision changed", async () => {
+    mockGet.mockResolvedValue({
+      data: {
+        result: {
+          id: "ckan-1",
+          title: "Dataset",
+          resources: [
+            { id: "res-new", format: "JSON", url: "https://x/new.json", last_modified: "2025-03-01" },
+            { id: "res-same", format: "JSON", url: "https://x/same.json", last_modified: "2025-01-01" },
+            { id: "res-pdf", format: "PDF", url: "https://x/manual.pdf" },
+          ],
+        },
+      },
+    });
+    mockGetResource.mockImplementation(async (id: string) => (
+      id === "res-new"
+        ? { resourceId: id, contentHash: null, remoteRevision: "2025-03-01#", ingestedRevision: null }
+        : { resourceId: id, contentHash: "h", remoteRevision: "2025-01-01#", ingestedRevision: "2025-01-01#" }
+    ) as any);
+
+    const result = await syncDatasets();
+
+    expect(result.synced).toBe(DATASETS_WITH_JSON.length);
+    expect(mockUpsertResource).toHaveBeenCalledWith(expect.objectContaining({
+      resourceId: "res-new", remoteRevision: "2025-03-01#",
+    }));
+    expect(new Set(result.changed)).toEqual(new Set(["res-new"]));
+  });
+
+  it("records the failure reason on the dataset row instead of swallowing it", async () => {
+    mockGetAllDatasets.mockResolvedValue([{ slug: "atas-de-distribuicao", enabled: true }] as any);
+    mockGet.mockRejectedValue({ response: { status: 403, headers: { server: "cloudflare" } } });
+
+    const result = await syncDatasets();
+
+    expect(result.synced).toBe(0);
+    expect(result.errors[0]).toContain("cloudflare_block");
+    expect(setDatasetSyncError).toHaveBeenCalledWith("atas-de-distribuicao", expect.stringContaining("cloudflare_block"));
+    expect(mockUpsertResource).not.toHaveBeenCalled();
+  });
+
+  it("clears the failure reason after a successful sync", async () => {
+    mockGetAllDatasets.mockResolvedValue([{ slug: "atas-de-distribuicao", enabled: true }] as any);
+    mockGet.mockResolvedValue({ data: { result: { id: "ckan-1", resources: [] } } });
+
+    await syncDatasets();
+
+    expect(mockUpsertDataset).toHaveBeenCalledWith(expect.objectContaining({ lastError: null, lastErrorAt: null }));
+  });
+
+  it("upserts every format with a registered parser", async () => {
+    mockGet.mockResolvedValue({
+      data: {
+        result: {
+          id: "ckan-1",
+          resources: [
+            { id: "res-csv", format: "text/csv", url: "https://x/a.csv" },
+            { id: "res-zip", format: "", url: "https://x/b.zip" },
+            { id: "res-pdf", format: "PDF", url: "https://x/manual.pdf" },
+          ],
+        },
+      },
+    });
+    mockGetResource.mockResolvedValue(undefined);
+
+    await syncDatasets();
+
+    expect(mockUpsertResource).toHaveBeenCalledWith(expect.objectContaining({ resourceId: "res-csv", format: "CSV" }));
+    expect(mockUpsertResource).toHaveBeenCalledWith(expect.objectContaining({ resourceId: "res-zip", format: "ZIP" }));
+    expect(mockUpsertResource).not.toHaveBeenCalledWith(expect.objectContaining({ resourceId: "res-pdf" }));
+  });
+});
+
+describe("downloadResource", () => {
+  it("streams the payload to an NDJSON spool file with a stable content hash", async () => {
+    mockGetResource.mockResolvedValue({
+      resourceId: "r1", name: "r1.json", format: "JSON", url: "https://x/r1.json", remoteRevision: "rev-1",
+    } as any);
+    const payload = JSON.stringify([{ id: 1 }, { id: 2 }]);
+    mockGet.mockImplementation(async () => ({ status: 200, data: Readable.from([payload]) }));
+
+    const first = await downloadResource("r1");
+    const second = await downloadResource("r1");
+
+    expect(first.recordCount).toBe(2);
+    expect(first.contentHash).toMatch(/^[a-f0-9]{64}$/);
+    expect(second.contentHash).toBe(first.contentHash);
+    expect(first.ndjsonPath.startsWith(join(tmpdir(), "stj-extractor-test"))).toBe(true);
+
+    const batches: any[][] = [];
+    for await (const batch of readResourceBatches(first, 1)) batches.push(batch);
+    expect(batches).toEqual([[{ id: 1 }], [{ id: 2 }]]);
+
+    await cleanupDownload(first);
+    expect(existsSync(first.ndjsonPath)).toBe(false);
+  });
+
+  it("normalizes CSV resources with the format's parser", async () => {
+    mockGetResource.mockResolvedValue({
+      resourceId: "r2", name: "atas.csv", format: "CSV", url: "https://x/atas.csv", remoteRevision: "rev-1",
+    } as any);
+    mockGet.mockImplementation(async () => ({ status: 200, data: Readable.from(["Processo;Classe\nREsp 1;REsp\n"]) }));
+
+    const download = await downloadResource("r2");
+
+    const batches: any[][] = [];
+    for await (const batch of readResourceBatches(download)) batches.push(batch);
+    expect(batches).toEqual([[{ processo: "REsp 1", classe: "REsp" }]]);
+    await cleanupDownload(download);
+  });
+});
+
+describe("raw snapshots", () => {
+  const payload = JSON.stringify([{ id: 1 }]);
+  const resourceRow = { resourceId: "r3", name: "r3.json", format: "JSON", url: "https://x/r3.json", remoteRevision: "rev-1" };
+
+  it("archives the raw payload under a content-addressed key", async () => {
+    mockStorageConfigured.mockReturnValue(true);
+    mockGetResource.mockResolvedValue({ ...resourceRow, snapshotKey: null } as any);
+    mockGet.mockImplementation(async () => ({ status: 200, data: Readable.from([payload]) }));
+
+    const download = await downloadResource("r3");
+
+    const expectedKey = `stj/snapshots/r3/${download.contentHash}.json`;
+    expect(download.snapshotKey).toBe(expectedKey);
+    expect(mockStoragePut).toHaveBeenCalledWith(expectedKey, expect.anything(), "application/octet-stream");
+    expect(mockUpdateStatus).toHaveBeenCalledWith("r3", "downloaded", expect.objectContaining({
+      snapshotKey: expectedKey, snapshotAt: expect.any(Date),
+    }));
+    await cleanupDownload(download);
+  });
+
+  it("does not re-upload content that is already archived", async () => {
+    mockStorageConfigured.mockReturnValue(true);
+    mockGet.mockImplementation(async () => ({ status: 200, data: Readable.from([payload]) }));
+    mockGetResource.mockResolvedValue({ ...resourceRow, snapshotKey: null } as any);
+    const first = await downloadResource("r3");
+    mockStoragePut.mockClear();
+    mockGetResource.mockResolvedValue({ ...resourceRow, snapshotKey: first.snapshotKey } as any);
+
+    const second = await downloadResource("r3");
+
+    expect(mockStoragePut).not.toHaveBeenCalled();
+    expect(second.snapshotKey).toBe(first.snapshotKey);
+    await cleanupDownload(second);
+  });
+
+  it("restores from the snapshot without contacting the portal", async () => {
+    mockGetResource.mockResolvedValue({ ...resourceRow, snapshotKey: "stj/snapshots/r3/abc.json" } as any);
+    mockStorageGet.mockResolvedValue(Readable.from([payload]));
+
+    const download = await downloadResource("r3", { fromSnapshot: true });
+
+    expect(mockGet).not.toHaveBeenCalled();
+    expect(mockStorageGet).toHaveBeenCalledWith("stj/snapshots/r3/abc.json");
+    expect(download.recordCount).toBe(1);
+    await cleanupDownload(download);
+  });
+
+  it("refuses to restore a resource that was never archived", async () => {
+    mockGetResource.mockResolvedValue({ ...resourceRow, snapshotKey: null } as any);
+    await expect(downloadResource("r3", { fromSnapshot: true })).rejects.toThrow("has no snapshot");
+  });
+});
+
+describe("getEnabledDatasetSlugs", () => {
+  it("falls back to the seed list when no datasets are persisted", async () => {
+    expect(await getEnabledDatasetSlugs()).toEqual(DATASETS_WITH_JSON);
+  });
+
+  it("returns only enabled datasets once persisted", async () => {
+    mockGetAllDatasets.mockResolvedValue([
+      { slug: "a", enabled: true },
+      { slug: "b", enabled: false },
+    ] as any);
+    expect(await getEnabledDatasetSlugs()).toEqual(["a"]);
+  });
+});
+
+describe("discoverDatasets", () => {
+  it("pages through package_search and flags new datasets", async () => {
+    const page1 = Array.from({ length: 100 }, (_, i) => ({ name: `ds-${i}`, title: `DS ${i}`, resources: [] }));
+    const page2 = [{ name: "espelhos-de-acordaos-corte-especial", title: "Corte", resources: [{ format: "JSON" }] }];
+    mockGet
+      .mockResolvedValueOnce({ data: { result: { count: 101, results: page1 } } })
+      .mockResolvedValueOnce({ data: { result: { count: 101, results: page2 } } });
+    mockGetAllDatasets.mockResolvedValue([{ slug: "ds-0", enabled: true }] as any);
+
+    const result = await discoverDatasets();
+
+    expect(mockGet).toHaveBeenCalledTimes(2);
+    expect(mockGet.mock.calls[1][1].params.start).toBe(100);
+    expect(result.discovered).toBe(101);
+    expect(result.added).toHaveLength(100);
+    expect(result.added).not.toContain("ds-0");
+  });
+
+  it("enables seed datasets and leaves unknown ones disabled", async () => {
+    mockGet.mockResolvedValueOnce({
+      data: {
+        result: {
+          count: 2,
+          results: [
+            { name: "espelhos-de-acordaos-sexta-turma", resources: [] },
+            { name: "nova-publicacao", resources: [] },
+          ],
+        },
+      },
+    });
+
+    await discoverDatasets();
+
+    expect(mockUpsertDataset).toHaveBeenCalledWith(expect.objectContaining({
+      slug: "espelhos-de-acordaos-sexta-turma", enabled: true,
+    }));
+    expect(mockUpsertDataset).toHaveBeenCalledWith(expect.objectContaining({
+      slug: "nova-publicacao", enabled: false,
+    }));
+  });
+});
@@ -1,15 +1,31 @@
 /**
  * STJ Data Extractor - Fetches datasets from the CKAN API at dadosabertos.web.stj.jus.br
- * Handles Cloudflare protection via browser-like headers and cookie persistence.
+ * HTTP concerns (Cloudflare headers, retries, circuit breaker, rate limiting) live in stj-http.ts.
  */
-import axios from "axios";
-import { upsertDataset, upsertResource, getDatasetBySlug, updateResourceStatus, createLog, updateLog } from "./db";
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  upsertDataset, upsertResource, getDatasetBySlug, getAllDatasets, getResourceByResourceId,
+  updateResourceStatus, createLog, updateLog, setDatasetSyncError,
+} from "./db";
+import type { Resource } from "../drizzle/schema";
 import { logger } from "./_core/logger";
+import { isStorageConfigured, storagePutStream, storageGetStream } from "./storage";
+import { getResourceParser, normalizeResourceFormat } from "./resource-parsers";
+import { STJ_BASE, getStjClient, stjGetJson, classifyStjError, type StjHttpError } from "./stj-http";
+import {
+  downloadWithResume, hashFile, writeNdjson, readNdjsonBatches, ensureDir, removeFile, writeStreamToFile,
+} from "./stj-stream";
 
-const STJ_BASE = "https://dadosabertos.web.stj.jus.br";
 const CKAN_API = `${STJ_BASE}/api/3/action`;
+const STJ_ORGANIZATION = process.env.STJ_CKAN_ORGANIZATION || "stj";
+const DISCOVERY_PAGE_SIZE = 100;
+const DOWNLOAD_DIR = process.env.STJ_DOWNLOAD_DIR || join(tmpdir(), "stj-downloads");
+const RECORD_BATCH_SIZE = Number(process.env.STJ_RECORD_BATCH_SIZE || "500");
 
-// Known datasets with JSON resources
+// Known datasets with JSON resources (seed list, enabled by default)
 export const DATASETS_WITH_JSON = [
   "atas-de-distribuicao",
   "espelhos-de-acordaos-corte-especial",
@@ -55,56 +71,161 @@ const DATASET_TITLES: Record<string, string> = {
   "integras-de-decisoes-terminativas-e-acordaos-do-diario-da-justica": "Íntegras de Decisões Terminativas e Acórdãos",
 };
 
-/** Create an axios instance with browser-like headers for Cloudflare bypass */
-function createClient() {
-  return axios.create({
-    timeout: 60000,
-    headers: {
-      "User-Agent": "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-      "Accept": "application/json, text/html, */*",
-      "Accept-Language": "pt-BR,pt;q=0.9,en-US;q=0.8,en;q=0.7",
-      "Accept-Encoding": "gzip, deflate, br",
-      "Referer": STJ_BASE,
-      "Origin": STJ_BASE,
-    },
-    maxRedirects: 5,
-  });
+/** Fetch dataset info from CKAN API; throws a classified StjHttpError on failure */
+export async function fetchDatasetInfo(slug: string): Promise<any> {
+  const data = await stjGetJson(`${CKAN_API}/package_show`, { params: { id: slug } });
+  return data?.result;
 }
 
-/** Fetch dataset info from CKAN API */
-export async function fetchDatasetInfo(slug: string): Promise<any> {
-  const client = createClient();
+export interface DownloadResult {
+  recordCount: number;
+  /** SHA-256 of the raw payload, used to skip re-processing unchanged content */
+  contentHash: string;
+  /** Local NDJSON spool file, one record per line — read with readResourceBatches */
+  ndjsonPath: string;
+  /** Storage key of the immutable raw snapshot, when storage is configured */
+  snapshotKey?: string;
+}
+
+export interface DownloadOptions {
+  /** Restore the raw payload from the archived snapshot instead of the STJ portal */
+  fromSnapshot?: boolean;
+}
+
+/** Build a revision key from CKAN resource metadata (last_modified + hash) */
+export function getResourceRevision(res: any): string | null {
+  const modified = res?.last_modified || res?.metadata_modified || "";
+  const hash = res?.hash || "";
+  if (!modified && !hash) return null;
+  return `${modified}#${hash}`;
+}
+
+/** A resource needs ingestion when it was never ingested or CKAN reports a newer revision */
+export function needsIngest(resource: Pick<Resource, "contentHash" | "remoteRevision" | "ingestedRevision">): boolean {
+  if (!resource.contentHash) return true;
+  return (resource.remoteRevision ?? null) !== (resource.ingestedRevision ?? null);
+}
+
+/** List all packages published by the STJ organization via CKAN package_search */
+export async function fetchOrganizationPackages(organization = STJ_ORGANIZATION): Promise<any[]> {
+  const packages: any[] = [];
+  for (let start = 0; ; start += DISCOVERY_PAGE_SIZE) {
+    const data = await stjGetJson(`${CKAN_API}/package_search`, {
+      params: { fq: `organization:${organization}`, rows: DISCOVERY_PAGE_SIZE, start },
+    });
+    const result = data?.result;
+    const page: any[] = result?.results || [];
+    packages.push(...page);
+    if (page.length < DISCOVERY_PAGE_SIZE || packages.length >= (result?.count ?? 0)) break;
+  }
+  return packages;
+}
+
+/**
+ * Discover STJ datasets from CKAN and persist them.
+ * Newly found datasets outside the seed list start disabled until an admin enables them.
+ */
+export async function discoverDatasets(): Promise<{ discovered: number; added: string[] }> {
+  const startTime = Date.now();
+  const logId = await createLog({
+    action: "discover_datasets",
+    status: "started",
+    details: `Discovering datasets for organization ${STJ_ORGANIZATION}`,
+  });
+
   try {
-    const response = await client.get(`${CKAN_API}/package_show`, { params: { id: slug } });
-    return response.data?.result;
+    const packages = await fetchOrganizationPackages();
+    const existing = new Set((await getAllDatasets()).map(d => d.slug));
+    const added: string[] = [];
+
+    for (const pkg of packages) {
+      if (!pkg?.name) continue;
+      const slug: string = pkg.name;
+      const allResources: any[] = pkg.resources || [];
+      const isNew = !existing.has(slug);
+
+      await upsertDataset({
+        slug,
+        title: pkg.title || DATASET_TITLES[slug] || slug,
+        description: pkg.notes || null,
+        organization: pkg.organization?.title || "Superior Tribunal de Justiça",
+        category: DATASET_CATEGORIES[slug] || pkg.groups?.[0]?.title || "Outros",
+        totalResources: allResources.length,
+        jsonResources: allResources.filter((r: any) => r.format?.toUpperCase() === "JSON").length,
+        enabled: DATASETS_WITH_JSON.includes(slug),
+        discoveredAt: new Date(),
+        metadata: { ckanId: pkg.id, tags: pkg.tags },
+      });
+      if (isNew) added.push(slug);
+    }
+
+    if (logId) {
+      await updateLog(logId, {
+        status: "completed",
+        recordsProcessed: packages.length,
+        durationMs: Date.now() - startTime,
+        details: `Discovered ${packages.length} datasets, ${added.length} new`,
+      });
+    }
+
+    return { discovered: packages.length, added };
   } catch (error: any) {
-    logger.error({ err: String(error), slug }, `[STJ Extractor] Failed to fetch dataset ${slug}`);
-    // If CKAN API is blocked, return static info
-    return null;
+    logger.error({ err: String(error) }, "[STJ Extractor] Dataset discovery failed");
+    if (logId) {
+      await updateLog(logId, {
+        status: "failed",
+        durationMs: Date.now() - startTime,
+        errorMessage: error.message,
+      });
+    }
+    throw error;
   }
 }
 
-/** Sync all known datasets - fetches metadata and resources from CKAN */
-export async function syncDatasets(): Promise<{ synced: number; errors: string[] }> {
+/** Slugs to sync: enabled datasets from the DB, or the seed list before anything was persisted */
+export async function getEnabledDatasetSlugs(): Promise<string[]> {
+  const all = await getAllDatasets();
+  if (all.length === 0) return [...DATASETS_WITH_JSON];
+  return all.filter(d => d.enabled).map(d => d.slug);
+}
+
+/** Sync all enabled datasets - fetches metadata and resources from CKAN */
+export async function syncDatasets(): Promise<{ synced: number; errors: string[]; changed: string[] }> {
   const startTime = Date.now();
+  const slugs = await getEnabledDatasetSlugs();
   const logId = await createLog({
     action: "sync_datasets",
     status: "started",
-    details: `Syncing ${DATASETS_WITH_JSON.length} datasets`,
+    details: `Syncing ${slugs.length} datasets`,
   });
 
   let synced = 0;
   const errors: string[] = [];
+  const changed: string[] = [];
 
-  for (const slug of DATASETS_WITH_JSON) {
+  for (const slug of slugs) {
+    let datasetInfo: any;
     try {
-      let datasetInfo = await fetchDatasetInfo(slug);
+      datasetInfo = await fetchDatasetInfo(slug);
+    } catch (error: any) {
+      // Keep the last known metadata and record why this dataset could not be refreshed
+      const failure = classifyStjError(error);
+      logger.error({ slug, reason: failure.reason, err: failure.message }, `[STJ Extractor] Failed to fetch dataset ${slug}`);
+      await recordDatasetFailure(slug, failure);
+      errors.push(`${slug}: ${failure.reason}: ${failure.message}`);
+      continue;
+    }
 
-      // Use static info if API is blocked
+    try {
       const title = datasetInfo?.title || DATASET_TITLES[slug] || slug;
       const description = datasetInfo?.notes || `Dataset ${slug} do portal de dados abertos do STJ`;
       const allResources = datasetInfo?.resources || [];
       const jsonResources = allResources.filter((r: any) => r.format?.toUpperCase() === "JSON");
+      // Any format with a registered parser (JSON, CSV, XML, ZIP) is ingestible
+      const ingestible: { res: any; format: string }[] = allResources.flatMap((r: any) => {
+        const format = normalizeResourceFormat(r.format, r.url);
+        return format ? [{ res: r, format }] : [];
+      });
 
       await upsertDataset({
         slug,
@@ -115,21 +236,26 @@ export async function syncDatasets(): Promise<{ synced: number; errors: string[]
         totalResources: allResources.length || 0,
         jsonResources: jsonResources.length || 0,
         lastSyncedAt: new Date(),
+        lastError: null,
+        lastErrorAt: null,
         metadata: datasetInfo ? { ckanId: datasetInfo.id, tags: datasetInfo.tags } : null,
       });
 
-      // Upsert individual JSON resources
+      // Upsert individual ingestible resources
       const dbDataset = await getDatasetBySlug(slug);
-      if (dbDataset && jsonResources.length > 0) {
-        for (const res of jsonResources) {
+      if (dbDataset && ingestible.length > 0) {
+        for (const { res, format } of ingestible) {
           await upsertResource({
             datasetId: dbDataset.id,
             resourceId: res.id,
             name: res.name || res.url?.split("/").pop() || "unknown",
-            format: "JSON",
+            format,
             url: res.url,
             fileSize: res.size || null,
+            remoteRevision: getResourceRevision(res),
           });
+          const row = await getResourceByResourceId(res.id);
+          if (row && needsIngest(row)) changed.push(row.resourceId);
         }
       }
 
@@ -145,53 +271,126 @@ export async function syncDatasets(): Promise<{ synced: number; errors: string[]
       status: errors.length === 0 ? "completed" : "failed",
       recordsProcessed: synced,
       durationMs: duration,
+      details: `Synced ${synced} datasets, ${changed.length} resources changed`,
       errorMessage: errors.length > 0 ? errors.join("; ") : undefined,
     });
   }
 
-  return { synced, errors };
+  return { synced, errors, changed };
 }
 
-/** Download a specific JSON resource */
-export async function downloadResource(resourceId: string): Promise<any[]> {
-  const resource = await (await import("./db")).getResourceByResourceId(resourceId);
+/** Record a fetch failure on the dataset row, creating it from static info on first sync */
+async function recordDatasetFailure(slug: string, failure: StjHttpError): Promise<void> {
+  try {
+    if (!(await getDatasetBySlug(slug))) {
+      await upsertDataset({
+        slug,
+        title: DATASET_TITLES[slug] || slug,
+        description: `Dataset ${slug} do portal de dados abertos do STJ`,
+        organization: "Superior Tribunal de Justiça",
+        category: DATASET_CATEGORIES[slug] || "Outros",
+      });
+    }
+    await setDatasetSyncError(slug, `${failure.reason}: ${failure.message}`);
+  } catch (error: any) {
+    logger.warn({ slug, err: String(error) }, "[STJ Extractor] Failed to record dataset error");
+  }
+}
+
+function safeFileName(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_-]+/g, "_");
+}
+
+function revisionTag(revision: string | null): string {
+  return createHash("sha1").update(revision || "none").digest("hex").slice(0, 8);
+}
+
+/** Read a downloaded resource in record batches, keeping memory flat */
+export function readResourceBatches(download: DownloadResult, batchSize = RECORD_BATCH_SIZE): AsyncGenerator<any[]> {
+  return readNdjsonBatches(download.ndjsonPath, batchSize);
+}
+
+/** Remove the local NDJSON spool file once it has been consumed */
+export async function cleanupDownload(download: DownloadResult): Promise<void> {
+  await removeFile(download.ndjsonPath);
+}
+
+/** Storage key of a raw snapshot; content-addressed, so snapshots are never overwritten */
+export function getSnapshotKey(resourceId: string, contentHash: string, format: string): string {
+  return `stj/snapshots/${safeFileName(resourceId)}/${contentHash}.${format.toLowerCase()}`;
+}
+
+/**
+ * Download a resource (streamed to disk, resumable) and normalize it to NDJSON records.
+ * The raw payload is archived as an immutable snapshot so it can be re-processed later
+ * with `{ fromSnapshot: true }` without hitting the STJ portal again.
+ */
+export async function downloadResource(resourceId: string, options: DownloadOptions = {}): Promise<DownloadResult> {
+  const resource = await getResourceByResourceId(resourceId);
   if (!resource) throw new Error(`Resource ${resourceId} not found`);
+  if (options.fromSnapshot && !resource.snapshotKey) {
+    throw new Error(`Resource ${resourceId} has no snapshot — download it first`);
+  }
 
   const startTime = Date.now();
   const logId = await createLog({
     action: "download_resource",
     resourceId,
     status: "started",
-    details: `Downloading ${resource.name} from ${resource.url}`,
+    details: options.fromSnapshot
+      ? `Restoring ${resource.name} from snapshot ${resource.snapshotKey}`
+      : `Downloading ${resource.name} from ${resource.url}`,
   });
 
+  const base = join(DOWNLOAD_DIR, `${safeFileName(resourceId)}-${revisionTag(resource.remoteRevision)}`);
+  const partPath = `${base}.${resource.format.toLowerCase()}.part`;
+  const ndjsonPath = `${base}.ndjson`;
+
   try {
     await updateResourceStatus(resourceId, "downloading");
+    await ensureDir(DOWNLOAD_DIR);
 
-    const client = createClient();
-    const response = await client.get(resource.url, {
-      responseType: "json",
-      timeout: 120000,
-    });
+    // Stream to disk (resumable), then split records into an NDJSON spool file
+    const bytes = options.fromSnapshot
+      ? await writeStreamToFile(await storageGetStream(resource.snapshotKey!), partPath)
+      : await downloadWithResume(getStjClient(), resource.url, partPath);
+    const contentHash = await hashFile(partPath);
+
+    // Archive the raw payload before parsing (skipped when this exact content is already archived)
+    let snapshotKey = resource.snapshotKey ?? undefined;
+    const snapshotExtra: { snapshotKey?: string; snapshotAt?: Date } = {};
+    if (!options.fromSnapshot && isStorageConfigured()) {
+      const key = getSnapshotKey(resourceId, contentHash, resource.format);
+      if (key !== resource.snapshotKey) {
+        ({ key: snapshotKey } = await storagePutStream(key, createReadStream(partPath), "application/octet-stream"));
+        snapshotExtra.snapshotKey = snapshotKey;
+        snapshotExtra.snapshotAt = new Date();
+      }
+    }
 
-    const data = Array.isArray(response.data) ? response.data : [response.data];
+    const recordCount = await writeNdjson(getResourceParser(resource.format)(partPath), ndjsonPath);
+    await removeFile(partPath);
 
     await updateResourceStatus(resourceId, "downloaded", {
       downloadedAt: new Date(),
-      recordCount: data.length,
+      recordCount,
+      ...snapshotExtra,
     });
 
     const duration = Date.now() - startTime;
     if (logId) {
       await updateLog(logId, {
         status: "completed",
-        recordsProcessed: data.length,
+        recordsProcessed: recordCount,
         durationMs: duration,
+        details: `${options.fromSnapshot ? "Restored" : "Downloaded"} ${resource.name} (${bytes} bytes, ${recordCount} records)`,
       });
     }
 
-    return data;
+    return { recordCount, contentHash, ndjsonPath, snapshotKey };
   } catch (error: any) {
+    // A later job starts over: partial bytes cannot be trusted once this one gave up
+    await removeFile(partPath);
     await updateResourceStatus(resourceId, "error", { errorMessage: error.message });
     if (logId) {
       await updateLog(logId, {
@@ -0,0 +1,147 @@
+import { vi, describe, it, expect, beforeEach } from "vitest";
+
+const { mockAdapter } = vi.hoisted(() => {
+  process.env.STJ_MIN_REQUEST_INTERVAL_MS = "40";
+  process.env.STJ_HTTP_MAX_RETRIES = "2";
+  process.env.STJ_CIRCUIT_BREAKER_THRESHOLD = "2";
+  process.env.STJ_CONDITIONAL_CACHE_MAX_ENTRIES = "2";
+  return { mockAdapter: vi.fn() };
+});
+
+// Real axios with a fake transport, so interceptors and validateStatus run for real
+vi.mock("axios", async (importOriginal) => {
+  const actual: any = await importOriginal();
+  return {
+    ...actual,
+    default: { ...actual.default, create: (config: any) => actual.default.create({ ...config, adapter: mockAdapter }) },
+  };
+});
+vi.mock("./_core/logger", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import { AxiosError } from "axios";
+import {
+  stjGetJson, getCircuitState, isCloudflareBlock, resetStjHttpState, classifyStjError, StjHttpError,
+} from "./stj-http";
+
+/** Adapter response: resolves or rejects according to the request's validateStatus, like axios' own adapters */
+function respond(status: number, data: any = {}, headers: Record<string, string> = {}) {
+  return async (config: any) => {
+    const response = { status, statusText: "", headers, data, config };
+    if (!config.validateStatus || config.validateStatus(status)) return response;
+    throw new AxiosError(`HTTP ${status}`, "ERR_BAD_RESPONSE", config, null, response as any);
+  };
+}
+
+const URL = "https://dadosabertos.web.stj.jus.br/api/3/action/package_show";
+
+beforeEach(() => {
+  mockAdapter.mockReset();
+  resetStjHttpState();
+});
+
+describe("stjGetJson", () => {
+  it("retries 429 and 5xx responses with backoff", async () => {
+    mockAdapter
+      .mockImplementationOnce(respond(429, {}, { "retry-after": "0" }))
+      .mockImplementationOnce(respond(502))
+      .mockImplementationOnce(respond(200, { result: { id: "ok" } }));
+
+    const data = await stjGetJson(URL, { params: { id: "x" } }, { retryBaseMs: 1 });
+
+    expect(data.result.id).toBe("ok");
+    expect(mockAdapter).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up after the retry budget with a classified error", async () => {
+    mockAdapter.mockImplementation(respond(503));
+    const error = await stjGetJson(URL, {}, { retryBaseMs: 1 }).catch(e => e);
+    expect(error).toBeInstanceOf(StjHttpError);
+    expect(error.reason).toBe("server_error");
+    expect(mockAdapter).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry client errors", async () => {
+    mockAdapter.mockImplementation(respond(404));
+    await expect(stjGetJson(URL, {}, { retryBaseMs: 1 })).rejects.toMatchObject({ reason: "not_found" });
+    expect(mockAdapter).toHaveBeenCalledTimes(1);
+  });
+
+  it("sends validators and reuses the cached body on 304", async () => {
+    mockAdapter
+      .mockImplementationOnce(respond(200, { result: { id: "v1" } }, { etag: "\"abc\"", "last-modified": "Mon, 01 Jan 2024 00:00:00 GMT" }))
+      .mockImplementationOnce(respond(304));
+
+    await stjGetJson(URL, { params: { id: "x" } });
+    const second = await stjGetJson(URL, { params: { id: "x" } });
+
+    const headers = mockAdapter.mock.calls[1][0].headers;
+    expect(headers["If-None-Match"]).toBe("\"abc\"");
+    expect(headers["If-Modified-Since"]).toBe("Mon, 01 Jan 2024 00:00:00 GMT");
+    expect(second.result.id).toBe("v1");
+  });
+
+  it("evicts the least recently used cached response beyond the cap", async () => {
+    mockAdapter.mockImplementation(respond(200, {}, { etag: "\"v\"" }));
+
+    await stjGetJson(URL, { params: { id: "a" } });
+    await stjGetJson(URL, { params: { id: "b" } });
+    await stjGetJson(URL, { params: { id: "a" } });
+    await stjGetJson(URL, { params: { id: "c" } });
+    await stjGetJson(URL, { params: { id: "a" } });
+    await stjGetJson(URL, { params: { id: "b" } });
+
+    // "a" was touched before "c" arrived, so "b" is the one evicted
+    const validators = mockAdapter.mock.calls.map(([config]) => config.headers["If-None-Match"]);
+    expect(validators).toEqual([undefined, undefined, "\"v\"", undefined, "\"v\"", undefined]);
+  });
+
+  it("spaces consecutive requests to the same host", async () => {
+    mockAdapter.mockImplementation(respond(200, {}));
+    const started = Date.now();
+    await stjGetJson(URL, { params: { id: "a" } });
+    await stjGetJson(URL, { params: { id: "b" } });
+    await stjGetJson(URL, { params: { id: "c" } });
+    expect(Date.now() - started).toBeGreaterThanOrEqual(75);
+  });
+});
+
+describe("circuit breaker", () => {
+  it("pauses all STJ calls after repeated Cloudflare blocks", async () => {
+    mockAdapter.mockImplementation(respond(403, "<html>Just a moment...</html>", { server: "cloudflare" }));
+
+    await expect(stjGetJson(URL)).rejects.toMatchObject({ reason: "cloudflare_block" });
+    await expect(stjGetJson(URL)).rejects.toMatchObject({ reason: "cloudflare_block" });
+    expect(getCircuitState().open).toBe(true);
+
+    mockAdapter.mockClear();
+    await expect(stjGetJson(URL)).rejects.toMatchObject({ reason: "circuit_open" });
+    expect(mockAdapter).not.toHaveBeenCalled();
+  });
+
+  it("resets the block count after a successful response", async () => {
+    mockAdapter
+      .mockImplementationOnce(respond(403, "", { "cf-mitigated": "challenge" }))
+      .mockImplementationOnce(respond(200, {}))
+      .mockImplementationOnce(respond(403, "", { "cf-mitigated": "challenge" }));
+
+    await stjGetJson(URL).catch(() => {});
+    await stjGetJson(URL);
+    await stjGetJson(URL).catch(() => {});
+
+    expect(getCircuitState()).toMatchObject({ open: false, consecutiveBlocks: 1 });
+  });
+});
+
+describe("classification helpers", () => {
+  it("recognizes Cloudflare blocks", () => {
+    expect(isCloudflareBlock(403, { server: "cloudflare" })).toBe(true);
+    expect(isCloudflareBlock(200, { "cf-mitigated": "challenge" })).toBe(true);
+    expect(isCloudflareBlock(403, { server: "nginx" })).toBe(false);
+  });
+
+  it("maps network errors", () => {
+    expect(classifyStjError(new Error("ECONNRESET")).reason).toBe("network_error");
+  });
+});
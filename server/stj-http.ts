@@ -0,0 +1,263 @@
+/**
+ * Shared HTTP client for the STJ open-data portal (CKAN API and resource downloads).
+ * Polite by default: per-host request spacing, retry with exponential backoff on
+ * 429/5xx (honouring Retry-After), a circuit breaker that pauses every STJ call after
+ * repeated Cloudflare blocks, and conditional GETs (ETag / If-Modified-Since) for API calls.
+ */
+import axios, { type AxiosInstance, type AxiosRequestConfig } from "axios";
+import { logger } from "./_core/logger";
+
+export const STJ_BASE = "https://dadosabertos.web.stj.jus.br";
+
+const MIN_REQUEST_INTERVAL_MS = Number(process.env.STJ_MIN_REQUEST_INTERVAL_MS || "1000");
+const MAX_RETRIES = Number(process.env.STJ_HTTP_MAX_RETRIES || "3");
+const RETRY_BASE_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60_000;
+const BREAKER_THRESHOLD = Number(process.env.STJ_CIRCUIT_BREAKER_THRESHOLD || "3");
+const BREAKER_COOLDOWN_MS = Number(process.env.STJ_CIRCUIT_BREAKER_COOLDOWN_MS || "600000");
+const CONDITIONAL_CACHE_MAX_ENTRIES = Number(process.env.STJ_CONDITIONAL_CACHE_MAX_ENTRIES || "200");
+
+export type StjFailureReason =
+  | "cloudflare_block"
+  | "circuit_open"
+  | "rate_limited"
+  | "server_error"
+  | "not_found"
+  | "http_error"
+  | "network_error";
+
+/** Classified STJ request failure; `reason` is what gets recorded on dataset rows */
+export class StjHttpError extends Error {
+  constructor(
+    message: string,
+    readonly reason: StjFailureReason,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = "StjHttpError";
+  }
+}
+
+// ─── Circuit breaker ─────────────────────────────────────────────────────────
+
+let consecutiveBlocks = 0;
+let openUntil = 0;
+
+/** Circuit breaker state, exposed for logs and the UI */
+export function getCircuitState(): { open: boolean; consecutiveBlocks: number; openUntil: Date | null } {
+  return {
+    open: Date.now() < openUntil,
+    consecutiveBlocks,
+    openUntil: openUntil > 0 ? new Date(openUntil) : null,
+  };
+}
+
+function assertCircuitClosed(): void {
+  if (Date.now() < openUntil) {
+    throw new StjHttpError(
+      `STJ requests paused after repeated Cloudflare blocks until ${new Date(openUntil).toISOString()}`,
+      "circuit_open",
+    );
+  }
+}
+
+function recordBlock(): void {
+  consecutiveBlocks++;
+  // Also re-opens immediately when the first request after a cooldown is blocked again
+  if (consecutiveBlocks >= BREAKER_THRESHOLD) {
+    openUntil = Date.now() + BREAKER_COOLDOWN_MS;
+    logger.warn({ consecutiveBlocks, openUntil: new Date(openUntil) }, "[STJ HTTP] Circuit breaker opened");
+  }
+}
+
+function recordSuccess(): void {
+  if (openUntil > 0) logger.info("[STJ HTTP] Circuit breaker closed");
+  consecutiveBlocks = 0;
+  openUntil = 0;
+}
+
+/** Cloudflare challenge/block pages: 403/503 served by Cloudflare, or an explicit cf-mitigated header */
+export function isCloudflareBlock(status: number | undefined, headers: Record<string, any> | undefined): boolean {
+  if (!status || !headers) return false;
+  if (headers["cf-mitigated"]) return true;
+  const server = String(headers.server || "").toLowerCase();
+  return (status === 403 || status === 503) && server.includes("cloudflare");
+}
+
+// ─── Per-host spacing ────────────────────────────────────────────────────────
+
+const lastRequestAt = new Map<string, number>();
+const hostSlots = new Map<string, Promise<void>>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/** Wait until at least MIN_REQUEST_INTERVAL_MS has passed since the previous request to the host */
+async function waitForHostSlot(host: string): Promise<void> {
+  const previous = hostSlots.get(host) ?? Promise.resolve();
+  const slot = previous.then(async () => {
+    const wait = (lastRequestAt.get(host) ?? 0) + MIN_REQUEST_INTERVAL_MS - Date.now();
+    if (wait > 0) await sleep(wait);
+    lastRequestAt.set(host, Date.now());
+  });
+  hostSlots.set(host, slot);
+  await slot;
+}
+
+function hostOf(url: string | undefined): string {
+  try {
+    return new URL(url || "", STJ_BASE).host;
+  } catch {
+    return "unknown";
+  }
+}
+
+// ─── Client ──────────────────────────────────────────────────────────────────
+
+let _client: AxiosInstance | null = null;
+
+/** Shared axios instance with browser-like headers (Cloudflare) plus spacing and breaker interceptors */
+export function getStjClient(): AxiosInstance {
+  if (_client) return _client;
+  const client = axios.create({
+    timeout: 60000,
+    headers: {
+      "User-Agent": "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+      "Accept": "application/json, text/html, */*",
+      "Accept-Language": "pt-BR,pt;q=0.9,en-US;q=0.8,en;q=0.7",
+      "Accept-Encoding": "gzip, deflate, br",
+      "Referer": STJ_BASE,
+      "Origin": STJ_BASE,
+    },
+    maxRedirects: 5,
+  });
+
+  client.interceptors.request.use(async (config) => {
+    assertCircuitClosed();
+    await waitForHostSlot(hostOf(config.url));
+    return config;
+  });
+  client.interceptors.response.use(
+    (response) => {
+      recordSuccess();
+      return response;
+    },
+    (error) => {
+      if (isCloudflareBlock(error?.response?.status, error?.response?.headers)) recordBlock();
+      return Promise.reject(error);
+    },
+  );
+
+  _client = client;
+  return client;
+}
+
+/** Map an axios/breaker error to a StjHttpError with a failure reason */
+export function classifyStjError(error: any): StjHttpError {
+  if (error instanceof StjHttpError) return error;
+  const status: number | undefined = error?.response?.status;
+  if (isCloudflareBlock(status, error?.response?.headers)) {
+    return new StjHttpError(`Blocked by Cloudflare (HTTP ${status})`, "cloudflare_block", status);
+  }
+  if (status === 429) return new StjHttpError("Rate limited by STJ portal (HTTP 429)", "rate_limited", status);
+  if (status === 404) return new StjHttpError("Not found (HTTP 404)", "not_found", status);
+  if (status && status >= 500) return new StjHttpError(`STJ portal error (HTTP ${status})`, "server_error", status);
+  if (status) return new StjHttpError(`HTTP ${status}`, "http_error", status);
+  return new StjHttpError(error?.message || String(error), "network_error");
+}
+
+/** Network errors, 429 and 5xx are worth retrying; other failures are not */
+export function isRetryable(error: StjHttpError): boolean {
+  return error.reason === "rate_limited" || error.reason === "server_error" || error.reason === "network_error";
+}
+
+/** Retry-After in ms (seconds or HTTP date), if the server sent one */
+function retryAfterMs(error: any): number | null {
+  const header = error?.response?.headers?.["retry-after"];
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+interface CachedResponse {
+  etag?: string;
+  lastModified?: string;
+  data: any;
+}
+
+/**
+ * Validators and bodies of previous API responses, keyed by URL + params.
+ * Bounded LRU: Map keeps insertion order, so hits are re-inserted and the first key is the eldest.
+ */
+const conditionalCache = new Map<string, CachedResponse>();
+
+function getCachedResponse(key: string): CachedResponse | undefined {
+  const cached = conditionalCache.get(key);
+  if (cached) {
+    conditionalCache.delete(key);
+    conditionalCache.set(key, cached);
+  }
+  return cached;
+}
+
+function setCachedResponse(key: string, value: CachedResponse): void {
+  conditionalCache.delete(key);
+  conditionalCache.set(key, value);
+  while (conditionalCache.size > CONDITIONAL_CACHE_MAX_ENTRIES) {
+    conditionalCache.delete(conditionalCache.keys().next().value!);
+  }
+}
+
+/**
+ * GET a JSON endpoint of the STJ portal with retries and conditional requests.
+ * A 304 Not Modified returns the body cached from the previous 200.
+ */
+export async function stjGetJson<T = any>(
+  url: string,
+  config: AxiosRequestConfig = {},
+  options: { retryBaseMs?: number } = {},
+): Promise<T> {
+  const { retryBaseMs = RETRY_BASE_MS } = options;
+  const client = getStjClient();
+  const cacheKey = `${url}?${JSON.stringify(config.params ?? {})}`;
+
+  for (let attempt = 0; ; attempt++) {
+    const cached = getCachedResponse(cacheKey);
+    const headers: Record<string, string> = { ...(config.headers as Record<string, string> | undefined) };
+    if (cached?.etag) headers["If-None-Match"] = cached.etag;
+    if (cached?.lastModified) headers["If-Modified-Since"] = cached.lastModified;
+
+    try {
+      const response = await client.get(url, {
+        ...config,
+        headers,
+        validateStatus: status => (status >= 200 && status < 300) || status === 304,
+      });
+      if (response.status === 304 && cached) return cached.data as T;
+
+      const etag = response.headers?.etag;
+      const lastModified = response.headers?.["last-modified"];
+      if (etag || lastModified) setCachedResponse(cacheKey, { etag, lastModified, data: response.data });
+      return response.data as T;
+    } catch (error: any) {
+      const failure = classifyStjError(error);
+      if (!isRetryable(failure) || attempt >= MAX_RETRIES) throw failure;
+      const delay = Math.min(MAX_RETRY_DELAY_MS, retryAfterMs(error) ?? retryBaseMs * Math.pow(2, attempt));
+      logger.warn({ url, attempt, reason: failure.reason, delay }, "[STJ HTTP] Request failed, retrying");
+      await sleep(delay);
+    }
+  }
+}
+
+/** Reset breaker, spacing and conditional cache (tests) */
+export function resetStjHttpState(): void {
+  consecutiveBlocks = 0;
+  openUntil = 0;
+  lastRequestAt.clear();
+  hostSlots.clear();
+  conditionalCache.clear();
+  _client = null;
+}
@@ -0,0 +1,163 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, stat, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Readable } from "stream";
+
+vi.mock("./_core/logger", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import {
+  parseJsonRecords, writeNdjson, readNdjsonBatches, downloadWithResume, hashFile,
+} from "./stj-stream";
+
+async function collect<T>(gen: AsyncGenerator<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const item of gen) out.push(item);
+  return out;
+}
+
+/** Split a string into fixed-size pieces to simulate network chunks */
+async function* pieces(text: string, size: number) {
+  for (let i = 0; i < text.length; i += size) yield text.slice(i, i + size);
+}
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "stj-stream-test-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+// ─── parseJsonRecords ───────────────────────────────────────────────────────
+
+describe("parseJsonRecords", () => {
+  const records = [
+    { processo: "REsp 1.234.567/SP", ementa: "Texto com \"aspas\", vírgulas e ]colchetes[" },
+    { nested: { list: [1, 2, { deep: "}" }] }, empty: [] },
+    { barra: "C:\\\\pasta\\\\", unicode: "Órgão Julgador" },
+  ];
+
+  it("yields each array element across arbitrary chunk boundaries", async () => {
+    const text = JSON.stringify(records, null, 2);
+    for (const size of [1, 3, 7, 64, text.length]) {
+      expect(await collect(parseJsonRecords(pieces(text, size)))).toEqual(records);
+    }
+  });
+
+  it("handles empty arrays and scalar elements", async () => {
+    expect(await collect(parseJsonRecords(pieces("[]", 1)))).toEqual([]);
+    expect(await collect(parseJsonRecords(pieces("[1, \"a\", true, null]", 2)))).toEqual([1, "a", true, null]);
+  });
+
+  it("yields a top-level object as a single record", async () => {
+    const text = "\uFEFF" + JSON.stringify({ id: 1, ementa: "x" });
+    expect(await collect(parseJsonRecords(pieces(text, 4)))).toEqual([{ id: 1, ementa: "x" }]);
+  });
+
+  it("throws on a truncated array", async () => {
+    await expect(collect(parseJsonRecords(pieces("[{\"a\": 1}, {\"b\":", 5)))).rejects.toThrow("Unexpected end");
+  });
+});
+
+// ─── NDJSON spool ───────────────────────────────────────────────────────────
+
+describe("writeNdjson / readNdjsonBatches", () => {
+  it("round-trips records through NDJSON in batches", async () => {
+    const records = Array.from({ length: 7 }, (_, i) => ({ id: i, ementa: `Ementa ${i}` }));
+    const ndjsonPath = join(dir, "out.ndjson");
+
+    const count = await writeNdjson(parseJsonRecords(pieces(JSON.stringify(records), 16)), ndjsonPath);
+    expect(count).toBe(7);
+    expect((await readFile(ndjsonPath, "utf-8")).trim().split("\n")).toHaveLength(7);
+
+    const batches = await collect(readNdjsonBatches(ndjsonPath, 3));
+    expect(batches.map(b => b.length)).toEqual([3, 3, 1]);
+    expect(batches.flat()).toEqual(records);
+  });
+});
+
+// ─── downloadWithResume ─────────────────────────────────────────────────────
+
+describe("downloadWithResume", () => {
+  it("resumes with a Range header after a dropped connection", async () => {
+    const body = "[{\"id\":1},{\"id\":2}]";
+    const dest = join(dir, "res.json.part");
+
+    const get = vi.fn()
+      .mockImplementationOnce(async () => {
+        // First attempt: deliver half the payload, then fail
+        const stream = new Readable({ read() {} });
+        stream.push(body.slice(0, 8));
+        setTimeout(() => stream.destroy(new Error("socket hang up")), 20);
+        return { status: 200, headers: { etag: "\"v1\"" }, data: stream };
+      })
+      .mockImplementationOnce(async (_url: string, config: any) => ({
+        status: 206,
+        data: Readable.from([body.slice(Number(config.headers.Range.match(/bytes=(\d+)-/)[1]))]),
+      }));
+
+    const bytes = await downloadWithResume({ get } as any, "https://x/res.json", dest, { backoffBaseMs: 1 });
+
+    expect(get).toHaveBeenCalledTimes(2);
+    expect(get.mock.calls[1][1].headers).toEqual({ Range: "bytes=8-", "If-Range": "\"v1\"" });
+    expect(bytes).toBe(body.length);
+    expect(await readFile(dest, "utf-8")).toBe(body);
+  });
+
+  it("never resumes a partial file left by an earlier call", async () => {
+    const dest = join(dir, "res.json.part");
+    await writeFile(dest, "stale-partial");
+    const get = vi.fn().mockResolvedValue({ status: 200, headers: {}, data: Readable.from(["[1,2]"]) });
+
+    await downloadWithResume({ get } as any, "https://x/res.json", dest);
+
+    expect(get.mock.calls[0][1].headers).toBeUndefined();
+    expect(await readFile(dest, "utf-8")).toBe("[1,2]");
+  });
+
+  it("restarts from scratch when the remote file changed (If-Range answered with 200)", async () => {
+    const dest = join(dir, "res.json.part");
+    const get = vi.fn()
+      .mockImplementationOnce(async () => {
+        const stream = new Readable({ read() {} });
+        stream.push("[\"old");
+        setTimeout(() => stream.destroy(new Error("socket hang up")), 20);
+        return { status: 200, headers: { "last-modified": "Mon, 01 Jan 2024 00:00:00 GMT" }, data: stream };
+      })
+      .mockResolvedValueOnce({ status: 200, headers: {}, data: Readable.from(["[\"new\"]"]) });
+
+    await downloadWithResume({ get } as any, "https://x/res.json", dest, { backoffBaseMs: 1 });
+
+    expect(get.mock.calls[1][1].headers).toEqual({ Range: "bytes=5-", "If-Range": "Mon, 01 Jan 2024 00:00:00 GMT" });
+    expect(await readFile(dest, "utf-8")).toBe("[\"new\"]");
+  });
+
+  it("does not retry client errors and deletes the partial file", async () => {
+    const dest = join(dir, "res.json.part");
+    const get = vi.fn()
+      .mockImplementationOnce(async () => {
+        const stream = new Readable({ read() {} });
+        stream.push("[1,");
+        setTimeout(() => stream.destroy(new Error("socket hang up")), 20);
+        return { status: 200, headers: { etag: "\"v1\"" }, data: stream };
+      })
+      .mockRejectedValueOnce(Object.assign(new Error("HTTP 404"), { response: { status: 404, headers: {} } }));
+
+    await expect(downloadWithResume({ get } as any, "https://x/res.json", dest, { backoffBaseMs: 1 }))
+      .rejects.toMatchObject({ reason: "not_found" });
+
+    expect(get).toHaveBeenCalledTimes(2);
+    await expect(stat(dest)).rejects.toThrow();
+  });
+
+  it("hashes the downloaded file", async () => {
+    const path = join(dir, "h.json");
+    await writeFile(path, "abc");
+    expect(await hashFile(path)).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+  });
+});
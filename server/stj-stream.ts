@@ -0,0 +1,225 @@
+/**
+ * Streaming helpers for large STJ resources.
+ * Downloads to disk with HTTP range resume, splits top-level JSON arrays
+ * incrementally and spools records as NDJSON so memory stays flat.
+ * Format-specific parsing lives in resource-parsers.ts.
+ */
+import { createReadStream, createWriteStream } from "fs";
+import { mkdir, rm, stat } from "fs/promises";
+import { createHash } from "crypto";
+import { createInterface } from "readline";
+import { once } from "events";
+import { pipeline } from "stream/promises";
+import type { Readable } from "stream";
+import type { AxiosInstance } from "axios";
+import { logger } from "./_core/logger";
+import { classifyStjError, isRetryable } from "./stj-http";
+
+const MAX_DOWNLOAD_ATTEMPTS = Number(process.env.STJ_DOWNLOAD_MAX_ATTEMPTS || "5");
+const RESUME_BACKOFF_BASE_MS = 1000;
+
+/** Size of a file on disk, or 0 when it does not exist */
+async function fileSize(path: string): Promise<number> {
+  try {
+    return (await stat(path)).size;
+  } catch {
+    return 0;
+  }
+}
+
+/** Strong validator of a response for `If-Range` (weak ETags are not allowed there) */
+function rangeValidator(headers: Record<string, any> | undefined): string | undefined {
+  const etag: string | undefined = headers?.etag;
+  if (etag && !etag.startsWith("W/")) return etag;
+  return headers?.["last-modified"] || undefined;
+}
+
+/**
+ * Download a URL to disk, resuming with `Range` after dropped connections.
+ * Only bytes written by this call are resumed, and only with `If-Range` set to the
+ * validator of the response they came from: if the remote file changed, the server
+ * answers 200 and the download restarts instead of appending to stale bytes.
+ * Network errors, 429 and 5xx are retried; other failures (e.g. 404) are thrown at
+ * once. The partial file is deleted when the download fails for good.
+ */
+export async function downloadWithResume(
+  client: AxiosInstance,
+  url: string,
+  destPath: string,
+  options: { timeoutMs?: number; backoffBaseMs?: number } = {},
+): Promise<number> {
+  const { timeoutMs = 120000, backoffBaseMs = RESUME_BACKOFF_BASE_MS } = options;
+  const attempts = Math.max(1, MAX_DOWNLOAD_ATTEMPTS);
+  // Validator of the response the bytes on disk came from; unset means start over
+  let validator: string | undefined;
+
+  for (let attempt = 0; ; attempt++) {
+    const offset = validator ? await fileSize(destPath) : 0;
+    try {
+      const response = await client.get(url, {
+        responseType: "stream",
+        timeout: timeoutMs,
+        headers: validator && offset > 0 ? { Range: `bytes=${offset}-`, "If-Range": validator } : undefined,
+        validateStatus: status => status === 200 || status === 206 || status === 416,
+      });
+
+      // 416: the unchanged file ends at the range start — the previous attempt already got everything
+      if (response.status === 416) {
+        response.data?.destroy?.();
+        return offset;
+      }
+
+      const append = response.status === 206 && offset > 0;
+      if (!append) validator = rangeValidator(response.headers);
+      await pipeline(response.data as Readable, createWriteStream(destPath, { flags: append ? "a" : "w" }));
+      return fileSize(destPath);
+    } catch (error: any) {
+      const failure = classifyStjError(error);
+      if (!isRetryable(failure) || attempt + 1 >= attempts) {
+        await rm(destPath, { force: true });
+        throw failure;
+      }
+      logger.warn(
+        { attempt, offset, err: String(error), url },
+        "[STJ Stream] Download interrupted, will resume",
+      );
+      const backoff = backoffBaseMs * Math.pow(2, attempt);
+      await new Promise(r => setTimeout(r, backoff));
+    }
+  }
+}
+
+/** Write a stream to disk, returning the file size */
+export async function writeStreamToFile(stream: Readable, destPath: string): Promise<number> {
+  await pipeline(stream, createWriteStream(destPath, { flags: "w" }));
+  return fileSize(destPath);
+}
+
+/** SHA-256 of a file, computed by streaming */
+export async function hashFile(path: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(path)) hash.update(chunk as Buffer);
+  return hash.digest("hex");
+}
+
+/**
+ * Incrementally parse a JSON document from a text stream.
+ * A top-level array yields one value per element without buffering the whole array;
+ * any other top-level value is buffered and yielded as a single record.
+ */
+export async function* parseJsonRecords(stream: AsyncIterable<string | Buffer>): AsyncGenerator<any> {
+  let mode: "unknown" | "array" | "single" | "done" = "unknown";
+  let buffer = "";
+  let pos = 0; // next character of buffer to scan
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let elementStart = -1;
+
+  for await (const piece of stream) {
+    if (mode === "done") continue;
+    buffer += typeof piece === "string" ? piece : piece.toString("utf-8");
+
+    if (mode === "unknown") {
+      const trimmed = buffer.replace(/^\uFEFF/, "").trimStart();
+      if (trimmed.length === 0) continue;
+      if (trimmed[0] === "[") {
+        mode = "array";
+        buffer = trimmed.slice(1);
+      } else {
+        mode = "single";
+      }
+    }
+
+    if (mode === "single") continue;
+
+    for (; pos < buffer.length; pos++) {
+      const ch = buffer[pos];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === "\\") escaped = true;
+        else if (ch === "\"") inString = false;
+        continue;
+      }
+
+      if (ch === "\"") {
+        inString = true;
+        if (elementStart < 0) elementStart = pos;
+      } else if (ch === "{" || ch === "[") {
+        if (elementStart < 0) elementStart = pos;
+        depth++;
+      } else if (ch === "}" || ch === "]") {
+        if (depth === 0) {
+          // Closing bracket of the top-level array; trailing content is ignored
+          if (elementStart >= 0) yield JSON.parse(buffer.slice(elementStart, pos));
+          elementStart = -1;
+          mode = "done";
+          break;
+        }
+        depth--;
+      } else if (ch === "," && depth === 0) {
+        if (elementStart >= 0) yield JSON.parse(buffer.slice(elementStart, pos));
+        elementStart = -1;
+      } else if (elementStart < 0 && !/\s/.test(ch)) {
+        elementStart = pos; // scalar element
+      }
+    }
+
+    // Drop what was already yielded, keep the partial element
+    if (mode === "done") {
+      buffer = "";
+    } else if (elementStart >= 0) {
+      buffer = buffer.slice(elementStart);
+      pos -= elementStart;
+      elementStart = 0;
+    } else {
+      buffer = "";
+      pos = 0;
+    }
+  }
+
+  if (mode === "array") throw new Error("Unexpected end of JSON array");
+  if (mode === "single" && buffer.trim().length > 0) {
+    yield JSON.parse(buffer.replace(/^\uFEFF/, ""));
+  }
+}
+
+/** Write records to an NDJSON file (one record per line). Returns the record count. */
+export async function writeNdjson(records: AsyncIterable<any>, ndjsonPath: string): Promise<number> {
+  const out = createWriteStream(ndjsonPath, { flags: "w" });
+  let count = 0;
+  try {
+    for await (const record of records) {
+      if (!out.write(JSON.stringify(record) + "\n")) await once(out, "drain");
+      count++;
+    }
+  } finally {
+    out.end();
+    await once(out, "finish");
+  }
+  return count;
+}
+
+/** Read an NDJSON file in batches of records */
+export async function* readNdjsonBatches(ndjsonPath: string, batchSize = 500): AsyncGenerator<any[]> {
+  const lines = createInterface({ input: createReadStream(ndjsonPath, { encoding: "utf-8" }), crlfDelay: Infinity });
+  let batch: any[] = [];
+  for await (const line of lines) {
+    if (line.trim().length === 0) continue;
+    batch.push(JSON.parse(line));
+    if (batch.length >= batchSize) {
+      yield batch;
+      batch = [];
+    }
+  }
+  if (batch.length > 0) yield batch;
+}
+
+export async function ensureDir(dir: string): Promise<void> {
+  await mkdir(dir, { recursive: true });
+}
+
+export async function removeFile(path: string): Promise<void> {
+  await rm(path, { force: true });
+}
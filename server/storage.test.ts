@@ -2,9 +2,17 @@ import { vi, describe, it, expect, beforeEach } from "vitest";
 
 const mockUpload = vi.fn();
 const mockCreateSignedUrl = vi.fn();
+const mockCreateSignedUploadUrl = vi.fn();
+const mockInfo = vi.fn();
+const mockRemove = vi.fn();
+const mockMove = vi.fn();
 const mockStorageFrom = vi.fn(() => ({
   upload: mockUpload,
   createSignedUrl: mockCreateSignedUrl,
+  createSignedUploadUrl: mockCreateSignedUploadUrl,
+  info: mockInfo,
+  remove: mockRemove,
+  move: mockMove,
 }));
 const mockStorage = { from: mockStorageFrom };
 
@@ -16,13 +24,17 @@ vi.mock("@supabase/supabase-js", () => ({
 process.env.SUPABASE_URL = "https://test.supabase.co";
 process.env.SUPABASE_SERVICE_KEY = "test-service-key";
 
-import { storagePut } from "./storage";
+import { storagePut, storageCreateUploadUrl, storageInfo, storageDelete, storageConcat } from "./storage";
 
 beforeEach(() => {
   vi.clearAllMocks();
   mockStorageFrom.mockReturnValue({
     upload: mockUpload,
     createSignedUrl: mockCreateSignedUrl,
+    createSignedUploadUrl: mockCreateSignedUploadUrl,
+    info: mockInfo,
+    remove: mockRemove,
+    move: mockMove,
   });
 });
 
@@ -57,3 +69,75 @@ describe("storagePut", () => {
     expect(result.key).toBe("test.txt");
   });
 });
+
+describe("storageCreateUploadUrl", () => {
+  it("returns a signed upload URL for the normalized key", async () => {
+    mockCreateSignedUploadUrl.mockResolvedValueOnce({
+      data: { signedUrl: "https://test.supabase.co/storage/v1/object/upload/sign/documents/big.zip?token=t", token: "t" },
+      error: null,
+    });
+
+    const result = await storageCreateUploadUrl("/documents/big.zip");
+    expect(result.key).toBe("documents/big.zip");
+    expect(result.signedUrl).toContain("upload/sign");
+    expect(mockCreateSignedUploadUrl).toHaveBeenCalledWith("documents/big.zip");
+  });
+
+  it("throws when signing fails", async () => {
+    mockCreateSignedUploadUrl.mockResolvedValueOnce({ data: null, error: { message: "Bucket not found" } });
+    await expect(storageCreateUploadUrl("documents/x.pdf")).rejects.toThrow("Bucket not found");
+  });
+});
+
+describe("storageInfo", () => {
+  it("returns size and content type of a stored object", async () => {
+    mockInfo.mockResolvedValueOnce({ data: { size: 734003200, contentType: "application/zip" }, error: null });
+    expect(await storageInfo("documents/big.zip")).toEqual({ size: 734003200, contentType: "application/zip" });
+  });
+
+  it("returns null when the object does not exist", async () => {
+    mockInfo.mockResolvedValueOnce({ data: null, error: { message: "Object not found" } });
+    expect(await storageInfo("documents/missing.pdf")).toBeNull();
+  });
+});
+
+describe("storageDelete", () => {
+  it("removes the normalized keys", async () => {
+    mockRemove.mockResolvedValueOnce({ data: [], error: null });
+    await storageDelete(["/documents/a.pdf", "documents/b.pdf"]);
+    expect(mockRemove).toHaveBeenCalledWith(["documents/a.pdf", "documents/b.pdf"]);
+  });
+
+  it("does nothing for an empty list", async () => {
+    await storageDelete([]);
+    expect(mockRemove).not.toHaveBeenCalled();
+  });
+});
+
+describe("storageConcat", () => {
+  it("moves a single part into place", async () => {
+    mockMove.mockResolvedValueOnce({ data: {}, error: null });
+    await storageConcat(["documents/7/a.pdf.part00000"], "documents/7/a.pdf");
+    expect(mockMove).toHaveBeenCalledWith("documents/7/a.pdf.part00000", "documents/7/a.pdf");
+    expect(mockUpload).not.toHaveBeenCalled();
+  });
+
+  it("streams several parts in order into one object and removes them", async () => {
+    mockCreateSignedUrl.mockImplementation(async (key: string) => ({ data: { signedUrl: `https://signed/${key}` }, error: null }));
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async (url: any) =>
+      new Response(String(url).endsWith("00000") ? "first-" : "second"));
+    let uploaded = "";
+    mockUpload.mockImplementationOnce(async (_key: string, stream: AsyncIterable<Buffer>) => {
+      for await (const chunk of stream) uploaded += chunk.toString();
+      return { error: null };
+    });
+    mockRemove.mockResolvedValueOnce({ data: [], error: null });
+
+    await storageConcat(["documents/7/a.zip.part00000", "documents/7/a.zip.part00001"], "documents/7/a.zip", "application/zip");
+
+    expect(uploaded).toBe("first-second");
+    expect(mockUpload).toHaveBeenCalledWith("documents/7/a.zip", expect.anything(), expect.objectContaining({ contentType: "application/zip" }));
+    expect(mockRemove).toHaveBeenCalledWith(["documents/7/a.zip.part00000", "documents/7/a.zip.part00001"]);
+    fetchSpy.mockRestore();
+  });
+});
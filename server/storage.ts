@@ -1,4 +1,5 @@
 import { createClient } from "@supabase/supabase-js";
+import { Readable } from "stream";
 
 const BUCKET = "documents";
 
@@ -46,6 +47,71 @@ export async function storagePut(
   return { key, url: signedData.signedUrl };
 }
 
+/** Upload a stream (e.g. a large NDJSON spool file) without buffering it in memory */
+export async function storagePutStream(
+  relKey: string,
+  stream: NodeJS.ReadableStream,
+  contentType = "application/octet-stream"
+): Promise<{ key: string }> {
+  const supabase = getSupabase();
+  const key = normalizeKey(relKey);
+
+  const { error } = await supabase.storage.from(BUCKET).upload(key, stream, {
+    contentType,
+    upsert: true,
+    duplex: "half",
+  });
+
+  if (error) {
+    throw new Error(`Storage upload failed: ${error.message}`);
+  }
+
+  return { key };
+}
+
+/**
+ * Pre-signed URL the browser PUTs a file to directly (no size limit from the
+ * API body parser). The URL is valid for 2 hours and does not overwrite.
+ */
+export async function storageCreateUploadUrl(relKey: string): Promise<{ key: string; signedUrl: string }> {
+  const supabase = getSupabase();
+  const key = normalizeKey(relKey);
+
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUploadUrl(key);
+
+  if (error || !data) {
+    throw new Error(`Failed to create upload URL: ${error?.message ?? "unknown error"}`);
+  }
+
+  return { key, signedUrl: data.signedUrl };
+}
+
+/** Size and content type of a stored object, or null when it does not exist */
+export async function storageInfo(relKey: string): Promise<{ size: number; contentType: string | null } | null> {
+  const supabase = getSupabase();
+  const key = normalizeKey(relKey);
+
+  const { data, error } = await supabase.storage.from(BUCKET).info(key);
+  if (error || !data) return null;
+
+  return { size: Number(data.size ?? 0), contentType: data.contentType ?? null };
+}
+
+/** Remove stored objects (missing keys are ignored) */
+export async function storageDelete(relKeys: string[]): Promise<void> {
+  if (relKeys.length === 0) return;
+  const supabase = getSupabase();
+
+  const { error } = await supabase.storage.from(BUCKET).remove(relKeys.map(normalizeKey));
+  if (error) {
+    throw new Error(`Storage delete failed: ${error.message}`);
+  }
+}
+
+export function isStorageConfigured(): boolean {
+  return Boolean(process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_KEY);
+}
+
 export async function storageGet(relKey: string): Promise<{ key: string; url: string }> {
   const supabase = getSupabase();
   const key = normalizeKey(relKey);
@@ -58,3 +124,41 @@ export async function storageGet(relKey: string): Promise<{ key: string; url: st
 
   return { key, url: data.signedUrl };
 }
+
+/**
+ * Join uploaded parts, in order, into one object and remove the parts. A single
+ * part is just moved into place; several are streamed through without buffering.
+ */
+export async function storageConcat(
+  partKeys: string[],
+  relKey: string,
+  contentType = "application/octet-stream"
+): Promise<{ key: string }> {
+  const key = normalizeKey(relKey);
+  const parts = partKeys.map(normalizeKey);
+
+  if (parts.length === 1) {
+    const { error } = await getSupabase().storage.from(BUCKET).move(parts[0], key);
+    if (error) {
+      throw new Error(`Storage move failed: ${error.message}`);
+    }
+    return { key };
+  }
+
+  async function* joined() {
+    for (const part of parts) yield* await storageGetStream(part);
+  }
+  await storagePutStream(key, Readable.from(joined()), contentType);
+  await storageDelete(parts);
+  return { key };
+}
+
+/** Stream a stored object back (e.g. a raw resource snapshot) without buffering it in memory */
+export async function storageGetStream(relKey: string): Promise<Readable> {
+  const { url } = await storageGet(relKey);
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Storage download failed: HTTP ${response.status} ${response.statusText}`);
+  }
+  return Readable.fromWeb(response.body as any);
+}
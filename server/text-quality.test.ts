@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { assessTextQuality, gateChunks, summarizeQuarantine, describeQuarantine } from "./text-quality";
+
+const EMENTA = "PROCESSUAL CIVIL. AGRAVO INTERNO NO RECURSO ESPECIAL. Incide a Súmula 7 do STJ quando a "
+  + "pretensão recursal exige o reexame do conjunto fático-probatório dos autos. Agravo interno não provido.";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("assessTextQuality", () => {
+  it("passes clean Portuguese decision text", () => {
+    const result = assessTextQuality(EMENTA);
+    expect(result.passed).toBe(true);
+    expect(result.metrics.language).toBe("pt");
+    expect(result.score).toBeGreaterThan(0.9);
+  });
+
+  it("flags UTF-8 text decoded with the wrong charset", () => {
+    const result = assessTextQuality("A decisÃ£o agravada negou provimento Ã  apelaÃ§Ã£o do rÃ©u.");
+    expect(result.reasons).toContain("encoding");
+  });
+
+  it("flags text in another language", () => {
+    expect(assessTextQuality("The court of appeals affirmed the judgment and denied the motion.").reasons)
+      .toEqual(["language"]);
+    expect(assessTextQuality("El tribunal desestimó el recurso y confirmó la sentencia de los jueces.").reasons)
+      .toEqual(["language"]);
+  });
+
+  it("flags tables of numbers and OCR noise", () => {
+    const result = assessTextQuality("1.234,56 | 7.890,12 | 345,67 | 2021 | 2022 | 98,7% | R$ 10.000,00 | 12/03");
+    expect(result.reasons).toContain("alphabetic_ratio");
+  });
+
+  it("flags chunks made of stamps and page numbers", () => {
+    const result = assessTextQuality([
+      "Documento assinado eletronicamente por FULANO DE TAL, Ministro, em 10/03/2023",
+      "Código verificador: 1A2B3C4D",
+      "Página 3 de 12",
+      "Recurso provido.",
+    ].join("\n"));
+    expect(result.reasons).toContain("boilerplate");
+  });
+
+  it("flags chunks with too few content words", () => {
+    expect(assessTextQuality("Publique-se.").reasons).toContain("too_short");
+    expect(assessTextQuality("Recurso provido.").reasons).toEqual(["too_short"]);
+  });
+
+  it("reads thresholds from the environment", () => {
+    vi.stubEnv("QUALITY_MIN_INFORMATIVE_WORDS", "1");
+    expect(assessTextQuality("Recurso provido.").passed).toBe(true);
+  });
+});
+
+describe("gateChunks", () => {
+  const chunks = [
+    { text: EMENTA, index: 0, metadata: {} },
+    { text: "The appeal is dismissed and the judgment of the court below is affirmed.", index: 1, metadata: {} },
+  ];
+
+  it("splits accepted and quarantined chunks", () => {
+    const { accepted, quarantined } = gateChunks(chunks);
+    expect(accepted.map(c => c.index)).toEqual([0]);
+    expect(quarantined.map(q => q.chunk.index)).toEqual([1]);
+    expect(quarantined[0].assessment.reasons).toEqual(["language"]);
+  });
+
+  it("keeps every chunk when the gate is disabled", () => {
+    vi.stubEnv("QUALITY_GATE_ENABLED", "false");
+    expect(gateChunks(chunks)).toEqual({ accepted: chunks, quarantined: [] });
+  });
+
+  it("summarizes reasons across batches", () => {
+    const first = summarizeQuarantine(gateChunks(chunks).quarantined);
+    const summary = summarizeQuarantine(gateChunks([{ text: "Ementa.", index: 2, metadata: {} }]).quarantined, first);
+    expect(summary).toEqual({ quarantinedChunks: 2, reasons: { language: 1, too_short: 1 } });
+    expect(describeQuarantine(summary, 10)).toBe("2 of 10 chunks quarantined (language: 1, too_short: 1)");
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Text Quality - Scores chunks before they reach the knowledge graph and the
+ * vector store. Shared by uploads (processDocument) and STJ resources
+ * (processSTJRecords); chunks failing a check are quarantined with the reasons:
+ *   - encoding: mojibake from a wrong charset ("decisÃ£o", "â€œ"), U+FFFD, control characters
+ *   - language: stopwords point to a language other than Portuguese
+ *   - alphabetic_ratio: mostly digits/symbols (tables, OCR noise)
+ *   - boilerplate: mostly signature stamps, page numbers and closing formulas
+ *   - too_short: too few content words to be retrievable on its own
+ * Thresholds are read from QUALITY_* env vars.
+ */
+import type { TextChunk } from "./chunker";
+import type { InsertQuarantinedChunk } from "../drizzle/schema";
+import { isStamp } from "./pdf-layout";
+
+export type QualityReason = "encoding" | "language" | "alphabetic_ratio" | "boilerplate" | "too_short";
+export type DetectedLanguage = "pt" | "es" | "en" | "unknown";
+
+export interface QualityMetrics {
+  /** Encoding errors per letter */
+  encodingErrorRatio: number;
+  language: DetectedLanguage;
+  /** Letters over non-whitespace characters */
+  alphaRatio: number;
+  /** Share of characters on boilerplate lines */
+  boilerplateRatio: number;
+  /** Words of 3+ letters that are not stopwords */
+  informativeWords: number;
+}
+
+export interface QualityAssessment {
+  /** 0 (unusable) to 1 (clean), mean of the per-check scores */
+  score: number;
+  passed: boolean;
+  reasons: QualityReason[];
+  metrics: QualityMetrics;
+}
+
+export interface QuarantinedTextChunk {
+  chunk: TextChunk;
+  assessment: QualityAssessment;
+}
+
+/** Stored in document metadata and reported in logs */
+export interface QualitySummary {
+  quarantinedChunks: number;
+  reasons: Partial<Record<QualityReason, number>>;
+}
+
+export function isQualityGateEnabled(): boolean {
+  return (process.env.QUALITY_GATE_ENABLED || "true").toLowerCase() !== "false";
+}
+
+function thresholds() {
+  return {
+    maxEncodingErrorRatio: Number(process.env.QUALITY_MAX_ENCODING_ERROR_RATIO || "0.01"),
+    minAlphaRatio: Number(process.env.QUALITY_MIN_ALPHA_RATIO || "0.5"),
+    maxBoilerplateRatio: Number(process.env.QUALITY_MAX_BOILERPLATE_RATIO || "0.5"),
+    minInformativeWords: Number(process.env.QUALITY_MIN_INFORMATIVE_WORDS || "3"),
+  };
+}
+
+/** UTF-8 read as Latin-1/CP1252 ("Ã§", "Ã£", "Â º", "â€™") and the replacement character */
+const MOJIBAKE = /[ÃÂ][\u0080-\u00BF]|â€|\uFFFD/g;
+
+/** Frequent words that tell the languages apart (words shared by pt and es are left out) */
+const STOPWORDS: Record<Exclude<DetectedLanguage, "unknown">, Set<string>> = {
+  pt: new Set([
+    "o", "os", "do", "da", "dos", "das", "na", "nas", "ao", "aos", "em", "um", "uma", "não", "é", "são",
+    "pelo", "pela", "foi", "seu", "sua", "ou", "mais", "já", "pois", "então", "isso", "com",
+  ]),
+  es: new Set([
+    "el", "los", "del", "la", "las", "y", "en", "es", "un", "una", "con", "pero", "muy", "fue", "su", "sus",
+    "al", "lo", "esto", "ese", "esta",
+  ]),
+  en: new Set([
+    "the", "and", "of", "to", "is", "in", "that", "for", "with", "on", "this", "be", "are", "was", "by",
+    "it", "which", "from", "or", "at", "not", "have", "has",
+  ]),
+};
+
+/** Articles, prepositions etc. common to pt/es that are not content words either */
+const SHARED_STOPWORDS = new Set(["de", "que", "se", "por", "para", "como", "no", "nos", "a", "e", "as"]);
+
+/** Stopword hits needed before a language is reported */
+const MIN_LANGUAGE_HITS = 3;
+
+/** Lines with no retrieval value besides the tribunal stamps of pdf-layout.ts */
+const BOILERPLATE_PATTERNS: RegExp[] = [
+  /^(?:-+\s*)?(?:p[áa]g(?:ina)?\.?\s*)?\d{1,4}(?:\s*(?:de|\/)\s*\d{1,4})?(?:\s*-+)?$/i,
+  /^(?:https?:\/\/|www\.)\S+$/i,
+  /^publique-se\.?(?:\s*registre-se\.?)?(?:\s*intimem?-se\.?)?(?:\s*cumpra-se\.?)?$/i,
+  /^bras[íi]lia\s*(?:\(DF\))?,?\s*\d{1,2}º?\s+de\s+\p{L}+\s+de\s+\d{4}\.?$/iu,
+  /^superior tribunal de justi[çc]a$/i,
+];
+
+function isBoilerplate(line: string): boolean {
+  return isStamp(line) || BOILERPLATE_PATTERNS.some(pattern => pattern.test(line));
+}
+
+function countEncodingErrors(text: string): number {
+  let errors = text.match(MOJIBAKE)?.length ?? 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    // C0 controls other than tab/newline/carriage return
+    if (code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0d) errors++;
+  }
+  return errors;
+}
+
+/** Language with the most stopword hits, "unknown" for short or stopword-free text */
+export function detectLanguage(words: string[]): DetectedLanguage {
+  let best: DetectedLanguage = "unknown";
+  let bestHits = 0;
+  let total = 0;
+  for (const [language, stopwords] of Object.entries(STOPWORDS)) {
+    const hits = words.filter(w => stopwords.has(w)).length;
+    total += hits;
+    if (hits > bestHits) {
+      best = language as DetectedLanguage;
+      bestHits = hits;
+    }
+  }
+  return total >= MIN_LANGUAGE_HITS ? best : "unknown";
+}
+
+function isStopword(word: string): boolean {
+  return SHARED_STOPWORDS.has(word) || Object.values(STOPWORDS).some(set => set.has(word));
+}
+
+/** Score a chunk of text against the quality thresholds */
+export function assessTextQuality(text: string): QualityAssessment {
+  const limits = thresholds();
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  const letters = words.reduce((sum, w) => sum + w.length, 0);
+  const visible = text.replace(/\s+/g, "").length;
+  const lines = text.split("\n").map(l => l.trim()).filter(l => l.length > 0);
+  const lineChars = lines.reduce((sum, l) => sum + l.length, 0);
+
+  const metrics: QualityMetrics = {
+    encodingErrorRatio: countEncodingErrors(text) / Math.max(1, letters),
+    language: detectLanguage(words),
+    alphaRatio: visible > 0 ? letters / visible : 0,
+    boilerplateRatio: lineChars > 0
+      ? lines.filter(isBoilerplate).reduce((sum, l) => sum + l.length, 0) / lineChars
+      : 0,
+    informativeWords: words.filter(w => w.length >= 3 && !isStopword(w)).length,
+  };
+
+  const reasons: QualityReason[] = [];
+  if (metrics.encodingErrorRatio > limits.maxEncodingErrorRatio) reasons.push("encoding");
+  if (metrics.language !== "pt" && metrics.language !== "unknown") reasons.push("language");
+  if (metrics.alphaRatio < limits.minAlphaRatio) reasons.push("alphabetic_ratio");
+  if (metrics.boilerplateRatio > limits.maxBoilerplateRatio) reasons.push("boilerplate");
+  if (metrics.informativeWords < limits.minInformativeWords) reasons.push("too_short");
+
+  const scores = [
+    Math.max(0, 1 - metrics.encodingErrorRatio / Math.max(limits.maxEncodingErrorRatio * 2, Number.EPSILON)),
+    metrics.language === "pt" || metrics.language === "unknown" ? 1 : 0,
+    Math.min(1, metrics.alphaRatio),
+    1 - metrics.boilerplateRatio,
+    Math.min(1, metrics.informativeWords / Math.max(1, limits.minInformativeWords)),
+  ];
+  const score = Math.round((scores.reduce((a, b) => a + b, 0) / scores.length) * 1000) / 1000;
+
+  return { score, passed: reasons.length === 0, reasons, metrics };
+}
+
+/** Split chunks into those kept and those quarantined (all kept when the gate is disabled) */
+export function gateChunks(chunks: TextChunk[]): { accepted: TextChunk[]; quarantined: QuarantinedTextChunk[] } {
+  if (!isQualityGateEnabled()) return { accepted: chunks, quarantined: [] };
+  const accepted: TextChunk[] = [];
+  const quarantined: QuarantinedTextChunk[] = [];
+  for (const chunk of chunks) {
+    const assessment = assessTextQuality(chunk.text);
+    if (assessment.passed) accepted.push(chunk);
+    else quarantined.push({ chunk, assessment });
+  }
+  return { accepted, quarantined };
+}
+
+/** Count quarantined chunks per reason, adding to `base` (batches of a resource) */
+export function summarizeQuarantine(
+  quarantined: QuarantinedTextChunk[],
+  base: QualitySummary = { quarantinedChunks: 0, reasons: {} }
+): QualitySummary {
+  const reasons = { ...base.reasons };
+  for (const { assessment } of quarantined) {
+    for (const reason of assessment.reasons) reasons[reason] = (reasons[reason] ?? 0) + 1;
+  }
+  return { quarantinedChunks: base.quarantinedChunks + quarantined.length, reasons };
+}
+
+/** Log line, e.g. "3 of 40 chunks quarantined (encoding: 2, too_short: 1)" */
+export function describeQuarantine(summary: QualitySummary, totalChunks: number): string {
+  const reasons = Object.entries(summary.reasons).map(([reason, count]) => `${reason}: ${count}`).join(", ");
+  return `${summary.quarantinedChunks} of ${totalChunks} chunks quarantined (${reasons})`;
+}
+
+/** Rows for the quarantinedChunks table */
+export function toQuarantineRows(
+  quarantined: QuarantinedTextChunk[],
+  target: Pick<InsertQuarantinedChunk, "sourceId" | "collectionName" | "documentId" | "resourceId">
+): InsertQuarantinedChunk[] {
+  return quarantined.map(({ chunk, assessment }) => ({
+    ...target,
+    chunkIndex: chunk.index,
+    text: chunk.text,
+    reasons: assessment.reasons,
+    score: assessment.score,
+    metadata: chunk.metadata,
+  }));
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { countTokens, getEmbeddingProvider, getEmbeddingTokenLimit, getTokenChunkDefaults } from "./tokenizer";
+
+const ENV_KEYS = ["EMBEDDING_PROVIDER", "EMBEDDING_MAX_TOKENS", "CHUNK_SIZE_TOKENS", "CHUNK_OVERLAP_TOKENS"];
+const saved = Object.fromEntries(ENV_KEYS.map(k => [k, process.env[k]]));
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (saved[key] === undefined) delete process.env[key];
+    else process.env[key] = saved[key];
+  }
+});
+
+describe("countTokens", () => {
+  it("counts punctuation as tokens and splits long words into pieces", () => {
+    expect(countTokens("", "gemini")).toBe(0);
+    expect(countTokens("art. 5º", "gemini")).toBe(3); // "art", ".", "5º"
+    expect(countTokens("inconstitucionalidade", "gemini")).toBe(6);
+    expect(countTokens("inconstitucionalidade", "local")).toBe(7);
+  });
+
+  it("estimates more tokens for the e5 tokenizer than for Gemini", () => {
+    const ementa = "PROCESSUAL CIVIL. AGRAVO INTERNO NO RECURSO ESPECIAL. REEXAME DE PROVAS. SÚMULA 7/STJ.";
+    expect(countTokens(ementa, "local")).toBeGreaterThan(countTokens(ementa, "gemini"));
+  });
+});
+
+describe("provider limits", () => {
+  it("reads the provider from EMBEDDING_PROVIDER", () => {
+    delete process.env.EMBEDDING_PROVIDER;
+    expect(getEmbeddingProvider()).toBe("gemini");
+    process.env.EMBEDDING_PROVIDER = "LOCAL";
+    expect(getEmbeddingProvider()).toBe("local");
+  });
+
+  it("subtracts the model overhead from the input limit", () => {
+    expect(getEmbeddingTokenLimit("gemini")).toBe(2048);
+    expect(getEmbeddingTokenLimit("local")).toBe(507);
+    process.env.EMBEDDING_MAX_TOKENS = "256";
+    expect(getEmbeddingTokenLimit("local")).toBe(251);
+  });
+
+  it("caps the configured chunk size at the model limit", () => {
+    expect(getTokenChunkDefaults("local")).toEqual({ size: 384, overlap: 48 });
+    process.env.CHUNK_SIZE_TOKENS = "4000";
+    process.env.CHUNK_OVERLAP_TOKENS = "100";
+    expect(getTokenChunkDefaults("gemini")).toEqual({ size: 2048, overlap: 100 });
+  });
+});
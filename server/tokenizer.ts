@@ -0,0 +1,58 @@
+/**
+ * Token estimation for the configured embedding model.
+ * Chunk sizes can be expressed in tokens so chunks fit the model input:
+ *   - gemini (gemini-embedding-001): 2048 input tokens
+ *   - local (multilingual-e5-base, XLM-R sentencepiece): 512 tokens incl. "passage: " prefix
+ * Neither tokenizer ships as a JS package, so counts are a conservative estimate
+ * tuned for pt-BR legal text (it over-counts rather than under-counts).
+ */
+
+export type EmbeddingProvider = "gemini" | "local";
+
+interface ProviderTokenProfile {
+  /** Hard input limit of the model */
+  maxTokens: number;
+  /** Tokens used by the model besides the chunk text (special tokens, task prefix) */
+  overhead: number;
+  /** Average characters per sub-word token for Portuguese words */
+  charsPerToken: number;
+  /** Default chunk size/overlap in tokens */
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+const TOKEN_PROFILES: Record<EmbeddingProvider, ProviderTokenProfile> = {
+  gemini: { maxTokens: 2048, overhead: 0, charsPerToken: 4, chunkSize: 512, chunkOverlap: 64 },
+  local: { maxTokens: 512, overhead: 5, charsPerToken: 3, chunkSize: 384, chunkOverlap: 48 },
+};
+
+/** Provider from EMBEDDING_PROVIDER (validated in embeddings.ts) */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  return (process.env.EMBEDDING_PROVIDER || "gemini").toLowerCase() === "local" ? "local" : "gemini";
+}
+
+/** Estimated token count of a text for the provider's tokenizer */
+export function countTokens(text: string, provider: EmbeddingProvider = getEmbeddingProvider()): number {
+  const { charsPerToken } = TOKEN_PROFILES[provider];
+  // Words split into sub-word pieces; every punctuation mark is its own token
+  const pieces = text.match(/[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu) ?? [];
+  let tokens = 0;
+  for (const piece of pieces) tokens += Math.max(1, Math.ceil(piece.length / charsPerToken));
+  return tokens;
+}
+
+/** Tokens of chunk text the model accepts before truncating (EMBEDDING_MAX_TOKENS overrides the model limit) */
+export function getEmbeddingTokenLimit(provider: EmbeddingProvider = getEmbeddingProvider()): number {
+  const profile = TOKEN_PROFILES[provider];
+  const maxTokens = Number(process.env.EMBEDDING_MAX_TOKENS || profile.maxTokens);
+  return maxTokens - profile.overhead;
+}
+
+/** Default token-based chunk size and overlap (CHUNK_SIZE_TOKENS / CHUNK_OVERLAP_TOKENS override) */
+export function getTokenChunkDefaults(provider: EmbeddingProvider = getEmbeddingProvider()): { size: number; overlap: number } {
+  const profile = TOKEN_PROFILES[provider];
+  return {
+    size: Math.min(Number(process.env.CHUNK_SIZE_TOKENS || profile.chunkSize), getEmbeddingTokenLimit(provider)),
+    overlap: Number(process.env.CHUNK_OVERLAP_TOKENS || profile.chunkOverlap),
+  };
+}
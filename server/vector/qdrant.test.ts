@@ -4,7 +4,7 @@ vi.mock("../_core/logger", () => ({
   logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
 }));
 
-import { isQdrantConfigured } from "./qdrant";
+import { isQdrantConfigured, deleteCollection } from "./qdrant";
 
 beforeEach(() => {
   vi.clearAllMocks();
@@ -27,3 +27,15 @@ describe("isQdrantConfigured", () => {
     expect(isQdrantConfigured()).toBe(false);
   });
 });
+
+describe("deleteCollection", () => {
+  it("sends DELETE for the collection and tolerates a missing one", async () => {
+    vi.stubEnv("QDRANT_URL", "http://localhost:6333");
+    const fetchMock = vi.fn().mockResolvedValue(new Response("{}", { status: 404 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(deleteCollection("doc_9")).resolves.toBe(true);
+    expect(fetchMock).toHaveBeenCalledWith("http://localhost:6333/collections/doc_9", expect.objectContaining({ method: "DELETE" }));
+    vi.unstubAllGlobals();
+  });
+});
@@ -2,6 +2,7 @@
  * Lightweight Qdrant HTTP client wrapper using fetch.
  * Uses QDRANT_URL from environment.
  */
+import { createHash } from "crypto";
 import { logger } from "../_core/logger";
 
 const _DEFAULT_TIMEOUT_MS = 10_000;
@@ -62,6 +63,14 @@ export async function ensureCollection(collectionName: string, dimension: number
   logger.info({ collectionName, dimension }, "qdrant: collection created");
 }
 
+/** Deterministic point ID: the sha256 of `key` formatted as a UUID (version 5, name-based) */
+export function deterministicPointId(key: string): string {
+  const hex = createHash("sha256").update(key).digest("hex");
+  // Set the RFC 4122 version and variant bits
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
 export type QdrantPoint = {
   id: string | number;
   vector: number[];
@@ -83,12 +92,49 @@ export async function upsertPoints(collectionName: string, points: QdrantPoint[]
   return true;
 }
 
-export async function searchCollection(collectionName: string, vector: number[], limit = 10, withPayload = true) {
+/** Delete the points matching a Qdrant filter ({ must, must_not, should }) */
+export async function deletePointsByFilter(collectionName: string, filter: Record<string, any>) {
+  const url = makeUrl(`/collections/${encodeURIComponent(collectionName)}/points/delete?wait=true`);
+  const res = await fetchWithRetry(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(getQdrantApiKey() ? { "api-key": getQdrantApiKey() } : {}) },
+    body: JSON.stringify({ filter }),
+  });
+  if (!res.ok) {
+    const txt = await res.text().catch(() => "");
+    throw new Error(`qdrant delete failed: ${res.status} ${txt}`);
+  }
+  return true;
+}
+
+/** Drop a collection with all its points (no-op when it does not exist) */
+export async function deleteCollection(collectionName: string) {
+  const url = makeUrl(`/collections/${encodeURIComponent(collectionName)}`);
+  const res = await fetch(url, {
+    method: "DELETE",
+    headers: { "Content-Type": "application/json", ...(getQdrantApiKey() ? { "api-key": getQdrantApiKey() } : {}) },
+  });
+  if (!res.ok && res.status !== 404) {
+    const txt = await res.text().catch(() => "");
+    throw new Error(`qdrant delete collection failed: ${res.status} ${txt}`);
+  }
+  logger.info({ collectionName }, "qdrant: collection deleted");
+  return true;
+}
+
+export async function searchCollection(
+  collectionName: string,
+  vector: number[],
+  limit = 10,
+  withPayload = true,
+  filter?: Record<string, any>
+) {
   const url = makeUrl(`/collections/${encodeURIComponent(collectionName)}/points/search`);
   const body: any = {
     vector,
     limit,
     with_payload: withPayload,
+    ...(filter ? { filter } : {}),
   };
   const res = await fetchWithRetry(url, {
     method: "POST",